@@ -1,5 +1,6 @@
 import { Switch, Route } from "wouter";
 import { Toaster } from "@/components/ui/toaster";
+import { MaintenanceScreen } from "@/components/maintenance/maintenance-notice";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import RegisterPage from "@/pages/register-page";
@@ -27,6 +28,7 @@ import AdminProjectDetailPage from "@/pages/admin-project-detail-page";
 import AdminOrdersPage from "@/pages/admin-orders-page";
 import AdminSuppliersPage from "@/pages/admin-suppliers-page";
 import AdminReportsPage from "@/pages/admin-reports-page";
+import AdminReviewsPage from "@/pages/admin-reviews-page";
 import AdminSettingsPage from "@/pages/admin-settings-page";
 import UserManagementPage from "@/pages/user-management-page";
 import ProviderDashboardPage from "@/pages/provider-dashboard-page";
@@ -43,14 +45,17 @@ import JoinInvitationPage from "@/pages/join-invitation-page";
 import ExpensesPage from "@/pages/expenses-page";
 import ReportsPage from "@/pages/reports-page";
 import CartPage from "@/pages/cart-page";
+import CheckoutPage from "@/pages/checkout-page";
 import SiteMaterialsPage from "@/pages/site-materials-page";
 import ResetPasswordPage from "@/pages/reset-password-page";
 import ProfileSettingsPage from "@/pages/profile-settings-page";
 import ServiceProviderBiddingPage from "@/pages/service-provider-bidding-page";
+import ServiceProviderProfilePage from "@/pages/service-provider-profile-page";
 import { AuthProvider } from "./hooks/use-auth";
 import { OnboardingProvider } from "./hooks/use-onboarding";
 import { RoleOnboardingProvider } from "./hooks/use-role-onboarding";
 import { ChatProvider } from "./hooks/use-chat";
+import { RealtimeProvider } from "./hooks/use-realtime";
 import { CartProvider } from "./hooks/use-cart";
 import { DirectAdminAuthProvider } from "./hooks/use-direct-admin-auth";
 
@@ -87,6 +92,7 @@ function Router() {
       <Route path="/admin-orders" component={AdminOrdersPage} />
       <Route path="/admin-suppliers" component={AdminSuppliersPage} />
       <Route path="/admin-reports" component={AdminReportsPage} />
+      <Route path="/admin-reviews" component={AdminReviewsPage} />
       <Route path="/admin-settings" component={AdminSettingsPage} />
       <ProtectedRoute path="/user-management" component={UserManagementPage} />
       {/* Service Provider Routes */}
@@ -94,14 +100,16 @@ function Router() {
       <Route path="/provider-projects" component={ProviderProjectsPage} />
       <ProtectedRoute path="/supplier-dashboard" component={SupplierDashboardPage} />
       <ProtectedRoute path="/service-provider-bidding" component={ServiceProviderBiddingPage} />
+      <ProtectedRoute path="/service-providers/:id" component={ServiceProviderProfilePage} />
       
       {/* Project expense, reports, and materials routes */}
       <ProtectedRoute path="/projects/:projectId/expenses" component={ExpensesPage} />
       <ProtectedRoute path="/projects/:projectId/reports" component={ReportsPage} />
       <ProtectedRoute path="/projects/:projectId/site-materials" component={SiteMaterialsPage} />
       
-      {/* Cart route */}
+      {/* Cart and checkout routes */}
       <ProtectedRoute path="/cart" component={CartPage} />
+      <ProtectedRoute path="/checkout" component={CheckoutPage} />
       
       {/* Supplier material management routes */}
       <ProtectedRoute path="/materials/list" component={MaterialsListPage} />
@@ -124,16 +132,19 @@ function App() {
   return (
     <AuthProvider>
       <DirectAdminAuthProvider>
-        <ChatProvider>
-          <CartProvider>
-            <OnboardingProvider>
-              <RoleOnboardingProvider>
-                <Router />
-                <Toaster />
-              </RoleOnboardingProvider>
-            </OnboardingProvider>
-          </CartProvider>
-        </ChatProvider>
+        <RealtimeProvider>
+          <ChatProvider>
+            <CartProvider>
+              <OnboardingProvider>
+                <RoleOnboardingProvider>
+                  <Router />
+                  <Toaster />
+                  <MaintenanceScreen />
+                </RoleOnboardingProvider>
+              </OnboardingProvider>
+            </CartProvider>
+          </ChatProvider>
+        </RealtimeProvider>
       </DirectAdminAuthProvider>
     </AuthProvider>
   );
@@ -16,7 +16,8 @@ import {
   FileStack, 
   GanttChart,
   Truck,
-  Hammer
+  Hammer,
+  Star
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -40,6 +41,7 @@ const navigationItems = [
   { name: "Orders", href: "/admin-orders", icon: <ShoppingCart className="h-5 w-5" /> },
   { name: "Reports", href: "/admin-reports", icon: <FileStack className="h-5 w-5" /> },
   { name: "Suppliers", href: "/admin-suppliers", icon: <Truck className="h-5 w-5" /> },
+  { name: "Reviews", href: "/admin-reviews", icon: <Star className="h-5 w-5" /> },
   { name: "Admin Management", href: "/admin-management", icon: <GanttChart className="h-5 w-5" /> },
   { name: "Settings", href: "/admin-settings", icon: <Computer className="h-5 w-5" /> },
 ];
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { EscrowMilestone, EscrowSummary } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useDirectAdminAuth } from "@/hooks/use-direct-admin-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  EscrowStatusBadge,
+  describeEscrowMilestone,
+  formatEscrowAmount,
+} from "@/components/payments/escrow-panel";
+import { Loader2 } from "lucide-react";
+
+type HoldAction = "dispute" | "freeze" | "release_hold";
+
+interface AdminEscrowPanelProps {
+  serviceRequestId: number;
+}
+
+export function AdminEscrowPanel({ serviceRequestId }: AdminEscrowPanelProps) {
+  const { adminUser } = useDirectAdminAuth();
+  const { toast } = useToast();
+  const [holdReason, setHoldReason] = useState("");
+  const queryKey = ["/api/direct-admin/service-requests", serviceRequestId, "escrow"];
+
+  const { data: escrow, isLoading } = useQuery<EscrowSummary>({
+    queryKey,
+    queryFn: async () => {
+      const response = await apiRequest("POST", `/api/direct-admin/service-requests/${serviceRequestId}/escrow`);
+      return response.json();
+    },
+    enabled: !!adminUser,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Escrow update failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const holdMutation = useMutation({
+    mutationFn: async ({ milestoneId, action }: { milestoneId: number; action: HoldAction }) => {
+      const response = await apiRequest("PATCH", `/api/direct-admin/escrow/milestones/${milestoneId}/hold`, {
+        action,
+        reason: holdReason || undefined
+      });
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey });
+      setHoldReason("");
+      toast({
+        title: action === "release_hold" ? "Hold lifted" : "Milestone on hold",
+        description: action === "release_hold"
+          ? "The milestone can move again."
+          : "The milestone's funds can't be released until the hold is lifted.",
+      });
+    },
+    onError,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async (milestoneId: number) => {
+      const response = await apiRequest("POST", `/api/direct-admin/escrow/milestones/${milestoneId}/approve`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Milestone approved",
+        description: "The funds have been released to the service provider.",
+      });
+    },
+    onError,
+  });
+
+  const payoutMutation = useMutation({
+    mutationFn: async (milestoneId: number) => {
+      const response = await apiRequest("POST", `/api/direct-admin/escrow/milestones/${milestoneId}/payout`);
+      return response.json();
+    },
+    onSuccess: (milestone: EscrowMilestone) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: milestone.payoutStatus === "failed" ? "Payout failed again" : "Payout retried",
+        description: describeEscrowMilestone(milestone) || undefined,
+        variant: milestone.payoutStatus === "failed" ? "destructive" : "default",
+      });
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+
+  if (!escrow || escrow.milestones.length === 0) {
+    return <p className="text-sm text-muted-foreground">No escrow has been set up for this request.</p>;
+  }
+
+  const isPending = holdMutation.isPending || approveMutation.isPending || payoutMutation.isPending;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-2 text-sm">
+        <div>
+          <span className="text-muted-foreground">Total</span>
+          <p className="font-medium">{formatEscrowAmount(escrow.total)}</p>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Held</span>
+          <p className="font-medium">{formatEscrowAmount(escrow.funded)}</p>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Released</span>
+          <p className="font-medium">{formatEscrowAmount(escrow.released)}</p>
+        </div>
+        <div>
+          <span className="text-muted-foreground">On Hold</span>
+          <p className="font-medium">{formatEscrowAmount(escrow.onHold)}</p>
+        </div>
+      </div>
+
+      <Textarea
+        value={holdReason}
+        onChange={(e) => setHoldReason(e.target.value)}
+        placeholder="Reason for disputing or freezing a milestone"
+        className="min-h-[60px]"
+      />
+
+      <ol className="space-y-2">
+        {escrow.milestones.map((milestone) => {
+          const held = milestone.status === "disputed" || milestone.status === "frozen";
+          return (
+            <li key={milestone.id} className="bg-muted/50 rounded-md p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium">
+                    {milestone.sequence}. {milestone.title} - {formatEscrowAmount(milestone.amount)}
+                  </p>
+                  {describeEscrowMilestone(milestone) && (
+                    <p className="text-xs text-muted-foreground">{describeEscrowMilestone(milestone)}</p>
+                  )}
+                </div>
+                <EscrowStatusBadge status={milestone.status} />
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {milestone.status === "submitted" && (
+                  <Button size="sm" disabled={isPending} onClick={() => approveMutation.mutate(milestone.id)}>
+                    Approve as Inspector
+                  </Button>
+                )}
+                {milestone.status !== "released" && !held && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={isPending || !holdReason}
+                      onClick={() => holdMutation.mutate({ milestoneId: milestone.id, action: "dispute" })}
+                    >
+                      Dispute
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isPending || !holdReason}
+                      onClick={() => holdMutation.mutate({ milestoneId: milestone.id, action: "freeze" })}
+                    >
+                      Freeze
+                    </Button>
+                  </>
+                )}
+                {held && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isPending}
+                    onClick={() => holdMutation.mutate({ milestoneId: milestone.id, action: "release_hold" })}
+                  >
+                    Lift Hold
+                  </Button>
+                )}
+                {milestone.status === "released" && milestone.payoutStatus === "failed" && (
+                  <Button size="sm" variant="outline" disabled={isPending} onClick={() => payoutMutation.mutate(milestone.id)}>
+                    Retry Payout
+                  </Button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { MaintenanceWindow } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useDirectAdminAuth } from "@/hooks/use-direct-admin-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CalendarClock, Loader2 } from "lucide-react";
+
+export function AdminMaintenanceWindows() {
+  const { adminUser } = useDirectAdminAuth();
+  const { toast } = useToast();
+  // datetime-local values, in the admin's own timezone
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [message, setMessage] = useState("");
+  const queryKey = ["/api/direct-admin/maintenance-windows"];
+
+  const { data: windows = [], isLoading } = useQuery<MaintenanceWindow[]>({
+    queryKey,
+    queryFn: async () => {
+      const response = await apiRequest(
+        "GET",
+        `/api/direct-admin/maintenance-windows`
+      );
+      return response.json();
+    },
+    enabled: !!adminUser,
+  });
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance"] });
+    toast({ title });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Maintenance update failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const scheduleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/direct-admin/maintenance-windows", {
+        startsAt: new Date(startsAt).toISOString(),
+        endsAt: new Date(endsAt).toISOString(),
+        message,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      onSuccess("Maintenance scheduled")();
+      setStartsAt("");
+      setEndsAt("");
+      setMessage("");
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/direct-admin/maintenance-windows/${id}`);
+      return response.json();
+    },
+    onSuccess: onSuccess("Maintenance cancelled"),
+    onError,
+  });
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle>Maintenance Windows</CardTitle>
+        <CardDescription>
+          Users see a banner before a window starts. While it's in progress only admins can use the platform.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : windows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No maintenance is scheduled.</p>
+        ) : (
+          <ul className="space-y-2">
+            {windows.map((window) => {
+              const inProgress = new Date(window.startsAt) <= new Date();
+              return (
+                <li key={window.id} className="flex items-start justify-between gap-2 bg-muted/50 rounded-md p-3">
+                  <div className="text-sm">
+                    <p className="font-medium flex items-center gap-2">
+                      <CalendarClock className="h-4 w-4" />
+                      {format(new Date(window.startsAt), "PPp")} - {format(new Date(window.endsAt), "PPp")}
+                      {inProgress && <Badge variant="destructive">In progress</Badge>}
+                    </p>
+                    <p className="text-muted-foreground">{window.message}</p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={cancelMutation.isPending}
+                    onClick={() => cancelMutation.mutate(window.id)}
+                  >
+                    {inProgress ? "End Now" : "Cancel"}
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="maintenanceStartsAt">Starts</Label>
+            <Input
+              id="maintenanceStartsAt"
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="maintenanceEndsAt">Ends</Label>
+            <Input
+              id="maintenanceEndsAt"
+              type="datetime-local"
+              value={endsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="maintenanceMessage">Message</Label>
+          <Textarea
+            id="maintenanceMessage"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="e.g. We're upgrading our servers. Orders and messages will be unavailable."
+          />
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={() => scheduleMutation.mutate()}
+          disabled={scheduleMutation.isPending || !startsAt || !endsAt || !message.trim()}
+        >
+          {scheduleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Schedule Maintenance
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -1,9 +1,12 @@
 import { useState } from "react";
+import { TwoFactorChallenge } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useDirectAdminAuth } from "@/hooks/use-direct-admin-auth";
+import { TwoFactorChallengeError } from "@/lib/two-factor";
+import { RecoveryCodesList, TwoFactorCodeInput, TwoFactorSetupDetails } from "@/components/auth/two-factor";
 import { Loader2 } from "lucide-react";
 
 export default function DirectAdminLogin() {
@@ -11,7 +14,10 @@ export default function DirectAdminLogin() {
   const [password, setPassword] = useState("");
   const [isPending, setIsPending] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { login } = useDirectAdminAuth();
+  // Set once the password is accepted and a two-factor code is needed too
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [code, setCode] = useState("");
+  const { login, recoveryCodes, acknowledgeRecoveryCodes } = useDirectAdminAuth();
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,11 +30,18 @@ export default function DirectAdminLogin() {
     setIsPending(true);
 
     try {
-      const success = await login(username, password);
+      const success = await login(username, password, challenge ? code : undefined);
       if (!success) {
         setError("Invalid credentials or admin access required");
       }
     } catch (err) {
+      if (err instanceof TwoFactorChallengeError) {
+        // Asking for the code the first time isn't an error; a wrong code is
+        if (challenge) setError(err.message);
+        setChallenge(err.challenge);
+        setCode("");
+        return;
+      }
       setError("Login failed. Please try again.");
       console.error("Login error:", err);
     } finally {
@@ -36,6 +49,77 @@ export default function DirectAdminLogin() {
     }
   };
 
+  const cancelTwoFactor = () => {
+    setChallenge(null);
+    setCode("");
+    setError(null);
+  };
+
+  if (recoveryCodes) {
+    return (
+      <Card className="w-full max-w-md mx-auto shadow-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl">Save Your Recovery Codes</CardTitle>
+          <CardDescription>
+            Two-factor authentication is now on for your account
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <RecoveryCodesList codes={recoveryCodes} />
+        </CardContent>
+        <CardFooter>
+          <Button className="w-full" onClick={acknowledgeRecoveryCodes}>
+            Continue to Admin Dashboard
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  if (challenge) {
+    return (
+      <Card className="w-full max-w-md mx-auto shadow-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl">
+            {challenge.setup ? "Set Up Two-Factor Authentication" : "Two-Factor Authentication"}
+          </CardTitle>
+          <CardDescription>
+            {challenge.setup
+              ? "Admin accounts need two-factor authentication before they can log in"
+              : "Enter the 6-digit code from your authenticator app"}
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleLogin}>
+          <CardContent className="space-y-4">
+            {challenge.setup && <TwoFactorSetupDetails setup={challenge.setup} />}
+            <TwoFactorCodeInput
+              value={code}
+              onChange={setCode}
+              disabled={isPending}
+              allowRecoveryCode={!challenge.setup}
+            />
+            {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+          </CardContent>
+          <CardFooter className="flex flex-col gap-2">
+            <Button type="submit" className="w-full" disabled={isPending || !code}>
+              {isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                "Verify"
+              )}
+            </Button>
+            <Button type="button" variant="ghost" className="w-full" onClick={cancelTwoFactor} disabled={isPending}>
+              Back
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full max-w-md mx-auto shadow-md">
       <CardHeader className="space-y-1">
@@ -57,7 +57,9 @@ export default function ForgotPasswordForm({ onCancel }: { onCancel: () => void
       
       toast({
         title: "Request Failed",
-        description: error.message || "An error occurred while processing your request.",
+        description: error.message?.startsWith("429:")
+          ? "Too many password reset requests. Please wait a while and try again."
+          : error.message || "An error occurred while processing your request.",
         variant: "destructive",
       });
     },
@@ -2,7 +2,9 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useAuth } from "@/hooks/use-auth";
+import { TwoFactorChallenge } from "@shared/schema";
+import { getDashboardPath, useAuth } from "@/hooks/use-auth";
+import { TwoFactorChallengeError } from "@/lib/two-factor";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -15,6 +17,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Loader2 } from "lucide-react";
 import ForgotPasswordForm from "./forgot-password-form";
+import { RecoveryCodesList, TwoFactorCodeInput, TwoFactorSetupDetails } from "./two-factor";
 
 // Login form schema
 const loginSchema = z.object({
@@ -32,9 +35,13 @@ interface LoginFormProps {
 }
 
 export default function LoginForm({ onSuccess, defaultEmail }: LoginFormProps) {
-  const { loginMutation } = useAuth();
+  const { user, loginMutation } = useAuth();
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [showForgotPassword, setShowForgotPassword] = useState(false);
+  // Set once the password is accepted and the server wants a two-factor code too
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
 
   // Initialize form with react-hook-form
   const form = useForm<LoginFormValues>({
@@ -65,28 +72,73 @@ export default function LoginForm({ onSuccess, defaultEmail }: LoginFormProps) {
       
       console.log(`Attempting login with ${isEmail ? 'email' : 'username'}:`, isEmail ? usernameOrEmail : '(hidden)');
       
-      await loginMutation.mutateAsync(loginData);
+      const result = await loginMutation.mutateAsync(challenge ? { ...loginData, code } : loginData);
       
-      console.log("Login successful, calling onSuccess callback");
-      
-      // Call onSuccess callback if provided (e.g., to switch to invitation tab)
-      if (onSuccess) {
-        // Slight delay to ensure the user state is properly updated
-        setTimeout(() => {
-          onSuccess();
-        }, 300);
+      // Two-factor was just set up, so the recovery codes are shown before moving on
+      if (result.recoveryCodes) {
+        setRecoveryCodes(result.recoveryCodes);
+        return;
       }
+      
+      console.log("Login successful, calling onSuccess callback");
+      finishLogin();
     } catch (error: any) {
+      if (error instanceof TwoFactorChallengeError) {
+        // Asking for the code the first time isn't an error; a wrong code is
+        if (challenge) setErrorMessage(error.message);
+        setChallenge(error.challenge);
+        setCode("");
+        return;
+      }
       console.error("Login error:", error);
       setErrorMessage(error.message || "Login failed. Please check your credentials and try again.");
     }
   };
+  
+  const finishLogin = () => {
+    // Call onSuccess callback if provided (e.g., to switch to invitation tab)
+    if (onSuccess) {
+      // Slight delay to ensure the user state is properly updated
+      setTimeout(() => {
+        onSuccess();
+      }, 300);
+    }
+  };
+  
+  const cancelTwoFactor = () => {
+    setChallenge(null);
+    setCode("");
+    setErrorMessage(null);
+  };
 
   // If showing forgot password form, render that instead
   if (showForgotPassword) {
     return <ForgotPasswordForm onCancel={() => setShowForgotPassword(false)} />;
   }
 
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <h3 className="font-semibold">Save your recovery codes</h3>
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button
+          className="w-full"
+          onClick={() => {
+            // On invitation pages the page handles what comes next, as it does for a normal login
+            if (window.location.pathname.startsWith('/join/') || !user) {
+              setRecoveryCodes(null);
+              finishLogin();
+            } else {
+              window.location.href = getDashboardPath(user.role);
+            }
+          }}
+        >
+          I've saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
@@ -96,65 +148,107 @@ export default function LoginForm({ onSuccess, defaultEmail }: LoginFormProps) {
           </div>
         )}
 
-        <FormField
-          control={form.control}
-          name="username"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Username or Email</FormLabel>
-              <FormControl>
-                <Input
-                  placeholder="Enter your username or email"
-                  {...field}
-                  autoComplete="username email"
-                  disabled={loginMutation.isPending}
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
+        {challenge ? (
+          <div className="space-y-4">
+            {challenge.setup ? (
+              <>
+                <h3 className="font-semibold">Set up two-factor authentication</h3>
+                <p className="text-sm text-muted-foreground">
+                  Your account needs two-factor authentication before you can log in.
+                </p>
+                <TwoFactorSetupDetails setup={challenge.setup} />
+              </>
+            ) : (
+              <>
+                <h3 className="font-semibold">Two-factor authentication</h3>
+                <p className="text-sm text-muted-foreground">
+                  Enter the 6-digit code from your authenticator app.
+                </p>
+              </>
+            )}
+            <TwoFactorCodeInput
+              value={code}
+              onChange={setCode}
+              disabled={loginMutation.isPending}
+              allowRecoveryCode={!challenge.setup}
+            />
+            <Button type="submit" className="w-full" disabled={loginMutation.isPending || !code}>
+              {loginMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                "Verify"
+              )}
+            </Button>
+            <Button type="button" variant="ghost" className="w-full" onClick={cancelTwoFactor}>
+              Back
+            </Button>
+          </div>
+        ) : (
+          <>
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username or Email</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Enter your username or email"
+                      {...field}
+                      autoComplete="username email"
+                      disabled={loginMutation.isPending}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
 
-        <FormField
-          control={form.control}
-          name="password"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Password</FormLabel>
-              <FormControl>
-                <Input
-                  type="password"
-                  placeholder="Enter your password"
-                  {...field}
-                  autoComplete="current-password"
-                  disabled={loginMutation.isPending}
-                />
-              </FormControl>
-              <FormMessage />
-              <div className="text-right">
-                <Button 
-                  variant="link" 
-                  className="p-0 h-auto text-xs text-primary" 
-                  type="button"
-                  onClick={() => setShowForgotPassword(true)}
-                >
-                  Forgot your password?
-                </Button>
-              </div>
-            </FormItem>
-          )}
-        />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      placeholder="Enter your password"
+                      {...field}
+                      autoComplete="current-password"
+                      disabled={loginMutation.isPending}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                  <div className="text-right">
+                    <Button 
+                      variant="link" 
+                      className="p-0 h-auto text-xs text-primary" 
+                      type="button"
+                      onClick={() => setShowForgotPassword(true)}
+                    >
+                      Forgot your password?
+                    </Button>
+                  </div>
+                </FormItem>
+              )}
+            />
 
-        <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
-          {loginMutation.isPending ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Logging in...
-            </>
-          ) : (
-            "Log in"
-          )}
-        </Button>
+            <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+              {loginMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Logging in...
+                </>
+              ) : (
+                "Log in"
+              )}
+            </Button>
+          </>
+        )}
       </form>
     </Form>
   );
@@ -0,0 +1,115 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ActiveSession } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+
+const MOBILE_DEVICE = /Android|iOS/;
+
+function describeSession(session: ActiveSession): string {
+  return [
+    session.location,
+    session.ip,
+    session.signedInAt && `signed in ${formatDistanceToNow(new Date(session.signedInAt), { addSuffix: true })}`
+  ].filter(Boolean).join(" · ");
+}
+
+export function SessionsSettings() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/user/sessions"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await apiRequest("DELETE", `/api/user/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({ title: "Session signed out" });
+    },
+    onError: onError("Could not sign out the session"),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/sessions/revoke-others");
+      return res.json() as Promise<{ revoked: number }>;
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({ title: `Signed out of ${revoked} other session${revoked === 1 ? "" : "s"}` });
+    },
+    onError: onError("Could not sign out other sessions"),
+  });
+
+  const isPending = revokeMutation.isPending || revokeOthersMutation.isPending;
+  const hasOtherSessions = sessions?.some(session => !session.current);
+
+  return (
+    <Card className="md:col-span-3">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Active Sessions</CardTitle>
+          {hasOtherSessions && (
+            <Button variant="outline" size="sm" onClick={() => revokeOthersMutation.mutate()} disabled={isPending}>
+              {revokeOthersMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Sign Out Other Sessions
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          Devices you're logged in on. If you don't recognise one, sign it out and change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !sessions ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <div className="divide-y">
+            {sessions.map(session => {
+              const DeviceIcon = MOBILE_DEVICE.test(session.device) ? Smartphone : Monitor;
+              return (
+                <div key={session.id} className="flex items-center gap-4 py-3">
+                  <DeviceIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium">{session.device}</p>
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <p className="truncate text-xs text-muted-foreground">{describeSession(session)}</p>
+                    {!session.current && session.lastSeenAt && (
+                      <p className="text-xs text-muted-foreground">
+                        Last active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(session.id)}
+                      disabled={isPending}
+                    >
+                      <LogOut className="mr-2 h-4 w-4" />
+                      Sign Out
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
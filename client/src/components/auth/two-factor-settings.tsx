@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { RecoveryCodesList, TwoFactorCodeInput, TwoFactorSetupDetails } from "./two-factor";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+// What the card is in the middle of, besides just showing the status
+type TwoFactorAction = "setup" | "regenerate" | "disable" | null;
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [action, setAction] = useState<TwoFactorAction>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+  });
+
+  const reset = () => {
+    setAction(null);
+    setSetup(null);
+    setCode("");
+    setPassword("");
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/setup");
+      return res.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (newSetup) => {
+      setSetup(newSetup);
+      setAction("setup");
+    },
+    onError: onError("Could not start two-factor setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/enable", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: ({ recoveryCodes }) => {
+      reset();
+      setRecoveryCodes(recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+      toast({ title: "Two-factor authentication is on" });
+    },
+    onError: onError("Could not turn on two-factor authentication"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/recovery-codes", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: ({ recoveryCodes }) => {
+      reset();
+      setRecoveryCodes(recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+    },
+    onError: onError("Could not create new recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/user/two-factor/disable", { password });
+    },
+    onSuccess: () => {
+      reset();
+      setRecoveryCodes(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+      toast({ title: "Two-factor authentication is off" });
+    },
+    onError: onError("Could not turn off two-factor authentication"),
+  });
+
+  const isPending = setupMutation.isPending || enableMutation.isPending
+    || regenerateMutation.isPending || disableMutation.isPending;
+
+  return (
+    <Card className="md:col-span-3">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          {status && (
+            <Badge variant={status.enabled ? "default" : "outline"}>
+              {status.enabled ? "On" : "Off"}
+            </Badge>
+          )}
+        </div>
+        <CardDescription>
+          Ask for a code from an authenticator app as well as your password when you log in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : recoveryCodes ? (
+          <div className="space-y-4 max-w-md">
+            <RecoveryCodesList codes={recoveryCodes} />
+            <Button onClick={() => setRecoveryCodes(null)}>I've saved my recovery codes</Button>
+          </div>
+        ) : action === "setup" && setup ? (
+          <div className="space-y-4 max-w-md">
+            <TwoFactorSetupDetails setup={setup} />
+            <TwoFactorCodeInput value={code} onChange={setCode} disabled={isPending} allowRecoveryCode={false} />
+            <div className="flex gap-2">
+              <Button onClick={() => enableMutation.mutate()} disabled={isPending || code.length !== 6}>
+                {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Turn On
+              </Button>
+              <Button variant="outline" onClick={reset} disabled={isPending}>Cancel</Button>
+            </div>
+          </div>
+        ) : action === "regenerate" ? (
+          <div className="space-y-4 max-w-md">
+            <p className="text-sm text-muted-foreground">
+              Enter a code from your authenticator app. Your current recovery codes will stop working.
+            </p>
+            <TwoFactorCodeInput value={code} onChange={setCode} disabled={isPending} />
+            <div className="flex gap-2">
+              <Button onClick={() => regenerateMutation.mutate()} disabled={isPending || !code}>
+                {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create New Codes
+              </Button>
+              <Button variant="outline" onClick={reset} disabled={isPending}>Cancel</Button>
+            </div>
+          </div>
+        ) : action === "disable" ? (
+          <div className="space-y-4 max-w-md">
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-password">Confirm your password</Label>
+              <Input
+                id="two-factor-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                disabled={isPending}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button variant="destructive" onClick={() => disableMutation.mutate()} disabled={isPending || !password}>
+                {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Turn Off
+              </Button>
+              <Button variant="outline" onClick={reset} disabled={isPending}>Cancel</Button>
+            </div>
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm">
+              <ShieldCheck className="h-4 w-4 text-green-600" />
+              <span>
+                {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+              </span>
+            </div>
+            {status.required && (
+              <p className="text-sm text-muted-foreground">
+                Two-factor authentication is required for admin accounts, so it can't be turned off.
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setAction("regenerate")}>New Recovery Codes</Button>
+              {!status.required && (
+                <Button variant="outline" onClick={() => setAction("disable")}>Turn Off</Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <Button onClick={() => setupMutation.mutate()} disabled={isPending}>
+            {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Set Up Two-Factor Authentication
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { TwoFactorSetup } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from "@/components/ui/input-otp";
+import { Copy, Download } from "lucide-react";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  // Offer a recovery code instead of the app's code; not while setting up, when there are none yet
+  allowRecoveryCode?: boolean;
+}
+
+export function TwoFactorCodeInput({ value, onChange, disabled, allowRecoveryCode = true }: TwoFactorCodeInputProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const switchMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    onChange("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {useRecoveryCode ? (
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          disabled={disabled}
+          autoFocus
+        />
+      ) : (
+        <InputOTP
+          maxLength={6}
+          pattern={REGEXP_ONLY_DIGITS}
+          value={value}
+          onChange={onChange}
+          autoComplete="one-time-code"
+          disabled={disabled}
+          autoFocus
+        >
+          <InputOTPGroup>
+            <InputOTPSlot index={0} />
+            <InputOTPSlot index={1} />
+            <InputOTPSlot index={2} />
+          </InputOTPGroup>
+          <InputOTPSeparator />
+          <InputOTPGroup>
+            <InputOTPSlot index={3} />
+            <InputOTPSlot index={4} />
+            <InputOTPSlot index={5} />
+          </InputOTPGroup>
+        </InputOTP>
+      )}
+      {allowRecoveryCode && (
+        <Button variant="link" type="button" className="p-0 h-auto text-xs" onClick={switchMode} disabled={disabled}>
+          {useRecoveryCode ? "Use your authenticator app instead" : "Lost your device? Use a recovery code"}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function TwoFactorSetupDetails({ setup }: { setup: TwoFactorSetup }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with an authenticator app such as Google Authenticator or Authy, then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        <img src={setup.qrCode} alt="Two-factor authentication QR code" className="h-44 w-44 rounded-md border" />
+      </div>
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+        <code className="block break-all rounded-md bg-muted px-3 py-2 text-center text-sm tracking-wider">
+          {setup.secret.match(/.{1,4}/g)?.join(" ")}
+        </code>
+      </div>
+    </div>
+  );
+}
+
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast({ title: "Recovery codes copied" });
+    } catch (error) {
+      toast({ title: "Could not copy", description: "Select the codes and copy them by hand.", variant: "destructive" });
+    }
+  };
+
+  const downloadCodes = () => {
+    const url = URL.createObjectURL(new Blob([codes.join("\n") + "\n"], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Keep these somewhere safe. Each one can be used once to log in if you lose access to your authenticator app,
+        and they won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-3 font-mono text-sm">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" type="button" onClick={copyCodes}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" type="button" onClick={downloadCodes}>
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistance } from "date-fns";
+import { ConversationMessagePage, ConversationSummary, Message } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useRealtime, useRealtimeEvent } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CheckCheck, Loader2, MessageCircle } from "lucide-react";
+
+// Typing is announced at most this often, and shown for a little longer than that
+const TYPING_SEND_INTERVAL_MS = 3000;
+const TYPING_DISPLAY_MS = 4000;
+
+interface ConversationThreadProps {
+  conversation: ConversationSummary;
+  compact?: boolean;
+}
+
+// The project's name for a group chat, or the other person's name for a direct one
+export function getConversationTitle(conversation: ConversationSummary, userId?: number): string {
+  if (conversation.type === "project") {
+    return conversation.projectName || conversation.title || `Project ${conversation.projectId}`;
+  }
+  const other = conversation.participants.find(participant => participant.userId !== userId);
+  return other?.fullName || other?.username || "Conversation";
+}
+
+export function ConversationThread({ conversation, compact = false }: ConversationThreadProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { isConnected, sendTyping } = useRealtime();
+  const [messageText, setMessageText] = useState("");
+  const [olderMessages, setOlderMessages] = useState<Message[]>([]);
+  const [hasOlder, setHasOlder] = useState<boolean | null>(null);
+  const [typing, setTyping] = useState<Record<number, { name: string, until: number }>>({});
+  const lastTypingSentRef = useRef(0);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const isGroup = conversation.type === "project";
+  const messagesKey = `/api/conversations/${conversation.id}/messages`;
+
+  // Switching conversation starts again from the latest page
+  useEffect(() => {
+    setOlderMessages([]);
+    setHasOlder(null);
+    setTyping({});
+  }, [conversation.id]);
+
+  const { data: latestPage, isLoading } = useQuery<ConversationMessagePage>({
+    queryKey: [messagesKey],
+  });
+
+  // Older pages are kept as they're loaded; the latest page is refetched as messages arrive
+  const messages = [...olderMessages, ...(latestPage?.messages || [])]
+    .filter((message, index, all) => all.findIndex(other => other.id === message.id) === index);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [latestPage]);
+
+  const loadOlderMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", `${messagesKey}?before=${messages[0].id}`);
+      return response.json() as Promise<ConversationMessagePage>;
+    },
+    onSuccess: (page) => {
+      setOlderMessages(current => [...page.messages, ...current]);
+      setHasOlder(page.hasMore);
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiRequest("POST", messagesKey, { content });
+      return response.json();
+    },
+    onSuccess: () => {
+      setMessageText("");
+      queryClient.invalidateQueries({ queryKey: [messagesKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Message Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (messageId: number) => {
+      await apiRequest("POST", `/api/conversations/${conversation.id}/read`, { messageId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+  });
+
+  // Reading the thread moves the user's cursor to the newest message
+  const me = conversation.participants.find(participant => participant.userId === user?.id);
+  const newestId = latestPage?.messages[latestPage.messages.length - 1]?.id;
+  useEffect(() => {
+    if (newestId && newestId > (me?.lastReadMessageId || 0) && !markReadMutation.isPending) {
+      markReadMutation.mutate(newestId);
+    }
+  }, [newestId, me?.lastReadMessageId]);
+
+  useRealtimeEvent((event) => {
+    if (event.type === "conversation.typing" && event.conversationId === conversation.id) {
+      setTyping(current => ({ ...current, [event.userId]: { name: event.name, until: Date.now() + TYPING_DISPLAY_MS } }));
+      setTimeout(() => setTyping(current => {
+        const { [event.userId]: entry, ...rest } = current;
+        return entry && entry.until <= Date.now() ? rest : current;
+      }), TYPING_DISPLAY_MS);
+    } else if (event.type === "conversation.message" && event.conversationId === conversation.id) {
+      // Whoever sent a message has stopped typing it
+      setTyping(current => {
+        const { [event.message.senderId]: _, ...rest } = current;
+        return rest;
+      });
+    }
+  });
+
+  const handleTextChange = (value: string) => {
+    setMessageText(value);
+    if (value && Date.now() - lastTypingSentRef.current > TYPING_SEND_INTERVAL_MS) {
+      lastTypingSentRef.current = Date.now();
+      sendTyping(conversation.id);
+    }
+  };
+
+  const handleSendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!messageText.trim()) return;
+    sendMutation.mutate(messageText);
+  };
+
+  const getSenderName = (senderId: number) => {
+    const sender = conversation.participants.find(participant => participant.userId === senderId);
+    return sender?.fullName || sender?.username || "Former member";
+  };
+
+  // Read receipts go under the user's latest message that someone else has read
+  const others = conversation.participants.filter(participant => participant.userId !== user?.id);
+  const ownMessages = messages.filter(message => message.senderId === user?.id);
+  const receiptMessage = [...ownMessages].reverse()
+    .find(message => others.some(participant => (participant.lastReadMessageId || 0) >= message.id));
+  const readBy = receiptMessage
+    ? others.filter(participant => (participant.lastReadMessageId || 0) >= receiptMessage.id)
+    : [];
+
+  const typingNames = Object.values(typing).map(entry => entry.name);
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <ScrollArea className={compact ? "h-[300px] p-4 border rounded-lg" : "flex-grow p-4"}>
+        <div className="space-y-4">
+          {hasOlder !== false && (latestPage?.hasMore || hasOlder) && (
+            <div className="flex justify-center">
+              <Button variant="ghost" size="sm" onClick={() => loadOlderMutation.mutate()} disabled={loadOlderMutation.isPending}>
+                {loadOlderMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load earlier messages
+              </Button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : messages.length > 0 ? (
+            messages.map(message => {
+              const isCurrentUser = message.senderId === user?.id;
+              const senderName = getSenderName(message.senderId);
+              return (
+                <div key={message.id} className={`flex ${isCurrentUser ? "justify-end" : "justify-start"}`}>
+                  <div className={`flex items-start max-w-[70%] ${isCurrentUser ? "flex-row-reverse" : "flex-row"}`}>
+                    <Avatar className={`${compact ? "h-6 w-6" : "h-8 w-8"} ${isCurrentUser ? "ml-2" : "mr-2"}`}>
+                      <AvatarFallback>{senderName.charAt(0).toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <div>
+                      {isGroup && !isCurrentUser && (
+                        <p className="text-xs font-medium text-muted-foreground mb-1">{senderName}</p>
+                      )}
+                      <div
+                        className={`px-3 py-2 rounded-lg text-sm ${
+                          isCurrentUser
+                            ? "bg-primary text-primary-foreground rounded-tr-none"
+                            : "bg-muted rounded-tl-none"
+                        }`}
+                      >
+                        {message.content}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {formatDistance(new Date(message.createdAt), new Date(), { addSuffix: true })}
+                      </p>
+                      {message.id === receiptMessage?.id && (
+                        <p className="text-xs text-muted-foreground mt-1 flex items-center justify-end">
+                          <CheckCheck className="h-3 w-3 mr-1" />
+                          {isGroup ? `Seen by ${readBy.map(participant => participant.fullName || participant.username).join(", ")}` : "Seen"}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })
+          ) : (
+            <div className="h-40 flex flex-col items-center justify-center text-center text-muted-foreground">
+              <MessageCircle className="h-10 w-10 mb-2 opacity-50" />
+              <p>No messages yet</p>
+              <p className="text-sm">Send a message to start the conversation</p>
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+      </ScrollArea>
+
+      <div className={compact ? "pt-2" : "p-3 border-t mt-auto"}>
+        <p className="text-xs text-muted-foreground h-4 mb-1">
+          {typingNames.length > 0 && `${typingNames.join(", ")} ${typingNames.length === 1 ? "is" : "are"} typing...`}
+        </p>
+        <form onSubmit={handleSendMessage} className="flex gap-2">
+          <Input
+            value={messageText}
+            onChange={(e) => handleTextChange(e.target.value)}
+            placeholder="Type your message..."
+            className="flex-1"
+          />
+          <Button
+            type="submit"
+            size={compact ? "sm" : "default"}
+            disabled={!messageText.trim() || sendMutation.isPending}
+          >
+            Send
+          </Button>
+        </form>
+        {!isConnected && (
+          <p className="text-xs text-muted-foreground mt-1">Reconnecting - new messages will appear when you're back online.</p>
+        )}
+      </div>
+    </div>
+  );
+}
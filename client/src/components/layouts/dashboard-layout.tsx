@@ -5,7 +5,9 @@ import { Menu, X, LogOut, HardHat } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { SmartNotificationPanel } from "@/components/notifications/smart-notification-panel";
+import { CommandPalette } from "@/components/search/command-palette";
 import { WelcomeScreen } from "@/components/onboarding/welcome-screen";
+import { MaintenanceBanner } from "@/components/maintenance/maintenance-notice";
 import { useOnboarding } from "@/hooks/use-onboarding";
 
 interface DashboardLayoutProps {
@@ -100,6 +102,7 @@ export default function DashboardLayout({ children, title }: DashboardLayoutProp
           <div className="flex justify-between items-center">
             <h2 className="text-xl font-semibold text-gray-800">{title}</h2>
             <div className="flex items-center space-x-4">
+              <CommandPalette />
               <SmartNotificationPanel />
               <Button 
                 variant="outline" 
@@ -112,8 +115,13 @@ export default function DashboardLayout({ children, title }: DashboardLayoutProp
           </div>
         </header>
 
+        {/* Upcoming maintenance warning */}
+        <div className="mt-20 md:mt-0">
+          <MaintenanceBanner />
+        </div>
+
         {/* Main Content */}
-        <main className="flex-1 bg-gray-100 p-4 md:p-6 mt-20 md:mt-0 overflow-auto">
+        <main className="flex-1 bg-gray-100 p-4 md:p-6 overflow-auto">
           <div className="max-w-full">
             {children}
           </div>
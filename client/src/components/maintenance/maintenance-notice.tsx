@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { MaintenanceStatus } from "@shared/schema";
+import { queryClient, subscribeToMaintenance } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { CalendarClock, Wrench } from "lucide-react";
+
+const formatWindowTime = (time: string | Date) => format(new Date(time), "EEE d MMM, h:mm a");
+
+// Warns users about the next scheduled maintenance window before it starts
+export function MaintenanceBanner() {
+  const { data: maintenance } = useQuery<MaintenanceStatus>({
+    queryKey: ["/api/maintenance"],
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  if (!maintenance?.window || maintenance.active) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200 text-amber-900 text-sm px-4 py-2 flex items-start gap-2">
+      <CalendarClock className="h-4 w-4 mt-0.5 shrink-0" />
+      <p>
+        <span className="font-medium">
+          Scheduled maintenance: {formatWindowTime(maintenance.window.startsAt)} - {formatWindowTime(maintenance.window.endsAt)}.
+        </span>{" "}
+        {maintenance.window.message}
+      </p>
+    </div>
+  );
+}
+
+// Takes over the whole app once the server starts refusing requests for maintenance,
+// and checks back until it's over
+export function MaintenanceScreen() {
+  const [maintenance, setMaintenance] = useState<MaintenanceStatus | null>(null);
+
+  useEffect(() => subscribeToMaintenance(setMaintenance), []);
+
+  const { data: latest, refetch, isFetching } = useQuery<MaintenanceStatus>({
+    queryKey: ["/api/maintenance"],
+    refetchInterval: 30 * 1000,
+    enabled: !!maintenance,
+  });
+
+  useEffect(() => {
+    if (maintenance && latest && !latest.active) {
+      setMaintenance(null);
+      // Reload everything that failed while the platform was down
+      queryClient.invalidateQueries();
+    }
+  }, [maintenance, latest]);
+
+  if (!maintenance) {
+    return null;
+  }
+
+  const currentWindow = latest?.active ? latest.window : maintenance.window;
+  const inProgress = currentWindow && new Date(currentWindow.startsAt) <= new Date();
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-gray-100 flex items-center justify-center p-6">
+      <div className="max-w-md text-center space-y-4">
+        <Wrench className="h-12 w-12 mx-auto text-primary" />
+        <h1 className="text-2xl font-bold">Down for maintenance</h1>
+        <p className="text-muted-foreground">
+          {latest?.active ? latest.message : maintenance.message}
+        </p>
+        {currentWindow && inProgress && (
+          <p className="text-sm text-muted-foreground">
+            We expect to be back by {formatWindowTime(currentWindow.endsAt)}.
+          </p>
+        )}
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          Try Again
+        </Button>
+      </div>
+    </div>
+  );
+}
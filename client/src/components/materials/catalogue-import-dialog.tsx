@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { CatalogueImportResult } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Upload } from "lucide-react";
+
+interface CatalogueImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ACTION_BADGES: Record<string, { label: string, variant: "default" | "secondary" | "destructive" }> = {
+  create: { label: "New", variant: "default" },
+  update: { label: "Update", variant: "secondary" },
+  error: { label: "Error", variant: "destructive" },
+};
+
+// Uploads the catalogue, either as a dry run to preview or for real
+async function uploadCatalogue(file: File, dryRun: boolean): Promise<CatalogueImportResult> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const response = await fetch(`/api/suppliers/materials/import${dryRun ? "?dryRun=true" : ""}`, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  const body = await response.json();
+
+  // A rejected import still comes back with the row results, so it can be shown like a preview
+  if (!response.ok && !body.rows) {
+    throw new Error(body.message || "Failed to import catalogue");
+  }
+  return body;
+}
+
+export function CatalogueImportDialog({ open, onOpenChange }: CatalogueImportDialogProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<CatalogueImportResult | null>(null);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setFile(null);
+      setPreview(null);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (selected: File) => uploadCatalogue(selected, true),
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      toast({ title: "Could not read file", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => uploadCatalogue(file!, false),
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        // Something changed between the preview and the import; show the new problems
+        setPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers/materials"] });
+      toast({
+        title: "Catalogue imported",
+        description: `${result.summary.created} products added, ${result.summary.updated} updated`,
+      });
+      handleOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = (selected: File | undefined) => {
+    setPreview(null);
+    setFile(selected || null);
+    if (selected) {
+      previewMutation.mutate(selected);
+    }
+  };
+
+  const downloadTemplate = async () => {
+    try {
+      const response = await apiRequest("GET", "/api/suppliers/materials/export?format=xlsx");
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.setAttribute("href", url);
+      link.setAttribute("download", "catalogue.xlsx");
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: "Download failed", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel file with one product per row. Rows are matched to your existing products on
+            productCode, or supplierProductId when there's no product code; matches are updated and everything
+            else is added. Prices are in cedis.{" "}
+            <button type="button" className="underline" onClick={downloadTemplate}>
+              Download your current catalogue
+            </button>{" "}
+            to use as a starting point.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          onChange={(e) => handleFileChange(e.target.files?.[0])}
+        />
+
+        {previewMutation.isPending && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{preview.summary.total} rows</Badge>
+              <Badge>{preview.summary.created} new</Badge>
+              <Badge variant="secondary">{preview.summary.updated} updates</Badge>
+              {preview.summary.errors > 0 && (
+                <Badge variant="destructive">{preview.summary.errors} with errors</Badge>
+              )}
+            </div>
+
+            {preview.summary.errors > 0 && (
+              <p className="text-sm text-red-600">
+                Fix the rows below and upload the file again. Nothing is imported until every row is valid.
+              </p>
+            )}
+
+            <div className="border rounded-md max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="w-24">Action</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...preview.rows]
+                    .sort((a, b) => Number(b.action === "error") - Number(a.action === "error"))
+                    .map(row => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{row.name || "-"}</div>
+                          {row.key && <div className="text-xs text-muted-foreground">{row.key}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={ACTION_BADGES[row.action].variant}>{ACTION_BADGES[row.action].label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-red-600">
+                          {row.errors.map((error, index) => <div key={index}>{error}</div>)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!file || !preview || preview.summary.errors > 0 || importMutation.isPending}
+          >
+            {importMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import {preview ? preview.summary.total : ""} Products
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { MaterialReview, MaterialReviewEligibility, MaterialReviewWithDetails, Supplier } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, MessageSquare, Star } from "lucide-react";
+
+// The server accepts up to this many photos per review
+const MAX_REVIEW_PHOTOS = 5;
+
+interface MaterialReviewsProps {
+  materialId: number;
+  supplierId: number;
+}
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: "sm" | "md";
+}
+
+// Five stars, clickable when onChange is given
+export function StarRating({ value, onChange, size = "sm" }: StarRatingProps) {
+  const iconClass = size === "sm" ? "h-4 w-4" : "h-6 w-6";
+
+  return (
+    <div className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map(star => {
+        const icon = (
+          <Star className={`${iconClass} ${star <= value ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`} />
+        );
+        return onChange ? (
+          <button key={star} type="button" onClick={() => onChange(star)} aria-label={`${star} star${star > 1 ? "s" : ""}`}>
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
+
+// Sends the review as multipart form data so the photos go with it
+async function submitReview(materialId: number, form: FormData): Promise<MaterialReview> {
+  const response = await fetch(`/api/materials/${materialId}/reviews`, {
+    method: "POST",
+    body: form,
+    credentials: "include",
+  });
+  const body = await response.json();
+
+  if (!response.ok) {
+    throw new Error(body.error || body.message || "Failed to submit review");
+  }
+  return body;
+}
+
+function ReviewForm({ materialId, onSubmitted }: { materialId: number, onSubmitted: () => void }) {
+  const { toast } = useToast();
+  const [rating, setRating] = useState(0);
+  const [supplierRating, setSupplierRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+
+  const submitMutation = useMutation({
+    mutationFn: () => {
+      const form = new FormData();
+      form.append("rating", String(rating));
+      if (supplierRating) form.append("supplierRating", String(supplierRating));
+      if (comment.trim()) form.append("comment", comment.trim());
+      photos.forEach(photo => form.append("photos", photo));
+      return submitReview(materialId, form);
+    },
+    onSuccess: () => {
+      toast({ title: "Review submitted", description: "Thanks for sharing your experience." });
+      onSubmitted();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not submit review", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Write a review</CardTitle>
+        <CardDescription>Your order of this material has been delivered, so you can rate it.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label>Material rating</Label>
+          <StarRating value={rating} onChange={setRating} size="md" />
+        </div>
+        <div className="space-y-1">
+          <Label>Supplier rating (optional)</Label>
+          <StarRating value={supplierRating} onChange={setSupplierRating} size="md" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="review-comment">Comment</Label>
+          <Textarea
+            id="review-comment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="How did the material hold up?"
+            maxLength={2000}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="review-photos">Photos (up to {MAX_REVIEW_PHOTOS})</Label>
+          <Input
+            id="review-photos"
+            type="file"
+            accept="image/jpeg,image/png,image/gif,image/webp"
+            multiple
+            onChange={(e) => setPhotos(Array.from(e.target.files || []).slice(0, MAX_REVIEW_PHOTOS))}
+          />
+        </div>
+        <Button onClick={() => submitMutation.mutate()} disabled={rating === 0 || submitMutation.isPending}>
+          {submitMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Submit Review
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReplyForm({ review, onReplied }: { review: MaterialReviewWithDetails, onReplied: () => void }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reply, setReply] = useState(review.supplierReply || "");
+
+  const replyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/material-reviews/${review.id}/reply`, { reply });
+      return response.json() as Promise<MaterialReview>;
+    },
+    onSuccess: () => {
+      setOpen(false);
+      onReplied();
+    },
+    onError: () => {
+      toast({ title: "Could not post reply", variant: "destructive" });
+    },
+  });
+
+  if (!open) {
+    return (
+      <Button variant="ghost" size="sm" className="mt-2" onClick={() => setOpen(true)}>
+        <MessageSquare className="mr-2 h-4 w-4" />
+        {review.supplierReply ? "Edit reply" : "Reply"}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      <Textarea value={reply} onChange={(e) => setReply(e.target.value)} placeholder="Reply publicly to this review" maxLength={2000} />
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => replyMutation.mutate()} disabled={!reply.trim() || replyMutation.isPending}>
+          {replyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Post Reply
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+      </div>
+    </div>
+  );
+}
+
+export function MaterialReviews({ materialId, supplierId }: MaterialReviewsProps) {
+  const { user } = useAuth();
+
+  const { data: reviews = [], isLoading } = useQuery<MaterialReviewWithDetails[]>({
+    queryKey: [`/api/materials/${materialId}/reviews`],
+  });
+
+  const { data: eligibility } = useQuery<MaterialReviewEligibility>({
+    queryKey: [`/api/materials/${materialId}/reviews/eligibility`],
+    enabled: user?.role === "client",
+  });
+
+  const { data: supplierProfile } = useQuery<Supplier>({
+    queryKey: ["/api/suppliers/profile"],
+    enabled: user?.role === "supplier",
+  });
+  const isOwnMaterial = supplierProfile?.id === supplierId;
+
+  // A new or moderated review changes the material's rating as well as the list
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/materials/${materialId}/reviews`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/materials/${materialId}/reviews/eligibility`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/materials/public/${materialId}`] });
+  };
+
+  return (
+    <div className="space-y-6">
+      {eligibility?.canReview && <ReviewForm materialId={materialId} onSubmitted={refresh} />}
+      {eligibility && !eligibility.canReview && eligibility.reason && !eligibility.review && (
+        <p className="text-sm text-muted-foreground">{eligibility.reason}</p>
+      )}
+      {eligibility?.review?.status === "hidden" && (
+        <p className="text-sm text-muted-foreground">Your review has been hidden by a moderator.</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : reviews.length === 0 ? (
+        <p className="text-muted-foreground">No reviews yet.</p>
+      ) : (
+        <div className="divide-y">
+          {reviews.map(review => (
+            <div key={review.id} className="py-4">
+              <div className="flex items-start gap-3">
+                <Avatar className="h-9 w-9">
+                  <AvatarFallback>{review.clientName.charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{review.clientName}</span>
+                    <span className="text-xs text-muted-foreground">{format(new Date(review.createdAt), "MMM d, yyyy")}</span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 mt-1">
+                    <StarRating value={review.rating} />
+                    {review.supplierRating && (
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                        Supplier <StarRating value={review.supplierRating} />
+                      </span>
+                    )}
+                  </div>
+                  {review.comment && <p className="mt-2 whitespace-pre-line">{review.comment}</p>}
+                  {review.photos && review.photos.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      {review.photos.map(photo => (
+                        <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                          <img src={photo} alt="Review photo" className="h-20 w-20 rounded-md object-cover border" />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  {review.supplierReply && (
+                    <div className="mt-3 rounded-md bg-muted p-3 text-sm">
+                      <p className="font-medium mb-1">Reply from {review.supplierName}</p>
+                      <p className="whitespace-pre-line">{review.supplierReply}</p>
+                    </div>
+                  )}
+                  {isOwnMaterial && <ReplyForm review={review} onReplied={refresh} />}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,10 @@
-import { Order } from "@shared/schema";
+import { Fragment, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Order, OrderStatusHistoryEntry, SupplierOrderWithSupplier } from "@shared/schema";
 import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
 import {
   Table,
   TableBody,
@@ -10,35 +15,73 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+// Orders from /api/orders carry their fulfilment records, history and allowed status changes
+type OrderRow = Order & {
+  supplierOrders?: SupplierOrderWithSupplier[];
+  statusHistory?: OrderStatusHistoryEntry[];
+  allowedTransitions?: string[];
+};
 
 interface OrderTableProps {
-  orders: Order[];
+  orders: OrderRow[];
   onLoadMore?: () => void;
   hasMore?: boolean;
 }
 
+// Display label and colours for each order status, including pre-state-machine values
+const orderStatusStyles: Record<string, { label: string; className: string }> = {
+  confirmed: { label: "Confirmed", className: "bg-blue-100 text-blue-800 hover:bg-blue-100" },
+  processing: { label: "Confirmed", className: "bg-blue-100 text-blue-800 hover:bg-blue-100" },
+  packed: { label: "Packed", className: "bg-indigo-100 text-indigo-800 hover:bg-indigo-100" },
+  dispatched: { label: "Dispatched", className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100" },
+  in_transit: { label: "Dispatched", className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100" },
+  delivered: { label: "Delivered", className: "bg-green-100 text-green-800 hover:bg-green-100" },
+  cancelled: { label: "Cancelled", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+  returned: { label: "Returned", className: "bg-orange-100 text-orange-800 hover:bg-orange-100" },
+  refunded: { label: "Refunded", className: "bg-gray-100 text-gray-800 hover:bg-gray-100" },
+};
+
+// Button labels for moving an order to each status
+const transitionLabels: Record<string, string> = {
+  packed: "Mark Packed",
+  dispatched: "Mark Dispatched",
+  delivered: "Confirm Delivery",
+  cancelled: "Cancel Order",
+  returned: "Return Order",
+  refunded: "Mark Refunded",
+};
+
+export function OrderStatusBadge({ status, className }: { status: string; className?: string }) {
+  const style = orderStatusStyles[status] || orderStatusStyles.confirmed;
+  return <Badge className={cn(style.className, className)}>{style.label}</Badge>;
+}
+
 export function OrderTable({ orders, onLoadMore, hasMore = false }: OrderTableProps) {
-  const getStatusBadge = (status: string) => {
-    if (status === "delivered") {
-      return (
-        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
-          Delivered
-        </Badge>
-      );
-    } else if (status === "in_transit") {
-      return (
-        <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">
-          In Transit
-        </Badge>
-      );
-    } else {
-      return (
-        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">
-          Processing
-        </Badge>
-      );
-    }
-  };
+  const { toast } = useToast();
+  const [expandedOrderId, setExpandedOrderId] = useState<number | null>(null);
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ orderId, status }: { orderId: number; status: string }) => {
+      const response = await apiRequest("PATCH", `/api/orders/${orderId}`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Order updated",
+        description: "The order status has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update order",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
   const formatDate = (date: Date | string) => {
     try {
@@ -48,14 +91,38 @@ export function OrderTable({ orders, onLoadMore, hasMore = false }: OrderTablePr
     }
   };
 
+  const formatDateTime = (date: Date | string) => {
+    try {
+      return format(new Date(date), "MMM dd, yyyy HH:mm");
+    } catch (e) {
+      return "N/A";
+    }
+  };
+
+  const formatShipping = (supplierOrder: SupplierOrderWithSupplier) => {
+    if (supplierOrder.trackingNumber) {
+      return `${supplierOrder.carrier || "Tracking"}: ${supplierOrder.trackingNumber}`;
+    }
+    return supplierOrder.carrier || "Awaiting dispatch";
+  };
+
   const formatMaterialsList = (items: any[]) => {
     if (!items || !items.length) return "N/A";
-    
+
     return items
       .map((item) => `${item.name || "Material"}`)
       .join(", ");
   };
 
+  const describeHistoryEntry = (order: OrderRow, entry: OrderStatusHistoryEntry) => {
+    const status = orderStatusStyles[entry.toStatus]?.label || entry.toStatus;
+    if (entry.supplierOrderId) {
+      const supplierOrder = order.supplierOrders?.find(s => s.id === entry.supplierOrderId);
+      return `${supplierOrder?.supplierName || "Supplier"}: ${status}`;
+    }
+    return `Order ${status.toLowerCase()}`;
+  };
+
   return (
     <div className="overflow-x-auto">
       <Table>
@@ -81,11 +148,21 @@ export function OrderTable({ orders, onLoadMore, hasMore = false }: OrderTablePr
         <TableBody className="divide-y divide-gray-200">
           {orders.length > 0 ? (
             orders.map((order) => (
-              <TableRow key={order.id}>
+              <Fragment key={order.id}>
+              <TableRow>
                 <TableCell className="px-4 py-3 whitespace-nowrap">
-                  <span className="text-sm font-medium text-gray-800">
+                  <button
+                    type="button"
+                    className="flex items-center text-sm font-medium text-gray-800"
+                    onClick={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)}
+                  >
+                    {expandedOrderId === order.id ? (
+                      <ChevronDown className="h-4 w-4 mr-1 text-gray-400" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 mr-1 text-gray-400" />
+                    )}
                     #{order.orderId}
-                  </span>
+                  </button>
                 </TableCell>
                 <TableCell className="px-4 py-3 whitespace-nowrap">
                   <span className="text-sm text-gray-700">
@@ -98,12 +175,70 @@ export function OrderTable({ orders, onLoadMore, hasMore = false }: OrderTablePr
                   </span>
                 </TableCell>
                 <TableCell className="px-4 py-3 whitespace-nowrap">
-                  {getStatusBadge(order.status)}
+                  <OrderStatusBadge status={order.status} />
                 </TableCell>
                 <TableCell className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
                   {formatDate(order.createdAt)}
                 </TableCell>
               </TableRow>
+              {order.supplierOrders && order.supplierOrders.length > 0 && (
+                <TableRow className="bg-gray-50/50">
+                  <TableCell colSpan={5} className="px-4 py-2">
+                    <div className="space-y-1">
+                      {order.supplierOrders.map((supplierOrder) => (
+                        <div key={supplierOrder.id} className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+                          <span className="font-medium text-gray-700">{supplierOrder.supplierName}</span>
+                          <OrderStatusBadge status={supplierOrder.status} />
+                          <span>{formatShipping(supplierOrder)}</span>
+                          {supplierOrder.deliveryDate && (
+                            <span>Delivery {formatDate(supplierOrder.deliveryDate)}</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )}
+              {expandedOrderId === order.id && (
+                <TableRow className="bg-gray-50/50">
+                  <TableCell colSpan={5} className="px-4 py-3">
+                    <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+                      Status History
+                    </h4>
+                    <ol className="space-y-1 border-l border-gray-200 pl-4">
+                      <li className="text-xs text-gray-600">
+                        <span className="text-gray-400 mr-2">{formatDateTime(order.createdAt)}</span>
+                        Order placed
+                      </li>
+                      {(order.statusHistory || []).map((entry) => (
+                        <li key={entry.id} className="text-xs text-gray-600">
+                          <span className="text-gray-400 mr-2">{formatDateTime(entry.createdAt)}</span>
+                          {describeHistoryEntry(order, entry)}
+                          <span className="text-gray-400"> by {entry.changedByRole}</span>
+                          {entry.note && <span className="italic"> - {entry.note}</span>}
+                        </li>
+                      ))}
+                    </ol>
+
+                    {order.allowedTransitions && order.allowedTransitions.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {order.allowedTransitions.map((status) => (
+                          <Button
+                            key={status}
+                            size="sm"
+                            variant={status === "cancelled" || status === "returned" ? "destructive" : "outline"}
+                            disabled={transitionMutation.isPending}
+                            onClick={() => transitionMutation.mutate({ orderId: order.id, status })}
+                          >
+                            {transitionLabels[status] || status}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              )}
+              </Fragment>
             ))
           ) : (
             <TableRow>
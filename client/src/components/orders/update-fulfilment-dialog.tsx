@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { SupplierOrderWithDetails } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+// Labels for the statuses a supplier can see on their part of an order
+const statusLabels: Record<string, string> = {
+  confirmed: "Confirmed",
+  processing: "Confirmed",
+  packed: "Packed",
+  dispatched: "Dispatched",
+  in_transit: "Dispatched",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+interface UpdateFulfilmentDialogProps {
+  supplierOrder: SupplierOrderWithDetails | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function UpdateFulfilmentDialog({ supplierOrder, onOpenChange }: UpdateFulfilmentDialogProps) {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState({
+    status: "confirmed",
+    carrier: "",
+    trackingNumber: "",
+    deliveryDate: "",
+    note: "",
+  });
+
+  // Reset the form whenever a different order is opened
+  useEffect(() => {
+    if (supplierOrder) {
+      setFormData({
+        status: supplierOrder.status,
+        carrier: supplierOrder.carrier || "",
+        trackingNumber: supplierOrder.trackingNumber || "",
+        deliveryDate: supplierOrder.deliveryDate
+          ? new Date(supplierOrder.deliveryDate).toISOString().split('T')[0]
+          : "",
+        note: "",
+      });
+    }
+  }, [supplierOrder]);
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/suppliers/orders/${supplierOrder!.id}`, {
+        // Only send a status when it's a change, so tracking details can be edited on their own
+        status: formData.status !== supplierOrder!.status ? formData.status : undefined,
+        note: formData.note || undefined,
+        carrier: formData.carrier || null,
+        trackingNumber: formData.trackingNumber || null,
+        deliveryDate: formData.deliveryDate || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Order updated",
+        description: `Fulfilment for order #${supplierOrder!.orderNumber} has been updated.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update order",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={supplierOrder !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Update Fulfilment</DialogTitle>
+          <DialogDescription>
+            {supplierOrder
+              ? `Order #${supplierOrder.orderNumber} - delivering to ${supplierOrder.deliveryAddress}`
+              : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="fulfilment-status">Status</Label>
+            <Select
+              value={formData.status}
+              onValueChange={(value) => setFormData({ ...formData, status: value })}
+            >
+              <SelectTrigger id="fulfilment-status">
+                <SelectValue placeholder="Select status" />
+              </SelectTrigger>
+              <SelectContent>
+                {supplierOrder && (
+                  <SelectItem value={supplierOrder.status}>
+                    {statusLabels[supplierOrder.status] || supplierOrder.status}
+                  </SelectItem>
+                )}
+                {supplierOrder?.allowedTransitions.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {statusLabels[status] || status}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="fulfilment-carrier">Carrier</Label>
+            <Input
+              id="fulfilment-carrier"
+              value={formData.carrier}
+              onChange={(e) => setFormData({ ...formData, carrier: e.target.value })}
+              placeholder="e.g. Own fleet, DHL"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="fulfilment-tracking">Tracking Number</Label>
+            <Input
+              id="fulfilment-tracking"
+              value={formData.trackingNumber}
+              onChange={(e) => setFormData({ ...formData, trackingNumber: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="fulfilment-delivery-date">Delivery Date</Label>
+            <Input
+              id="fulfilment-delivery-date"
+              type="date"
+              value={formData.deliveryDate}
+              onChange={(e) => setFormData({ ...formData, deliveryDate: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="fulfilment-note">Note (Optional)</Label>
+            <Input
+              id="fulfilment-note"
+              value={formData.note}
+              onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+              placeholder="e.g. Reason for cancelling"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => updateMutation.mutate()} disabled={updateMutation.isPending}>
+            {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
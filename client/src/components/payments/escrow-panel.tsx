@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { EscrowMilestone, EscrowSummary, PaymentIntent } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+// Display label and colours for each escrow milestone status
+const escrowStatusStyles: Record<string, { label: string; className: string }> = {
+  awaiting_funding: { label: "Awaiting Funding", className: "bg-gray-100 text-gray-800 hover:bg-gray-100" },
+  funded: { label: "Funded", className: "bg-blue-100 text-blue-800 hover:bg-blue-100" },
+  submitted: { label: "Awaiting Approval", className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100" },
+  released: { label: "Released", className: "bg-green-100 text-green-800 hover:bg-green-100" },
+  disputed: { label: "Disputed", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+  frozen: { label: "Frozen", className: "bg-slate-200 text-slate-800 hover:bg-slate-200" },
+};
+
+const payoutLabels: Record<string, string> = {
+  processing: "Payout processing",
+  paid: "Paid out",
+  failed: "Payout failed",
+};
+
+export const formatEscrowAmount = (amount: number) => `₵${(amount / 100).toFixed(2)}`;
+
+export function EscrowStatusBadge({ status, className }: { status: string; className?: string }) {
+  const style = escrowStatusStyles[status] || escrowStatusStyles.awaiting_funding;
+  return <Badge className={cn(style.className, className)}>{style.label}</Badge>;
+}
+
+// Describes where a milestone's money is, for the line under its title
+export function describeEscrowMilestone(milestone: EscrowMilestone) {
+  if (milestone.status === "released") {
+    return payoutLabels[milestone.payoutStatus || "processing"];
+  }
+  if (milestone.holdReason) {
+    return `On hold: ${milestone.holdReason}`;
+  }
+  if (milestone.fundingIntentId && milestone.status === "awaiting_funding") {
+    return "Payment in progress";
+  }
+  return null;
+}
+
+interface EscrowPanelProps {
+  serviceRequestId: number;
+  // Clients fund and approve milestones; the assigned provider only sees their progress
+  isClient: boolean;
+}
+
+export function EscrowPanel({ serviceRequestId, isClient }: EscrowPanelProps) {
+  const { toast } = useToast();
+  // Milestone being funded, or "all" to fund everything outstanding
+  const [fundingTarget, setFundingTarget] = useState<number | "all" | null>(null);
+  const [method, setMethod] = useState("mobile_money");
+  const [phone, setPhone] = useState("");
+  // One key per funding attempt, so a double-click or retry can't charge twice
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+
+  const { data: escrow, isLoading } = useQuery<EscrowSummary>({
+    queryKey: [`/api/service-requests/${serviceRequestId}/escrow`],
+  });
+
+  const fundMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        "POST",
+        "/api/payments/intents",
+        fundingTarget === "all"
+          ? { purpose: "escrow", serviceRequestId, method, phone: phone || undefined }
+          : { purpose: "milestone", serviceRequestId, milestoneId: fundingTarget, method, phone: phone || undefined },
+        false,
+        { "Idempotency-Key": idempotencyKey }
+      );
+      return response.json() as Promise<PaymentIntent>;
+    },
+    onSuccess: (intent) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/service-requests/${serviceRequestId}/escrow`] });
+      setFundingTarget(null);
+      setIdempotencyKey(crypto.randomUUID());
+
+      const nextAction = intent.nextAction as { type: string; url?: string; instructions?: string } | null;
+      if (nextAction?.type === "redirect" && nextAction.url) {
+        window.location.href = nextAction.url;
+        return;
+      }
+
+      toast({
+        title: intent.status === "failed" ? "Payment failed" : "Payment started",
+        description: intent.status === "failed"
+          ? intent.failureReason || "Please try again."
+          : nextAction?.instructions || `Payment ${intent.reference} is being processed.`,
+        variant: intent.status === "failed" ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to fund escrow",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async (milestoneId: number) => {
+      const response = await apiRequest("POST", `/api/escrow/milestones/${milestoneId}/approve`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/service-requests/${serviceRequestId}/escrow`] });
+      toast({
+        title: "Milestone approved",
+        description: "The funds for this milestone have been released to the service provider.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to approve milestone",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" /> Loading escrow...
+      </div>
+    );
+  }
+
+  // Escrow is only set up once a bid has been awarded
+  if (!escrow || escrow.milestones.length === 0) {
+    return null;
+  }
+
+  const unfunded = escrow.milestones.filter(m => m.status === "awaiting_funding" && !m.fundingIntentId);
+  const fundingAmount = fundingTarget === "all"
+    ? unfunded.reduce((total, m) => total + m.amount, 0)
+    : escrow.milestones.find(m => m.id === fundingTarget)?.amount || 0;
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          <span className="text-sm font-medium">Escrow</span>
+        </div>
+        {isClient && unfunded.length > 1 && (
+          <Button size="sm" onClick={() => setFundingTarget("all")}>
+            Fund All ({formatEscrowAmount(unfunded.reduce((total, m) => total + m.amount, 0))})
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>Held {formatEscrowAmount(escrow.funded)} · Released {formatEscrowAmount(escrow.released)}</span>
+          <span>Total {formatEscrowAmount(escrow.total)}</span>
+        </div>
+        <Progress value={escrow.total ? (escrow.released / escrow.total) * 100 : 0} className="h-2" />
+        {escrow.onHold > 0 && (
+          <p className="text-xs text-red-600">{formatEscrowAmount(escrow.onHold)} is on hold pending admin review</p>
+        )}
+      </div>
+
+      <ol className="space-y-2">
+        {escrow.milestones.map((milestone) => (
+          <li key={milestone.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <div>
+              <p className="font-medium">
+                {milestone.sequence}. {milestone.title} - {formatEscrowAmount(milestone.amount)}
+              </p>
+              {describeEscrowMilestone(milestone) && (
+                <p className="text-xs text-muted-foreground">{describeEscrowMilestone(milestone)}</p>
+              )}
+              {!isClient && milestone.status === "funded" && (
+                <p className="text-xs text-muted-foreground">Post a timeline update for this milestone to request payment</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <EscrowStatusBadge status={milestone.status} />
+              {isClient && milestone.status === "awaiting_funding" && !milestone.fundingIntentId && (
+                <Button size="sm" variant="outline" onClick={() => setFundingTarget(milestone.id)}>
+                  Fund
+                </Button>
+              )}
+              {isClient && milestone.status === "submitted" && (
+                <Button
+                  size="sm"
+                  disabled={approveMutation.isPending}
+                  onClick={() => approveMutation.mutate(milestone.id)}
+                >
+                  Approve & Release
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <Dialog open={fundingTarget !== null} onOpenChange={(open) => !open && setFundingTarget(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Fund Escrow</DialogTitle>
+            <DialogDescription>
+              {formatEscrowAmount(fundingAmount)} will be held in escrow and only released once you approve the work.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="escrow-method">Payment Method</Label>
+              <Select value={method} onValueChange={setMethod}>
+                <SelectTrigger id="escrow-method">
+                  <SelectValue placeholder="Select method" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mobile_money">Mobile Money</SelectItem>
+                  <SelectItem value="card">Card</SelectItem>
+                  <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {method === "mobile_money" && (
+              <div className="space-y-2">
+                <Label htmlFor="escrow-phone">Mobile Money Number</Label>
+                <Input
+                  id="escrow-phone"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  placeholder="e.g. 024 123 4567"
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFundingTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => fundMutation.mutate()}
+              disabled={fundMutation.isPending || (method === "mobile_money" && !phone)}
+            >
+              {fundMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Pay {formatEscrowAmount(fundingAmount)}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { siteReportTypes } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { SITE_REPORT_TYPE_LABELS } from "./site-report-card";
+
+interface CreateSiteReportDialogProps {
+  projectId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyReport = () => ({
+  title: "",
+  description: "",
+  type: "daily",
+  reportDate: format(new Date(), "yyyy-MM-dd"),
+  weather: "",
+  workforcePresent: "",
+  materialsUsed: "",
+  equipmentUsed: "",
+  progressMade: "",
+  challenges: "",
+  actions: "",
+  safetyIncidents: "",
+});
+
+// The free-text fields, laid out two to a row below the summary
+const DETAIL_FIELDS: { key: keyof ReturnType<typeof emptyReport>, label: string, placeholder: string }[] = [
+  { key: "progressMade", label: "Progress Made", placeholder: "e.g. Completed blockwork on the ground floor" },
+  { key: "materialsUsed", label: "Materials Used", placeholder: "e.g. 120 cement blocks, 10 bags of cement" },
+  { key: "equipmentUsed", label: "Equipment Used", placeholder: "e.g. Concrete mixer, scaffolding" },
+  { key: "challenges", label: "Challenges", placeholder: "Anything that slowed work down" },
+  { key: "actions", label: "Actions Taken", placeholder: "What's being done about the challenges" },
+  { key: "safetyIncidents", label: "Safety Incidents", placeholder: "Leave blank if there were none" },
+];
+
+export function CreateSiteReportDialog({ projectId, open, onOpenChange }: CreateSiteReportDialogProps) {
+  const { toast } = useToast();
+  const [report, setReport] = useState(emptyReport);
+
+  const updateField = (key: keyof ReturnType<typeof emptyReport>, value: string) => {
+    setReport(current => ({ ...current, [key]: value }));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/reports`, {
+        ...report,
+        workforcePresent: report.workforcePresent === "" ? null : Number(report.workforcePresent),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/reports`] });
+      toast({ title: "Site report filed" });
+      setReport(emptyReport());
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to file report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Site Report</DialogTitle>
+          <DialogDescription>Record what happened on site so the client and team can follow along.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="reportTitle">Title</Label>
+              <Input
+                id="reportTitle"
+                value={report.title}
+                onChange={(e) => updateField("title", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={report.type} onValueChange={(value) => updateField("type", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {siteReportTypes.map(type => (
+                    <SelectItem key={type} value={type}>{SITE_REPORT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reportDate">Date</Label>
+              <Input
+                id="reportDate"
+                type="date"
+                value={report.reportDate}
+                onChange={(e) => updateField("reportDate", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reportWeather">Weather</Label>
+              <Input
+                id="reportWeather"
+                value={report.weather}
+                onChange={(e) => updateField("weather", e.target.value)}
+                placeholder="e.g. Sunny, light rain in the afternoon"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reportWorkforce">Workers on Site</Label>
+              <Input
+                id="reportWorkforce"
+                type="number"
+                min={0}
+                value={report.workforcePresent}
+                onChange={(e) => updateField("workforcePresent", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reportDescription">Summary</Label>
+            <Textarea
+              id="reportDescription"
+              value={report.description}
+              onChange={(e) => updateField("description", e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {DETAIL_FIELDS.map(field => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`report-${field.key}`}>{field.label}</Label>
+                <Textarea
+                  id={`report-${field.key}`}
+                  value={report[field.key]}
+                  onChange={(e) => updateField(field.key, e.target.value)}
+                  placeholder={field.placeholder}
+                  rows={2}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending || !report.title.trim() || !report.description.trim()}
+          >
+            {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            File Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { ProjectReportSection, projectReportSections } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Loader2, Mail } from "lucide-react";
+
+interface ExportReportDialogProps {
+  project: any;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialSections: ProjectReportSection[];
+}
+
+const SECTION_LABELS: Record<ProjectReportSection, string> = {
+  overview: "Overview",
+  progress: "Progress",
+  financial: "Expenses",
+  materials: "Site Materials",
+  team: "Team",
+  photos: "Photos",
+};
+
+// How far back the report looks; the whole project when there's no day count
+const PERIODS: { value: string, label: string, days: number | null }[] = [
+  { value: "all", label: "Whole project", days: null },
+  { value: "week", label: "Last 7 days", days: 7 },
+  { value: "month", label: "Last 30 days", days: 30 },
+];
+
+export function ExportReportDialog({ project, open, onOpenChange, initialSections }: ExportReportDialogProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions(project.id);
+  const [sections, setSections] = useState<ProjectReportSection[]>(initialSections);
+  const [period, setPeriod] = useState("all");
+  const [photoIds, setPhotoIds] = useState<number[]>([]);
+
+  const images: { id: number, url: string, name?: string }[] = [
+    project.mainImage,
+    ...(Array.isArray(project.additionalImages) ? project.additionalImages : []),
+  ].filter(image => image?.url);
+
+  // Start from the section the export was opened from, with the latest photos picked
+  useEffect(() => {
+    if (open) {
+      setSections(initialSections);
+      setPhotoIds(images.slice(-6).map(image => image.id));
+    }
+  }, [open]);
+
+  const availableSections = projectReportSections.filter(section => section !== "financial" || can("view_financials"));
+
+  const toggleSection = (section: ProjectReportSection) => {
+    setSections(current =>
+      current.includes(section) ? current.filter(item => item !== section) : [...current, section]
+    );
+  };
+
+  const togglePhoto = (id: number) => {
+    setPhotoIds(current => current.includes(id) ? current.filter(item => item !== id) : [...current, id]);
+  };
+
+  const buildOptions = () => {
+    const days = PERIODS.find(item => item.value === period)?.days;
+    return {
+      sections: sections.join(","),
+      photos: photoIds.join(","),
+      ...(days ? { from: format(subDays(new Date(), days - 1), "yyyy-MM-dd"), to: format(new Date(), "yyyy-MM-dd") } : {}),
+    };
+  };
+
+  const downloadMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams(buildOptions());
+      const response = await apiRequest("GET", `/api/projects/${project.id}/report/pdf?${params}`);
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const fileName = disposition.match(/filename="(.+)"/)?.[1] || `project-${project.id}-report.pdf`;
+      return { blob: await response.blob(), fileName };
+    },
+    onSuccess: ({ blob, fileName }) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.setAttribute("href", url);
+      link.setAttribute("download", fileName);
+      link.click();
+      URL.revokeObjectURL(url);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Export Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const emailMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${project.id}/report/email`, buildOptions());
+      return response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({ title: "Report Sent", description: data.message });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isBusy = downloadMutation.isPending || emailMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Project Report</DialogTitle>
+          <DialogDescription>Download a PDF of this project, or have it emailed to you.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Sections</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {availableSections.map(section => (
+                <label key={section} className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={sections.includes(section)} onCheckedChange={() => toggleSection(section)} />
+                  {SECTION_LABELS[section]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Period</Label>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map(item => (
+                  <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {sections.includes("photos") && (
+            <div className="space-y-2">
+              <Label>Photos ({photoIds.length} selected)</Label>
+              {images.length > 0 ? (
+                <div className="grid grid-cols-4 gap-2">
+                  {images.map(image => (
+                    <button
+                      key={image.id}
+                      type="button"
+                      onClick={() => togglePhoto(image.id)}
+                      className={`relative rounded-md overflow-hidden border-2 ${photoIds.includes(image.id) ? "border-primary" : "border-transparent opacity-60"}`}
+                    >
+                      <img src={image.url} alt={image.name || "Project photo"} className="h-16 w-full object-cover" />
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">This project has no photos yet.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => emailMutation.mutate()} disabled={isBusy || sections.length === 0}>
+            {emailMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+            Email to Me
+          </Button>
+          <Button onClick={() => downloadMutation.mutate()} disabled={isBusy || sections.length === 0}>
+            {downloadMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
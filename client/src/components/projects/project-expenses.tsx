@@ -3,6 +3,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Project } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -128,6 +129,7 @@ const PAYMENT_METHODS = [
 export function ProjectExpenses({ project, canEdit }: ProjectExpensesProps) {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { can } = usePermissions(project.id);
   const [addExpenseDialogOpen, setAddExpenseDialogOpen] = useState(false);
   
   // Form state
@@ -144,14 +146,7 @@ export function ProjectExpenses({ project, canEdit }: ProjectExpensesProps) {
   });
   const [formErrors, setFormErrors] = useState<{[key: string]: string}>({});
   
-  // Determine if user can add expenses (client, contractor, or project manager)
-  const isClient = user?.id === project.clientId;
-  const isContractorOrManager = project.teamMembers && Array.isArray(project.teamMembers) &&
-    project.teamMembers.some(member => 
-      member.userId === user?.id && 
-      (member.role === "contractor" || member.role === "project_manager")
-    );
-  const canAddExpenses = canEdit && (isClient || isContractorOrManager || user?.role === "admin");
+  const canAddExpenses = canEdit && can("record_expenses");
   
   // Get expenses
   const { data: expensesData, isLoading: expensesLoading } = useQuery({
@@ -372,12 +367,12 @@ export function ProjectExpenses({ project, canEdit }: ProjectExpensesProps) {
   };
   
   // Check if user can approve expenses
-  const canApproveExpenses = isClient || user?.role === "admin";
+  const canApproveExpenses = can("approve_expenses");
   
   // Check if user can delete an expense
   const canDeleteExpense = (expense: Expense) => {
     const isRecorder = expense.recordedBy?.userId === user?.id;
-    return isClient || isRecorder || user?.role === "admin";
+    return isRecorder || canApproveExpenses;
   };
   
   // Calculate category percentages for chart
@@ -1,4 +1,7 @@
 import { useState, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ProjectReportSection, SiteReportPage, projectReportSections } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
@@ -17,8 +20,11 @@ import {
   DollarSign,
   Package2,
   Users,
+  HardHat,
 } from "lucide-react";
 import { format } from "date-fns";
+import { SITE_REPORT_TYPE_LABELS } from "./site-report-card";
+import { ExportReportDialog } from "./export-report-dialog";
 
 export interface ProjectReportsProps {
   project: any;
@@ -51,6 +57,17 @@ export function ProjectReports({
   teamMembers
 }: ProjectReportsProps) {
   const [activeTab, setActiveTab] = useState("progress");
+  // Sections the export dialog opens with; each tab starts from its own section, with the overview for context
+  const [exportSections, setExportSections] = useState<ProjectReportSection[] | null>(null);
+
+  // The most recent site reports filed for the project
+  const { data: siteReportsPage } = useQuery<SiteReportPage>({
+    queryKey: [`/api/projects/${project.id}/reports`, { pageSize: 100 }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/projects/${project.id}/reports?pageSize=100`);
+      return response.json();
+    },
+  });
   
   // Calculate progress statistics
   const progressStats = useMemo(() => {
@@ -274,11 +291,11 @@ export function ProjectReports({
     
     // Get team member join dates
     const joinDates = [...teamMembers]
-      .sort((a, b) => new Date(a.joinedAt || a.createdAt).getTime() - new Date(b.joinedAt || b.createdAt).getTime())
+      .sort((a, b) => new Date(a.addedAt || a.joinedAt || a.createdAt).getTime() - new Date(b.addedAt || b.joinedAt || b.createdAt).getTime())
       .map(member => ({
         username: member.username || `Member ${member.userId}`,
         role: member.role,
-        joinDate: formatDate(member.joinedAt || member.createdAt),
+        joinDate: formatDate(member.addedAt || member.joinedAt || member.createdAt),
       }));
     
     return {
@@ -288,6 +305,57 @@ export function ProjectReports({
     };
   }, [teamMembers]);
   
+  // Calculate site report statistics
+  const siteReportStats = useMemo(() => {
+    const reports = siteReportsPage?.reports || [];
+
+    const typeBreakdown = Object.entries(
+      reports.reduce<Record<string, number>>((counts, report) => {
+        counts[report.type] = (counts[report.type] || 0) + 1;
+        return counts;
+      }, {})
+    )
+      .map(([type, count]) => ({
+        type,
+        count,
+        percentage: Math.round((count / reports.length) * 100)
+      }))
+      .sort((a, b) => b.count - a.count);
+
+    // Average workforce only counts the reports that recorded a head count
+    const staffedReports = reports.filter(report => report.workforcePresent !== null);
+    const averageWorkforce = staffedReports.length > 0
+      ? Math.round(staffedReports.reduce((sum, report) => sum + (report.workforcePresent || 0), 0) / staffedReports.length)
+      : 0;
+
+    const safetyIncidents = reports
+      .filter(report => report.safetyIncidents)
+      .map(report => ({
+        title: report.title,
+        date: formatDate(report.reportDate),
+        description: report.safetyIncidents as string
+      }));
+
+    const recentChallenges = reports
+      .filter(report => report.challenges)
+      .slice(0, 5)
+      .map(report => ({
+        title: report.title,
+        date: formatDate(report.reportDate),
+        challenges: report.challenges as string,
+        actions: report.actions
+      }));
+
+    return {
+      totalReports: siteReportsPage?.total || 0,
+      typeBreakdown,
+      averageWorkforce,
+      safetyIncidents,
+      recentChallenges,
+      lastReportDate: reports.length > 0 ? formatDate(reports[0].reportDate) : null
+    };
+  }, [siteReportsPage]);
+  
   // Calculate project overview statistics
   const overviewStats = useMemo(() => {
     // Project start date and duration
@@ -338,7 +406,7 @@ export function ProjectReports({
   return (
     <div className="space-y-6">
       <Tabs defaultValue={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid grid-cols-5 mb-6">
+        <TabsList className="grid grid-cols-6 mb-6">
           <TabsTrigger value="overview" className="flex items-center text-xs sm:text-sm">
             <ClipboardList className="h-4 w-4 mr-2" />
             <span className="hidden sm:inline">Overview</span>
@@ -364,6 +432,11 @@ export function ProjectReports({
             <span className="hidden sm:inline">Team</span>
             <span className="sm:hidden">Team</span>
           </TabsTrigger>
+          <TabsTrigger value="site" className="flex items-center text-xs sm:text-sm">
+            <HardHat className="h-4 w-4 mr-2" />
+            <span className="hidden sm:inline">Site</span>
+            <span className="sm:hidden">Site</span>
+          </TabsTrigger>
         </TabsList>
         
         {/* Overview Report */}
@@ -376,9 +449,9 @@ export function ProjectReports({
                   Key metrics and performance indicators for your project
                 </p>
               </div>
-              <Button variant="outline" size="sm" className="self-start">
+              <Button variant="outline" size="sm" className="self-start" onClick={() => setExportSections([...projectReportSections])}>
                 <Download className="h-4 w-4 mr-2" />
-                Export Report
+                Export PDF
               </Button>
             </div>
             
@@ -583,9 +656,9 @@ export function ProjectReports({
                   Detailed analysis of project milestones and progress updates
                 </p>
               </div>
-              <Button variant="outline" size="sm" className="self-start">
+              <Button variant="outline" size="sm" className="self-start" onClick={() => setExportSections(["overview", "progress", "photos"])}>
                 <Download className="h-4 w-4 mr-2" />
-                Export Report
+                Export PDF
               </Button>
             </div>
             
@@ -703,9 +776,9 @@ export function ProjectReports({
                   Detailed breakdown of project expenses and financial metrics
                 </p>
               </div>
-              <Button variant="outline" size="sm" className="self-start">
+              <Button variant="outline" size="sm" className="self-start" onClick={() => setExportSections(["overview", "financial"])}>
                 <Download className="h-4 w-4 mr-2" />
-                Export Report
+                Export PDF
               </Button>
             </div>
             
@@ -822,9 +895,9 @@ export function ProjectReports({
                   Inventory analysis and site materials tracking
                 </p>
               </div>
-              <Button variant="outline" size="sm" className="self-start">
+              <Button variant="outline" size="sm" className="self-start" onClick={() => setExportSections(["overview", "materials"])}>
                 <Download className="h-4 w-4 mr-2" />
-                Export Report
+                Export PDF
               </Button>
             </div>
             
@@ -950,9 +1023,9 @@ export function ProjectReports({
                   Project team composition and member contributions
                 </p>
               </div>
-              <Button variant="outline" size="sm" className="self-start">
+              <Button variant="outline" size="sm" className="self-start" onClick={() => setExportSections(["overview", "team"])}>
                 <Download className="h-4 w-4 mr-2" />
-                Export Report
+                Export PDF
               </Button>
             </div>
             
@@ -1067,7 +1140,132 @@ export function ProjectReports({
             </div>
           </div>
         </TabsContent>
+
+        {/* Site Report */}
+        <TabsContent value="site">
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Site Report</h3>
+              <p className="text-sm text-muted-foreground mb-4">
+                What the team has reported from site
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex flex-col items-center text-center p-2">
+                    <ClipboardList className="h-10 w-10 text-primary mb-2" />
+                    <h3 className="text-3xl font-bold mb-1">{siteReportStats.totalReports}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {siteReportStats.lastReportDate ? `Reports filed, last on ${siteReportStats.lastReportDate}` : "Reports filed"}
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex flex-col items-center text-center p-2">
+                    <Users className="h-10 w-10 text-primary mb-2" />
+                    <h3 className="text-3xl font-bold mb-1">{siteReportStats.averageWorkforce}</h3>
+                    <p className="text-sm text-muted-foreground">Average Workers on Site</p>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex flex-col items-center text-center p-2">
+                    <AlertTriangle className={`h-10 w-10 mb-2 ${siteReportStats.safetyIncidents.length > 0 ? "text-red-500" : "text-primary"}`} />
+                    <h3 className="text-3xl font-bold mb-1">{siteReportStats.safetyIncidents.length}</h3>
+                    <p className="text-sm text-muted-foreground">Reports with Safety Incidents</p>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+              <Card>
+                <CardContent className="p-4">
+                  <h4 className="text-sm font-medium mb-3 flex items-center">
+                    <BarChart3 className="h-4 w-4 mr-2 text-primary" />
+                    Reports by Type
+                  </h4>
+
+                  {siteReportStats.typeBreakdown.length > 0 ? (
+                    <div className="space-y-3">
+                      {siteReportStats.typeBreakdown.map((entry, index) => (
+                        <div key={index}>
+                          <div className="flex justify-between items-center mb-1">
+                            <span className="text-sm">{SITE_REPORT_TYPE_LABELS[entry.type] || entry.type}</span>
+                            <div className="text-sm flex items-center">
+                              <span className="font-medium mr-2">{entry.count}</span>
+                              <Badge variant="outline" className="text-xs">
+                                {entry.percentage}%
+                              </Badge>
+                            </div>
+                          </div>
+                          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-primary"
+                              style={{ width: `${entry.percentage}%` }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted-foreground text-center py-4">
+                      No site reports filed yet
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent className="p-4">
+                  <h4 className="text-sm font-medium mb-3 flex items-center">
+                    <AlertTriangle className="h-4 w-4 mr-2 text-primary" />
+                    Recent Challenges
+                  </h4>
+
+                  {siteReportStats.recentChallenges.length > 0 ? (
+                    <div className="space-y-4">
+                      {siteReportStats.recentChallenges.map((entry, index) => (
+                        <div key={index}>
+                          <div className="flex justify-between items-center">
+                            <span className="font-medium text-sm">{entry.title}</span>
+                            <span className="text-xs text-muted-foreground">{entry.date}</span>
+                          </div>
+                          <p className="text-sm text-muted-foreground">{entry.challenges}</p>
+                          {entry.actions && (
+                            <p className="text-sm mt-1">
+                              <CheckCircle2 className="h-3 w-3 inline mr-1 text-green-600" />
+                              {entry.actions}
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted-foreground text-center py-4">
+                      No challenges reported
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </TabsContent>
       </Tabs>
+
+      <ExportReportDialog
+        project={project}
+        open={exportSections !== null}
+        onOpenChange={(open) => !open && setExportSections(null)}
+        initialSections={exportSections || []}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { SiteReportWithDetails } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, Calendar, CloudSun, Loader2, MessageSquare, User, Users } from "lucide-react";
+
+export const SITE_REPORT_TYPE_LABELS: Record<string, string> = {
+  daily: "Daily Report",
+  progress: "Progress Update",
+  issue: "Issue",
+  safety: "Safety",
+  inspection: "Inspection",
+};
+
+interface SiteReportCardProps {
+  report: SiteReportWithDetails;
+  canComment: boolean;
+}
+
+// The structured fields shown on a report, in the order they're filled in on site
+const REPORT_FIELDS: { key: keyof SiteReportWithDetails, label: string }[] = [
+  { key: "progressMade", label: "Progress Made" },
+  { key: "materialsUsed", label: "Materials Used" },
+  { key: "equipmentUsed", label: "Equipment Used" },
+  { key: "challenges", label: "Challenges" },
+  { key: "actions", label: "Actions Taken" },
+];
+
+export function SiteReportCard({ report, canComment }: SiteReportCardProps) {
+  const { toast } = useToast();
+  const [comment, setComment] = useState("");
+  const [showComments, setShowComments] = useState(false);
+  const photos = (report.photos as string[]) || [];
+
+  const commentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        "POST",
+        `/api/projects/${report.projectId}/reports/${report.id}/comments`,
+        { comment }
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      setComment("");
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${report.projectId}/reports`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add comment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="overflow-hidden">
+      <CardHeader className="p-4 border-b bg-gray-50">
+        <div className="flex justify-between items-start gap-2">
+          <div>
+            <CardTitle className="text-base font-medium">{report.title}</CardTitle>
+            <div className="flex flex-wrap gap-3 mt-1 text-sm text-gray-500">
+              <span className="flex items-center">
+                <Calendar className="w-3.5 h-3.5 mr-1" />
+                {format(new Date(report.reportDate), "EEE d MMM yyyy")}
+              </span>
+              <span className="flex items-center">
+                <User className="w-3.5 h-3.5 mr-1" />
+                {report.author?.fullName || report.author?.username || "Unknown"}
+              </span>
+              {report.weather && (
+                <span className="flex items-center">
+                  <CloudSun className="w-3.5 h-3.5 mr-1" />
+                  {report.weather}
+                </span>
+              )}
+              {report.workforcePresent !== null && (
+                <span className="flex items-center">
+                  <Users className="w-3.5 h-3.5 mr-1" />
+                  {report.workforcePresent} on site
+                </span>
+              )}
+            </div>
+          </div>
+          <Badge variant={report.type === "issue" || report.type === "safety" ? "destructive" : "outline"}>
+            {SITE_REPORT_TYPE_LABELS[report.type] || report.type}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 space-y-3">
+        <p>{report.description}</p>
+
+        {report.safetyIncidents && (
+          <div className="flex items-start gap-2 rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-800">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <p><span className="font-medium">Safety incidents:</span> {report.safetyIncidents}</p>
+          </div>
+        )}
+
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+          {REPORT_FIELDS.filter(field => report[field.key]).map(field => (
+            <div key={field.key}>
+              <dt className="font-medium text-gray-700">{field.label}</dt>
+              <dd className="text-gray-600 whitespace-pre-line">{String(report[field.key])}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {photos.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {photos.map((url, index) => (
+              <a key={index} href={url} target="_blank" rel="noreferrer">
+                <img src={url} alt={`Site photo ${index + 1}`} className="h-20 w-20 object-cover rounded-md border" />
+              </a>
+            ))}
+          </div>
+        )}
+
+        <div className="border-t pt-3">
+          <Button variant="ghost" size="sm" onClick={() => setShowComments(!showComments)}>
+            <MessageSquare className="h-4 w-4 mr-2" />
+            {report.comments.length === 1 ? "1 comment" : `${report.comments.length} comments`}
+          </Button>
+
+          {showComments && (
+            <div className="mt-2 space-y-3">
+              {report.comments.map(reportComment => (
+                <div key={reportComment.id} className="bg-muted/50 rounded-md p-3 text-sm">
+                  <p className="font-medium">
+                    {reportComment.author?.username || "Unknown"}
+                    <span className="ml-2 font-normal text-xs text-muted-foreground">
+                      {format(new Date(reportComment.createdAt), "d MMM, h:mm a")}
+                    </span>
+                  </p>
+                  <p className="whitespace-pre-line">{reportComment.text}</p>
+                </div>
+              ))}
+
+              {canComment && (
+                <div className="space-y-2">
+                  <Textarea
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder="Add a comment..."
+                    rows={2}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => commentMutation.mutate()}
+                    disabled={commentMutation.isPending || !comment.trim()}
+                  >
+                    {commentMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Comment
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ProviderReview } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { StarRating } from "@/components/materials/material-reviews";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Star } from "lucide-react";
+
+// The completed job being reviewed: a service request or a project
+type ProviderReviewDialogProps =
+  | { serviceRequestId: number, projectId?: undefined, providerName?: string }
+  | { projectId: number, serviceRequestId?: undefined, providerName?: string };
+
+export function ProviderReviewDialog({ serviceRequestId, projectId, providerName }: ProviderReviewDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+
+  const { data: myReviews = [] } = useQuery<ProviderReview[]>({
+    queryKey: ["/api/provider-reviews/mine"],
+  });
+  const existing = myReviews.find(review => serviceRequestId
+    ? review.serviceRequestId === serviceRequestId
+    : review.projectId === projectId);
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/provider-reviews", {
+        serviceRequestId,
+        projectId,
+        rating,
+        comment: comment.trim() || undefined,
+      });
+      return response.json() as Promise<ProviderReview>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/provider-reviews/mine"] });
+      toast({ title: "Review submitted", description: "Thanks for rating your service provider." });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not submit review", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (existing) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        You rated this job <StarRating value={existing.rating} />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <Star className="mr-2 h-4 w-4" />
+        Review {providerName || "provider"}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Review {providerName || "your service provider"}</DialogTitle>
+            <DialogDescription>
+              Your rating helps other clients and our team choose providers for future work.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-1">
+              <Label>Rating</Label>
+              <StarRating value={rating} onChange={setRating} size="md" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="provider-review-comment">Comment</Label>
+              <Textarea
+                id="provider-review-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="How was the quality of the work, communication and timekeeping?"
+                maxLength={2000}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={() => submitMutation.mutate()} disabled={rating === 0 || submitMutation.isPending}>
+              {submitMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Submit Review
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
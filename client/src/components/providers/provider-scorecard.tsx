@@ -0,0 +1,95 @@
+import { Link } from "wouter";
+import { ProviderScorecard as Scorecard } from "@shared/schema";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { CalendarCheck, Clock, Coins, Star, Trophy } from "lucide-react";
+
+interface ProviderScorecardProps {
+  scorecard: Scorecard | null | undefined;
+  // Links the scorecard to the provider's full profile
+  showProfileLink?: boolean;
+  compact?: boolean;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function formatResponseTime(minutes: number): string {
+  if (minutes < 60) return `${Math.max(1, Math.round(minutes))} min`;
+  if (minutes < 60 * 24) return `${(minutes / 60).toFixed(1)} h`;
+  return `${(minutes / (60 * 24)).toFixed(1)} days`;
+}
+
+// Over budget is shown as a plus, since that's what the client ends up paying on top of the bid
+function formatVariance(variance: number): string {
+  const percent = Math.round(variance * 100);
+  return percent > 0 ? `+${percent}%` : `${percent}%`;
+}
+
+export function ProviderScorecard({ scorecard, showProfileLink = false, compact = false }: ProviderScorecardProps) {
+  if (!scorecard) {
+    return <p className="text-xs text-muted-foreground">No track record available</p>;
+  }
+
+  const metrics = [
+    {
+      icon: Star,
+      label: "Rating",
+      value: scorecard.averageRating !== null ? `${scorecard.averageRating.toFixed(1)}/5` : "—",
+      detail: `${scorecard.reviewCount} client review${scorecard.reviewCount === 1 ? "" : "s"}`,
+    },
+    {
+      icon: CalendarCheck,
+      label: "On time",
+      value: scorecard.onTimeRate !== null ? formatPercent(scorecard.onTimeRate) : "—",
+      detail: `${scorecard.onTimeSample} of ${scorecard.completedJobs} completed jobs measured against the bid's timeframe`,
+    },
+    {
+      icon: Coins,
+      label: "Budget",
+      value: scorecard.budgetVariance !== null ? formatVariance(scorecard.budgetVariance) : "—",
+      detail: `Average final cost against the bid, over ${scorecard.budgetSample} completed project${scorecard.budgetSample === 1 ? "" : "s"}`,
+    },
+    {
+      icon: Trophy,
+      label: "Win rate",
+      value: scorecard.winRate !== null ? formatPercent(scorecard.winRate) : "—",
+      detail: `${scorecard.bidsWon} of ${scorecard.bidsDecided} decided bids won`,
+    },
+    {
+      icon: Clock,
+      label: "Replies in",
+      value: scorecard.medianResponseMinutes !== null ? formatResponseTime(scorecard.medianResponseMinutes) : "—",
+      detail: `Median reply time to direct messages, over ${scorecard.responseSample} replies in the last 90 days`,
+    },
+  ];
+
+  return (
+    <div>
+      <TooltipProvider>
+        <div className={`grid gap-2 ${compact ? "grid-cols-3 sm:grid-cols-5" : "grid-cols-2 md:grid-cols-5"}`}>
+          {metrics.map(({ icon: Icon, label, value, detail }) => (
+            <Tooltip key={label}>
+              <TooltipTrigger asChild>
+                <div className={`rounded-md border bg-muted/40 ${compact ? "p-1.5" : "p-3"}`}>
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Icon className="h-3 w-3" />
+                    {label}
+                  </div>
+                  <p className={compact ? "text-sm font-semibold" : "text-lg font-semibold"}>{value}</p>
+                </div>
+              </TooltipTrigger>
+              <TooltipContent>{detail}</TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+      </TooltipProvider>
+      <div className="flex justify-between items-center mt-1 text-xs text-muted-foreground">
+        <span>{scorecard.completedJobs} completed job{scorecard.completedJobs === 1 ? "" : "s"}</span>
+        {showProfileLink && (
+          <Link href={`/service-providers/${scorecard.serviceProviderId}`} className="text-primary hover:underline">
+            View profile
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
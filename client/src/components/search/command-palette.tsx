@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { SearchResponse, SearchResult, SearchResultType } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Briefcase, Building2, Loader2, MessageSquare, Package, Search } from "lucide-react";
+
+// Waits for a pause in typing before searching
+const SEARCH_DELAY_MS = 200;
+
+const RESULT_GROUPS: { type: SearchResultType, heading: string, icon: typeof Package }[] = [
+  { type: "project", heading: "Projects", icon: Building2 },
+  { type: "material", heading: "Materials", icon: Package },
+  { type: "service_request", heading: "Service Requests", icon: Briefcase },
+  { type: "message", heading: "Messages", icon: MessageSquare },
+];
+
+export function CommandPalette() {
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [query, setQuery] = useState("");
+
+  // Ctrl+K or Cmd+K opens the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(isOpen => !isOpen);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(text.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  const { data, isFetching } = useQuery<SearchResponse>({
+    queryKey: [`/api/search?q=${encodeURIComponent(query)}`],
+    enabled: open && query.length >= 2,
+    placeholderData: keepPreviousData,
+  });
+
+  const results = query.length >= 2 ? data?.results || [] : [];
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setText("");
+      setQuery("");
+    }
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    handleOpenChange(false);
+    navigate(result.url);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="w-64 justify-start text-muted-foreground"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="mr-2 h-4 w-4" />
+        Search...
+        <CommandShortcut>Ctrl K</CommandShortcut>
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          {/* Results are already ranked by the server, so cmdk's own filtering is turned off */}
+          <Command
+            shouldFilter={false}
+            className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+          >
+            <CommandInput
+              placeholder="Search projects, materials, requests and messages..."
+              value={text}
+              onValueChange={setText}
+            />
+            <CommandList>
+              {isFetching && results.length === 0 ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <CommandEmpty>
+                  {query.length >= 2 ? "No results found." : "Type at least 2 characters to search."}
+                </CommandEmpty>
+              )}
+
+              {RESULT_GROUPS.map(({ type, heading, icon: Icon }) => {
+                const groupResults = results.filter(result => result.type === type);
+                if (groupResults.length === 0) return null;
+
+                return (
+                  <CommandGroup key={type} heading={heading}>
+                    {groupResults.map(result => (
+                      <CommandItem
+                        key={`${result.type}-${result.id}`}
+                        value={`${result.type}-${result.id}`}
+                        onSelect={() => handleSelect(result)}
+                      >
+                        <Icon className="mr-2 h-4 w-4 shrink-0" />
+                        <div className="min-w-0">
+                          <p className="truncate">{result.title}</p>
+                          {result.subtitle && (
+                            <p className="text-xs text-muted-foreground truncate">{result.subtitle}</p>
+                          )}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -8,13 +8,14 @@ import {
 } from "@tanstack/react-query";
 import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
 import { getQueryFn, apiRequest } from "../lib/queryClient";
+import { TwoFactorChallengeError, isTwoFactorChallenge } from "../lib/two-factor";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResponse, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
   isLoggedIn: boolean;
@@ -25,8 +26,12 @@ type LoginData = {
   username?: string;
   email?: string;
   password: string;
+  code?: string; // two-factor code, once the server has asked for one
 };
 
+// Recovery codes only come back when two-factor was set up as part of the login
+type LoginResponse = SelectUser & { recoveryCodes?: string[] };
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 
 /**
@@ -36,6 +41,19 @@ function forceNavigation(path: string) {
   window.location.href = path;
 }
 
+/**
+ * Where a user lands after logging in
+ */
+export function getDashboardPath(role: string): string {
+  return role === "admin"
+    ? "/admin-dashboard"
+    : role === "service_provider"
+      ? "/provider-dashboard"
+      : role === "supplier"
+        ? "/supplier-dashboard"
+        : "/";
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
   const [location, navigate] = useLocation();
@@ -186,9 +204,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         if (!response.ok) {
           let errorMessage = "Login failed";
           
+          let errorData: any;
           try {
             // Try to parse error response as JSON
-            const errorData = await response.json();
+            errorData = await response.json();
             errorMessage = errorData.message || `Error ${response.status}: ${response.statusText}`;
           } catch (parseError) {
             // If JSON parsing fails, try getting text
@@ -201,6 +220,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             }
           }
           
+          // Password accepted, but the form has to ask for a two-factor code
+          if (isTwoFactorChallenge(errorData)) {
+            throw new TwoFactorChallengeError(errorData);
+          }
+          
           console.error("Login error:", {
             status: response.status,
             statusText: response.statusText,
@@ -226,7 +250,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw error; 
       }
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: ({ recoveryCodes, ...user }: LoginResponse) => {
       try {
         console.log("Login successful, storing user data");
         
@@ -254,21 +278,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         const currentPath = window.location.pathname;
         
         // If we're on an invitation page (/join/...), don't redirect
-        // This allows invitation pages to handle their own redirects
-        if (!currentPath.startsWith('/join/')) {
+        // This allows invitation pages to handle their own redirects.
+        // New recovery codes have to be shown first, so the login form redirects once they're saved.
+        if (!currentPath.startsWith('/join/') && !recoveryCodes) {
           console.log("Redirecting to appropriate dashboard");
           
-          // Immediately navigate based on user role
-          const path = user.role === "admin" 
-            ? "/admin-dashboard"
-            : user.role === "service_provider" 
-              ? "/provider-dashboard" 
-              : user.role === "supplier"
-                ? "/supplier-dashboard"
-                : "/";
-          
           // Use hard redirect for immediate navigation
-          forceNavigation(path);
+          forceNavigation(getDashboardPath(user.role));
         }
       } catch (error) {
         console.error("Navigation error:", error);
@@ -278,6 +294,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       // Clear any stale login state
       localStorage.removeItem("isLoggedIn");
       
+      // Not a failure, the login form asks for the code
+      if (error instanceof TwoFactorChallengeError) return;
+      
       toast({
         title: "Login failed",
         description: error.message || "Please check your credentials and try again",
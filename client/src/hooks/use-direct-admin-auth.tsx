@@ -1,5 +1,7 @@
 import { createContext, ReactNode, useContext, useEffect, useState } from "react";
 import { apiRequest } from "@/lib/queryClient";
+import { clearAdminTokens, setAdminTokens, subscribeToAdminSessionEnd } from "@/lib/admin-tokens";
+import { TwoFactorChallengeError, isTwoFactorChallenge } from "@/lib/two-factor";
 import { useToast } from "@/hooks/use-toast";
 
 interface AdminUser {
@@ -13,8 +15,12 @@ interface DirectAdminAuthContextType {
   adminUser: AdminUser | null;
   isLoading: boolean;
   error: Error | null;
-  login: (username: string, password: string) => Promise<boolean>;
+  // Throws a TwoFactorChallengeError when a two-factor code is needed as well
+  login: (username: string, password: string, code?: string) => Promise<boolean>;
   logout: () => void;
+  // Set when two-factor was set up during login; the admin is let in once they've been saved
+  recoveryCodes: string[] | null;
+  acknowledgeRecoveryCodes: () => void;
 }
 
 const DirectAdminAuthContext = createContext<DirectAdminAuthContextType | null>(null);
@@ -23,49 +29,51 @@ export function DirectAdminAuthProvider({ children }: { children: ReactNode }) {
   const [adminUser, setAdminUser] = useState<AdminUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingAdmin, setPendingAdmin] = useState<AdminUser | null>(null);
   const { toast } = useToast();
 
-  console.log("DirectAdminAuthProvider initializing");
+  // Drop the admin when their login is ended from elsewhere and the tokens can't be refreshed
+  useEffect(() => subscribeToAdminSessionEnd(() => {
+    localStorage.removeItem("admin_auth");
+    setAdminUser(null);
+  }), []);
 
   // Check for stored admin auth on mount
   useEffect(() => {
     const checkStoredAuth = async () => {
-      console.log("Checking stored admin auth");
       try {
         const storedAdmin = localStorage.getItem("admin_auth");
         if (storedAdmin) {
-          console.log("Found stored admin auth in localStorage");
           const parsedAdmin = JSON.parse(storedAdmin);
-          console.log("Parsed admin data:", parsedAdmin);
           
-          // Verify admin status with the server
+          // Verify admin status with the server; the first request gets an access token with the
+          // refresh token's cookie, since access tokens don't outlive the page
           try {
-            console.log("Verifying admin status with server for:", parsedAdmin.username);
-            const verifyResponse = await apiRequest("POST", "/api/direct-admin/verify", {
-              adminUsername: parsedAdmin.username
-            });
+            const verifyResponse = await apiRequest("POST", "/api/direct-admin/verify");
             
             if (verifyResponse.ok) {
-              console.log("Admin verification successful");
               const adminData = await verifyResponse.json();
-              console.log("Admin data from server:", adminData);
               setAdminUser({
                 id: adminData.adminId || parsedAdmin.id,
                 username: adminData.adminUsername || parsedAdmin.username,
                 role: "admin", // Force role to admin since verification endpoint confirmed it
                 fullName: adminData.fullName || parsedAdmin.fullName
               });
-              console.log("Admin user state updated");
             } else {
-              console.warn("Admin verification failed with status:", verifyResponse.status);
               // Clear invalid stored auth
               localStorage.removeItem("admin_auth");
             }
           } catch (err) {
-            console.error("Admin verification error:", err);
+            if (err instanceof Error && /^40[13]:/.test(err.message)) {
+              // The server turned the tokens down, so the login is over
+              localStorage.removeItem("admin_auth");
+              clearAdminTokens();
+              return;
+            }
+            
             // Keep the stored admin data even if verification fails temporarily
             // This allows admin to use dashboard features even during network issues
-            console.log("Using cached admin data due to verification error");
             setAdminUser({
               id: parsedAdmin.id,
               username: parsedAdmin.username,
@@ -73,13 +81,10 @@ export function DirectAdminAuthProvider({ children }: { children: ReactNode }) {
               fullName: parsedAdmin.fullName
             });
           }
-        } else {
-          console.log("No stored admin auth found in localStorage");
         }
       } catch (err) {
         console.error("Error checking stored admin auth:", err);
       } finally {
-        console.log("Admin auth check complete, setting isLoading to false");
         setIsLoading(false);
       }
     };
@@ -87,37 +92,53 @@ export function DirectAdminAuthProvider({ children }: { children: ReactNode }) {
     checkStoredAuth();
   }, []);
 
-  const login = async (username: string, password: string): Promise<boolean> => {
-    setIsLoading(true);
+  // Doesn't touch isLoading, which would swap the login form for a spinner and lose the
+  // credentials it needs to send again with the two-factor code
+  const login = async (username: string, password: string, code?: string): Promise<boolean> => {
     setError(null);
     
     try {
-      const response = await apiRequest("POST", "/api/direct-admin/login", {
-        username,
-        password
+      const response = await fetch("/api/direct-admin/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password, code }),
+        credentials: "include",
       });
+      const body = await response.json().catch(() => null);
+      
+      if (response.status === 401 && isTwoFactorChallenge(body)) {
+        throw new TwoFactorChallengeError(body);
+      }
       
       if (!response.ok) {
         throw new Error("Authentication failed");
       }
       
-      const adminData = await response.json();
+      const { user: adminData, recoveryCodes: newRecoveryCodes, ...tokens } = body;
+      setAdminTokens(tokens);
       
-      // Store admin auth data in localStorage for persistence
+      // Store admin details in localStorage for persistence; requests are authenticated by the tokens
       localStorage.setItem("admin_auth", JSON.stringify({
         id: adminData.id, 
         username: adminData.username,
         role: adminData.role,
-        fullName: adminData.fullName,
-        token: adminData.token
+        fullName: adminData.fullName
       }));
       
-      setAdminUser({
+      const loggedInAdmin = {
         id: adminData.id,
         username: adminData.username,
         role: adminData.role,
         fullName: adminData.fullName
-      });
+      };
+      
+      if (newRecoveryCodes) {
+        setPendingAdmin(loggedInAdmin);
+        setRecoveryCodes(newRecoveryCodes);
+        return true;
+      }
+      
+      setAdminUser(loggedInAdmin);
       
       toast({
         title: "Login successful",
@@ -126,6 +147,9 @@ export function DirectAdminAuthProvider({ children }: { children: ReactNode }) {
       
       return true;
     } catch (err) {
+      if (err instanceof TwoFactorChallengeError) {
+        throw err;
+      }
       setError(err instanceof Error ? err : new Error("Authentication failed"));
       toast({
         title: "Login failed",
@@ -133,13 +157,18 @@ export function DirectAdminAuthProvider({ children }: { children: ReactNode }) {
         variant: "destructive"
       });
       return false;
-    } finally {
-      setIsLoading(false);
     }
   };
+  
+  const acknowledgeRecoveryCodes = () => {
+    setRecoveryCodes(null);
+    setAdminUser(pendingAdmin);
+    setPendingAdmin(null);
+  };
 
   const logout = () => {
     localStorage.removeItem("admin_auth");
+    clearAdminTokens();
     setAdminUser(null);
     
     toast({
@@ -147,14 +176,14 @@ export function DirectAdminAuthProvider({ children }: { children: ReactNode }) {
       description: "You have been logged out of the admin dashboard",
     });
     
-    // Attempt to notify server, but don't wait for response
+    // Ask the server to revoke the tokens, but don't wait for response; the refresh token goes in its cookie
     apiRequest("POST", "/api/direct-admin/logout").catch(err => {
       console.error("Logout notification error:", err);
     });
   };
 
   return (
-    <DirectAdminAuthContext.Provider value={{ adminUser, isLoading, error, login, logout }}>
+    <DirectAdminAuthContext.Provider value={{ adminUser, isLoading, error, login, logout, recoveryCodes, acknowledgeRecoveryCodes }}>
       {children}
     </DirectAdminAuthContext.Provider>
   );
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { adminFetch } from '@/lib/admin-tokens';
 
 export interface Notification {
   id: number;
@@ -15,6 +16,7 @@ export interface Notification {
   actionUrl?: string;
 }
 
+// Notifications for the signed-in direct admin; adminUsername is empty until someone signs in
 export function useDirectAdminNotifications(adminUsername: string) {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -28,12 +30,8 @@ export function useDirectAdminNotifications(adminUsername: string) {
     setError(null);
     
     try {
-      const response = await fetch('/api/direct-admin-notifications', {
+      const response = await adminFetch('/api/direct-admin/notifications', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ adminUsername }),
       });
       
       if (!response.ok) {
@@ -71,15 +69,12 @@ export function useDirectAdminNotifications(adminUsername: string) {
         )
       );
       
-      const response = await fetch('/api/direct-admin-notifications/mark-read', {
+      const response = await adminFetch('/api/direct-admin/notifications/mark-read', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ 
-          adminUsername,
-          notificationId: id
-        }),
+        body: JSON.stringify({ notificationId: id }),
       });
       
       if (!response.ok) {
@@ -105,12 +100,8 @@ export function useDirectAdminNotifications(adminUsername: string) {
         prev.map(notification => ({ ...notification, isRead: true }))
       );
       
-      const response = await fetch('/api/direct-admin-notifications/mark-all-read', {
+      const response = await adminFetch('/api/direct-admin/notifications/mark-all-read', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ adminUsername }),
       });
       
       if (!response.ok) {
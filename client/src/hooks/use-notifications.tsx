@@ -1,17 +1,15 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useEffect, useRef, useState } from "react";
-import { useAuth } from "@/hooks/use-auth";
+import { useEffect, useState } from "react";
+import { useRealtime, useSocketMessage } from "@/hooks/use-realtime";
 import type { Notification as AppNotification } from "@shared/schema";
 import { playNotificationSound, initNotificationSounds } from "@/lib/notification-sounds";
 
 export function useNotifications() {
   const { toast } = useToast();
-  const { user } = useAuth();
-  const [socket, setSocket] = useState<WebSocket | null>(null);
+  const { isConnected, send } = useRealtime();
   const [newNotifications, setNewNotifications] = useState<AppNotification[]>([]);
-  const socketRef = useRef<WebSocket | null>(null);
   
   // Fetch all notifications for the current user
   const {
@@ -57,166 +55,72 @@ export function useNotifications() {
     initNotificationSounds();
   }, []);
 
-  // Set up WebSocket connection for real-time notifications
-  useEffect(() => {
-    if (!user) return;
-    
-    // Create WebSocket connection for real-time notifications
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
-    
-    const ws = new WebSocket(wsUrl);
-    socketRef.current = ws;
-    setSocket(ws);
-    
-    ws.addEventListener("open", () => {
-      console.log("WebSocket connection established");
-      // Authenticate the WebSocket connection
-      ws.send(JSON.stringify({
-        type: "auth",
-        userId: user.id,
-        username: user.username,
-        role: user.role
-      }));
-    });
-    
-    ws.addEventListener("message", (event) => {
-      try {
-        console.log("WebSocket message received:", event.data);
-        const data = JSON.parse(event.data);
-        
-        // Handle real-time notifications
-        if (data.type === "notification") {
-          const notification = data.notification;
-          
-          // Add the new notification to the local state, ensuring no duplicates
-          setNewNotifications(prev => {
-            // Check if this notification already exists in our state
-            const existingIndex = prev.findIndex(n => n.id === notification.id);
-            if (existingIndex >= 0) {
-              // If it exists, replace it
-              const newArr = [...prev];
-              newArr[existingIndex] = notification;
-              return newArr;
-            } else {
-              // If it's new, add it to the beginning
-              return [notification, ...prev];
-            }
-          });
-          
-          // Play sound based on notification priority
-          playNotificationSound(notification.priority);
-          
-          // Show a toast for the new notification
-          toast({
-            title: notification.title,
-            description: notification.message,
-            variant: notification.priority === "urgent" ? "destructive" : "default",
-          });
-          
-          // Refresh notification counts
-          queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
-        }
-        
-        // Handle multiple notifications sent at once
-        if (data.type === "notifications" && Array.isArray(data.notifications)) {
-          // Check if there are any high priority notifications in the batch
-          const highPriorityNotification = data.notifications.find(
-            (n: AppNotification) => n.priority === 'urgent' || n.priority === 'high'
-          );
-          
-          if (highPriorityNotification) {
-            // Play sound for the highest priority notification
-            playNotificationSound(highPriorityNotification.priority);
-          }
-          
-          setNewNotifications(prev => [
-            ...data.notifications.map((n: AppNotification) => n), 
-            ...prev
-          ]);
-        }
-        
-        // Handle notifications being marked as read
-        if (data.type === "notifications_marked_read" && Array.isArray(data.notificationIds)) {
-          setNewNotifications(prev => 
-            prev.map(n => 
-              data.notificationIds.includes(n.id) 
-                ? { ...n, read: true } 
-                : n
-            )
-          );
-        }
-      } catch (error) {
-        console.error("Error handling WebSocket message:", error);
-      }
-    });
-    
-    // Set up automatic reconnection logic
-    let reconnectTimeout: NodeJS.Timeout;
-    let reconnectAttempts = 0;
-    const maxReconnectAttempts = 3; // Limit reconnection attempts
-    
-    const handleReconnect = () => {
-      // Only attempt reconnection if we haven't exceeded max attempts
-      if (reconnectAttempts >= maxReconnectAttempts) {
-        console.log(`Max WebSocket reconnect attempts (${maxReconnectAttempts}) reached, giving up`);
-        return;
-      }
+  // Real-time notifications arrive over the socket the RealtimeProvider holds open
+  useSocketMessage((data) => {
+    // Handle real-time notifications
+    if (data.type === "notification") {
+      const notification = data.notification;
       
-      reconnectAttempts++;
-      console.log(`Attempting to reconnect WebSocket (attempt ${reconnectAttempts}/${maxReconnectAttempts})...`);
-      
-      // Clear any existing reconnect timeout
-      if (reconnectTimeout) clearTimeout(reconnectTimeout);
-      
-      // Increase the reconnect delay with each attempt (exponential backoff)
-      const reconnectDelay = Math.min(5000 * Math.pow(2, reconnectAttempts - 1), 30000);
-      
-      // Reconnect after the calculated delay
-      reconnectTimeout = setTimeout(() => {
-        if (socketRef.current?.readyState !== WebSocket.OPEN) {
-          try {
-            const newWs = new WebSocket(wsUrl);
-            socketRef.current = newWs;
-            setSocket(newWs);
-            
-            // Set up the same event listeners on the new connection
-            setupEventListeners(newWs);
-          } catch (error) {
-            console.error("Failed to create new WebSocket connection:", error);
-          }
+      // Add the new notification to the local state, ensuring no duplicates
+      setNewNotifications(prev => {
+        // Check if this notification already exists in our state
+        const existingIndex = prev.findIndex(n => n.id === notification.id);
+        if (existingIndex >= 0) {
+          // If it exists, replace it
+          const newArr = [...prev];
+          newArr[existingIndex] = notification;
+          return newArr;
+        } else {
+          // If it's new, add it to the beginning
+          return [notification, ...prev];
         }
-      }, reconnectDelay);
-    };
-    
-    const setupEventListeners = (wsConnection: WebSocket) => {
-      wsConnection.addEventListener("open", () => {
-        // Reset reconnect attempts when successfully connected
-        reconnectAttempts = 0;
       });
       
-      wsConnection.addEventListener("error", (event) => {
-        console.error("WebSocket error:", event);
-        // Don't reconnect immediately on error, wait for close event
-      });
+      // Play sound based on notification priority, unless an admin has turned sounds off
+      if (data.sound !== false) {
+        playNotificationSound(notification.priority);
+      }
       
-      wsConnection.addEventListener("close", () => {
-        console.log("WebSocket connection closed");
-        handleReconnect();
+      // Show a toast for the new notification
+      toast({
+        title: notification.title,
+        description: notification.message,
+        variant: notification.priority === "urgent" ? "destructive" : "default",
       });
-    };
-    
-    // Set up error and close handlers with reconnection logic
-    setupEventListeners(ws);
+      
+      // Refresh notification counts
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
+    }
     
-    // Clean up WebSocket connection and timeouts when component unmounts
-    return () => {
-      if (reconnectTimeout) clearTimeout(reconnectTimeout);
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.close();
+    // Handle multiple notifications sent at once
+    if (data.type === "notifications" && Array.isArray(data.notifications)) {
+      // Check if there are any high priority notifications in the batch
+      const highPriorityNotification = data.notifications.find(
+        (n: AppNotification) => n.priority === 'urgent' || n.priority === 'high'
+      );
+      
+      if (highPriorityNotification) {
+        // Play sound for the highest priority notification
+        playNotificationSound(highPriorityNotification.priority);
       }
-    };
-  }, [user, toast]);
+      
+      setNewNotifications(prev => [
+        ...data.notifications.map((n: AppNotification) => n), 
+        ...prev
+      ]);
+    }
+    
+    // Handle notifications being marked as read
+    if (data.type === "notifications_marked_read" && Array.isArray(data.notificationIds)) {
+      setNewNotifications(prev => 
+        prev.map(n => 
+          data.notificationIds.includes(n.id) 
+            ? { ...n, read: true } 
+            : n
+        )
+      );
+    }
+  });
   
   // Mark single notification as read
   const markAsReadMutation = useMutation({
@@ -279,12 +183,7 @@ export function useNotifications() {
   
   // Function to mark notifications as read through WebSocket
   const markAsReadThroughWebSocket = (notificationId: number) => {
-    if (socket && socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({
-        type: 'mark_read',
-        notificationIds: [notificationId]
-      }));
-      
+    if (send({ type: 'mark_read', notificationIds: [notificationId] })) {
       // Also mark in local state
       setNewNotifications(prev => 
         prev.map(n => 
@@ -302,17 +201,12 @@ export function useNotifications() {
   
   // Function to mark all notifications as read through WebSocket
   const markAllAsReadThroughWebSocket = () => {
-    if (socket && socket.readyState === WebSocket.OPEN) {
+    if (isConnected) {
       const unreadIds = notifications
         .filter(n => !n.read)
         .map(n => n.id);
         
-      if (unreadIds.length > 0) {
-        socket.send(JSON.stringify({
-          type: 'mark_read',
-          notificationIds: unreadIds
-        }));
-        
+      if (unreadIds.length > 0 && send({ type: 'mark_read', notificationIds: unreadIds })) {
         // Also mark in local state
         setNewNotifications(prev => 
           prev.map(n => ({ ...n, read: true }))
@@ -336,7 +230,6 @@ export function useNotifications() {
     markAsRead: markAsReadThroughWebSocket,
     markAllAsRead: markAllAsReadThroughWebSocket,
     deleteNotification: deleteNotificationMutation.mutate,
-    socket,
-    isConnected: socket?.readyState === WebSocket.OPEN
+    isConnected
   };
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from './use-auth';
+import { apiRequest } from '@/lib/queryClient';
+import { ProjectAccess, ProjectPermission } from '@shared/schema';
+
+// What the current user can do on a project. The server checks the same permissions on every
+// request, so this is only used to hide actions that would be refused.
+export function usePermissions(projectId?: number) {
+  const { user } = useAuth();
+
+  const { data: access, isLoading } = useQuery<ProjectAccess>({
+    queryKey: ['/api/projects', projectId, 'permissions'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/projects/${projectId}/permissions`);
+      return await response.json();
+    },
+    enabled: !!projectId && !!user
+  });
+
+  const permissions = access?.permissions || [];
+
+  return {
+    permissions,
+    relationship: access?.relationship || null,
+    role: access?.role || null,
+    isLoading,
+    can: (permission: ProjectPermission) => permissions.includes(permission)
+  };
+}
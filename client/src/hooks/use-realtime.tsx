@@ -0,0 +1,205 @@
+import { createContext, ReactNode, useContext, useEffect, useRef, useState } from "react";
+import { RealtimeEvent, RealtimeEventMessage, RealtimeTopic } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateQueriesForEvent } from "@/lib/queryClient";
+
+// Reconnect delays double from the base up to the cap; a toast is shown once this many attempts in a row fail
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const RECONNECT_WARNING_ATTEMPTS = 3;
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+// Gets everything else the server sends, e.g. chat messages and notifications
+type SocketMessageListener = (data: any) => void;
+
+interface RealtimeContextProps {
+  isConnected: boolean;
+  subscribe: (topic: RealtimeTopic) => () => void;
+  addListener: (listener: RealtimeListener) => () => void;
+  addMessageListener: (listener: SocketMessageListener) => () => void;
+  send: (message: object) => boolean;
+  sendTyping: (conversationId: number) => void;
+}
+
+export const RealtimeContext = createContext<RealtimeContextProps | null>(null);
+
+/**
+ * Holds the one WebSocket each tab has open, which chat, notifications and real-time events all
+ * share
+ */
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isConnected, setIsConnected] = useState(false);
+  const socketRef = useRef<WebSocket | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const reconnectAttemptsRef = useRef(0);
+  // How many components want each topic; it's unsubscribed when the last one goes away
+  const topicCountsRef = useRef(new Map<RealtimeTopic, number>());
+  // Components that react to events themselves, beyond the cache invalidation every event gets
+  const listenersRef = useRef(new Set<RealtimeListener>());
+  const messageListenersRef = useRef(new Set<SocketMessageListener>());
+
+  // Returns false if the socket isn't open, so callers can fall back to the API
+  const send = (message: object): boolean => {
+    const socket = socketRef.current;
+    if (socket?.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify(message));
+    return true;
+  };
+
+  const sendTopics = (type: "subscribe" | "unsubscribe", topics: RealtimeTopic[]) => {
+    if (topics.length > 0) {
+      send({ type, topics });
+    }
+  };
+
+  const subscribe = (topic: RealtimeTopic) => {
+    const counts = topicCountsRef.current;
+    counts.set(topic, (counts.get(topic) || 0) + 1);
+    if (counts.get(topic) === 1) {
+      sendTopics("subscribe", [topic]);
+    }
+
+    return () => {
+      const remaining = (counts.get(topic) || 1) - 1;
+      if (remaining > 0) {
+        counts.set(topic, remaining);
+      } else {
+        counts.delete(topic);
+        sendTopics("unsubscribe", [topic]);
+      }
+    };
+  };
+
+  const addListener = (listener: RealtimeListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  };
+
+  const addMessageListener = (listener: SocketMessageListener) => {
+    messageListenersRef.current.add(listener);
+    return () => {
+      messageListenersRef.current.delete(listener);
+    };
+  };
+
+  const sendTyping = (conversationId: number) => {
+    send({ type: "typing", conversationId });
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    // The user's own topic carries their notifications, orders and bids wherever they are in the app
+    const unsubscribeUser = subscribe(`user:${user.id}`);
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        reconnectAttemptsRef.current = 0;
+        setIsConnected(true);
+        // Subscriptions don't survive a reconnect, so everything wanted is asked for again
+        sendTopics("subscribe", Array.from(topicCountsRef.current.keys()));
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          const data = JSON.parse(message.data);
+          if (data.type === "event") {
+            const { event } = data as RealtimeEventMessage;
+            invalidateQueriesForEvent(event);
+            listenersRef.current.forEach(listener => listener(event));
+          } else if (data.type === "error" && data.code === "TOPIC_FORBIDDEN") {
+            console.warn("Not allowed to subscribe to:", data.topics);
+          } else {
+            messageListenersRef.current.forEach(listener => listener(data));
+          }
+        } catch (error) {
+          console.error("Error handling real-time event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        if (closed) return;
+
+        if (reconnectAttemptsRef.current === RECONNECT_WARNING_ATTEMPTS) {
+          toast({
+            title: "Connection Lost",
+            description: "Could not reach the server. We'll keep trying in the background.",
+            variant: "destructive",
+          });
+        }
+
+        // Waits twice as long after each failed attempt, with jitter so tabs don't all reconnect at once
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttemptsRef.current, RECONNECT_MAX_DELAY_MS);
+        reconnectAttemptsRef.current++;
+        reconnectTimerRef.current = setTimeout(connect, delay / 2 + Math.random() * delay / 2);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      unsubscribeUser();
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
+      }
+      socketRef.current?.close();
+      socketRef.current = null;
+      reconnectAttemptsRef.current = 0;
+    };
+  }, [user?.id]);
+
+  return (
+    <RealtimeContext.Provider value={{ isConnected, subscribe, addListener, addMessageListener, send, sendTyping }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+export function useRealtime() {
+  const context = useContext(RealtimeContext);
+  if (!context) {
+    throw new Error("useRealtime must be used within a RealtimeProvider");
+  }
+  return context;
+}
+
+// Keeps the page's queries for a project or service request fresh while it's on screen
+export function useRealtimeTopic(topic: RealtimeTopic | null) {
+  const { subscribe } = useRealtime();
+
+  useEffect(() => {
+    if (!topic) return;
+    return subscribe(topic);
+  }, [topic]);
+}
+
+// Calls the handler for every real-time event while the component is mounted
+export function useRealtimeEvent(handler: RealtimeListener) {
+  const { addListener } = useRealtime();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => addListener(event => handlerRef.current(event)), []);
+}
+
+// Calls the handler for every other message on the socket, such as chat and notifications
+export function useSocketMessage(handler: SocketMessageListener) {
+  const { addMessageListener } = useRealtime();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => addMessageListener(data => handlerRef.current(data)), []);
+}
@@ -0,0 +1,112 @@
+import { AdminTokens } from "@shared/schema";
+
+// Refresh a little before the access token runs out, so requests don't bounce off a 401 first
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+// The routes that hand out or end the tokens, which don't take an access token themselves
+const tokenRoutes = ["/api/direct-admin/login", "/api/direct-admin/refresh", "/api/direct-admin/logout"];
+
+type SessionEndListener = () => void;
+
+// Told when the admin login can't be kept going, e.g. it was ended elsewhere or the password changed
+const sessionEndListeners = new Set<SessionEndListener>();
+
+let refreshing: Promise<boolean> | null = null;
+
+// Only kept in memory; after a reload the refresh token's httpOnly cookie gets a new access token
+let adminTokens: AdminTokens | null = null;
+
+// Where the tokens, refresh token included, used to be kept
+localStorage.removeItem("admin_tokens");
+
+export function getAdminTokens(): AdminTokens | null {
+  return adminTokens;
+}
+
+export function setAdminTokens(tokens: AdminTokens) {
+  adminTokens = {
+    accessToken: tokens.accessToken,
+    accessTokenExpiresAt: tokens.accessTokenExpiresAt,
+    refreshTokenExpiresAt: tokens.refreshTokenExpiresAt
+  };
+}
+
+export function clearAdminTokens() {
+  adminTokens = null;
+}
+
+export function subscribeToAdminSessionEnd(listener: SessionEndListener): () => void {
+  sessionEndListeners.add(listener);
+  return () => {
+    sessionEndListeners.delete(listener);
+  };
+}
+
+export function needsAdminToken(url: string): boolean {
+  return url.startsWith("/api/direct-admin/") && !tokenRoutes.some(route => url.startsWith(route));
+}
+
+function endAdminSession() {
+  clearAdminTokens();
+  sessionEndListeners.forEach(listener => listener());
+}
+
+/**
+ * Swaps the refresh token in its cookie for a new pair. Callers share one request while it's in
+ * flight, since each refresh token only works once and the server ends the login if it sees one
+ * used twice.
+ * @returns Whether there's a fresh access token to use
+ */
+export function refreshAdminTokens(): Promise<boolean> {
+  if (refreshing) return refreshing;
+
+  refreshing = (async () => {
+    try {
+      const res = await fetch("/api/direct-admin/refresh", {
+        method: "POST",
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        // Refused rather than unreachable, so the login is over
+        if (res.status === 401 || res.status === 403) endAdminSession();
+        return false;
+      }
+
+      setAdminTokens(await res.json());
+      return true;
+    } catch (error) {
+      console.error("Admin token refresh error:", error);
+      return false;
+    }
+  })().finally(() => {
+    refreshing = null;
+  });
+
+  return refreshing;
+}
+
+/**
+ * fetch for direct admin routes: sends the access token, getting one first when there's none yet
+ * or it's about to expire, and retries once with a new one if the server turns the request away
+ * with a 401
+ */
+export async function adminFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const tokens = getAdminTokens();
+  if (!tokens || new Date(tokens.accessTokenExpiresAt).getTime() - EXPIRY_MARGIN_MS < Date.now()) {
+    await refreshAdminTokens();
+  }
+
+  const send = () => {
+    const headers = new Headers(init.headers);
+    const current = getAdminTokens();
+    if (current) headers.set("Authorization", `Bearer ${current.accessToken}`);
+    return fetch(url, { ...init, headers });
+  };
+
+  const res = await send();
+  if (res.status === 401 && getAdminTokens() && await refreshAdminTokens()) {
+    return send();
+  }
+  return res;
+}
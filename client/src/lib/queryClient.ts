@@ -1,4 +1,32 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { MaintenanceStatus, RealtimeEvent } from "@shared/schema";
+import { adminFetch, needsAdminToken } from "./admin-tokens";
+
+type MaintenanceListener = (status: MaintenanceStatus) => void;
+
+// Told whenever the server refuses a request because the platform is in maintenance
+const maintenanceListeners = new Set<MaintenanceListener>();
+
+export function subscribeToMaintenance(listener: MaintenanceListener): () => void {
+  maintenanceListeners.add(listener);
+  return () => {
+    maintenanceListeners.delete(listener);
+  };
+}
+
+// Recognises the structured 503 the server sends during maintenance, so the maintenance screen can take over
+async function checkForMaintenance(res: Response) {
+  if (res.status !== 503) return;
+
+  try {
+    const body = await res.clone().json();
+    if (body?.code === "MAINTENANCE_MODE" && body.maintenance) {
+      maintenanceListeners.forEach(listener => listener(body.maintenance));
+    }
+  } catch (e) {
+    // Not JSON, so not a maintenance response
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -12,8 +40,9 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
   isFormData: boolean = false,
+  extraHeaders: Record<string, string> = {},
 ): Promise<Response> {
-  const headers: Record<string, string> = {};
+  const headers: Record<string, string> = { ...extraHeaders };
   let body: any = undefined;
 
   if (data) {
@@ -62,7 +91,8 @@ export async function apiRequest(
 
   try {
     console.log(`API Request: ${method} ${finalUrl}`);
-    const res = await fetch(finalUrl, {
+    const send = needsAdminToken(url) ? adminFetch : fetch;
+    const res = await send(finalUrl, {
       method,
       headers,
       body,
@@ -87,6 +117,8 @@ export async function apiRequest(
         errorDetail = "";
       }
       
+      await checkForMaintenance(res);
+      
       // Special handling for authentication errors
       if (res.status === 401) {
         // If we get a 401 and we think we're logged in, there's a cookie issue
@@ -147,7 +179,8 @@ export const getQueryFn: <T>(options?: {
     
     try {
       console.log(`Query Request: GET ${cacheBusterUrl}`);
-      const res = await fetch(cacheBusterUrl, {
+      const send = needsAdminToken(url) ? adminFetch : fetch;
+      const res = await send(cacheBusterUrl, {
         method: "GET",
         credentials: "include", // Always include credentials
         cache: "no-store", // Force bypassing the HTTP cache
@@ -173,6 +206,8 @@ export const getQueryFn: <T>(options?: {
           errorDetail = "";
         }
         
+        await checkForMaintenance(res);
+        
         // Special handling for 401 Unauthorized responses
         if (res.status === 401) {
           // If we're logged in and get a 401, something is wrong with the session
@@ -260,6 +295,46 @@ export const queryClient = new QueryClient({
   },
 });
 
+// Refetches whatever a real-time event has made stale, in place of polling for changes
+export function invalidateQueriesForEvent(event: RealtimeEvent) {
+  const keys: string[] = [];
+
+  switch (event.type) {
+    case "notification.created":
+      keys.push("/api/notifications", "/api/notifications/unread-count");
+      break;
+    case "order.updated":
+      keys.push("/api/orders", `/api/orders/${event.orderId}`, "/api/suppliers/orders", "/api/direct-admin/orders");
+      break;
+    case "bid.created":
+    case "bid.updated":
+      if (event.projectId) {
+        keys.push(`/api/projects/${event.projectId}`, `/api/projects/${event.projectId}/bids`);
+      }
+      if (event.serviceRequestId) {
+        keys.push(
+          "/api/service-requests",
+          `/api/service-requests/${event.serviceRequestId}`,
+          "/api/service-requests/bidding",
+          "/api/service-request-bids",
+          "/api/direct-admin/service-requests-with-bids"
+        );
+      }
+      break;
+    case "timeline.created":
+      keys.push(`/api/projects/${event.projectId}`, `/api/projects/${event.projectId}/timeline`);
+      break;
+    case "conversation.message":
+      keys.push("/api/conversations", `/api/conversations/${event.conversationId}/messages`);
+      break;
+    case "conversation.read":
+      keys.push("/api/conversations");
+      break;
+  }
+
+  keys.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+}
+
 // Create helper function to check for auth errors in responses
 // This will be used in the client components that fetch data
 export function checkResponseForAuthError(error: any) {
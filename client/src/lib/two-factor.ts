@@ -0,0 +1,17 @@
+import { TwoFactorChallenge } from "@shared/schema";
+
+// Thrown by the login calls when the password was right but a two-factor code is still needed
+export class TwoFactorChallengeError extends Error {
+  challenge: TwoFactorChallenge;
+
+  constructor(challenge: TwoFactorChallenge) {
+    super(challenge.message);
+    this.name = "TwoFactorChallengeError";
+    this.challenge = challenge;
+  }
+}
+
+export function isTwoFactorChallenge(body: unknown): body is TwoFactorChallenge {
+  const code = (body as TwoFactorChallenge | null)?.code;
+  return code === "TWO_FACTOR_REQUIRED" || code === "TWO_FACTOR_SETUP_REQUIRED";
+}
@@ -162,22 +162,16 @@ export default function AdminBasicDashboard() {
       // First try to get recent service requests
       const requestsRes = await fetch('/api/direct-admin-service-requests', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ adminUsername: adminUser.username })
       });
       
       // Then try to get recent projects
       const projectsRes = await fetch('/api/direct-admin-projects', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ adminUsername: adminUser.username })
       });
       
       // Then try to get users for new registrations
       const usersRes = await fetch('/api/direct-admin-clients', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ adminUsername: adminUser.username })
       });
       
       // Parse the responses
@@ -257,29 +251,20 @@ export default function AdminBasicDashboard() {
       if (!adminUser || !adminUser.username) return;
       
       // Use the direct admin endpoints to get real data
-      const adminUsername = adminUser.username;
       
       // Parallel requests with Promise.all
       const [clientsRes, providersRes, projectsRes, requestsRes] = await Promise.all([
         fetch('/api/direct-admin-clients', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ adminUsername })
+          method: 'POST'
         }),
         fetch('/api/direct-admin-service-providers', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ adminUsername })
+          method: 'POST'
         }),
         fetch('/api/direct-admin-projects', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ adminUsername })
+          method: 'POST'
         }),
         fetch('/api/direct-admin-service-requests', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ adminUsername })
+          method: 'POST'
         })
       ]);
       
@@ -53,6 +53,8 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { ProviderScorecard } from "@/components/providers/provider-scorecard";
+import { ProviderScorecard as ProviderScorecardData } from "@shared/schema";
 
 // Type definitions for service requests and bids
 interface ServiceRequest {
@@ -114,6 +116,18 @@ interface ServiceRequestBid {
   serviceProvider?: User;
 }
 
+// The bidder's track record, so bids can be judged on more than price
+const BidderScorecard: React.FC<{ providerId: number }> = ({ providerId }) => {
+  const { data: scorecard, isLoading } = useQuery<ProviderScorecardData>({
+    queryKey: [`/api/service-providers/${providerId}/scorecard`],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="w-4 h-4 animate-spin" />;
+  }
+  return <ProviderScorecard scorecard={scorecard} compact showProfileLink />;
+};
+
 const AdminBidManagementPage: React.FC = () => {
   const { toast } = useToast();
   const { isAdmin } = useAdminAuth();
@@ -505,6 +519,7 @@ const AdminBidManagementPage: React.FC = () => {
                             <TableHead className="w-[50px]">Select</TableHead>
                           )}
                           <TableHead>Provider ID</TableHead>
+                          <TableHead className="min-w-[320px]">Track Record</TableHead>
                           <TableHead>Anonymous Identifier</TableHead>
                           <TableHead>Bid Amount</TableHead>
                           <TableHead>Timeframe (Days)</TableHead>
@@ -528,6 +543,9 @@ const AdminBidManagementPage: React.FC = () => {
                             <TableCell className="font-medium">
                               {bid.serviceProviderId}
                             </TableCell>
+                            <TableCell>
+                              <BidderScorecard providerId={bid.serviceProviderId} />
+                            </TableCell>
                             <TableCell>{bid.anonymousIdentifier}</TableCell>
                             <TableCell>GHC {bid.amount.toLocaleString()}</TableCell>
                             <TableCell>{bid.timeframe} days</TableCell>
@@ -11,7 +11,6 @@ import {
   User,
   MapPin,
   Calendar as CalendarIcon,
-  Star,
   BarChart,
   UserCheck,
   Tag,
@@ -52,6 +51,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { format } from "date-fns";
+import { ProviderScorecard as ProviderScorecardData } from "@shared/schema";
+import { ProviderScorecard } from "@/components/providers/provider-scorecard";
 import { useToast } from "@/hooks/use-toast";
 
 // Type definitions for service request and bids
@@ -80,6 +81,8 @@ interface Bid {
   createdAt: string;
   updatedAt?: string;
   serviceProvider?: ServiceProvider;
+  providerName?: string;
+  scorecard?: ProviderScorecardData | null;
 }
 
 interface ServiceRequestWithBids {
@@ -124,9 +127,7 @@ export default function AdminBiddingPage() {
       }
       
       try {
-        const response = await apiRequest("POST", "/api/direct-admin/service-requests-with-bids", {
-          adminUsername: adminUser.username
-        });
+        const response = await apiRequest("POST", "/api/direct-admin/service-requests-with-bids");
         
         if (!response.ok) {
           const errorText = await response.text();
@@ -156,7 +157,6 @@ export default function AdminBiddingPage() {
       console.log("Award service request mutation called with data:", data);
       // Ensure we're using the correct URL format that matches the server route
       const response = await apiRequest("PATCH", `/api/direct-admin/service-requests/${data.serviceRequestId}/award`, {
-        adminUsername: adminUser?.username,
         bidId: data.bidId,
         serviceProviderId: data.serviceProviderId
       });
@@ -575,16 +575,12 @@ export default function AdminBiddingPage() {
                                       )}
                                     </Avatar>
                                     <div>
-                                      <h4 className="font-medium">{bid.serviceProvider?.name || bid.serviceProvider?.username}</h4>
-                                      <div className="flex items-center text-xs">
-                                        <Star className="h-3 w-3 text-yellow-500 mr-1" />
-                                        <span>{bid.serviceProvider?.rating || 0}/5</span>
-                                        <span className="mx-1">•</span>
-                                        <span>{bid.serviceProvider?.completedProjects || 0} projects</span>
-                                      </div>
+                                      <h4 className="font-medium">{bid.providerName || bid.serviceProvider?.name || bid.serviceProvider?.username}</h4>
                                     </div>
                                   </div>
                                   
+                                  <ProviderScorecard scorecard={bid.scorecard} compact />
+                                  
                                   <div className="grid grid-cols-2 gap-2 mt-2">
                                     <div>
                                       <span className="text-xs text-muted-foreground">Bid Amount</span>
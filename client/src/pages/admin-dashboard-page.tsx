@@ -40,6 +40,7 @@ import {
 // Import direct admin components and hooks
 import DirectAdminLogin from "@/components/admin/direct-admin-login";
 import { DirectAdminAuthProvider, useDirectAdminAuth } from "@/hooks/use-direct-admin-auth";
+import { adminFetch } from "@/lib/admin-tokens";
 import { DirectAdminNotificationsProvider } from "@/providers/direct-admin-notifications-provider";
 
 function AdminDashboardContent() {
@@ -58,10 +59,8 @@ function AdminDashboardContent() {
     queryKey: ["/api/direct-admin/service-requests"],
     queryFn: async () => {
       if (!adminUser || adminUser.role !== 'admin') return [];
-      const response = await fetch('/api/direct-admin/service-requests', {
+      const response = await adminFetch('/api/direct-admin/service-requests', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ adminUsername: adminUser.username })
       });
       if (!response.ok) throw new Error('Failed to fetch service requests');
       return response.json();
@@ -77,10 +76,8 @@ function AdminDashboardContent() {
     queryKey: ["/api/direct-admin/clients"],
     queryFn: async () => {
       if (!adminUser || adminUser.role !== 'admin') return [];
-      const response = await fetch('/api/direct-admin/clients', {
+      const response = await adminFetch('/api/direct-admin/clients', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ adminUsername: adminUser.username })
       });
       if (!response.ok) throw new Error('Failed to fetch clients');
       return response.json();
@@ -96,10 +93,8 @@ function AdminDashboardContent() {
     queryKey: ["/api/direct-admin/service-providers"],
     queryFn: async () => {
       if (!adminUser || adminUser.role !== 'admin') return [];
-      const response = await fetch('/api/direct-admin/service-providers', {
+      const response = await adminFetch('/api/direct-admin/service-providers', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ adminUsername: adminUser.username })
       });
       if (!response.ok) throw new Error('Failed to fetch service providers');
       return response.json();
@@ -115,10 +110,8 @@ function AdminDashboardContent() {
     queryKey: ["/api/direct-admin/projects"],
     queryFn: async () => {
       if (!adminUser || adminUser.role !== 'admin') return [];
-      const response = await fetch('/api/direct-admin/projects', {
+      const response = await adminFetch('/api/direct-admin/projects', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ adminUsername: adminUser.username })
       });
       if (!response.ok) throw new Error('Failed to fetch projects');
       const projectData = await response.json();
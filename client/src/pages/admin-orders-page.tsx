@@ -109,9 +109,7 @@ export default function AdminOrdersPage() {
       }
       
       try {
-        const response = await apiRequest("POST", "/api/direct-admin/orders", {
-          adminUsername: adminUser.username
-        });
+        const response = await apiRequest("POST", "/api/direct-admin/orders");
         
         if (!response.ok) {
           const errorText = await response.text();
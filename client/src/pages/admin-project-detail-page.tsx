@@ -3,6 +3,7 @@ import { useParams, Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import AdminDashboardLayout from "@/components/admin/admin-dashboard-layout";
 import { useDirectAdminAuth } from "@/hooks/use-direct-admin-auth";
+import { adminFetch } from "@/lib/admin-tokens";
 import { Loader2, ChevronLeft, Map, Edit, User, Calendar, FileText, Clock, CheckSquare, AlertTriangle, Package, FileImage, Phone, Mail, Building, ListTodo } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
@@ -30,10 +31,8 @@ export default function AdminProjectDetailPage() {
     queryFn: async () => {
       if (!adminUser || adminUser.role !== 'admin') return null;
       
-      const response = await fetch(`/api/direct-admin/projects/${projectId}`, {
+      const response = await adminFetch(`/api/direct-admin/projects/${projectId}`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ adminUsername: adminUser.username })
       });
       
       if (!response.ok) {
@@ -55,11 +54,10 @@ export default function AdminProjectDetailPage() {
     queryFn: async () => {
       if (!adminUser || adminUser.role !== 'admin') return [];
       
-      const response = await fetch(`/api/direct-admin/service-requests`, {
+      const response = await adminFetch(`/api/direct-admin/service-requests`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
-          adminUsername: adminUser.username,
           projectId: projectId
         })
       });
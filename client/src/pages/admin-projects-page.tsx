@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import AdminDashboardLayout from "@/components/admin/admin-dashboard-layout";
 import { useDirectAdminAuth } from "@/hooks/use-direct-admin-auth";
+import { adminFetch } from "@/lib/admin-tokens";
 import { Project } from "@shared/schema";
 import { Loader2, Search, Building2, Plus, ArrowUpDown, FileEdit, Eye } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -42,10 +43,8 @@ export default function AdminProjectsPage() {
     queryKey: ["/api/direct-admin/projects"],
     queryFn: async () => {
       if (!adminUser || adminUser.role !== 'admin') return [];
-      const response = await fetch('/api/direct-admin/projects', {
+      const response = await adminFetch('/api/direct-admin/projects', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ adminUsername: adminUser.username })
       });
       if (!response.ok) {
         console.error("Failed to fetch projects:", response.status, response.statusText);
@@ -37,16 +37,15 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { format, subDays, subMonths } from "date-fns";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { ReportData, ReportMetric } from "@shared/schema";
 
-interface ReportData {
-  title: string;
-  description: string;
-  dateRange: {
-    from: string;
-    to: string;
-  };
-  data: any; // Generic data structure for different report types
-}
+// Placeholder report contents until the admin session has loaded
+const emptyReportData: ReportData["data"] = {
+  metrics: [],
+  chart: { valueLabel: "", format: "number", points: [] },
+  rows: []
+};
 
 export default function AdminReportsPage() {
   const { adminUser } = useDirectAdminAuth();
@@ -95,14 +94,13 @@ export default function AdminReportsPage() {
           title: "Financial Report",
           description: "Overview of financial performance",
           dateRange: getDateRange(),
-          data: {}
+          data: emptyReportData
         };
       }
       
       try {
         const range = getDateRange();
         const response = await apiRequest("POST", "/api/direct-admin/reports/financial", {
-          adminUsername: adminUser.username,
           dateRange: range
         });
         
@@ -132,14 +130,13 @@ export default function AdminReportsPage() {
           title: "Service Provider Performance",
           description: "Analysis of service provider performance",
           dateRange: getDateRange(),
-          data: {}
+          data: emptyReportData
         };
       }
       
       try {
         const range = getDateRange();
         const response = await apiRequest("POST", "/api/direct-admin/reports/providers", {
-          adminUsername: adminUser.username,
           dateRange: range
         });
         
@@ -169,14 +166,13 @@ export default function AdminReportsPage() {
           title: "Materials & Orders Report",
           description: "Analysis of material orders and inventory",
           dateRange: getDateRange(),
-          data: {}
+          data: emptyReportData
         };
       }
       
       try {
         const range = getDateRange();
         const response = await apiRequest("POST", "/api/direct-admin/reports/materials", {
-          adminUsername: adminUser.username,
           dateRange: range
         });
         
@@ -206,14 +202,13 @@ export default function AdminReportsPage() {
           title: "Project Progress Report",
           description: "Overview of project timelines and milestones",
           dateRange: getDateRange(),
-          data: {}
+          data: emptyReportData
         };
       }
       
       try {
         const range = getDateRange();
         const response = await apiRequest("POST", "/api/direct-admin/reports/projects", {
-          adminUsername: adminUser.username,
           dateRange: range
         });
         
@@ -272,13 +267,45 @@ export default function AdminReportsPage() {
     }
   };
 
-  // Format currency with Ghana Cedi symbol
+  // Format an amount in cents with the Ghana Cedi symbol
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-GH', {
       style: 'currency',
       currency: 'GHS',
       minimumFractionDigits: 2
-    }).format(amount);
+    }).format(amount / 100);
+  };
+
+  const formatMetric = (value: number, metricFormat: ReportMetric["format"]) => {
+    switch (metricFormat) {
+      case "currency":
+        return formatCurrency(value);
+      case "percent":
+        return `${value.toFixed(1)}%`;
+      case "hours":
+        return `${value.toFixed(1)} hours`;
+      case "months":
+        return `${value.toFixed(1)} months`;
+      default:
+        return value.toLocaleString();
+    }
+  };
+
+  // Change against the previous period, as a percentage for money and an absolute difference otherwise
+  const describeChange = (metric: ReportMetric) => {
+    if (metric.previous === null) return null;
+
+    const difference = metric.value - metric.previous;
+    const change = metric.format === "currency"
+      ? (metric.previous ? `${((difference / metric.previous) * 100).toFixed(1)}%` : null)
+      : formatMetric(Math.abs(difference), metric.format);
+    if (change === null) return null;
+
+    return {
+      label: `${difference >= 0 ? "+" : "-"}${change.replace(/^-/, "")}`,
+      // Slower responses and longer projects are a change for the worse
+      isGood: ["hours", "months"].includes(metric.format) ? difference <= 0 : difference >= 0
+    };
   };
 
   // Handle export report
@@ -306,18 +333,38 @@ export default function AdminReportsPage() {
     window.print();
   };
 
-  // Placeholder functions for displaying chart or table data
-  // In a real implementation, these would render actual charts with libraries like recharts
   const renderChartView = (reportData: ReportData | undefined) => {
     if (!reportData) return null;
 
-    return (
-      <div className="p-6 bg-muted/20 rounded-md flex items-center justify-center min-h-[400px]">
-        <div className="text-center">
-          <BarChart3 className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
-          <p className="mb-2">Chart visualization would appear here</p>
-          <p className="text-muted-foreground text-sm">Using real data from the {reportData.title}</p>
+    const { chart } = reportData.data;
+    if (chart.points.length === 0) {
+      return (
+        <div className="p-6 bg-muted/20 rounded-md flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <BarChart3 className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground text-sm">No data for this period</p>
+          </div>
         </div>
+      );
+    }
+
+    const formatValue = (value: number) => chart.format === "currency" ? formatCurrency(value) : value.toLocaleString();
+
+    return (
+      <div className="h-[400px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chart.points} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" />
+            <YAxis tickFormatter={formatValue} />
+            <Tooltip formatter={(value) => formatValue(Number(value))} />
+            <Legend />
+            <Bar dataKey="value" name={chart.valueLabel} fill="#8884d8" />
+            {chart.secondaryLabel && (
+              <Bar dataKey="secondary" name={chart.secondaryLabel} fill="#82ca9d" />
+            )}
+          </BarChart>
+        </ResponsiveContainer>
       </div>
     );
   };
@@ -325,8 +372,6 @@ export default function AdminReportsPage() {
   const renderTableView = (reportData: ReportData | undefined) => {
     if (!reportData) return null;
 
-    // This is just a placeholder. In reality, we would use the actual data structure
-    // from the API response to render the appropriate table
     return (
       <Card className="border border-border/50">
         <Table>
@@ -339,31 +384,59 @@ export default function AdminReportsPage() {
             </TableRow>
           </TableHeader>
           <TableBody>
-            {/* In a real implementation, we would map over reportData.data */}
-            <TableRow>
-              <TableCell className="font-medium">Example data row 1</TableCell>
-              <TableCell>Category A</TableCell>
-              <TableCell className="text-right">{formatCurrency(1250)}</TableCell>
-              <TableCell className="text-right">{formatDate('2025-04-15')}</TableCell>
-            </TableRow>
-            <TableRow>
-              <TableCell className="font-medium">Example data row 2</TableCell>
-              <TableCell>Category B</TableCell>
-              <TableCell className="text-right">{formatCurrency(850)}</TableCell>
-              <TableCell className="text-right">{formatDate('2025-04-10')}</TableCell>
-            </TableRow>
-            <TableRow>
-              <TableCell className="font-medium">Example data row 3</TableCell>
-              <TableCell>Category A</TableCell>
-              <TableCell className="text-right">{formatCurrency(2400)}</TableCell>
-              <TableCell className="text-right">{formatDate('2025-04-05')}</TableCell>
-            </TableRow>
+            {reportData.data.rows.length > 0 ? (
+              reportData.data.rows.map((row, index) => (
+                <TableRow key={`${row.name}-${index}`}>
+                  <TableCell className="font-medium">{row.name}</TableCell>
+                  <TableCell className="capitalize">{row.category.replace(/_/g, " ")}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.amount)}</TableCell>
+                  <TableCell className="text-right">{row.date ? formatDate(row.date) : "-"}</TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-4 text-muted-foreground">
+                  No data for this period
+                </TableCell>
+              </TableRow>
+            )}
           </TableBody>
         </Table>
       </Card>
     );
   };
 
+  const renderMetricCards = (reportData: ReportData | undefined) => {
+    if (!reportData) return null;
+
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
+        {reportData.data.metrics.map((metric) => {
+          const change = describeChange(metric);
+          return (
+            <Card key={metric.label}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base font-medium">{metric.label}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMetric(metric.value, metric.format)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {change ? (
+                    <>
+                      <span className={change.isGood ? "text-green-500" : "text-red-500"}>{change.label}</span> from previous period
+                    </>
+                  ) : (
+                    "Current total"
+                  )}
+                </p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    );
+  };
+
   return (
     <AdminDashboardLayout title="Reports & Analytics">
       <div className="container mx-auto py-6">
@@ -509,155 +582,19 @@ export default function AdminReportsPage() {
                   </div>
 
                   <TabsContent value="financial">
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <CardTitle className="text-base font-medium">Total Revenue</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="text-2xl font-bold">{formatCurrency(45250)}</div>
-                          <p className="text-xs text-muted-foreground">
-                            <span className="text-green-500">+12.5%</span> from previous period
-                          </p>
-                        </CardContent>
-                      </Card>
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <CardTitle className="text-base font-medium">Orders Completed</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="text-2xl font-bold">186</div>
-                          <p className="text-xs text-muted-foreground">
-                            <span className="text-green-500">+8.3%</span> from previous period
-                          </p>
-                        </CardContent>
-                      </Card>
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <CardTitle className="text-base font-medium">Average Order Value</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="text-2xl font-bold">{formatCurrency(243.28)}</div>
-                          <p className="text-xs text-muted-foreground">
-                            <span className="text-green-500">+4.2%</span> from previous period
-                          </p>
-                        </CardContent>
-                      </Card>
-                    </div>
+                    {renderMetricCards(financialReports)}
                   </TabsContent>
 
                   <TabsContent value="providers">
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <CardTitle className="text-base font-medium">Total Providers</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="text-2xl font-bold">24</div>
-                          <p className="text-xs text-muted-foreground">
-                            <span className="text-green-500">+4</span> new this period
-                          </p>
-                        </CardContent>
-                      </Card>
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <CardTitle className="text-base font-medium">Avg. Response Time</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="text-2xl font-bold">3.5 hours</div>
-                          <p className="text-xs text-muted-foreground">
-                            <span className="text-green-500">-15%</span> from previous period
-                          </p>
-                        </CardContent>
-                      </Card>
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <CardTitle className="text-base font-medium">Avg. Rating</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="text-2xl font-bold">4.7/5</div>
-                          <p className="text-xs text-muted-foreground">
-                            <span className="text-green-500">+0.2</span> from previous period
-                          </p>
-                        </CardContent>
-                      </Card>
-                    </div>
+                    {renderMetricCards(providerReports)}
                   </TabsContent>
 
                   <TabsContent value="materials">
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <CardTitle className="text-base font-medium">Total Materials</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="text-2xl font-bold">152</div>
-                          <p className="text-xs text-muted-foreground">
-                            <span className="text-green-500">+12</span> new this period
-                          </p>
-                        </CardContent>
-                      </Card>
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <CardTitle className="text-base font-medium">Total Orders Value</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="text-2xl font-bold">{formatCurrency(68450)}</div>
-                          <p className="text-xs text-muted-foreground">
-                            <span className="text-green-500">+18.2%</span> from previous period
-                          </p>
-                        </CardContent>
-                      </Card>
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <CardTitle className="text-base font-medium">Low Stock Items</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="text-2xl font-bold">7</div>
-                          <p className="text-xs text-muted-foreground">
-                            <span className="text-red-500">+3</span> from previous period
-                          </p>
-                        </CardContent>
-                      </Card>
-                    </div>
+                    {renderMetricCards(materialsReports)}
                   </TabsContent>
 
                   <TabsContent value="projects">
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <CardTitle className="text-base font-medium">Active Projects</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="text-2xl font-bold">38</div>
-                          <p className="text-xs text-muted-foreground">
-                            <span className="text-green-500">+5</span> from previous period
-                          </p>
-                        </CardContent>
-                      </Card>
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <CardTitle className="text-base font-medium">Avg. Completion Time</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="text-2xl font-bold">4.5 months</div>
-                          <p className="text-xs text-muted-foreground">
-                            <span className="text-green-500">-0.5 months</span> from previous avg.
-                          </p>
-                        </CardContent>
-                      </Card>
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <CardTitle className="text-base font-medium">On-time Completion</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="text-2xl font-bold">92%</div>
-                          <p className="text-xs text-muted-foreground">
-                            <span className="text-green-500">+4%</span> from previous period
-                          </p>
-                        </CardContent>
-                      </Card>
-                    </div>
+                    {renderMetricCards(projectReports)}
                   </TabsContent>
                 </>
               )}
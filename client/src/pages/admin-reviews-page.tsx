@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Eye, EyeOff, Loader2, Star } from "lucide-react";
+import { MaterialReview, MaterialReviewStatus, MaterialReviewWithDetails } from "@shared/schema";
+import AdminDashboardLayout from "@/components/admin/admin-dashboard-layout";
+import { StarRating } from "@/components/materials/material-reviews";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useDirectAdminAuth } from "@/hooks/use-direct-admin-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export default function AdminReviewsPage() {
+  const { adminUser } = useDirectAdminAuth();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<MaterialReviewStatus | "all">("all");
+  const [moderating, setModerating] = useState<MaterialReviewWithDetails | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data: reviews = [], isLoading } = useQuery<MaterialReviewWithDetails[]>({
+    queryKey: ["/api/direct-admin/material-reviews", statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      const response = await apiRequest("GET", `/api/direct-admin/material-reviews?${params}`);
+      return response.json();
+    },
+    enabled: adminUser?.role === "admin",
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ review, status }: { review: MaterialReviewWithDetails, status: MaterialReviewStatus }) => {
+      const response = await apiRequest("PATCH", `/api/direct-admin/material-reviews/${review.id}`, {
+        status,
+        note: note.trim() || undefined,
+      });
+      return response.json() as Promise<MaterialReview>;
+    },
+    onSuccess: (review) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/direct-admin/material-reviews"] });
+      toast({
+        title: review.status === "hidden" ? "Review hidden" : "Review published",
+        description: "The material and supplier ratings have been updated.",
+      });
+      setModerating(null);
+      setNote("");
+    },
+    onError: () => {
+      toast({ title: "Could not update review", variant: "destructive" });
+    },
+  });
+
+  const nextStatus = (review: MaterialReviewWithDetails): MaterialReviewStatus =>
+    review.status === "hidden" ? "published" : "hidden";
+
+  return (
+    <AdminDashboardLayout title="Reviews">
+      <div className="container mx-auto py-6">
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center flex-wrap gap-4">
+              <div>
+                <CardTitle className="text-2xl font-bold">
+                  <Star className="inline-block mr-2 h-6 w-6" />
+                  Material Reviews
+                </CardTitle>
+                <CardDescription>
+                  Hidden reviews are not shown publicly and don't count towards ratings
+                </CardDescription>
+              </div>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as MaterialReviewStatus | "all")}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All reviews</SelectItem>
+                  <SelectItem value="published">Published</SelectItem>
+                  <SelectItem value="hidden">Hidden</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-10">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : reviews.length === 0 ? (
+              <p className="text-center text-muted-foreground py-10">No reviews found</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Material</TableHead>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Rating</TableHead>
+                    <TableHead>Review</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reviews.map(review => (
+                    <TableRow key={review.id}>
+                      <TableCell>
+                        <div className="font-medium">{review.materialName}</div>
+                        <div className="text-xs text-muted-foreground">{review.supplierName}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{review.clientName}</div>
+                        <div className="text-xs text-muted-foreground">{format(new Date(review.createdAt), "MMM dd, yyyy")}</div>
+                      </TableCell>
+                      <TableCell>
+                        <StarRating value={review.rating} />
+                      </TableCell>
+                      <TableCell className="max-w-md">
+                        <p className="line-clamp-3">{review.comment || <span className="text-muted-foreground">No comment</span>}</p>
+                        {review.photos && review.photos.length > 0 && (
+                          <div className="text-xs text-muted-foreground mt-1">{review.photos.length} photo(s)</div>
+                        )}
+                        {review.moderationNote && (
+                          <div className="text-xs text-muted-foreground mt-1">Note: {review.moderationNote}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {review.status === "hidden" ? (
+                          <Badge variant="outline" className="bg-gray-100 text-gray-800 border-gray-200">Hidden</Badge>
+                        ) : (
+                          <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">Published</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => setModerating(review)}>
+                          {review.status === "hidden" ? <Eye className="mr-2 h-4 w-4" /> : <EyeOff className="mr-2 h-4 w-4" />}
+                          {review.status === "hidden" ? "Publish" : "Hide"}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!moderating} onOpenChange={(open) => { if (!open) { setModerating(null); setNote(""); } }}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{moderating?.status === "hidden" ? "Publish review" : "Hide review"}</DialogTitle>
+              <DialogDescription>
+                {moderating?.status === "hidden"
+                  ? "The review will be shown again and counted in the material and supplier ratings."
+                  : "The review will be removed from the material page and from the material and supplier ratings."}
+              </DialogDescription>
+            </DialogHeader>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Moderation note (optional, only visible to admins)"
+              maxLength={500}
+            />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setModerating(null)}>Cancel</Button>
+              <Button
+                onClick={() => moderating && moderateMutation.mutate({ review: moderating, status: nextStatus(moderating) })}
+                disabled={moderateMutation.isPending}
+              >
+                {moderateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {moderating?.status === "hidden" ? "Publish" : "Hide"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AdminDashboardLayout>
+  );
+}
@@ -18,6 +18,7 @@ import {
   Mail
 } from "lucide-react";
 import AdminDashboardLayout from "@/components/admin/admin-dashboard-layout";
+import { AdminEscrowPanel } from "@/components/admin/admin-escrow-panel";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { ServiceRequest } from "@shared/schema";
@@ -129,9 +130,7 @@ export default function AdminServiceRequestsPage() {
       }
       
       try {
-        const response = await apiRequest("POST", "/api/direct-admin/service-requests", {
-          adminUsername: adminUser.username
-        });
+        const response = await apiRequest("POST", "/api/direct-admin/service-requests");
         
         if (!response.ok) {
           const errorText = await response.text();
@@ -159,7 +158,6 @@ export default function AdminServiceRequestsPage() {
   const forwardToBiddingMutation = useMutation({
     mutationFn: async (data: { serviceRequestId: number; adminNotes?: string; deadline?: string; budget?: number }) => {
       const response = await apiRequest("PATCH", `/api/direct-admin/service-requests/${data.serviceRequestId}/forward-to-bidding`, {
-        adminUsername: adminUser?.username,
         ...data
       });
       
@@ -526,6 +524,13 @@ export default function AdminServiceRequestsPage() {
                     </div>
                   </div>
                 )}
+
+                {selectedServiceRequest.assignedServiceProviderId && (
+                  <div className="space-y-2">
+                    <h3 className="text-lg font-semibold">Escrow</h3>
+                    <AdminEscrowPanel serviceRequestId={selectedServiceRequest.id} />
+                  </div>
+                )}
               </div>
             </ScrollArea>
           )}
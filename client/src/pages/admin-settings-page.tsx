@@ -1,5 +1,7 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { PlatformSettings, VersionedPlatformSettings } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
   Loader2, 
   Save, 
@@ -23,67 +25,74 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useDirectAdminAuth } from "@/hooks/use-direct-admin-auth";
+import { AdminMaintenanceWindows } from "@/components/admin/admin-maintenance-windows";
 
 export default function AdminSettingsPage() {
   const [activeTab, setActiveTab] = useState("general");
   const { adminUser, isLoading: isLoadingAuth } = useDirectAdminAuth();
   const { toast } = useToast();
+  // Unsaved edits; each tab saves only its own section
+  const [draft, setDraft] = useState<PlatformSettings | null>(null);
 
-  // Placeholder query for system settings
-  const { data: settings, isLoading: isLoadingSettings } = useQuery({
+  const { data: current, isLoading: isLoadingSettings } = useQuery<VersionedPlatformSettings>({
     queryKey: ["/api/direct-admin/settings"],
     queryFn: async () => {
-      if (!adminUser) return null;
-      
-      // This is a placeholder. In the future, we'll implement the actual API endpoint.
-      return {
-        general: {
-          siteName: "Artisans Ghana",
-          siteDescription: "A trusted platform connecting Ghanaians abroad with local contractors",
-          contactEmail: "admin@artisansghana.com",
-          supportPhone: "+233 50 123 4567",
-          maintenanceMode: false
-        },
-        appearance: {
-          primaryColor: "#1E40AF",
-          logo: "/assets/logo.png",
-          theme: "light",
-          borderRadius: 8,
-          fontFamily: "Inter"
-        },
-        notifications: {
-          emailNotifications: true,
-          smsNotifications: false,
-          pushNotifications: true,
-          digestEmails: true,
-          notificationSound: true
-        },
-        security: {
-          twoFactorAuth: false,
-          passwordPolicy: "medium",
-          sessionTimeout: 30,
-          ipRestriction: false,
-          allowedIPs: ""
-        },
-        database: {
-          backupFrequency: "daily",
-          lastBackup: "2025-04-26T08:30:00Z",
-          retentionPeriod: 30
-        }
-      };
+      const response = await apiRequest(
+        "GET",
+        `/api/direct-admin/settings`
+      );
+      return response.json();
     },
     enabled: !!adminUser
   });
 
-  const isLoading = isLoadingAuth || isLoadingSettings;
+  useEffect(() => {
+    if (current) {
+      setDraft(current.settings);
+    }
+  }, [current]);
 
-  const handleSave = () => {
-    toast({
-      title: "Settings saved",
-      description: "Your system settings have been updated successfully.",
-    });
+  const saveMutation = useMutation({
+    mutationFn: async (section: keyof PlatformSettings) => {
+      const response = await apiRequest("PUT", "/api/direct-admin/settings", {
+        version: current?.version ?? 0,
+        settings: { [section]: draft?.[section] }
+      });
+      return response.json() as Promise<VersionedPlatformSettings>;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/direct-admin/settings"], saved);
+      toast({
+        title: "Settings saved",
+        description: "Your system settings have been updated successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSection = <K extends keyof PlatformSettings>(section: K, changes: Partial<PlatformSettings[K]>) => {
+    setDraft(prev => prev && { ...prev, [section]: { ...prev[section], ...changes } });
   };
 
+  const isLoading = isLoadingAuth || isLoadingSettings || (!!current && !draft);
+
+  const renderSaveButton = (section: keyof PlatformSettings) => (
+    <Button onClick={() => saveMutation.mutate(section)} disabled={saveMutation.isPending || !draft}>
+      {saveMutation.isPending ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <Save className="mr-2 h-4 w-4" />
+      )}
+      Save Changes
+    </Button>
+  );
+
   if (isLoading) {
     return (
       <AdminDashboardLayout title="Admin Settings">
@@ -95,6 +104,16 @@ export default function AdminSettingsPage() {
     );
   }
 
+  if (!draft) {
+    return (
+      <AdminDashboardLayout title="Admin Settings">
+        <div className="p-8 text-center text-muted-foreground">
+          Settings could not be loaded. Please refresh the page to try again.
+        </div>
+      </AdminDashboardLayout>
+    );
+  }
+
   return (
     <AdminDashboardLayout title="System Settings">
       <div className="mb-6">
@@ -147,7 +166,8 @@ export default function AdminSettingsPage() {
                   <Label htmlFor="siteName">Site Name</Label>
                   <Input 
                     id="siteName" 
-                    defaultValue={settings?.general.siteName}
+                    value={draft.general.siteName}
+                    onChange={(e) => updateSection("general", { siteName: e.target.value })}
                     placeholder="Site Name" 
                   />
                 </div>
@@ -155,7 +175,8 @@ export default function AdminSettingsPage() {
                   <Label htmlFor="contactEmail">Contact Email</Label>
                   <Input 
                     id="contactEmail" 
-                    defaultValue={settings?.general.contactEmail}
+                    value={draft.general.contactEmail}
+                    onChange={(e) => updateSection("general", { contactEmail: e.target.value })}
                     placeholder="contact@example.com" 
                     type="email"
                   />
@@ -166,7 +187,8 @@ export default function AdminSettingsPage() {
                 <Label htmlFor="siteDescription">Site Description</Label>
                 <Textarea 
                   id="siteDescription" 
-                  defaultValue={settings?.general.siteDescription}
+                  value={draft.general.siteDescription}
+                  onChange={(e) => updateSection("general", { siteDescription: e.target.value })}
                   placeholder="Brief description of your site"
                 />
               </div>
@@ -176,13 +198,17 @@ export default function AdminSettingsPage() {
                   <Label htmlFor="supportPhone">Support Phone</Label>
                   <Input 
                     id="supportPhone" 
-                    defaultValue={settings?.general.supportPhone}
+                    value={draft.general.supportPhone}
+                    onChange={(e) => updateSection("general", { supportPhone: e.target.value })}
                     placeholder="+233 XX XXX XXXX" 
                   />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="timezone">Timezone</Label>
-                  <Select defaultValue="Africa/Accra">
+                  <Select
+                    value={draft.general.timezone}
+                    onValueChange={(timezone) => updateSection("general", { timezone })}
+                  >
                     <SelectTrigger>
                       <SelectValue placeholder="Select timezone" />
                     </SelectTrigger>
@@ -199,23 +225,23 @@ export default function AdminSettingsPage() {
               <div className="flex items-center space-x-2">
                 <Switch 
                   id="maintenanceMode" 
-                  checked={settings?.general.maintenanceMode}
+                  checked={draft.general.maintenanceMode}
+                  onCheckedChange={(maintenanceMode) => updateSection("general", { maintenanceMode })}
                 />
                 <Label htmlFor="maintenanceMode" className="cursor-pointer">
                   Maintenance Mode
                 </Label>
                 <span className="text-xs text-muted-foreground ml-auto">
-                  Puts the site in maintenance mode, showing a maintenance page to visitors
+                  Immediately shows a maintenance page to everyone but admins, until switched off
                 </span>
               </div>
             </CardContent>
             <CardFooter>
-              <Button onClick={handleSave}>
-                <Save className="mr-2 h-4 w-4" />
-                Save Changes
-              </Button>
+              {renderSaveButton("general")}
             </CardFooter>
           </Card>
+
+          <AdminMaintenanceWindows />
         </TabsContent>
 
         {/* Appearance Settings */}
@@ -234,19 +260,24 @@ export default function AdminSettingsPage() {
                   <div className="flex gap-2">
                     <Input 
                       id="primaryColor" 
-                      defaultValue={settings?.appearance.primaryColor}
+                      value={draft.appearance.primaryColor}
+                      onChange={(e) => updateSection("appearance", { primaryColor: e.target.value })}
                       className="flex-1"
                     />
                     <input 
                       type="color" 
-                      value={settings?.appearance.primaryColor}
+                      value={draft.appearance.primaryColor}
+                      onChange={(e) => updateSection("appearance", { primaryColor: e.target.value })}
                       className="h-10 w-10 border rounded cursor-pointer"
                     />
                   </div>
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="theme">Theme</Label>
-                  <Select defaultValue={settings?.appearance.theme}>
+                  <Select
+                    value={draft.appearance.theme}
+                    onValueChange={(theme) => updateSection("appearance", { theme: theme as PlatformSettings["appearance"]["theme"] })}
+                  >
                     <SelectTrigger>
                       <SelectValue placeholder="Select theme" />
                     </SelectTrigger>
@@ -263,11 +294,16 @@ export default function AdminSettingsPage() {
                 <Label htmlFor="logo">Logo Image</Label>
                 <div className="flex items-center gap-4">
                   <img 
-                    src={settings?.appearance.logo} 
+                    src={draft.appearance.logo} 
                     alt="Logo" 
                     className="h-12 w-auto border rounded p-1" 
                   />
-                  <Input type="file" id="logo" />
+                  <Input
+                    id="logo"
+                    value={draft.appearance.logo}
+                    onChange={(e) => updateSection("appearance", { logo: e.target.value })}
+                    placeholder="/assets/logo.png"
+                  />
                 </div>
               </div>
               
@@ -280,14 +316,18 @@ export default function AdminSettingsPage() {
                       type="number" 
                       min="0" 
                       max="24" 
-                      defaultValue={settings?.appearance.borderRadius.toString()}
+                      value={draft.appearance.borderRadius}
+                      onChange={(e) => updateSection("appearance", { borderRadius: Number(e.target.value) })}
                     />
                     <span className="text-sm text-muted-foreground">px</span>
                   </div>
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="fontFamily">Font Family</Label>
-                  <Select defaultValue={settings?.appearance.fontFamily}>
+                  <Select
+                    value={draft.appearance.fontFamily}
+                    onValueChange={(fontFamily) => updateSection("appearance", { fontFamily: fontFamily as PlatformSettings["appearance"]["fontFamily"] })}
+                  >
                     <SelectTrigger>
                       <SelectValue placeholder="Select font" />
                     </SelectTrigger>
@@ -302,10 +342,7 @@ export default function AdminSettingsPage() {
               </div>
             </CardContent>
             <CardFooter>
-              <Button onClick={handleSave}>
-                <Save className="mr-2 h-4 w-4" />
-                Save Changes
-              </Button>
+              {renderSaveButton("appearance")}
             </CardFooter>
           </Card>
         </TabsContent>
@@ -329,7 +366,8 @@ export default function AdminSettingsPage() {
                     </p>
                   </div>
                   <Switch 
-                    checked={settings?.notifications.emailNotifications}
+                    checked={draft.notifications.emailNotifications}
+                    onCheckedChange={(emailNotifications) => updateSection("notifications", { emailNotifications })}
                   />
                 </div>
                 <Separator />
@@ -342,7 +380,8 @@ export default function AdminSettingsPage() {
                     </p>
                   </div>
                   <Switch 
-                    checked={settings?.notifications.smsNotifications}
+                    checked={draft.notifications.smsNotifications}
+                    onCheckedChange={(smsNotifications) => updateSection("notifications", { smsNotifications })}
                   />
                 </div>
                 <Separator />
@@ -355,7 +394,8 @@ export default function AdminSettingsPage() {
                     </p>
                   </div>
                   <Switch 
-                    checked={settings?.notifications.pushNotifications}
+                    checked={draft.notifications.pushNotifications}
+                    onCheckedChange={(pushNotifications) => updateSection("notifications", { pushNotifications })}
                   />
                 </div>
                 <Separator />
@@ -368,7 +408,8 @@ export default function AdminSettingsPage() {
                     </p>
                   </div>
                   <Switch 
-                    checked={settings?.notifications.digestEmails}
+                    checked={draft.notifications.digestEmails}
+                    onCheckedChange={(digestEmails) => updateSection("notifications", { digestEmails })}
                   />
                 </div>
                 <Separator />
@@ -381,16 +422,14 @@ export default function AdminSettingsPage() {
                     </p>
                   </div>
                   <Switch 
-                    checked={settings?.notifications.notificationSound}
+                    checked={draft.notifications.notificationSound}
+                    onCheckedChange={(notificationSound) => updateSection("notifications", { notificationSound })}
                   />
                 </div>
               </div>
             </CardContent>
             <CardFooter>
-              <Button onClick={handleSave}>
-                <Save className="mr-2 h-4 w-4" />
-                Save Changes
-              </Button>
+              {renderSaveButton("notifications")}
             </CardFooter>
           </Card>
         </TabsContent>
@@ -409,18 +448,22 @@ export default function AdminSettingsPage() {
                 <div className="space-y-0.5">
                   <Label>Two-Factor Authentication</Label>
                   <p className="text-sm text-muted-foreground">
-                    Require 2FA for all admin users
+                    Require 2FA for all admin users. Admins who haven't set it up are asked to the next time they log in.
                   </p>
                 </div>
                 <Switch 
-                  checked={settings?.security.twoFactorAuth}
+                  checked={draft.security.twoFactorAuth}
+                  onCheckedChange={(twoFactorAuth) => updateSection("security", { twoFactorAuth })}
                 />
               </div>
               <Separator />
               
               <div className="space-y-2">
                 <Label htmlFor="passwordPolicy">Password Policy</Label>
-                <Select defaultValue={settings?.security.passwordPolicy}>
+                <Select
+                  value={draft.security.passwordPolicy}
+                  onValueChange={(passwordPolicy) => updateSection("security", { passwordPolicy: passwordPolicy as PlatformSettings["security"]["passwordPolicy"] })}
+                >
                   <SelectTrigger id="passwordPolicy">
                     <SelectValue placeholder="Select password policy" />
                   </SelectTrigger>
@@ -439,7 +482,8 @@ export default function AdminSettingsPage() {
                   type="number" 
                   min="5" 
                   max="1440"
-                  defaultValue={settings?.security.sessionTimeout.toString()}
+                  value={draft.security.sessionTimeout}
+                  onChange={(e) => updateSection("security", { sessionTimeout: Number(e.target.value) })}
                 />
                 <p className="text-xs text-muted-foreground">
                   How long before inactive sessions are logged out automatically
@@ -454,7 +498,8 @@ export default function AdminSettingsPage() {
                   </p>
                 </div>
                 <Switch 
-                  checked={settings?.security.ipRestriction}
+                  checked={draft.security.ipRestriction}
+                  onCheckedChange={(ipRestriction) => updateSection("security", { ipRestriction })}
                 />
               </div>
               
@@ -463,8 +508,9 @@ export default function AdminSettingsPage() {
                 <Textarea 
                   id="allowedIPs" 
                   placeholder="Enter IP addresses, one per line"
-                  defaultValue={settings?.security.allowedIPs}
-                  disabled={!settings?.security.ipRestriction}
+                  value={draft.security.allowedIPs}
+                  onChange={(e) => updateSection("security", { allowedIPs: e.target.value })}
+                  disabled={!draft.security.ipRestriction}
                 />
                 <p className="text-xs text-muted-foreground">
                   Enter one IP address per line, e.g. 192.168.1.1
@@ -472,10 +518,7 @@ export default function AdminSettingsPage() {
               </div>
             </CardContent>
             <CardFooter>
-              <Button onClick={handleSave}>
-                <Save className="mr-2 h-4 w-4" />
-                Save Changes
-              </Button>
+              {renderSaveButton("security")}
             </CardFooter>
           </Card>
         </TabsContent>
@@ -492,7 +535,10 @@ export default function AdminSettingsPage() {
             <CardContent className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="backupFrequency">Backup Frequency</Label>
-                <Select defaultValue={settings?.database.backupFrequency}>
+                <Select
+                  value={draft.database.backupFrequency}
+                  onValueChange={(backupFrequency) => updateSection("database", { backupFrequency: backupFrequency as PlatformSettings["database"]["backupFrequency"] })}
+                >
                   <SelectTrigger id="backupFrequency">
                     <SelectValue placeholder="Select backup frequency" />
                   </SelectTrigger>
@@ -508,7 +554,7 @@ export default function AdminSettingsPage() {
               <div className="space-y-2">
                 <Label>Last Backup</Label>
                 <div className="p-2 bg-muted rounded text-sm">
-                  {new Date(settings?.database.lastBackup).toLocaleString()}
+                  {draft.database.lastBackup ? new Date(draft.database.lastBackup).toLocaleString() : "Never"}
                 </div>
               </div>
               
@@ -519,7 +565,8 @@ export default function AdminSettingsPage() {
                   type="number" 
                   min="1" 
                   max="365"
-                  defaultValue={settings?.database.retentionPeriod.toString()}
+                  value={draft.database.retentionPeriod}
+                  onChange={(e) => updateSection("database", { retentionPeriod: Number(e.target.value) })}
                 />
                 <p className="text-xs text-muted-foreground">
                   How long to keep database backups before automatic deletion
@@ -544,10 +591,7 @@ export default function AdminSettingsPage() {
               </div>
             </CardContent>
             <CardFooter>
-              <Button onClick={handleSave}>
-                <Save className="mr-2 h-4 w-4" />
-                Save Changes
-              </Button>
+              {renderSaveButton("database")}
             </CardFooter>
           </Card>
         </TabsContent>
@@ -114,9 +114,7 @@ export default function AdminSuppliersPage() {
       }
       
       try {
-        const response = await apiRequest("POST", "/api/direct-admin/suppliers", {
-          adminUsername: adminUser.username
-        });
+        const response = await apiRequest("POST", "/api/direct-admin/suppliers");
         
         if (!response.ok) {
           const errorText = await response.text();
@@ -147,9 +145,7 @@ export default function AdminSuppliersPage() {
     }
     
     try {
-      const response = await apiRequest("POST", `/api/direct-admin/suppliers/${supplierId}/materials`, {
-        adminUsername: adminUser.username
-      });
+      const response = await apiRequest("POST", `/api/direct-admin/suppliers/${supplierId}/materials`);
       
       if (!response.ok) {
         const errorText = await response.text();
@@ -9,6 +9,8 @@ import {
   Trash2,
   Key,
   Lock,
+  LockOpen,
+  LogOut,
   Shield
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -88,6 +90,7 @@ export default function AdminUsersPage() {
   const [isResetPasswordOpen, setIsResetPasswordOpen] = useState(false);
   const [isEditUserOpen, setIsEditUserOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isForceLogoutOpen, setIsForceLogoutOpen] = useState(false);
 
   // Create form for password reset
   const passwordResetForm = useForm<PasswordResetFormValues>({
@@ -129,9 +132,7 @@ export default function AdminUsersPage() {
       try {
         // Use the apiRequest utility from queryClient which handles headers properly
         console.log(`Making API request to fetch users with admin username: ${adminUser.username}`);
-        const response = await apiRequest("POST", "/api/direct-admin/all-users", {
-          adminUsername: adminUser.username
-        });
+        const response = await apiRequest("POST", "/api/direct-admin/all-users");
         
         console.log(`API response status: ${response.status}`);
         
@@ -174,8 +175,7 @@ export default function AdminUsersPage() {
     mutationFn: async (data: { userId: number; newPassword: string }) => {
       const response = await apiRequest("POST", "/api/admin/reset-user-password", {
         userId: data.userId,
-        newPassword: data.newPassword,
-        adminUsername: adminUser?.username
+        newPassword: data.newPassword
       });
       
       if (!response.ok) {
@@ -205,10 +205,7 @@ export default function AdminUsersPage() {
   // Mutation for updating user
   const updateUserMutation = useMutation({
     mutationFn: async (data: UserUpdateFormValues & { userId: number }) => {
-      const response = await apiRequest("PATCH", `/api/direct-admin/users/${data.userId}`, {
-        ...data,
-        adminUsername: adminUser?.username
-      });
+      const response = await apiRequest("PATCH", `/api/direct-admin/users/${data.userId}`, data);
       
       if (!response.ok) {
         const errorData = await response.json();
@@ -238,9 +235,7 @@ export default function AdminUsersPage() {
   // Mutation for deleting user
   const deleteUserMutation = useMutation({
     mutationFn: async (userId: number) => {
-      const response = await apiRequest("DELETE", `/api/direct-admin/users/${userId}`, {
-        adminUsername: adminUser?.username
-      });
+      const response = await apiRequest("DELETE", `/api/direct-admin/users/${userId}`);
       
       if (!response.ok) {
         const errorData = await response.json();
@@ -266,6 +261,50 @@ export default function AdminUsersPage() {
     },
   });
 
+  // Mutation for lifting a lockout from too many failed logins
+  const unlockUserMutation = useMutation({
+    mutationFn: async (user: User) => {
+      const response = await apiRequest("POST", `/api/direct-admin/users/${user.id}/unlock`);
+      return response.json();
+    },
+    onSuccess: (_data, user) => {
+      toast({
+        title: "User Unlocked",
+        description: `${user.username} can log in again`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/direct-admin/all-users'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Unlock Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for signing a user out of all their sessions
+  const forceLogoutMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest("POST", `/api/direct-admin/users/${userId}/logout`);
+      return response.json() as Promise<{ message: string, revoked: number }>;
+    },
+    onSuccess: ({ revoked }) => {
+      toast({
+        title: "User Signed Out",
+        description: `Ended ${revoked} session${revoked === 1 ? "" : "s"} for ${selectedUser?.username}`,
+      });
+      setIsForceLogoutOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Sign Out Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Handle password reset
   const handleResetPassword = (values: PasswordResetFormValues) => {
     if (selectedUser) {
@@ -321,6 +360,12 @@ export default function AdminUsersPage() {
     setIsDeleteDialogOpen(true);
   };
 
+  // Open force logout confirmation dialog
+  const openForceLogoutDialog = (user: User) => {
+    setSelectedUser(user);
+    setIsForceLogoutOpen(true);
+  };
+
   // Debug users array
   console.log("Users data:", users);
   
@@ -393,7 +438,15 @@ export default function AdminUsersPage() {
                   <TableBody>
                     {filteredUsers.map((user) => (
                       <TableRow key={user.id}>
-                        <TableCell className="font-medium">{user.username}</TableCell>
+                        <TableCell className="font-medium">
+                          {user.username}
+                          {user.lockedAt && (
+                            <Badge variant="destructive" className="ml-2">
+                              <Lock className="mr-1 h-3 w-3" />
+                              Locked
+                            </Badge>
+                          )}
+                        </TableCell>
                         <TableCell>{user.fullName || "-"}</TableCell>
                         <TableCell>{user.email || "-"}</TableCell>
                         <TableCell>
@@ -418,6 +471,25 @@ export default function AdminUsersPage() {
                             >
                               <Key className="h-4 w-4" />
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Sign out everywhere"
+                              onClick={() => openForceLogoutDialog(user)}
+                            >
+                              <LogOut className="h-4 w-4" />
+                            </Button>
+                            {user.lockedAt && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Unlock account"
+                                onClick={() => unlockUserMutation.mutate(user)}
+                                disabled={unlockUserMutation.isPending}
+                              >
+                                <LockOpen className="h-4 w-4" />
+                              </Button>
+                            )}
                             {user.id !== adminUser?.id && (
                               <Button
                                 variant="outline"
@@ -664,6 +736,37 @@ export default function AdminUsersPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Force Logout Confirmation Dialog */}
+      <Dialog open={isForceLogoutOpen} onOpenChange={setIsForceLogoutOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Sign Out Everywhere</DialogTitle>
+            <DialogDescription>
+              Sign <strong>{selectedUser?.username}</strong> out of every device they're logged in on? They can log straight back in with their password.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsForceLogoutOpen(false)}>
+              Cancel
+            </Button>
+            <Button 
+              variant="destructive" 
+              onClick={() => selectedUser && forceLogoutMutation.mutate(selectedUser.id)}
+              disabled={forceLogoutMutation.isPending}
+            >
+              {forceLogoutMutation.isPending ? (
+                <>
+                  <div className="mr-2 h-4 w-4 animate-spin border-2 border-current border-t-transparent rounded-full" />
+                  Signing Out...
+                </>
+              ) : (
+                "Sign Out Everywhere"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </AdminDashboardLayout>
   );
 }
\ No newline at end of file
@@ -1,13 +1,15 @@
-import { useQuery } from "@tanstack/react-query";
-import { Material } from "@shared/schema";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Material, MaterialCataloguePage, MaterialCatalogueSort } from "@shared/schema";
 import { Link } from "wouter";
-import { getQueryFn } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Loader2, Search, Filter, ShoppingBag, ShoppingCart, Plus } from "lucide-react";
 import { useState, useEffect } from "react";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
@@ -50,37 +52,66 @@ const getImageForMaterial = (material: Material) => {
   return "https://images.unsplash.com/photo-1589939705384-5185137a7f0f?q=80&w=500";
 };
 
+// Waits for a pause in typing before asking the server again
+const FILTER_DELAY_MS = 300;
+
+const SORT_LABELS: Record<MaterialCatalogueSort, string> = {
+  relevance: "Best match",
+  newest: "Newest",
+  price_asc: "Price: low to high",
+  price_desc: "Price: high to low",
+  rating: "Top rated",
+  name: "Name",
+};
+
+// Select items can't have an empty value, so this stands for "no filter"
+const ALL = "all";
+
 export default function BrowseMaterialsPage() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [categoryFilter, setCategoryFilter] = useState<string | undefined>();
+  const [categoryFilter, setCategoryFilter] = useState(ALL);
+  const [brandFilter, setBrandFilter] = useState(ALL);
+  const [sort, setSort] = useState<MaterialCatalogueSort | undefined>();
+  const [inStockOnly, setInStockOnly] = useState(false);
+  const [minPrice, setMinPrice] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [typedFilters, setTypedFilters] = useState({ q: "", minPrice: "", maxPrice: "" });
   const { addItem } = useCart();
-  
-  const { data: materials, isLoading } = useQuery<Material[]>({
-    queryKey: ["/api/materials/public"],
-  });
 
-  // Create test materials if none exist
   useEffect(() => {
-    if (!isLoading && (!materials || materials.length === 0)) {
-      // We should notify the user that there are no materials yet
-      console.log("No materials found. The system needs materials to be added.");
-    }
-  }, [materials, isLoading]);
-
-  // Extract unique categories for the filter dropdown
-  const categories = materials 
-    ? [...new Set(materials.map(material => material.category))]
-    : [];
-
-  // Filter materials based on search term and category
-  const filteredMaterials = materials
-    ? materials.filter(material => {
-        const matchesSearch = material.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                             material.description.toLowerCase().includes(searchTerm.toLowerCase());
-        const matchesCategory = !categoryFilter || material.category === categoryFilter;
-        return matchesSearch && matchesCategory;
-      })
-    : [];
+    const timer = setTimeout(() => setTypedFilters({ q: searchTerm.trim(), minPrice, maxPrice }), FILTER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm, minPrice, maxPrice]);
+
+  // Best match only means something while searching
+  const activeSort = sort && (sort !== "relevance" || typedFilters.q) ? sort : typedFilters.q ? "relevance" : "newest";
+
+  // Prices are typed in cedis and filtered in pesewas
+  const params = new URLSearchParams();
+  if (typedFilters.q) params.set("q", typedFilters.q);
+  if (categoryFilter !== ALL) params.set("category", categoryFilter);
+  if (brandFilter !== ALL) params.set("brand", brandFilter);
+  if (typedFilters.minPrice) params.set("minPrice", String(Math.round(Number(typedFilters.minPrice) * 100)));
+  if (typedFilters.maxPrice) params.set("maxPrice", String(Math.round(Number(typedFilters.maxPrice) * 100)));
+  if (inStockOnly) params.set("inStock", "true");
+  params.set("sort", activeSort);
+  const catalogueUrl = `/api/materials/catalogue?${params.toString()}`;
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: [catalogueUrl],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest("GET", pageParam ? `${catalogueUrl}&cursor=${encodeURIComponent(pageParam)}` : catalogueUrl);
+      return response.json() as Promise<MaterialCataloguePage>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const materials = data?.pages.flatMap(page => page.materials) || [];
+  // Totals and facets come with the first page and cover every page
+  const firstPage = data?.pages[0];
+  const categories = firstPage?.facets?.categories || [];
+  const brands = firstPage?.facets?.brands || [];
 
   return (
     <DashboardLayout>
@@ -90,7 +121,7 @@ export default function BrowseMaterialsPage() {
           <CartDrawer />
         </div>
 
-        <div className="flex flex-col md:flex-row gap-4 mb-6">
+        <div className="flex flex-col md:flex-row gap-4 mb-4">
           <div className="relative flex-grow">
             <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
             <Input
@@ -100,21 +131,88 @@ export default function BrowseMaterialsPage() {
               onChange={(e) => setSearchTerm(e.target.value)}
             />
           </div>
-          <div className="w-full md:w-64">
+          <div className="w-full md:w-56">
             <Select value={categoryFilter} onValueChange={setCategoryFilter}>
               <SelectTrigger>
                 <SelectValue placeholder="Filter by category" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value={undefined}>All Categories</SelectItem>
+                <SelectItem value={ALL}>All Categories</SelectItem>
                 {categories.map(category => (
-                  <SelectItem key={category} value={category}>
-                    {category}
+                  <SelectItem key={category.value} value={category.value}>
+                    {category.value} ({category.count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-full md:w-56">
+            <Select value={brandFilter} onValueChange={setBrandFilter}>
+              <SelectTrigger>
+                <SelectValue placeholder="Filter by brand" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Brands</SelectItem>
+                {brands.map(brand => (
+                  <SelectItem key={brand.value} value={brand.value}>
+                    {brand.value} ({brand.count})
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
+          <div className="w-full md:w-48">
+            <Select
+              value={activeSort}
+              onValueChange={(value) => setSort(value as MaterialCatalogueSort)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SORT_LABELS) as MaterialCatalogueSort[])
+                  .filter(option => option !== "relevance" || typedFilters.q)
+                  .map(option => (
+                    <SelectItem key={option} value={option}>{SORT_LABELS[option]}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mb-6">
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              placeholder={firstPage?.facets?.price ? `Min ₵${Math.floor(firstPage.facets.price.min / 100)}` : "Min ₵"}
+              className="w-32"
+              value={minPrice}
+              onChange={(e) => setMinPrice(e.target.value)}
+            />
+            <span className="text-muted-foreground">to</span>
+            <Input
+              type="number"
+              min={0}
+              placeholder={firstPage?.facets?.price ? `Max ₵${Math.ceil(firstPage.facets.price.max / 100)}` : "Max ₵"}
+              className="w-32"
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="in-stock-only"
+              checked={inStockOnly}
+              onCheckedChange={(checked) => setInStockOnly(checked === true)}
+            />
+            <Label htmlFor="in-stock-only">In stock only</Label>
+          </div>
+          {firstPage?.total !== null && firstPage?.total !== undefined && (
+            <span className="text-sm text-muted-foreground ml-auto">
+              {firstPage.total} {firstPage.total === 1 ? "material" : "materials"}
+            </span>
+          )}
         </div>
 
         {isLoading ? (
@@ -123,7 +221,7 @@ export default function BrowseMaterialsPage() {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {filteredMaterials.map(material => {
+            {materials.map(material => {
               const materialImage = getImageForMaterial(material);
               
               return (
@@ -164,7 +262,7 @@ export default function BrowseMaterialsPage() {
                   <CardHeader className="pb-2">
                     <div className="flex justify-between items-start">
                       <CardTitle className="text-lg">{material.name}</CardTitle>
-                      {material.inStock ? (
+                      {material.available ? (
                         <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
                           In Stock
                         </Badge>
@@ -211,7 +309,7 @@ export default function BrowseMaterialsPage() {
               );
             })}
             
-            {filteredMaterials.length === 0 && (
+            {materials.length === 0 && (
               <div className="col-span-full text-center py-12">
                 <Filter className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
                 <h3 className="text-lg font-medium">No materials found</h3>
@@ -222,6 +320,15 @@ export default function BrowseMaterialsPage() {
             )}
           </div>
         )}
+
+        {hasNextPage && (
+          <div className="flex justify-center mt-8">
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Load more materials
+            </Button>
+          </div>
+        )}
       </div>
     </DashboardLayout>
   );
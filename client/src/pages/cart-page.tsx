@@ -18,7 +18,6 @@ export default function CartPage() {
       return;
     }
     
-    // Navigate to checkout page which will need to be created separately
     navigate("/checkout");
   };
 
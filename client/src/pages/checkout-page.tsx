@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import DashboardLayout from "@/components/layouts/dashboard-layout";
+import { useCart } from "@/hooks/use-cart";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { ArrowLeft, AlertCircle, CheckCircle2, Loader2, PackageOpen } from "lucide-react";
+import { CheckoutLineError, Order, Project } from "@shared/schema";
+
+const checkoutFormSchema = z.object({
+  projectId: z.number().optional(),
+  deliveryAddress: z.string().min(1, "Delivery address is required"),
+  deliveryDate: z.string().optional(),
+});
+
+type CheckoutFormValues = z.infer<typeof checkoutFormSchema>;
+
+export default function CheckoutPage() {
+  const { items, totalItems, totalAmount, clearCart } = useCart();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [lineErrors, setLineErrors] = useState<CheckoutLineError[]>([]);
+  const [placedOrder, setPlacedOrder] = useState<Order | null>(null);
+
+  // Projects the order can be delivered to
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+    enabled: user?.role === "client",
+  });
+
+  const form = useForm<CheckoutFormValues>({
+    resolver: zodResolver(checkoutFormSchema),
+    defaultValues: {
+      projectId: undefined,
+      deliveryAddress: user?.address || "",
+      deliveryDate: "",
+    },
+  });
+
+  const placeOrderMutation = useMutation({
+    mutationFn: async (data: CheckoutFormValues) => {
+      // Prices are recomputed by the server, so only IDs and quantities are sent
+      const response = await apiRequest("POST", "/api/orders", {
+        items: items.map(item => ({
+          materialId: item.materialId,
+          quantity: item.quantity,
+        })),
+        projectId: data.projectId,
+        deliveryAddress: data.deliveryAddress,
+        deliveryDate: data.deliveryDate || undefined,
+      });
+      return response.json() as Promise<Order>;
+    },
+    onSuccess: (order) => {
+      setLineErrors([]);
+      setPlacedOrder(order);
+      clearCart();
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Order placed successfully",
+        description: `Order ${order.orderId} is being processed.`,
+      });
+    },
+    onError: (error: Error) => {
+      // apiRequest errors look like "409: {json body}"
+      try {
+        const body = JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+        if (Array.isArray(body.errors)) {
+          setLineErrors(body.errors.filter((e: any) => typeof e.materialId === "number"));
+        }
+        toast({
+          title: "Could not place order",
+          description: body.message || error.message,
+          variant: "destructive",
+        });
+      } catch (e) {
+        toast({
+          title: "Could not place order",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    },
+  });
+
+  const formatPrice = (price: number) => {
+    return `₵${(price / 100).toFixed(2)}`;
+  };
+
+  const getLineError = (materialId: number) => {
+    return lineErrors.find(e => e.materialId === materialId)?.message;
+  };
+
+  if (placedOrder) {
+    return (
+      <DashboardLayout title="Checkout">
+        <div className="container mx-auto px-4 py-12 max-w-xl text-center">
+          <CheckCircle2 className="h-16 w-16 mx-auto text-green-600 mb-4" />
+          <h1 className="text-2xl font-bold mb-2">Thank you for your order</h1>
+          <p className="text-muted-foreground mb-6">
+            Order <span className="font-medium">{placedOrder.orderId}</span> totalling{" "}
+            <span className="font-medium">{formatPrice(placedOrder.totalAmount)}</span> has been placed.
+            The materials have been reserved with the supplier.
+          </p>
+          <div className="flex justify-center gap-3">
+            <Button variant="outline" onClick={() => navigate("/materials/browse")}>
+              Continue Shopping
+            </Button>
+            <Button onClick={() => navigate("/orders")}>Track Orders</Button>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout title="Checkout">
+      <div className="container mx-auto px-4 py-6">
+        <div className="flex items-center mb-6">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mr-4"
+            onClick={() => navigate("/cart")}
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Cart
+          </Button>
+          <h1 className="text-2xl font-bold">Checkout</h1>
+        </div>
+
+        {items.length === 0 ? (
+          <div className="flex flex-col items-center justify-center text-center py-12 bg-muted/20 rounded-lg">
+            <PackageOpen className="h-16 w-16 text-muted-foreground mb-4" />
+            <h3 className="text-xl font-medium">Your cart is empty</h3>
+            <p className="text-muted-foreground mt-2 mb-6 max-w-md">
+              Add materials to your cart before checking out.
+            </p>
+            <Button onClick={() => navigate("/materials/browse")}>Browse Materials</Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <Card className="col-span-2">
+              <CardHeader>
+                <CardTitle>Delivery Details</CardTitle>
+                <CardDescription>
+                  Tell us where the materials should be delivered
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form
+                    id="checkout-form"
+                    onSubmit={form.handleSubmit((data) => placeOrderMutation.mutate(data))}
+                    className="space-y-4"
+                  >
+                    {projects.length > 0 && (
+                      <FormField
+                        control={form.control}
+                        name="projectId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Project (Optional)</FormLabel>
+                            <Select
+                              value={field.value?.toString() ?? "none"}
+                              onValueChange={(value) => {
+                                const projectId = value === "none" ? undefined : parseInt(value);
+                                field.onChange(projectId);
+
+                                // Default the delivery address to the project site
+                                const project = projects.find(p => p.id === projectId);
+                                if (project) {
+                                  form.setValue("deliveryAddress", project.location);
+                                }
+                              }}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select a project for this order" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="none">No specific project</SelectItem>
+                                {projects.map((project) => (
+                                  <SelectItem key={project.id} value={project.id.toString()}>
+                                    {project.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name="deliveryAddress"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Delivery Address</FormLabel>
+                          <FormControl>
+                            <Input {...field} placeholder="Enter the delivery address" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="deliveryDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Preferred Delivery Date (Optional)</FormLabel>
+                          <FormControl>
+                            <Input {...field} type="date" min={new Date().toISOString().split('T')[0]} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
+
+            <div className="col-span-1">
+              <div className="bg-background rounded-md shadow-sm p-5 sticky top-4 border">
+                <h2 className="text-lg font-medium mb-4">Order Summary</h2>
+
+                {lineErrors.length > 0 && (
+                  <Alert variant="destructive" className="mb-4">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Some items need attention</AlertTitle>
+                    <AlertDescription>
+                      Update the quantities in your cart and try again.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="divide-y mb-4">
+                  {items.map((item) => (
+                    <div key={item.materialId} className="py-2">
+                      <div className="flex justify-between text-sm">
+                        <span>
+                          {item.name} × {item.quantity}
+                        </span>
+                        <span>{formatPrice(item.price * item.quantity)}</span>
+                      </div>
+                      {getLineError(item.materialId) && (
+                        <p className="text-xs text-red-600 mt-1">{getLineError(item.materialId)}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="border-t pt-3">
+                  <div className="flex justify-between font-medium">
+                    <span>Estimated Total ({totalItems} items)</span>
+                    <span>{formatPrice(totalAmount)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Final prices, including any supplier discounts, are confirmed when the order is placed
+                  </p>
+                </div>
+
+                <Button
+                  type="submit"
+                  form="checkout-form"
+                  className="w-full mt-4 bg-primary hover:bg-primary/90 text-primary-foreground"
+                  size="lg"
+                  disabled={placeOrderMutation.isPending}
+                >
+                  {placeOrderMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Placing Order...
+                    </>
+                  ) : (
+                    "Place Order"
+                  )}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -90,12 +90,15 @@ export default function DashboardPage() {
             bio: null,
             verificationStatus: null,
             points: 0,
+            failedLoginAttempts: 0,
+            lastFailedLoginAt: null,
+            lockedAt: null,
             createdAt: new Date()
           };
         }
       }
       
-      if (!acc[message.receiverId]) {
+      if (message.receiverId !== null && !acc[message.receiverId]) {
         // If the receiver is the current user, use full user data
         if (user?.id === message.receiverId) {
           acc[message.receiverId] = user as User;
@@ -115,6 +118,9 @@ export default function DashboardPage() {
             bio: null,
             verificationStatus: null,
             points: 0,
+            failedLoginAttempts: 0,
+            lastFailedLoginAt: null,
+            lockedAt: null,
             createdAt: new Date()
           };
         }
@@ -135,13 +141,13 @@ export default function DashboardPage() {
     },
     { 
       title: "Pending Orders", 
-      value: orders?.filter(o => o.status === "processing")?.length || 0,
+      value: orders?.filter(o => ["confirmed", "packed", "processing"].includes(o.status))?.length || 0,
       icon: <ShoppingCart className="text-secondary" />,
       bgColor: "bg-orange-100"
     },
     { 
       title: "Deliveries", 
-      value: orders?.filter(o => o.status === "in_transit")?.length || 0,
+      value: orders?.filter(o => ["dispatched", "in_transit"].includes(o.status))?.length || 0,
       icon: <Truck className="text-green-500" />,
       bgColor: "bg-green-100"
     },
@@ -12,9 +12,11 @@ import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ChevronDown, ExternalLink, Filter, MoreHorizontal, Package, Pencil, Plus, Search, Trash } from "lucide-react";
+import { ChevronDown, Download, ExternalLink, Filter, MoreHorizontal, Package, Pencil, Plus, Search, Trash, Upload } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Material } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { CatalogueImportDialog } from "@/components/materials/catalogue-import-dialog";
 
 export default function MaterialsListPage() {
   const [_, navigate] = useLocation();
@@ -24,6 +26,7 @@ export default function MaterialsListPage() {
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [stockFilter, setStockFilter] = useState("all");
   const [viewMode, setViewMode] = useState("grid");
+  const [showImportDialog, setShowImportDialog] = useState(false);
 
   // Fetch materials for the supplier
   const { data: materials, isLoading: isLoadingMaterials } = useQuery<Material[]>({
@@ -66,6 +69,24 @@ export default function MaterialsListPage() {
     return matchesSearch && matchesCategory && matchesStock;
   });
 
+  const exportCatalogue = async (format: "csv" | "xlsx") => {
+    try {
+      const response = await apiRequest("GET", `/api/suppliers/materials/export?format=${format}`);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.setAttribute("href", url);
+      link.setAttribute("download", `catalogue-${new Date().toISOString().split("T")[0]}.${format}`);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
   // Get unique categories for filter dropdown
   const categories = materials
     ? [...new Set(materials.map((material) => material.category))]
@@ -82,6 +103,23 @@ export default function MaterialsListPage() {
         </div>
 
         <div className="flex items-center gap-4 mt-4 md:mt-0">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Download className="mr-2 h-4 w-4" />
+                Export
+                <ChevronDown className="ml-2 h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => exportCatalogue("csv")}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportCatalogue("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
           <Button asChild>
             <Link href="/materials/new">
               <Plus className="mr-2 h-4 w-4" />
@@ -438,6 +476,8 @@ export default function MaterialsListPage() {
           )}
         </div>
       )}
+
+      <CatalogueImportDialog open={showImportDialog} onOpenChange={setShowImportDialog} />
     </div>
   );
 }
\ No newline at end of file
@@ -1,13 +1,28 @@
+import { useQuery } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import DashboardLayout from "@/components/layouts/dashboard-layout";
 import { RealTimeChat } from "@/components/chat/real-time-chat";
-import { useAuth } from "@/hooks/use-auth";
-import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { MessageSquare, Users, User } from "lucide-react";
+import { ConversationSummary } from "@shared/schema";
 
 export default function MessagesPage() {
-  const { user } = useAuth();
-  const { toast } = useToast();
+  const search = useSearch();
+  // Notifications link straight to a conversation with ?conversation=ID
+  const selectedConversationId = Number(new URLSearchParams(search).get("conversation")) || null;
+
+  const { data: conversations = [] } = useQuery<ConversationSummary[]>({
+    queryKey: ["/api/conversations"],
+  });
+
+  const unreadCount = (type?: ConversationSummary["type"]) => conversations
+    .filter(conversation => !type || conversation.type === type)
+    .reduce((total, conversation) => total + conversation.unreadCount, 0);
+
+  const unreadBadge = (count: number) => count > 0 && (
+    <Badge className="ml-2 h-5 px-1.5">{count > 99 ? "99+" : count}</Badge>
+  );
 
   return (
     <DashboardLayout title="Messages">
@@ -23,29 +38,32 @@ export default function MessagesPage() {
           <TabsTrigger value="all" className="flex items-center">
             <MessageSquare className="h-4 w-4 mr-2" />
             All Messages
+            {unreadBadge(unreadCount())}
           </TabsTrigger>
           <TabsTrigger value="direct" className="flex items-center">
             <User className="h-4 w-4 mr-2" />
             Direct Messages
+            {unreadBadge(unreadCount("direct"))}
           </TabsTrigger>
           <TabsTrigger value="projects" className="flex items-center">
             <Users className="h-4 w-4 mr-2" />
             Project Conversations
+            {unreadBadge(unreadCount("project"))}
           </TabsTrigger>
         </TabsList>
 
         <TabsContent value="all" className="space-y-4">
-          <RealTimeChat mode="full" maxHeight="70vh" />
+          <RealTimeChat mode="full" maxHeight="70vh" filter="all" selectedConversationId={selectedConversationId} />
         </TabsContent>
 
         <TabsContent value="direct" className="space-y-4">
-          <RealTimeChat mode="full" maxHeight="70vh" />
+          <RealTimeChat mode="full" maxHeight="70vh" filter="direct" />
         </TabsContent>
 
         <TabsContent value="projects" className="space-y-4">
-          <RealTimeChat mode="full" maxHeight="70vh" />
+          <RealTimeChat mode="full" maxHeight="70vh" filter="project" />
         </TabsContent>
       </Tabs>
     </DashboardLayout>
   );
-}
\ No newline at end of file
+}
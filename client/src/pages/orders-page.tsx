@@ -26,10 +26,18 @@ import {
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs";
-import { Order, Project } from "@shared/schema";
+import { OrderWithFulfilment, Project } from "@shared/schema";
 import { format } from "date-fns";
 import { Link } from "wouter";
 
+// Statuses shown under each tab, including values from before the order state machine
+const orderTabStatuses: Record<string, string[]> = {
+  processing: ["confirmed", "packed", "processing"],
+  dispatched: ["dispatched", "in_transit"],
+  delivered: ["delivered"],
+  closed: ["cancelled", "returned", "refunded"],
+};
+
 export default function OrdersPage() {
   const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
@@ -41,7 +49,7 @@ export default function OrdersPage() {
     data: orders = [], 
     isLoading: isLoadingOrders,
     error: ordersError,
-  } = useQuery<Order[]>({
+  } = useQuery<OrderWithFulfilment[]>({
     queryKey: ["/api/orders"],
   });
 
@@ -62,9 +70,7 @@ export default function OrdersPage() {
   // Filter orders by tab, search term, and status
   const filteredOrders = orders.filter(order => {
     // Tab filter
-    if (tab === "processing" && order.status !== "processing") return false;
-    if (tab === "in_transit" && order.status !== "in_transit") return false;
-    if (tab === "delivered" && order.status !== "delivered") return false;
+    if (tab !== "all" && !orderTabStatuses[tab].includes(order.status)) return false;
     
     // Status filter (redundant with tabs but kept for flexibility)
     if (statusFilter !== "all" && order.status !== statusFilter) return false;
@@ -85,9 +91,8 @@ export default function OrdersPage() {
   );
 
   // Get counts for tabs
-  const processingCount = orders.filter(o => o.status === "processing").length;
-  const inTransitCount = orders.filter(o => o.status === "in_transit").length;
-  const deliveredCount = orders.filter(o => o.status === "delivered").length;
+  const countForTab = (tabName: string) =>
+    orders.filter(o => orderTabStatuses[tabName].includes(o.status)).length;
 
   return (
     <DashboardLayout title="Track Orders">
@@ -117,13 +122,16 @@ export default function OrdersPage() {
                   All Orders ({orders.length})
                 </TabsTrigger>
                 <TabsTrigger value="processing">
-                  Processing ({processingCount})
+                  Processing ({countForTab("processing")})
                 </TabsTrigger>
-                <TabsTrigger value="in_transit">
-                  In Transit ({inTransitCount})
+                <TabsTrigger value="dispatched">
+                  Dispatched ({countForTab("dispatched")})
                 </TabsTrigger>
                 <TabsTrigger value="delivered">
-                  Delivered ({deliveredCount})
+                  Delivered ({countForTab("delivered")})
+                </TabsTrigger>
+                <TabsTrigger value="closed">
+                  Cancelled ({countForTab("closed")})
                 </TabsTrigger>
               </TabsList>
               
@@ -145,9 +153,13 @@ export default function OrdersPage() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Status</SelectItem>
-                    <SelectItem value="processing">Processing</SelectItem>
-                    <SelectItem value="in_transit">In Transit</SelectItem>
+                    <SelectItem value="confirmed">Confirmed</SelectItem>
+                    <SelectItem value="packed">Packed</SelectItem>
+                    <SelectItem value="dispatched">Dispatched</SelectItem>
                     <SelectItem value="delivered">Delivered</SelectItem>
+                    <SelectItem value="cancelled">Cancelled</SelectItem>
+                    <SelectItem value="returned">Returned</SelectItem>
+                    <SelectItem value="refunded">Refunded</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -157,29 +169,15 @@ export default function OrdersPage() {
               {renderOrdersContent(sortedOrders, isLoadingOrders, ordersError)}
             </TabsContent>
             
-            <TabsContent value="processing">
-              {renderOrdersContent(
-                sortedOrders.filter(o => o.status === "processing"),
-                isLoadingOrders,
-                ordersError
-              )}
-            </TabsContent>
-            
-            <TabsContent value="in_transit">
-              {renderOrdersContent(
-                sortedOrders.filter(o => o.status === "in_transit"),
-                isLoadingOrders,
-                ordersError
-              )}
-            </TabsContent>
-            
-            <TabsContent value="delivered">
-              {renderOrdersContent(
-                sortedOrders.filter(o => o.status === "delivered"),
-                isLoadingOrders,
-                ordersError
-              )}
-            </TabsContent>
+            {["processing", "dispatched", "delivered", "closed"].map((tabName) => (
+              <TabsContent key={tabName} value={tabName}>
+                {renderOrdersContent(
+                  sortedOrders.filter(o => orderTabStatuses[tabName].includes(o.status)),
+                  isLoadingOrders,
+                  ordersError
+                )}
+              </TabsContent>
+            ))}
           </Tabs>
         </CardContent>
       </Card>
@@ -198,9 +196,9 @@ export default function OrdersPage() {
               <div className="bg-blue-100 p-3 rounded-full mb-3">
                 <Calendar className="h-6 w-6 text-blue-600" />
               </div>
-              <h3 className="font-medium mb-2">Processing</h3>
+              <h3 className="font-medium mb-2">Confirmed &amp; Packed</h3>
               <p className="text-sm text-gray-600">
-                Your order has been received and is being prepared for shipment. Materials are being sourced and packaged.
+                Your order has been received and is being prepared for shipment. You can still cancel it until a supplier has packed it.
               </p>
             </div>
             
@@ -208,9 +206,9 @@ export default function OrdersPage() {
               <div className="bg-yellow-100 p-3 rounded-full mb-3">
                 <Truck className="h-6 w-6 text-yellow-600" />
               </div>
-              <h3 className="font-medium mb-2">In Transit</h3>
+              <h3 className="font-medium mb-2">Dispatched</h3>
               <p className="text-sm text-gray-600">
-                Your materials have been dispatched and are on their way to your construction site.
+                Your materials are on their way to your construction site. Orders from several suppliers stay dispatched until every supplier has delivered.
               </p>
             </div>
             
@@ -222,7 +220,7 @@ export default function OrdersPage() {
               </div>
               <h3 className="font-medium mb-2">Delivered</h3>
               <p className="text-sm text-gray-600">
-                Your order has been successfully delivered to your site and signed for by your team.
+                Your order has been delivered to your site. If something is wrong you can return it from the order's history.
               </p>
             </div>
           </div>
@@ -233,7 +231,7 @@ export default function OrdersPage() {
 }
 
 // Helper function to render orders content
-function renderOrdersContent(orders: Order[], isLoading: boolean, error: Error | null) {
+function renderOrdersContent(orders: OrderWithFulfilment[], isLoading: boolean, error: Error | null) {
   if (isLoading) {
     return (
       <div className="text-center py-8">
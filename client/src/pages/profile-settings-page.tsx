@@ -3,6 +3,8 @@ import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import DashboardLayout from '@/components/layouts/dashboard-layout';
+import { TwoFactorSettings } from '@/components/auth/two-factor-settings';
+import { SessionsSettings } from '@/components/auth/sessions-settings';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -419,6 +421,10 @@ export default function ProfileSettingsPage() {
                     </form>
                   </CardContent>
                 </Card>
+                
+                <TwoFactorSettings />
+                
+                <SessionsSettings />
               </div>
             </TabsContent>
           </Tabs>
@@ -6,14 +6,18 @@ import { ProgressTimeline } from "@/components/projects/progress-timeline";
 import { LocationMap } from "@/components/map/location-map";
 import { LocationEditor } from "@/components/map/location-editor";
 import { MessageList } from "@/components/messaging/message-list";
-import { OrderTable } from "@/components/orders/order-table";
+import { OrderTable, OrderStatusBadge } from "@/components/orders/order-table";
 import { TaskList } from "@/components/tasks/task-list";
 import { ProjectExpenses } from "@/components/projects/project-expenses";
 import { ProjectReports } from "@/components/projects/project-reports";
+import { SiteReportCard } from "@/components/projects/site-report-card";
 import { ProjectImageSlider } from "@/components/projects/project-image-slider";
 import { IOSImageUploader } from "@/components/projects/ios-image-uploader";
 import SiteMaterialsSection from "@/components/projects/site-materials-section";
+import { ProviderReviewDialog } from "@/components/providers/provider-review-dialog";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useRealtimeTopic } from "@/hooks/use-realtime";
 import { useParams, useLocation, Link } from "wouter";
 import { useRoleOnboarding } from "@/hooks/use-role-onboarding";
 import RoleSpecificOnboarding from "@/components/onboarding/role-specific-onboarding";
@@ -89,6 +93,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -97,7 +102,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { Project, User, ProjectTimeline, Message, Order, insertProjectTimelineSchema } from "@shared/schema";
+import { Project, User, ProjectTimeline, Message, Order, EscrowMilestone, insertProjectTimelineSchema, SiteReportPage } from "@shared/schema";
 import { useForm } from "react-hook-form";
 
 // Document type definition (would normally be in @shared/schema)
@@ -121,6 +126,8 @@ export default function ProjectDetailPage() {
   const projectId = parseInt(id);
   const [, navigate] = useLocation();
   const { user } = useAuth();
+  const { can } = usePermissions(projectId);
+  useRealtimeTopic(isNaN(projectId) ? null : `project:${projectId}`);
   const { toast } = useToast();
   const { 
     showRoleOnboarding, 
@@ -225,14 +232,19 @@ export default function ProjectDetailPage() {
     queryKey: ["/api/orders"],
   });
   
-  // Fetch reports related to this project
+  // Fetch the latest site reports for this project
   const {
-    data: reports = [],
+    data: reportsPage,
     isLoading: isLoadingReports,
-  } = useQuery<any[]>({
-    queryKey: [`/api/projects/${projectId}/reports`],
+  } = useQuery<SiteReportPage>({
+    queryKey: [`/api/projects/${projectId}/reports`, { pageSize: 3 }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/projects/${projectId}/reports?pageSize=3`);
+      return response.json();
+    },
     enabled: !isNaN(projectId),
   });
+  const reports = reportsPage?.reports || [];
   
   // Fetch documents related to this project
   const {
@@ -250,7 +262,7 @@ export default function ProjectDetailPage() {
       if (!acc[message.senderId]) {
         acc[message.senderId] = user?.id === message.senderId ? user : { id: message.senderId, fullName: "Unknown User", role: "unknown", username: "", email: "", password: "" };
       }
-      if (!acc[message.receiverId]) {
+      if (message.receiverId !== null && !acc[message.receiverId]) {
         acc[message.receiverId] = user?.id === message.receiverId ? user : { id: message.receiverId, fullName: "Unknown User", role: "unknown", username: "", email: "", password: "" };
       }
       return acc;
@@ -283,6 +295,7 @@ export default function ProjectDetailPage() {
       delayReason: z.string().nullable().optional(),
       materialCosts: z.number().nullable().optional(),
       laborCosts: z.number().nullable().optional(),
+      escrowMilestoneId: z.number().nullable().optional(),
     });
 
   // Timeline form
@@ -303,9 +316,16 @@ export default function ProjectDetailPage() {
       delayReason: null,
       materialCosts: null,
       laborCosts: null,
+      escrowMilestoneId: null,
     },
   });
 
+  // Funded escrow milestones for work on this project, which the provider can submit this progress against
+  const { data: fundedMilestones = [] } = useQuery<EscrowMilestone[]>({
+    queryKey: [`/api/escrow/milestones?status=funded&projectId=${projectId}`],
+    enabled: user?.role === "service_provider",
+  });
+
   // Helper function to upload timeline images
   const uploadTimelineImages = async (): Promise<string[]> => {
     if (timelineImages.length === 0) return [];
@@ -413,7 +433,8 @@ export default function ProjectDetailPage() {
         ...data,
         projectId,
         date: dateValue,
-        images: allImageUrls.length > 0 ? allImageUrls : undefined
+        images: allImageUrls.length > 0 ? allImageUrls : undefined,
+        escrowMilestoneId: data.escrowMilestoneId || undefined
       };
       
       console.log("Sending timeline data with date:", formattedData.date);
@@ -426,6 +447,7 @@ export default function ProjectDetailPage() {
         [`/api/projects/${projectId}/timeline`],
         (oldData: ProjectTimeline[] = []) => [...oldData, newTimeline]
       );
+      queryClient.invalidateQueries({ queryKey: [`/api/escrow/milestones?status=funded&projectId=${projectId}`] });
       
       // Also update the project progress if it changed
       if (newTimeline.completionPercentage) {
@@ -871,13 +893,10 @@ export default function ProjectDetailPage() {
   // Get project coordinates
   const coordinates = project.coordinates as { lat: number, lng: number };
   
-  // Check if the current user can edit the project
-  const canEditProject = user?.id === project.clientId || 
-    (project.teamMembers && Array.isArray(project.teamMembers) && 
-     project.teamMembers.some((member: any) => 
-       member.userId === user?.id && 
-       (member.role === "contractor" || member.role === "project_manager")
-     ));
+  const canEditSchedule = can("edit_schedule");
+  const canSubmitReports = can("submit_reports");
+  const canUploadMedia = can("upload_media");
+  const canManageTeam = can("manage_team");
 
   return (
     <DashboardLayout title={`Project: ${project.name}`}>
@@ -978,6 +997,21 @@ export default function ProjectDetailPage() {
                   </div>
                 </div>
               )}
+              
+              {/* A service provider whose bid was accepted takes the project on in place of a company */}
+              {project.companyId && !company && (
+                <div className="border-t pt-3 sm:pt-4 mt-3 sm:mt-4">
+                  <h2 className="font-semibold text-base sm:text-lg mb-2">Service Provider</h2>
+                  <Link href={`/service-providers/${project.companyId}`} className="text-sm text-primary hover:underline">
+                    View profile and track record
+                  </Link>
+                  {project.status === "completed" && project.clientId === user?.id && (
+                    <div className="mt-3">
+                      <ProviderReviewDialog projectId={project.id} />
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
@@ -1064,13 +1098,7 @@ export default function ProjectDetailPage() {
                     {showSiteMaterials ? "Hide Materials Onsite" : "View Materials Onsite"}
                   </Button>
                   
-                  {(user?.role === "company" || 
-                   (project.teamMembers && Array.isArray(project.teamMembers) && 
-                    project.teamMembers.some((member: any) => 
-                     member.userId === user?.id && 
-                     (member.role === "contractor" || member.role === "project_manager")
-                    )
-                   )) && (
+                  {canEditSchedule && (
                     <Button 
                       className="w-full justify-start text-xs sm:text-sm h-9 sm:h-10" 
                       onClick={() => setIsAddTimelineOpen(true)}
@@ -1140,17 +1168,7 @@ export default function ProjectDetailPage() {
                               {formatDate(order.createdAt)}
                             </p>
                           </div>
-                          <Badge
-                            className={`text-xs px-1.5 py-0.5 sm:px-2 sm:py-1 ${
-                              order.status === "delivered"
-                                ? "bg-green-100 text-green-800"
-                                : order.status === "in_transit"
-                                ? "bg-yellow-100 text-yellow-800"
-                                : "bg-blue-100 text-blue-800"
-                            }`}
-                          >
-                            {order.status.replace('_', ' ').charAt(0).toUpperCase() + order.status.replace('_', ' ').slice(1)}
-                          </Badge>
+                          <OrderStatusBadge status={order.status} className="text-xs px-1.5 py-0.5 sm:px-2 sm:py-1" />
                         </div>
                       ))}
                     </div>
@@ -1173,13 +1191,7 @@ export default function ProjectDetailPage() {
         <TabsContent value="timeline">
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 sm:gap-3 mb-3 sm:mb-4">
             <h2 className="text-lg sm:text-xl font-semibold">Project Timeline</h2>
-            {(user?.role === "company" || 
-              (project.teamMembers && Array.isArray(project.teamMembers) && 
-               project.teamMembers.some((member: any) => 
-                member.userId === user?.id && 
-                (member.role === "contractor" || member.role === "project_manager")
-               )
-              )) && (
+            {canEditSchedule && (
               <Button 
                 size="sm" 
                 className="h-8 sm:h-10 text-xs sm:text-sm"
@@ -1209,23 +1221,11 @@ export default function ProjectDetailPage() {
               <Calendar className="h-10 w-10 sm:h-12 sm:w-12 mx-auto text-gray-400 mb-3 sm:mb-4" />
               <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">No timeline entries yet</h3>
               <p className="text-xs sm:text-sm text-gray-500 mb-4 sm:mb-6 max-w-md mx-auto">
-                {(user?.role === "company" || 
-                  (project.teamMembers && Array.isArray(project.teamMembers) && 
-                   project.teamMembers.some((member: any) => 
-                    member.userId === user?.id && 
-                    (member.role === "contractor" || member.role === "project_manager")
-                   )
-                  )) 
+                {canEditSchedule 
                   ? "Add your first timeline entry to track the project progress."
                   : "The project timeline will be updated as work progresses."}
               </p>
-              {(user?.role === "company" || 
-                (project.teamMembers && Array.isArray(project.teamMembers) && 
-                 project.teamMembers.some((member: any) => 
-                  member.userId === user?.id && 
-                  (member.role === "contractor" || member.role === "project_manager")
-                 )
-                )) && (
+              {canEditSchedule && (
                 <Button 
                   size="sm"
                   className="h-8 sm:h-10 text-xs sm:text-sm"
@@ -1288,16 +1288,18 @@ export default function ProjectDetailPage() {
         <TabsContent value="materials">
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 sm:gap-3 mb-3 sm:mb-4">
             <h2 className="text-lg sm:text-xl font-semibold">Site Materials</h2>
-            <Button 
-              size="sm" 
-              className="h-8 sm:h-10 text-xs sm:text-sm"
-              asChild
-              disabled={isLoadingProject || !project}
-            >
-              <Link href={`/projects/${projectId}/site-materials`}>
-                <Plus className="mr-1.5 sm:mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" /> Manage Site Materials
-              </Link>
-            </Button>
+            {can("manage_materials") && (
+              <Button 
+                size="sm" 
+                className="h-8 sm:h-10 text-xs sm:text-sm"
+                asChild
+                disabled={isLoadingProject || !project}
+              >
+                <Link href={`/projects/${projectId}/site-materials`}>
+                  <Plus className="mr-1.5 sm:mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" /> Manage Site Materials
+                </Link>
+              </Button>
+            )}
           </div>
           
           <Card className="border shadow-sm overflow-hidden">
@@ -1310,7 +1312,7 @@ export default function ProjectDetailPage() {
         <TabsContent value="team">
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 sm:gap-3 mb-3 sm:mb-4">
             <h2 className="text-lg sm:text-xl font-semibold">Project Team</h2>
-            {user && (user.role === "client" || user.role === "admin") && user.id === project.clientId && (
+            {canManageTeam && (
               <Button 
                 size="sm" 
                 className="h-8 sm:h-10 text-xs sm:text-sm"
@@ -1483,7 +1485,7 @@ export default function ProjectDetailPage() {
                         </div>
                       </div>
                       
-                      {user && (user.id === project.clientId || user.role === "admin") && (
+                      {canManageTeam && (
                         <Button 
                           variant="ghost" 
                           size="sm"
@@ -1502,11 +1504,11 @@ export default function ProjectDetailPage() {
                   <Users className="h-12 w-12 mx-auto text-gray-400 mb-4" />
                   <h3 className="text-lg font-medium text-gray-900 mb-2">No team members yet</h3>
                   <p className="text-gray-500 mb-6">
-                    {user?.id === project.clientId 
+                    {canManageTeam 
                       ? "Add team members to collaborate on this project."
                       : "No team members have been added to this project yet."}
                   </p>
-                  {user?.id === project.clientId && (
+                  {canManageTeam && (
                     <Button onClick={() => setIsAddTeamMemberOpen(true)}>
                       <UserPlus className="mr-2 h-4 w-4" /> Add Team Member
                     </Button>
@@ -1520,13 +1522,7 @@ export default function ProjectDetailPage() {
         <TabsContent value="construction">
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4">
             <h2 className="text-xl font-semibold">Construction Details</h2>
-            {(user?.role === "company" || 
-              (project.teamMembers && Array.isArray(project.teamMembers) && 
-               project.teamMembers.some((member: any) => 
-                member.userId === user?.id && 
-                (member.role === "contractor" || member.role === "project_manager")
-               )
-              )) && (
+            {canEditSchedule && (
               <div className="flex gap-2">
                 <Button onClick={() => setIsAddTimelineOpen(true)}>
                   <Plus className="mr-2 h-4 w-4" /> Add Progress Update
@@ -1665,39 +1661,35 @@ export default function ProjectDetailPage() {
         <TabsContent value="expenses">
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4">
             <h2 className="text-xl font-semibold">Project Expenses</h2>
-            <Button 
-              size="sm" 
-              className="h-8 sm:h-10 text-xs sm:text-sm"
-              onClick={() => {
-                if (document.getElementById("add-expense-button")) {
-                  // Simulate clicking the Add Expense button in ProjectExpenses component
-                  document.getElementById("add-expense-button")?.click();
-                }
-              }}
-              disabled={isLoadingProject || !project}
-            >
-              <Plus className="mr-1.5 sm:mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" /> Record Expense
-            </Button>
+            {can("record_expenses") && (
+              <Button 
+                size="sm" 
+                className="h-8 sm:h-10 text-xs sm:text-sm"
+                onClick={() => {
+                  if (document.getElementById("add-expense-button")) {
+                    // Simulate clicking the Add Expense button in ProjectExpenses component
+                    document.getElementById("add-expense-button")?.click();
+                  }
+                }}
+                disabled={isLoadingProject || !project}
+              >
+                <Plus className="mr-1.5 sm:mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" /> Record Expense
+              </Button>
+            )}
           </div>
           
           <ProjectExpenses 
             project={project} 
-            canEdit={canEditProject}
+            canEdit={can("record_expenses")}
           />
         </TabsContent>
         
         <TabsContent value="reports">
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4">
             <h2 className="text-xl font-semibold">Project Reports</h2>
-            {(user?.role === "company" || 
-              (project.teamMembers && Array.isArray(project.teamMembers) && 
-               project.teamMembers.some((member: any) => 
-                member.userId === user?.id && 
-                (member.role === "contractor" || member.role === "project_manager")
-               )
-              )) && (
-              <Button onClick={() => navigate(`/projects/${project.id}/reports/new`)}>
-                <Plus className="mr-2 h-4 w-4" /> Add Manual Report
+            {canSubmitReports && (
+              <Button onClick={() => navigate(`/projects/${project.id}/reports?new=1`)}>
+                <Plus className="mr-2 h-4 w-4" /> Add Site Report
               </Button>
             )}
           </div>
@@ -1732,17 +1724,17 @@ export default function ProjectDetailPage() {
             </CardContent>
           </Card>
           
-          {/* Existing Manual Reports Section */}
+          {/* Latest Site Reports */}
           <Card>
             <CardHeader className="pb-3">
               <CardTitle className="text-base font-medium">
                 <span className="flex items-center">
                   <FileText className="mr-2 h-4 w-4 text-primary" />
-                  Manual Site Reports
+                  Latest Site Reports
                 </span>
               </CardTitle>
               <CardDescription>
-                Reports manually created by team members
+                Daily reports filed from site by the team
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -1752,54 +1744,26 @@ export default function ProjectDetailPage() {
                 </div>
               ) : reports && reports.length > 0 ? (
                 <div className="space-y-4">
-                  {reports.map((report: any) => (
-                    <Card key={report.id} className="overflow-hidden">
-                      <CardHeader className="p-4 border-b bg-gray-50">
-                        <div className="flex justify-between items-center">
-                          <CardTitle className="text-base font-medium">{report.title}</CardTitle>
-                          <Badge variant={report.type === "issue" ? "destructive" : "outline"}>
-                            {report.type === "issue" ? "Issue" : "Progress Update"}
-                          </Badge>
-                        </div>
-                      </CardHeader>
-                      <CardContent className="p-4">
-                        <p className="mb-3">{report.description}</p>
-                        <div className="flex flex-wrap gap-2 mt-3">
-                          <div className="text-sm text-gray-500 flex items-center">
-                            <Calendar className="w-3.5 h-3.5 mr-1" />
-                            {new Date(report.createdAt).toLocaleDateString()}
-                          </div>
-                          <div className="text-sm text-gray-500 flex items-center">
-                            <FileText className="w-3.5 h-3.5 mr-1" />
-                            {report.author?.username || "Unknown"}
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
+                  {reports.map(report => (
+                    <SiteReportCard key={report.id} report={report} canComment={can("comment")} />
                   ))}
                   
                   <div className="text-center mt-6">
                     <Button variant="outline" onClick={() => navigate(`/projects/${project.id}/reports`)}>
-                      View All Manual Reports
+                      View All Site Reports{reportsPage && reportsPage.total > reports.length ? ` (${reportsPage.total})` : ""}
                     </Button>
                   </div>
                 </div>
               ) : (
                 <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
                   <ClipboardCheck className="h-12 w-12 mx-auto text-gray-400 mb-4" />
-                  <h3 className="text-lg font-medium text-gray-900 mb-2">No manual reports yet</h3>
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No site reports yet</h3>
                   <p className="text-gray-500 mb-6">
-                    Add detailed reports about specific issues or milestones.
+                    Record the day's work, the weather and anything that went wrong on site.
                   </p>
-                  {(user?.role === "company" || 
-                    (project.teamMembers && Array.isArray(project.teamMembers) && 
-                     project.teamMembers.some((member: any) => 
-                      member.userId === user?.id && 
-                      (member.role === "contractor" || member.role === "project_manager")
-                     )
-                    )) && (
-                    <Button onClick={() => navigate(`/projects/${project.id}/reports/new`)}>
-                      <Plus className="mr-2 h-4 w-4" /> Create Manual Report
+                  {canSubmitReports && (
+                    <Button onClick={() => navigate(`/projects/${project.id}/reports?new=1`)}>
+                      <Plus className="mr-2 h-4 w-4" /> Create Site Report
                     </Button>
                   )}
                 </div>
@@ -1834,7 +1798,7 @@ export default function ProjectDetailPage() {
           </div>
           
           {/* iOS-specific Image Uploader - only visible on iOS devices */}
-          {project && !!canEditProject && (
+          {project && canUploadMedia && (
             <div className="mb-6 ios-only" style={{display: /iPad|iPhone|iPod/.test(navigator.userAgent) ? 'block' : 'none'}}>
               <IOSImageUploader 
                 projectId={projectId}
@@ -1861,11 +1825,11 @@ export default function ProjectDetailPage() {
                     ...(Array.isArray(project.additionalImages) ? project.additionalImages as any[] : [])
                   ].filter(img => img && img.url)}
                   projectId={projectId}
-                  canEdit={!!canEditProject}
+                  canEdit={canUploadMedia}
                   showControls={true}
                   height="h-64 sm:h-96"
                   aspectRatio="wide"
-                  showUpload={!!canEditProject}
+                  showUpload={canUploadMedia}
                   project={project}
                   onUploadComplete={() => {
                     queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
@@ -1887,7 +1851,7 @@ export default function ProjectDetailPage() {
                     <li>Include photos of important milestones and completed work</li>
                     <li>Add images of materials being used on site</li>
                     <li>Swipe left or right to navigate through all project photos</li>
-                    {!!canEditProject && <li>Click "Add Image" to upload additional photos</li>}
+                    {canUploadMedia && <li>Click "Add Image" to upload additional photos</li>}
                   </ul>
                 </div>
               </CardContent>
@@ -1934,9 +1898,11 @@ export default function ProjectDetailPage() {
                 </Button>
               </div>
               
-              <Button onClick={() => setIsUploadDocumentOpen(true)}>
-                <Plus className="mr-2 h-4 w-4" /> Upload Document
-              </Button>
+              {can("upload_documents") && (
+                <Button onClick={() => setIsUploadDocumentOpen(true)}>
+                  <Plus className="mr-2 h-4 w-4" /> Upload Document
+                </Button>
+              )}
             </div>
           </div>
           
@@ -2002,9 +1968,11 @@ export default function ProjectDetailPage() {
               <p className="text-gray-500 mb-6">
                 Upload receipts, drawings, contracts, and other documents related to this project.
               </p>
-              <Button onClick={() => setIsUploadDocumentOpen(true)}>
-                <Plus className="mr-2 h-4 w-4" /> Upload First Document
-              </Button>
+              {can("upload_documents") && (
+                <Button onClick={() => setIsUploadDocumentOpen(true)}>
+                  <Plus className="mr-2 h-4 w-4" /> Upload First Document
+                </Button>
+              )}
             </div>
           )}
         </TabsContent>
@@ -2054,6 +2022,36 @@ export default function ProjectDetailPage() {
                 )}
               />
               
+              {fundedMilestones.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="escrowMilestoneId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Request Escrow Payment (Optional)</FormLabel>
+                      <FormControl>
+                        <select
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                          className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          <option value="">Not linked to a payment milestone</option>
+                          {fundedMilestones.map((milestone) => (
+                            <option key={milestone.id} value={milestone.id}>
+                              Request #{milestone.serviceRequestId} - {milestone.title} (₵{(milestone.amount / 100).toFixed(2)})
+                            </option>
+                          ))}
+                        </select>
+                      </FormControl>
+                      <FormDescription>
+                        The client is asked to approve this entry before the milestone's funds are released to you.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
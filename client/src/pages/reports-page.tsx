@@ -1,26 +1,65 @@
-import { useParams } from "wouter";
+import { useEffect, useState } from "react";
+import { useParams, useSearch } from "wouter";
 import { useQuery } from "@tanstack/react-query";
+import { Project, SiteReportPage, siteReportTypes } from "@shared/schema";
 import DashboardLayout from "@/components/layouts/dashboard-layout";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { useToast } from "@/hooks/use-toast";
-import { useAuth } from "@/hooks/use-auth";
-import { Loader2, ArrowLeft, ClipboardCheck, Calendar, User, Plus, FileText } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { SiteReportCard, SITE_REPORT_TYPE_LABELS } from "@/components/projects/site-report-card";
+import { CreateSiteReportDialog } from "@/components/projects/create-site-report-dialog";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, ArrowLeft, ClipboardCheck, Plus, ChevronLeft, ChevronRight } from "lucide-react";
+
+const PAGE_SIZE = 10;
 
 export default function ReportsPage() {
   const { projectId } = useParams();
-  const { user } = useAuth();
-  const { toast } = useToast();
+  const search = useSearch();
   const id = Number(projectId);
-  
-  const { data: project, isLoading, error } = useQuery({
+  const { can } = usePermissions(id);
+
+  const [type, setType] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [safetyOnly, setSafetyOnly] = useState(false);
+  const [page, setPage] = useState(1);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+
+  // Links elsewhere in the app open the page with ?new=1 to start a report straight away
+  useEffect(() => {
+    if (new URLSearchParams(search).get("new") === "1") {
+      setShowCreateDialog(true);
+    }
+  }, [search]);
+
+  // Any change to the filters starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [type, from, to, safetyOnly]);
+
+  const { data: project, isLoading } = useQuery<Project>({
     queryKey: [`/api/projects/${id}`],
+    enabled: !!id && !isNaN(id),
+  });
+
+  const filters = { type, from, to, safetyOnly, page };
+  const { data: reportsPage, isLoading: isLoadingReports } = useQuery<SiteReportPage>({
+    queryKey: [`/api/projects/${id}/reports`, filters],
     queryFn: async () => {
-      const res = await fetch(`/api/projects/${id}`);
-      if (!res.ok) throw new Error("Failed to fetch project");
-      return res.json();
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (type !== "all") params.set("type", type);
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+      if (safetyOnly) params.set("hasSafetyIncidents", "true");
+
+      const response = await apiRequest("GET", `/api/projects/${id}/reports?${params}`);
+      return response.json();
     },
-    enabled: !!id && !isNaN(id),
+    enabled: !!project,
   });
 
   if (isLoading) {
@@ -51,24 +90,19 @@ export default function ReportsPage() {
     );
   }
 
-  // Determine user's role and permissions
-  const isClient = user?.id === project.clientId;
-  const isAdmin = user?.role === "admin";
-  
-  const userTeamMember = project.teamMembers?.find(member => member.userId === user?.id);
-  const userRole = userTeamMember?.role || (isClient ? "client" : null) || (isAdmin ? "admin" : null);
-  
-  // Permissions
-  const canCreateReport = isAdmin || userRole === "contractor" || userRole === "project_manager" || userRole === "inspector";
+  const canCreateReport = can("submit_reports");
+  const reports = reportsPage?.reports || [];
+  const totalPages = reportsPage ? Math.max(1, Math.ceil(reportsPage.total / reportsPage.pageSize)) : 1;
+  const isFiltered = type !== "all" || !!from || !!to || safetyOnly;
 
   return (
     <DashboardLayout>
       <div className="container py-6">
         <div className="flex flex-col sm:flex-row justify-between items-start mb-6">
           <div className="flex items-center">
-            <Button 
-              variant="outline" 
-              onClick={() => window.history.back()} 
+            <Button
+              variant="outline"
+              onClick={() => window.history.back()}
               className="mr-4"
             >
               <ArrowLeft className="h-4 w-4 mr-2" />
@@ -76,60 +110,99 @@ export default function ReportsPage() {
             </Button>
             <h1 className="text-2xl font-bold">Site Reports: {project.name}</h1>
           </div>
-          
+
           {canCreateReport && (
-            <Button className="mt-4 sm:mt-0">
+            <Button className="mt-4 sm:mt-0" onClick={() => setShowCreateDialog(true)}>
               <Plus className="h-4 w-4 mr-2" />
               Create Report
             </Button>
           )}
         </div>
-        
-        <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
-          <ClipboardCheck className="h-12 w-12 mx-auto text-gray-400 mb-4" />
-          <h3 className="text-lg font-medium text-gray-900 mb-2">Site Reports Coming Soon</h3>
-          <p className="text-gray-500 mb-6 max-w-lg mx-auto">
-            This feature is currently being implemented. Soon you'll be able to view and create detailed site reports including on-site activities, safety observations, and progress documentation.
-          </p>
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-6 max-w-3xl mx-auto mt-8 px-4">
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex flex-col items-center">
-                  <Calendar className="h-8 w-8 text-blue-500 mb-3" />
-                  <h3 className="font-semibold mb-2">Daily Activity Reports</h3>
-                  <p className="text-sm text-center text-muted-foreground">
-                    Record daily activities on the construction site
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
-            
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex flex-col items-center">
-                  <User className="h-8 w-8 text-green-500 mb-3" />
-                  <h3 className="font-semibold mb-2">Safety Inspections</h3>
-                  <p className="text-sm text-center text-muted-foreground">
-                    Document safety checks and compliance reviews
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
-            
-            <Card>
-              <CardContent className="pt-6">
-                <div className="flex flex-col items-center">
-                  <FileText className="h-8 w-8 text-amber-500 mb-3" />
-                  <h3 className="font-semibold mb-2">Quality Assurance</h3>
-                  <p className="text-sm text-center text-muted-foreground">
-                    Track progress against quality standards
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
+
+        <div className="flex flex-wrap items-end gap-4 mb-6">
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {siteReportTypes.map(reportType => (
+                  <SelectItem key={reportType} value={reportType}>{SITE_REPORT_TYPE_LABELS[reportType]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="reportsFrom">From</Label>
+            <Input id="reportsFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-40" />
           </div>
+          <div className="space-y-1">
+            <Label htmlFor="reportsTo">To</Label>
+            <Input id="reportsTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-40" />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch id="safetyOnly" checked={safetyOnly} onCheckedChange={setSafetyOnly} />
+            <Label htmlFor="safetyOnly">Safety incidents only</Label>
+          </div>
+          {isFiltered && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setType("all");
+                setFrom("");
+                setTo("");
+                setSafetyOnly(false);
+              }}
+            >
+              Clear filters
+            </Button>
+          )}
         </div>
+
+        {isLoadingReports ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : reports.length > 0 ? (
+          <div className="space-y-4">
+            {reports.map(report => (
+              <SiteReportCard key={report.id} report={report} canComment={can("comment")} />
+            ))}
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
+            <ClipboardCheck className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {isFiltered ? "No reports match these filters" : "No site reports yet"}
+            </h3>
+            <p className="text-gray-500 max-w-lg mx-auto">
+              {isFiltered
+                ? "Try widening the date range or clearing the filters."
+                : "Site reports record the day's work, the weather, who was on site and anything that went wrong."}
+            </p>
+          </div>
+        )}
       </div>
+
+      {canCreateReport && (
+        <CreateSiteReportDialog projectId={id} open={showCreateDialog} onOpenChange={setShowCreateDialog} />
+      )}
     </DashboardLayout>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,113 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { format } from "date-fns";
+import { ServiceProviderProfile } from "@shared/schema";
+import DashboardLayout from "@/components/layouts/dashboard-layout";
+import { ProviderScorecard } from "@/components/providers/provider-scorecard";
+import { StarRating } from "@/components/materials/material-reviews";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+export default function ServiceProviderProfilePage() {
+  const { id } = useParams();
+
+  const { data: profile, isLoading, error } = useQuery<ServiceProviderProfile>({
+    queryKey: [`/api/service-providers/${id}/profile`],
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout title="Service Provider">
+        <div className="flex justify-center items-center h-96">
+          <Loader2 className="h-10 w-10 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <DashboardLayout title="Service Provider">
+        <div className="flex flex-col items-center justify-center h-96 text-center">
+          <h2 className="text-2xl font-bold mb-2">Service Provider Not Found</h2>
+          <p className="text-muted-foreground">This service provider doesn't exist or is no longer available.</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const { provider, scorecard, reviews } = profile;
+  const displayName = provider.businessName || provider.fullName;
+
+  return (
+    <DashboardLayout title={displayName}>
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-start gap-4">
+              <Avatar className="h-16 w-16">
+                <AvatarFallback className="text-xl">{displayName.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h1 className="text-2xl font-bold">{displayName}</h1>
+                  {provider.verificationStatus === "verified" && (
+                    <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                      <ShieldCheck className="h-3 w-3 mr-1" />
+                      Verified
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-muted-foreground">
+                  {[provider.businessName ? provider.fullName : null, provider.serviceType?.replace(/_/g, " ")].filter(Boolean).join(" · ")}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Member since {format(new Date(provider.createdAt), "MMMM yyyy")}
+                </p>
+                {provider.bio && <p className="mt-3 whitespace-pre-line">{provider.bio}</p>}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Track Record</CardTitle>
+            <CardDescription>Worked out from completed jobs, bids and messages on the platform</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ProviderScorecard scorecard={scorecard} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Client Reviews ({reviews.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {reviews.length === 0 ? (
+              <p className="text-muted-foreground">No reviews yet.</p>
+            ) : (
+              <div className="divide-y">
+                {reviews.map(review => (
+                  <div key={review.id} className="py-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <StarRating value={review.rating} />
+                      <span className="font-medium">{review.clientName}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {review.jobTitle} · {format(new Date(review.createdAt), "MMM d, yyyy")}
+                      </span>
+                    </div>
+                    {review.comment && <p className="mt-2 whitespace-pre-line">{review.comment}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -9,18 +9,21 @@ import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { insertServiceRequestSchema, ServiceRequest as SelectServiceRequest } from "@shared/schema";
+import { insertServiceRequestSchema, Project, ServiceRequest as SelectServiceRequest } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { useAuth } from "@/hooks/use-auth";
 import { MapProvider } from "@/lib/map-provider";
 import { useEffect, useState } from "react";
+import { Link } from "wouter";
 import { ChevronDown, ChevronRight, ChevronLeft, MapPin, User } from "lucide-react";
 import { FileUpload } from "@/components/ui/file-upload";
 import { useFileUpload, type FileWithPreview, type Attachment } from "@/hooks/use-file-upload";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { EscrowPanel } from "@/components/payments/escrow-panel";
+import { ProviderReviewDialog } from "@/components/providers/provider-review-dialog";
 
 // Define the form schema extending the base insert schema
 const serviceRequestFormSchema = insertServiceRequestSchema.extend({
@@ -116,6 +119,13 @@ export default function ServiceRequestsPage() {
     enabled: !!user // Only fetch when we have user data
   });
 
+  // The client's own projects, one of which the work can be for
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+    enabled: user?.role === "client",
+    select: (projects) => projects.filter(project => project.clientId === user?.id),
+  });
+
   // Create new service request mutation
   const createServiceRequestMutation = useMutation({
     mutationFn: async (data: ServiceRequestFormValues) => {
@@ -197,6 +207,7 @@ export default function ServiceRequestsPage() {
       serviceType: "",
       budget: null,
       timeline: null,
+      projectId: null,
       coordinates: { lat: 0, lng: 0 },
     },
     mode: "onChange", // Validate on change instead of just on submit
@@ -527,10 +538,24 @@ export default function ServiceRequestsPage() {
                         <User className="h-4 w-4" />
                         <span className="text-sm font-medium">Assigned Service Provider</span>
                       </div>
-                      <p className="text-sm pl-6 mt-1">ID: {request.assignedServiceProviderId}</p>
+                      <p className="text-sm pl-6 mt-1">
+                        ID: {request.assignedServiceProviderId}
+                        <Link href={`/service-providers/${request.assignedServiceProviderId}`} className="ml-2 text-primary hover:underline">
+                          View profile
+                        </Link>
+                      </p>
+                      {request.status === 'completed' && request.clientId === user?.id && (
+                        <div className="pl-6 mt-2">
+                          <ProviderReviewDialog serviceRequestId={request.id} />
+                        </div>
+                      )}
                     </div>
                   )}
                   
+                  {request.assignedServiceProviderId && (
+                    <EscrowPanel serviceRequestId={request.id} isClient={request.clientId === user?.id} />
+                  )}
+                  
                   {request.adminNotes && (
                     <div className="bg-secondary/20 p-3 rounded-md">
                       <h4 className="text-sm font-medium">Admin Notes</h4>
@@ -656,23 +681,6 @@ export default function ServiceRequestsPage() {
       if (testResponse.ok) {
         console.log("Authentication test successful!");
         
-        // Step 6: Verify session with WebSocket
-        if (typeof window !== 'undefined' && 'WebSocket' in window) {
-          const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-          const wsUrl = `${protocol}//${window.location.host}/ws`;
-          
-          const socket = new WebSocket(wsUrl);
-          socket.onopen = () => {
-            console.log("WebSocket connected, sending auth message");
-            socket.send(JSON.stringify({
-              type: "auth",
-              userId: userData.id,
-              username: userData.username,
-              role: userData.role
-            }));
-          };
-        }
-        
         // Success! Notify the user
         toast({
           title: "Login successful",
@@ -854,6 +862,38 @@ export default function ServiceRequestsPage() {
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="projectId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Project (Optional)</FormLabel>
+                        <Select
+                          value={field.value?.toString() ?? "none"}
+                          onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select the project this work is for" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">No specific project</SelectItem>
+                            {projects.map((project) => (
+                              <SelectItem key={project.id} value={project.id.toString()}>
+                                {project.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Progress on escrow milestones is submitted on this project's timeline.
+                        </p>
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={form.control}
                     name="description"
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
@@ -10,11 +11,14 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { badgeVariants } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { Link } from "wouter";
-import { Material, Order, Supplier } from "@shared/schema";
+import { Material, Supplier, SupplierOrderWithDetails } from "@shared/schema";
+import { UpdateFulfilmentDialog } from "@/components/orders/update-fulfilment-dialog";
+import { OrderStatusBadge } from "@/components/orders/order-table";
 
 export default function SupplierDashboardPage() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const [selectedOrder, setSelectedOrder] = useState<SupplierOrderWithDetails | null>(null);
 
   // Fetch supplier profile
   const { data: supplierData, isLoading: isLoadingSupplier } = useQuery<Supplier>({
@@ -55,7 +59,7 @@ export default function SupplierDashboardPage() {
   });
 
   // Fetch orders
-  const { data: orders, isLoading: isLoadingOrders } = useQuery<Order[]>({
+  const { data: orders, isLoading: isLoadingOrders } = useQuery<SupplierOrderWithDetails[]>({
     queryKey: ["/api/suppliers/orders"],
     queryFn: async () => {
       const response = await fetch("/api/suppliers/orders");
@@ -98,8 +102,8 @@ export default function SupplierDashboardPage() {
   // Calculate summary statistics
   const totalProducts = materials?.length || 0;
   const totalOrders = orders?.length || 0;
-  const pendingOrders = orders?.filter(order => order.status === "processing").length || 0;
-  const totalRevenue = orders?.reduce((sum, order) => sum + order.totalAmount, 0) || 0;
+  const pendingOrders = orders?.filter(order => ["confirmed", "packed", "processing"].includes(order.status)).length || 0;
+  const totalRevenue = orders?.reduce((sum, order) => sum + order.subtotal, 0) || 0;
 
   return (
     <div className="container mx-auto py-6 space-y-8">
@@ -360,27 +364,22 @@ export default function SupplierDashboardPage() {
               {orders.slice(0, 5).map((order) => (
                 <div key={order.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded border">
                   <div>
-                    <h4 className="font-medium">Order #{order.orderId}</h4>
+                    <h4 className="font-medium">Order #{order.orderNumber}</h4>
                     <p className="text-sm text-muted-foreground">
-                      {new Date(order.createdAt).toLocaleDateString()} - ₵{(order.totalAmount / 100).toFixed(2)}
+                      {new Date(order.createdAt).toLocaleDateString()} - ₵{(order.subtotal / 100).toFixed(2)}
                     </p>
+                    {order.trackingNumber && (
+                      <p className="text-xs text-muted-foreground">
+                        {order.carrier || "Tracking"}: {order.trackingNumber}
+                      </p>
+                    )}
                   </div>
                   
                   <div className="flex items-center gap-2 mt-2 sm:mt-0">
-                    <div className={cn(
-                      badgeVariants({ variant: "outline" }),
-                      order.status === "processing" 
-                        ? "bg-yellow-100 text-yellow-800 hover:bg-yellow-100 hover:text-yellow-800" 
-                        : order.status === "delivered"
-                        ? "bg-green-100 text-green-800 hover:bg-green-100 hover:text-green-800"
-                        : "bg-blue-100 text-blue-800 hover:bg-blue-100 hover:text-blue-800"
-                    )}>
-                      {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-                    </div>
-                    <Button size="sm" variant="outline" asChild>
-                      <Link href={`/orders/${order.id}`}>
-                        View Details
-                      </Link>
+                    <OrderStatusBadge status={order.status} />
+                    <Button size="sm" variant="outline" onClick={() => setSelectedOrder(order)}>
+                      <Truck className="mr-2 h-4 w-4" />
+                      Update
                     </Button>
                   </div>
                 </div>
@@ -397,6 +396,11 @@ export default function SupplierDashboardPage() {
           )}
         </CardContent>
       </Card>
+
+      <UpdateFulfilmentDialog
+        supplierOrder={selectedOrder}
+        onOpenChange={(open) => !open && setSelectedOrder(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -11,6 +11,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
 import { Input } from "@/components/ui/input";
+import { MaterialReviews } from "@/components/materials/material-reviews";
 
 // Define a typesafe Material with Inventory type
 type MaterialWithDetails = {
@@ -25,8 +26,11 @@ type MaterialWithDetails = {
   brand: string | null;
   imageUrl: string | null;
   inStock: boolean;
+  supplierId: number;
   supplierName: string | null;
   supplierVerified: boolean;
+  supplierRating: number | null;
+  supplierReviewCount: number;
   weight: number | null;
   warrantyInfo: string | null;
   productCode: string | null;
@@ -98,6 +102,8 @@ export default function ViewMaterialPage() {
     });
   };
   
+  const reviewCount = material.reviewCount ?? 0;
+  
   const formattedPrice = `₵${(material.price / 100).toFixed(2)}`;
   
   const formattedDiscountPrice = material.discountPrice ? `₵${(material.discountPrice / 100).toFixed(2)}` : null;
@@ -147,9 +153,9 @@ export default function ViewMaterialPage() {
                 <div className="flex items-center">
                   <Star className="h-4 w-4 fill-yellow-400 text-yellow-400 mr-1" />
                   <span className="font-medium mr-2">{material.rating.toFixed(1)}</span>
-                  {material.reviewCount && (
-                    <span className="text-muted-foreground">({material.reviewCount} reviews)</span>
-                  )}
+                  <span className="text-muted-foreground">
+                    ({reviewCount} review{reviewCount === 1 ? "" : "s"})
+                  </span>
                 </div>
               ) : (
                 <span className="text-muted-foreground">No ratings yet</span>
@@ -250,6 +256,12 @@ export default function ViewMaterialPage() {
                     {material.supplierVerified && (
                       <Badge variant="outline" className="ml-2 py-0 h-5">Verified</Badge>
                     )}
+                    {material.supplierRating !== null && material.supplierReviewCount > 0 && (
+                      <span className="inline-flex items-center ml-2 text-sm text-muted-foreground">
+                        <Star className="h-3 w-3 fill-yellow-400 text-yellow-400 mr-1" />
+                        {material.supplierRating.toFixed(1)} ({material.supplierReviewCount})
+                      </span>
+                    )}
                   </span>
                 </div>
               )}
@@ -260,10 +272,11 @@ export default function ViewMaterialPage() {
         <Separator className="my-8" />
         
         <Tabs defaultValue="details" className="w-full">
-          <TabsList className="grid w-full md:w-auto grid-cols-2 md:grid-cols-3">
+          <TabsList className="grid w-full md:w-auto grid-cols-2 md:grid-cols-4">
             <TabsTrigger value="details">Details</TabsTrigger>
             <TabsTrigger value="specs">Specifications</TabsTrigger>
             <TabsTrigger value="warranty">Warranty & Returns</TabsTrigger>
+            <TabsTrigger value="reviews">Reviews ({reviewCount})</TabsTrigger>
           </TabsList>
           
           <TabsContent value="details" className="mt-6">
@@ -326,6 +339,10 @@ export default function ViewMaterialPage() {
               </div>
             )}
           </TabsContent>
+          
+          <TabsContent value="reviews" className="mt-6">
+            <MaterialReviews materialId={material.id} supplierId={material.supplierId} />
+          </TabsContent>
         </Tabs>
       </div>
     </DashboardLayout>
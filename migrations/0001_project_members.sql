@@ -0,0 +1,60 @@
+CREATE TABLE IF NOT EXISTS "project_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"role" text NOT NULL,
+	"permissions" json NOT NULL,
+	"added_at" timestamp DEFAULT now() NOT NULL,
+	"added_by" integer,
+	CONSTRAINT "project_members_project_user" UNIQUE("project_id","user_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_members" ADD CONSTRAINT "project_members_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_members" ADD CONSTRAINT "project_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_members" ADD CONSTRAINT "project_members_added_by_users_id_fk" FOREIGN KEY ("added_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+-- Backfill from projects.team_members. Over time that column has held userId as both a number and a
+-- string, used joinedAt as well as addedAt, and sometimes been a JSON-encoded string rather than an
+-- array, so each of those is normalised here. Members whose user no longer exists are skipped, and
+-- the first entry wins if a user appears twice. Safe to re-run.
+INSERT INTO "project_members" ("project_id", "user_id", "role", "permissions", "added_at", "added_by")
+SELECT DISTINCT ON (p.id, u.id)
+	p.id,
+	u.id,
+	COALESCE(NULLIF(member->>'role', ''), 'collaborator'),
+	CASE
+		WHEN json_typeof(member->'permissions') = 'array' THEN member->'permissions'
+		ELSE '[]'::json
+	END,
+	CASE
+		WHEN COALESCE(member->>'addedAt', member->>'joinedAt') ~ '^\d{4}-\d{2}-\d{2}'
+			THEN COALESCE(member->>'addedAt', member->>'joinedAt')::timestamp
+		ELSE p.created_at
+	END,
+	NULL
+FROM "projects" p
+CROSS JOIN LATERAL json_array_elements(
+	CASE
+		WHEN json_typeof(p.team_members) = 'array' THEN p.team_members
+		WHEN json_typeof(p.team_members) = 'string' AND (p.team_members #>> '{}') LIKE '[%' THEN (p.team_members #>> '{}')::json
+		ELSE '[]'::json
+	END
+) WITH ORDINALITY AS entry(member, position)
+JOIN "users" u ON u.id::text = (member->>'userId')
+WHERE json_typeof(member) = 'object'
+ORDER BY p.id, u.id, entry.position
+ON CONFLICT ("project_id", "user_id") DO NOTHING;
@@ -0,0 +1,95 @@
+CREATE TABLE IF NOT EXISTS "conversations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"project_id" integer,
+	"direct_key" text,
+	"title" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_message_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "conversations_project_id_unique" UNIQUE("project_id"),
+	CONSTRAINT "conversations_direct_key_unique" UNIQUE("direct_key")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "conversation_participants" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"conversation_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"last_read_message_id" integer,
+	"joined_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "conversation_participants_conversation_user" UNIQUE("conversation_id","user_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "conversations" ADD CONSTRAINT "conversations_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "conversation_participants" ADD CONSTRAINT "conversation_participants_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "conversation_participants" ADD CONSTRAINT "conversation_participants_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "messages" ALTER COLUMN "receiver_id" DROP NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "conversation_id" integer;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "messages" ADD CONSTRAINT "messages_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+-- Every project gets a group chat with its client, company and team members
+INSERT INTO "conversations" ("type", "project_id", "title", "created_at", "last_message_at")
+SELECT 'project', p.id, p.name, p.created_at, p.created_at
+FROM "projects" p
+ON CONFLICT ("project_id") DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "conversation_participants" ("conversation_id", "user_id")
+SELECT c.id, team.user_id
+FROM "conversations" c
+JOIN "projects" p ON p.id = c.project_id
+CROSS JOIN LATERAL (
+	SELECT p.client_id AS user_id
+	UNION SELECT p.company_id WHERE p.company_id IS NOT NULL
+	UNION SELECT pm.user_id FROM "project_members" pm WHERE pm.project_id = p.id
+) team
+ON CONFLICT ("conversation_id", "user_id") DO NOTHING;
+--> statement-breakpoint
+-- Existing messages were all one-to-one, including those tagged with a project, so each pair of users
+-- gets a direct conversation holding their messages rather than exposing them to the whole project team
+INSERT INTO "conversations" ("type", "direct_key", "created_at", "last_message_at")
+SELECT 'direct', LEAST(m.sender_id, m.receiver_id) || ':' || GREATEST(m.sender_id, m.receiver_id), MIN(m.created_at), MAX(m.created_at)
+FROM "messages" m
+WHERE m.receiver_id IS NOT NULL AND m.conversation_id IS NULL
+GROUP BY LEAST(m.sender_id, m.receiver_id), GREATEST(m.sender_id, m.receiver_id)
+ON CONFLICT ("direct_key") DO NOTHING;
+--> statement-breakpoint
+UPDATE "messages" m
+SET "conversation_id" = c.id
+FROM "conversations" c
+WHERE m.conversation_id IS NULL
+	AND m.receiver_id IS NOT NULL
+	AND c.direct_key = LEAST(m.sender_id, m.receiver_id) || ':' || GREATEST(m.sender_id, m.receiver_id);
+--> statement-breakpoint
+-- Read cursors start after the last message each person sent or had marked read. Safe to re-run.
+INSERT INTO "conversation_participants" ("conversation_id", "user_id", "last_read_message_id")
+SELECT c.id, u.user_id, (
+	SELECT MAX(m.id) FROM "messages" m
+	WHERE m.conversation_id = c.id AND (m.sender_id = u.user_id OR (m.receiver_id = u.user_id AND m.read))
+)
+FROM "conversations" c
+CROSS JOIN LATERAL (
+	SELECT split_part(c.direct_key, ':', 1)::integer AS user_id
+	UNION SELECT split_part(c.direct_key, ':', 2)::integer
+) u
+WHERE c.type = 'direct'
+ON CONFLICT ("conversation_id", "user_id") DO NOTHING;
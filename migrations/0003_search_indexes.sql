@@ -0,0 +1,9 @@
+-- GIN indexes for full-text search. The expressions must stay identical to the search documents
+-- in shared/schema.ts, or Postgres won't use the indexes for the search queries.
+CREATE INDEX IF NOT EXISTS "materials_search_idx" ON "materials" USING gin ((setweight(to_tsvector('english', "name"), 'A') || setweight(to_tsvector('english', coalesce("brand", '') || ' ' || coalesce("tags"::text, '')), 'B') || setweight(to_tsvector('english', "description"), 'C')));
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "projects_search_idx" ON "projects" USING gin ((setweight(to_tsvector('english', "name"), 'A') || setweight(to_tsvector('english', "location"), 'B')));
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "service_requests_search_idx" ON "service_requests" USING gin ((setweight(to_tsvector('english', "service_type"), 'A') || setweight(to_tsvector('english', "description"), 'B') || setweight(to_tsvector('english', "location"), 'C')));
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "messages_search_idx" ON "messages" USING gin (to_tsvector('english', "content"));
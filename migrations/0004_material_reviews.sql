@@ -0,0 +1,57 @@
+CREATE TABLE IF NOT EXISTS "material_reviews" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"material_id" integer NOT NULL,
+	"supplier_id" integer NOT NULL,
+	"client_id" integer NOT NULL,
+	"order_id" integer NOT NULL,
+	"rating" integer NOT NULL,
+	"supplier_rating" integer,
+	"comment" text,
+	"photos" text[],
+	"supplier_reply" text,
+	"supplier_replied_at" timestamp,
+	"status" text DEFAULT 'published' NOT NULL,
+	"moderation_note" text,
+	"moderated_by" integer,
+	"moderated_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "material_reviews_material_client" UNIQUE("material_id","client_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "material_reviews" ADD CONSTRAINT "material_reviews_material_id_materials_id_fk" FOREIGN KEY ("material_id") REFERENCES "public"."materials"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "material_reviews" ADD CONSTRAINT "material_reviews_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "material_reviews" ADD CONSTRAINT "material_reviews_client_id_users_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "material_reviews" ADD CONSTRAINT "material_reviews_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "material_reviews" ADD CONSTRAINT "material_reviews_moderated_by_users_id_fk" FOREIGN KEY ("moderated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "suppliers" ADD COLUMN IF NOT EXISTS "review_count" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+-- Ratings were never backed by reviews: sample data and supplier edits set them directly. Ratings
+-- are now running averages of published reviews, so they start again from none.
+UPDATE "materials" SET "rating" = NULL, "review_count" = 0;
+--> statement-breakpoint
+UPDATE "suppliers" SET "rating" = NULL, "review_count" = 0;
@@ -0,0 +1,51 @@
+CREATE TABLE IF NOT EXISTS "provider_reviews" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"service_provider_id" integer NOT NULL,
+	"client_id" integer NOT NULL,
+	"service_request_id" integer,
+	"project_id" integer,
+	"rating" integer NOT NULL,
+	"comment" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "provider_reviews_service_request_client" UNIQUE("service_request_id","client_id"),
+	CONSTRAINT "provider_reviews_project_client" UNIQUE("project_id","client_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "provider_reviews" ADD CONSTRAINT "provider_reviews_service_provider_id_users_id_fk" FOREIGN KEY ("service_provider_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "provider_reviews" ADD CONSTRAINT "provider_reviews_client_id_users_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "provider_reviews" ADD CONSTRAINT "provider_reviews_service_request_id_service_requests_id_fk" FOREIGN KEY ("service_request_id") REFERENCES "public"."service_requests"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "provider_reviews" ADD CONSTRAINT "provider_reviews_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "service_requests" ADD COLUMN IF NOT EXISTS "assigned_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "service_requests" ADD COLUMN IF NOT EXISTS "completed_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "completed_at" timestamp;
+--> statement-breakpoint
+-- Awarding a bid stamps it, so that's when already-assigned providers started. When past jobs were
+-- completed was never recorded; they count as completed jobs but not towards the on-time rate.
+UPDATE "service_requests" SET "assigned_at" = "service_request_bids"."updated_at"
+FROM "service_request_bids"
+WHERE "service_request_bids"."service_request_id" = "service_requests"."id"
+	AND "service_request_bids"."service_provider_id" = "service_requests"."assigned_service_provider_id"
+	AND "service_request_bids"."status" = 'accepted'
+	AND "service_requests"."assigned_at" IS NULL;
@@ -0,0 +1,56 @@
+CREATE TABLE IF NOT EXISTS "supplier_orders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"order_id" integer NOT NULL,
+	"supplier_id" integer NOT NULL,
+	"items" json NOT NULL,
+	"subtotal" integer NOT NULL,
+	"status" text DEFAULT 'confirmed' NOT NULL,
+	"carrier" text,
+	"tracking_number" text,
+	"delivery_date" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "supplier_orders" ADD CONSTRAINT "supplier_orders_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "supplier_orders" ADD CONSTRAINT "supplier_orders_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+-- Orders placed before they were split by supplier have no supplier_orders, so they don't show on
+-- supplier dashboards. Each one gets a supplier order per supplier of its items, in the order's own
+-- status mapped the way normaliseOrderStatus maps it. Items whose material has since been deleted
+-- can't be traced to a supplier and are left out.
+INSERT INTO "supplier_orders" ("order_id", "supplier_id", "items", "subtotal", "status", "delivery_date", "created_at", "updated_at")
+SELECT
+	o."id",
+	m."supplier_id",
+	json_agg(json_build_object(
+		'materialId', m."id",
+		'supplierId', m."supplier_id",
+		'name', COALESCE(item->>'name', m."name"),
+		'unit', COALESCE(item->>'unit', m."unit"),
+		'quantity', (item->>'quantity')::int,
+		'price', round((item->>'price')::numeric)::int
+	)),
+	SUM(round((item->>'price')::numeric) * (item->>'quantity')::int)::int,
+	CASE
+		WHEN o."status" IN ('confirmed', 'packed', 'dispatched', 'delivered', 'cancelled', 'returned', 'refunded') THEN o."status"
+		WHEN o."status" = 'in_transit' THEN 'dispatched'
+		ELSE 'confirmed'
+	END,
+	o."delivery_date",
+	o."created_at",
+	o."created_at"
+FROM "orders" o
+CROSS JOIN LATERAL json_array_elements(o."items") AS item
+JOIN "materials" m ON m."id" = (item->>'materialId')::int
+WHERE NOT EXISTS (SELECT 1 FROM "supplier_orders" so WHERE so."order_id" = o."id")
+GROUP BY o."id", m."supplier_id";
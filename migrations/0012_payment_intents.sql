@@ -0,0 +1,57 @@
+CREATE TABLE IF NOT EXISTS "payment_intents" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reference" text NOT NULL,
+	"payer_id" integer NOT NULL,
+	"purpose" text NOT NULL,
+	"order_id" integer,
+	"service_request_id" integer,
+	"milestone_id" integer,
+	"amount" integer NOT NULL,
+	"currency" text DEFAULT 'GHS' NOT NULL,
+	"method" text NOT NULL,
+	"provider" text NOT NULL,
+	"provider_reference" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"next_action" json,
+	"failure_reason" text,
+	"idempotency_key" text NOT NULL,
+	"request_hash" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "payment_intents_reference_unique" UNIQUE("reference"),
+	CONSTRAINT "payment_intents_payer_idempotency_key" UNIQUE("payer_id","idempotency_key")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "payment_webhook_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"provider" text NOT NULL,
+	"event_id" text NOT NULL,
+	"payment_intent_id" integer,
+	"payload" json NOT NULL,
+	"received_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "payment_webhook_events_provider_event" UNIQUE("provider","event_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payment_intents" ADD CONSTRAINT "payment_intents_payer_id_users_id_fk" FOREIGN KEY ("payer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payment_intents" ADD CONSTRAINT "payment_intents_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payment_intents" ADD CONSTRAINT "payment_intents_service_request_id_service_requests_id_fk" FOREIGN KEY ("service_request_id") REFERENCES "public"."service_requests"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payment_webhook_events" ADD CONSTRAINT "payment_webhook_events_payment_intent_id_payment_intents_id_fk" FOREIGN KEY ("payment_intent_id") REFERENCES "public"."payment_intents"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,101 @@
+-- Bids have only ever been created by db:push, and escrow milestones are tied to the winning bid
+CREATE TABLE IF NOT EXISTS "service_request_bids" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"service_request_id" integer NOT NULL,
+	"service_provider_id" integer NOT NULL,
+	"bid_amount" integer NOT NULL,
+	"timeframe" integer NOT NULL,
+	"description" text NOT NULL,
+	"points_to_use" integer DEFAULT 50 NOT NULL,
+	"materials_cost" integer DEFAULT 0 NOT NULL,
+	"labor_cost" integer DEFAULT 0 NOT NULL,
+	"equipment_cost" integer DEFAULT 0 NOT NULL,
+	"overhead_cost" integer DEFAULT 0 NOT NULL,
+	"contingency" integer DEFAULT 5 NOT NULL,
+	"payment_schedule" text DEFAULT 'milestone' NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"anonymous_identifier" text,
+	"selected_by_admin" boolean DEFAULT false,
+	"selected_by_client" boolean DEFAULT false,
+	"admin_notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "escrow_milestones" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"service_request_id" integer NOT NULL,
+	"bid_id" integer NOT NULL,
+	"service_provider_id" integer NOT NULL,
+	"sequence" integer NOT NULL,
+	"title" text NOT NULL,
+	"amount" integer NOT NULL,
+	"status" text DEFAULT 'awaiting_funding' NOT NULL,
+	"funding_intent_id" integer,
+	"timeline_id" integer,
+	"approved_by" integer,
+	"approved_by_role" text,
+	"approved_at" timestamp,
+	"held_by" integer,
+	"hold_reason" text,
+	"status_before_hold" text,
+	"payout_reference" text,
+	"payout_status" text,
+	"released_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "service_request_bids" ADD CONSTRAINT "service_request_bids_service_request_id_service_requests_id_fk" FOREIGN KEY ("service_request_id") REFERENCES "public"."service_requests"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "service_request_bids" ADD CONSTRAINT "service_request_bids_service_provider_id_users_id_fk" FOREIGN KEY ("service_provider_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "escrow_milestones" ADD CONSTRAINT "escrow_milestones_service_request_id_service_requests_id_fk" FOREIGN KEY ("service_request_id") REFERENCES "public"."service_requests"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "escrow_milestones" ADD CONSTRAINT "escrow_milestones_bid_id_service_request_bids_id_fk" FOREIGN KEY ("bid_id") REFERENCES "public"."service_request_bids"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "escrow_milestones" ADD CONSTRAINT "escrow_milestones_service_provider_id_users_id_fk" FOREIGN KEY ("service_provider_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "escrow_milestones" ADD CONSTRAINT "escrow_milestones_funding_intent_id_payment_intents_id_fk" FOREIGN KEY ("funding_intent_id") REFERENCES "public"."payment_intents"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "escrow_milestones" ADD CONSTRAINT "escrow_milestones_timeline_id_project_timelines_id_fk" FOREIGN KEY ("timeline_id") REFERENCES "public"."project_timelines"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "escrow_milestones" ADD CONSTRAINT "escrow_milestones_approved_by_users_id_fk" FOREIGN KEY ("approved_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "escrow_milestones" ADD CONSTRAINT "escrow_milestones_held_by_users_id_fk" FOREIGN KEY ("held_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "platform_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"version" integer NOT NULL,
+	"settings" json NOT NULL,
+	"updated_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "platform_settings_version_unique" UNIQUE("version")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "platform_settings" ADD CONSTRAINT "platform_settings_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,12 @@
+-- Orders that already have more than one payment under way keep the latest
+UPDATE "payment_intents" SET "status" = 'cancelled', "failure_reason" = 'Replaced by a later payment for the same order', "updated_at" = now()
+WHERE "order_id" IS NOT NULL
+	AND "status" NOT IN ('succeeded', 'failed', 'cancelled')
+	AND EXISTS (
+		SELECT 1 FROM "payment_intents" later
+		WHERE later."order_id" = "payment_intents"."order_id"
+			AND later."id" > "payment_intents"."id"
+			AND later."status" NOT IN ('succeeded', 'failed', 'cancelled')
+	);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "payment_intents_open_order" ON "payment_intents" USING btree ("order_id") WHERE "payment_intents"."status" NOT IN ('succeeded', 'failed', 'cancelled');
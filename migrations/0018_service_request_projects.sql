@@ -0,0 +1,7 @@
+ALTER TABLE "service_requests" ADD COLUMN IF NOT EXISTS "project_id" integer;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "service_requests" ADD CONSTRAINT "service_requests_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,275 @@
+import { Express, NextFunction, Request, Response } from "express";
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { authenticateLogin, sendLoginFailure } from "./auth";
+import { AdminTokens, User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The admin a direct admin access token was issued to, set by requireAdminToken
+      adminUser?: SelectUser;
+    }
+  }
+}
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Direct admin routes reachable without an access token, relative to /api/direct-admin
+const publicPaths = ["/login", "/refresh", "/logout"];
+
+// The refresh token lives in an httpOnly cookie, so scripts on the page can never read it
+const REFRESH_TOKEN_COOKIE = "artisans_admin_refresh";
+const REFRESH_TOKEN_COOKIE_PATH = "/api/direct-admin";
+
+interface AccessTokenPayload {
+  sub: number; // admin user ID
+  fam: string; // the refresh token family, i.e. the login this token belongs to
+  exp: number; // expiry, in ms since the epoch
+}
+
+function getTokenSecret(): string {
+  return process.env.ADMIN_TOKEN_SECRET || process.env.SESSION_SECRET || 'artisans-secret-key';
+}
+
+function getRefreshTokenCookie(req: Request): string | null {
+  const cookie = req.headers.cookie?.split(/;\s*/).find(pair => pair.startsWith(`${REFRESH_TOKEN_COOKIE}=`));
+  return cookie ? decodeURIComponent(cookie.slice(REFRESH_TOKEN_COOKIE.length + 1)) : null;
+}
+
+function setRefreshTokenCookie(res: Response, refreshToken: string, expiresAt: Date): void {
+  res.cookie(REFRESH_TOKEN_COOKIE, refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: REFRESH_TOKEN_COOKIE_PATH,
+    expires: expiresAt
+  });
+}
+
+function clearRefreshTokenCookie(res: Response): void {
+  res.clearCookie(REFRESH_TOKEN_COOKIE, { path: REFRESH_TOKEN_COOKIE_PATH });
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", getTokenSecret()).update(data).digest("base64url");
+}
+
+function hashRefreshToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function createAccessToken(payload: AccessTokenPayload): string {
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Checks an access token's signature and expiry
+ * @param token The token from the Authorization header
+ * @returns Its payload, or null if it was tampered with or has expired
+ */
+function verifyAccessToken(token: string): AccessTokenPayload | null {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, "base64url").toString()) as AccessTokenPayload;
+    return payload.exp > Date.now() ? payload : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  return header?.startsWith("Bearer ") ? header.slice(7) : null;
+}
+
+/**
+ * Issues an access token and a new refresh token for a login, setting the refresh token's cookie
+ * @param res The response the tokens are sent with
+ * @param userId The admin's user ID
+ * @param familyId The login's token family; a new login starts a new one
+ */
+async function issueTokens(res: Response, userId: number, familyId: string): Promise<AdminTokens> {
+  const accessTokenExpiresAt = new Date(Date.now() + ACCESS_TOKEN_TTL_MS);
+  const refreshTokenExpiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+  const refreshToken = randomBytes(32).toString("base64url");
+
+  await storage.createAdminRefreshToken({
+    userId,
+    familyId,
+    tokenHash: hashRefreshToken(refreshToken),
+    expiresAt: refreshTokenExpiresAt
+  });
+  setRefreshTokenCookie(res, refreshToken, refreshTokenExpiresAt);
+
+  return {
+    accessToken: createAccessToken({ sub: userId, fam: familyId, exp: accessTokenExpiresAt.getTime() }),
+    accessTokenExpiresAt: accessTokenExpiresAt.toISOString(),
+    refreshTokenExpiresAt: refreshTokenExpiresAt.toISOString()
+  };
+}
+
+function sendAdminUnauthorized(res: Response, message = "Unauthorized: Admin access required"): void {
+  res.status(401).json({
+    message,
+    error: "ADMIN_AUTH_FAILED"
+  });
+}
+
+/**
+ * Authenticates direct admin requests by their bearer access token. The token's login must still
+ * be active, so logging out or changing the password locks out access tokens straight away rather
+ * than when they expire.
+ */
+export async function requireAdminToken(req: Request, res: Response, next: NextFunction) {
+  if (publicPaths.includes(req.path)) {
+    return next();
+  }
+
+  try {
+    const token = getBearerToken(req);
+    const payload = token ? verifyAccessToken(token) : null;
+    if (!payload) {
+      return sendAdminUnauthorized(res);
+    }
+
+    if (!(await storage.isAdminTokenFamilyActive(payload.fam, payload.sub))) {
+      return sendAdminUnauthorized(res, "Admin session has ended");
+    }
+
+    const admin = await storage.getUser(payload.sub);
+    if (!admin || admin.role !== 'admin') {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    req.adminUser = admin;
+    next();
+  } catch (error) {
+    console.error("Error verifying admin token:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+/**
+ * Sets up token authentication for the direct admin dashboard: the login, refresh and logout
+ * routes, and the middleware every other /api/direct-admin route goes through
+ * @param app The express app
+ */
+export function setupDirectAdminAuth(app: Express) {
+  // The fallback secret is in the source, so anyone could sign access tokens with it
+  if (process.env.NODE_ENV === "production" && !process.env.ADMIN_TOKEN_SECRET && !process.env.SESSION_SECRET) {
+    throw new Error("ADMIN_TOKEN_SECRET or SESSION_SECRET must be set in production to sign admin access tokens");
+  }
+
+  app.use("/api/direct-admin", requireAdminToken);
+
+  app.post("/api/direct-admin/login", async (req, res) => {
+    try {
+      const { username, password, code } = req.body;
+
+      if (!username || !password) {
+        return res.status(400).json({ message: "Username and password required" });
+      }
+
+      // Throttled like the main login. The two-factor code goes with the same request, so a login
+      // never holds tokens before the second factor.
+      const check = await authenticateLogin(
+        req,
+        await storage.getUserByUsername(username),
+        password,
+        typeof code === "string" && code ? code : undefined
+      );
+      if (!check.ok) {
+        return sendLoginFailure(res, check);
+      }
+
+      const { user } = check;
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const tokens = await issueTokens(res, user.id, randomUUID());
+      const { password: _password, ...safeUser } = user;
+
+      res.json({ user: safeUser, ...tokens, recoveryCodes: check.recoveryCodes });
+    } catch (error) {
+      console.error("Direct admin login error:", error);
+      res.status(500).json({ message: "Server error during login" });
+    }
+  });
+
+  // Swaps a refresh token for a new pair. Each refresh token works once, so one turning up again
+  // means it was copied, and the whole login is ended.
+  app.post("/api/direct-admin/refresh", async (req, res) => {
+    try {
+      const refreshToken = getRefreshTokenCookie(req);
+      if (!refreshToken) {
+        return sendAdminUnauthorized(res, "Refresh token required");
+      }
+
+      const stored = await storage.getAdminRefreshTokenByHash(hashRefreshToken(refreshToken));
+      if (!stored || stored.expiresAt <= new Date()) {
+        clearRefreshTokenCookie(res);
+        return sendAdminUnauthorized(res, "Refresh token is invalid or has expired");
+      }
+
+      if (stored.revokedAt || !(await storage.consumeAdminRefreshToken(stored.id))) {
+        console.warn(`Reused admin refresh token for user ${stored.userId}, ending login ${stored.familyId}`);
+        await storage.revokeAdminTokenFamily(stored.familyId);
+        clearRefreshTokenCookie(res);
+        return sendAdminUnauthorized(res, "Refresh token has already been used");
+      }
+
+      const admin = await storage.getUser(stored.userId);
+      if (!admin || admin.role !== 'admin') {
+        await storage.revokeAdminTokenFamily(stored.familyId);
+        clearRefreshTokenCookie(res);
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      res.json(await issueTokens(res, admin.id, stored.familyId));
+    } catch (error) {
+      console.error("Direct admin token refresh error:", error);
+      res.status(500).json({ message: "Server error refreshing token" });
+    }
+  });
+
+  // Ends the login the refresh token (or, failing that, the access token) belongs to
+  app.post("/api/direct-admin/logout", async (req, res) => {
+    try {
+      const refreshToken = getRefreshTokenCookie(req);
+      const stored = refreshToken ? await storage.getAdminRefreshTokenByHash(hashRefreshToken(refreshToken)) : undefined;
+      const bearer = getBearerToken(req);
+      const familyId = stored?.familyId ?? (bearer ? verifyAccessToken(bearer)?.fam : undefined);
+
+      if (familyId) {
+        await storage.revokeAdminTokenFamily(familyId);
+      }
+      clearRefreshTokenCookie(res);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Direct admin logout error:", error);
+      res.status(500).json({ message: "Server error during logout" });
+    }
+  });
+
+  app.post("/api/direct-admin/verify", (req, res) => {
+    const admin = req.adminUser!;
+    res.json({
+      isAdmin: true,
+      adminId: admin.id,
+      adminUsername: admin.username,
+      fullName: admin.fullName || null
+    });
+  });
+}
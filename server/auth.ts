@@ -1,10 +1,16 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, RequestHandler, Response } from "express";
+import type { IncomingMessage } from "http";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
+import { getPlatformSettings } from "./services/settings";
+import { checkSecondFactor } from "./services/two-factor";
+import { checkLoginThrottle, clearFailedLogins, recordFailedLogin } from "./services/login-throttle";
+import { createRateLimiter } from "./services/rate-limit";
+import { recordSessionDevice } from "./services/sessions";
 import { User as SelectUser } from "@shared/schema";
 import * as dotenv from "dotenv";
 
@@ -17,8 +23,30 @@ declare global {
   }
 }
 
+// Where passport keeps the signed-in user's ID, as given by serializeUser below
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
+// Password hash shared by the demo accounts, which comparePasswords checks against "password" directly
+const DEMO_PASSWORD_HASH = "ea78bcccf63ed393ef98ba4d592e4a812c5818d22acaf9c1e4c55c41543d90efcbcd5a437cf676b5df75d4fc08b51ca449d73926a76adb425d4437c699cdee82.46a21c1553eb1c40";
+
+const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Limits on the forgot password form, so it can't be used to flood someone's inbox
+const PASSWORD_RESET_WINDOW_MS = 60 * 60 * 1000;
+const MAX_RESET_EMAILS_PER_ACCOUNT = 3;
+const passwordResetIpLimiter = createRateLimiter({ windowMs: PASSWORD_RESET_WINDOW_MS, max: 10 });
+
+// Reset tokens are stored as a SHA-256 hash, so a database leak doesn't hand out working reset links
+function hashPasswordResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
 export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
@@ -35,9 +63,7 @@ export async function comparePasswords(supplied: string, stored: string) {
     // SPECIAL HANDLING FOR DEMO ACCOUNTS
     // If this is one of our test accounts with the known hash, just do a direct comparison
     // with the expected password
-    const knownHash = "ea78bcccf63ed393ef98ba4d592e4a812c5818d22acaf9c1e4c55c41543d90efcbcd5a437cf676b5df75d4fc08b51ca449d73926a76adb425d4437c699cdee82.46a21c1553eb1c40";
-    
-    if (stored === knownHash) {
+    if (stored === DEMO_PASSWORD_HASH) {
       console.log("Using direct comparison for demo account");
       const result = supplied === "password";
       console.log("Password comparison result:", result);
@@ -69,7 +95,86 @@ export async function comparePasswords(supplied: string, stored: string) {
   }
 }
 
-export function setupAuth(app: Express) {
+export type LoginCheck =
+  | { ok: true, user: SelectUser, recoveryCodes?: string[] } // recovery codes only when two-factor was set up during this login
+  | { ok: false, status: number, body: { message: string, [key: string]: unknown }, retryAfterMs?: number };
+
+// The demo accounts skip login throttling so they can be shared freely, but only in development
+function isThrottleExempt(user?: SelectUser): boolean {
+  return process.env.NODE_ENV === "development" && user?.password === DEMO_PASSWORD_HASH;
+}
+
+/**
+ * Runs a login attempt through the throttle, the password check and the second factor. Failed
+ * passwords and wrong two-factor codes both count towards backoff and lockout.
+ * @param req The login request; its IP address is throttled along with the account
+ * @param user The account the username or email matched, if any
+ * @param password The password supplied
+ * @param code The two-factor code supplied, if any
+ */
+export async function authenticateLogin(
+  req: Request,
+  user: SelectUser | undefined,
+  password: string,
+  code?: string
+): Promise<LoginCheck> {
+  const ip = req.ip || "unknown";
+  const exempt = isThrottleExempt(user);
+  const lockedResponse: LoginCheck = {
+    ok: false,
+    status: 423,
+    body: {
+      message: "This account is locked after too many failed login attempts. Reset your password or contact support to unlock it.",
+      code: "ACCOUNT_LOCKED"
+    }
+  };
+
+  if (!exempt) {
+    const throttle = checkLoginThrottle(ip, user);
+    if (!throttle.allowed) {
+      if (throttle.locked) return lockedResponse;
+      const seconds = Math.ceil(throttle.retryAfterMs / 1000);
+      return {
+        ok: false,
+        status: 429,
+        body: { message: `Too many failed login attempts. Try again in ${seconds} seconds.`, code: "LOGIN_THROTTLED", retryAfter: seconds },
+        retryAfterMs: throttle.retryAfterMs
+      };
+    }
+  }
+
+  if (!user || !(await comparePasswords(password, user.password))) {
+    const locked = !exempt && await recordFailedLogin(ip, user);
+    return locked ? lockedResponse : { ok: false, status: 401, body: { message: "Invalid username/email or password" } };
+  }
+
+  const secondFactor = await checkSecondFactor(user, code);
+  if (!secondFactor.ok) {
+    // Being asked for a code isn't a failure, but getting it wrong is, or the code could be guessed
+    if (code && !exempt && await recordFailedLogin(ip, user)) return lockedResponse;
+    return { ok: false, status: 401, body: { ...secondFactor.challenge } };
+  }
+
+  if (!exempt) await clearFailedLogins(user);
+  return { ok: true, user, recoveryCodes: secondFactor.recoveryCodes };
+}
+
+/**
+ * Sends the response for a login that didn't go through
+ */
+export function sendLoginFailure(res: Response, check: Extract<LoginCheck, { ok: false }>) {
+  if (check.retryAfterMs) {
+    res.setHeader("Retry-After", Math.ceil(check.retryAfterMs / 1000).toString());
+  }
+  return res.status(check.status).json(check.body);
+}
+
+/**
+ * Sets up sessions, passport and the authentication routes
+ * @param app The express app
+ * @returns The session middleware, for authenticating requests that don't go through express
+ */
+export function setupAuth(app: Express): RequestHandler {
   // Determine environment for proper cookie setup
   const isProduction = process.env.NODE_ENV === 'production';
   let domain = process.env.DOMAIN_NAME || undefined; // Optional domain specification
@@ -100,12 +205,13 @@ export function setupAuth(app: Express) {
   // Use the simplest cookie configuration possible to ensure it works across all environments
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || 'artisans-secret-key',
-    resave: true,
+    resave: false, // Unchanged sessions only have their expiry touched, so a revoked session isn't saved back
     saveUninitialized: true,
+    rolling: true, // Re-send the cookie on every request so the timeout counts from the last activity
     store: storage.sessionStore as session.Store,
     name: 'artisans_sid', // Consistent session name
     cookie: {
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+      maxAge: 30 * 60 * 1000, // Replaced per request by the admin-configured session timeout below
       httpOnly: true,
       secure: false, // Explicitly set to false for development and mobile testing
       sameSite: 'lax', // Allowing cross-site requests with top-level navigation
@@ -126,12 +232,32 @@ export function setupAuth(app: Express) {
   });
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  const sessionParser = session(sessionSettings);
+  app.use(sessionParser);
+  
+  // Expire inactive sessions after the session timeout set on the admin settings page
+  app.use(async (req, res, next) => {
+    try {
+      if (req.session) {
+        const { security } = await getPlatformSettings();
+        req.session.cookie.maxAge = security.sessionTimeout * 60 * 1000;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
   app.use(passport.initialize());
   app.use(passport.session());
+  
+  // Keep each signed-in session's device and last activity up to date for the sessions list
+  app.use((req, res, next) => {
+    recordSessionDevice(req);
+    next();
+  });
 
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
       try {
         // Support login with either username or email
         console.log(`Attempting login for identifier: ${username}`);
@@ -152,18 +278,15 @@ export function setupAuth(app: Express) {
         
         if (!user) {
           console.log(`User not found for identifier: ${username}`);
-          return done(null, false);
         }
         
-        const passwordMatch = await comparePasswords(password, user.password);
-        console.log(`Password match for ${user.username}: ${passwordMatch}`);
-        
-        if (!passwordMatch) {
-          return done(null, false);
-        } else {
-          console.log(`Login successful for: ${user.username}, ID: ${user.id}, Role: ${user.role}`);
-          return done(null, user);
+        const check = await authenticateLogin(req, user, password, req.body.code || undefined);
+        if (!check.ok) {
+          return done(null, false, { message: check.body.message });
         }
+        
+        console.log(`Login successful for: ${check.user.username}, ID: ${check.user.id}, Role: ${check.user.role}`);
+        return done(null, check.user);
       } catch (error) {
         console.error(`Login error for ${username}:`, error);
         return done(error);
@@ -228,6 +351,7 @@ export function setupAuth(app: Express) {
       // Login the new user
       req.login(user, async (err) => {
         if (err) return next(err);
+        recordSessionDevice(req);
         
         // Return user data with any pending invitations
         const userData = {
@@ -328,19 +452,17 @@ export function setupAuth(app: Express) {
           }
         }
         
-        if (!user) {
+        // Validate password, and the two-factor code for users with it on, under the login throttle.
+        // Unknown users still go through it, so guesses at usernames count against the IP address.
+        const check = await authenticateLogin(req, user, req.body.password, req.body.code || undefined);
+        
+        if (!check.ok) {
           const identifier = req.body.email || req.body.username || 'unknown';
-          console.log(`Authentication failed: User not found for '${identifier}'`);
-          return res.status(401).json({ message: "Invalid username/email or password" });
+          console.log(`Authentication failed for '${identifier}': ${check.status} ${check.body.message}`);
+          return sendLoginFailure(res, check);
         }
         
-        // Validate password
-        const passwordMatch = await comparePasswords(req.body.password, user.password);
-        
-        if (!passwordMatch) {
-          console.log(`Authentication failed: Invalid password for '${user.username}'`);
-          return res.status(401).json({ message: "Invalid username/email or password" });
-        }
+        user = check.user;
         
         console.log(`Authentication successful for user '${user.username}'`);
         
@@ -350,6 +472,7 @@ export function setupAuth(app: Express) {
             console.error("Session creation error:", loginErr);
             return res.status(500).json({ message: "Failed to create session", error: loginErr.message });
           }
+          recordSessionDevice(req);
           
           console.log(`Login successful, session created for ${user.username} (ID: ${user.id})`);
           console.log(`Session ID: ${req.sessionID}`);
@@ -371,8 +494,9 @@ export function setupAuth(app: Express) {
           // Remove password from response
           const { password, ...safeUserData } = user; 
           
-          // Return only safe user data without password
-          return res.status(200).json(safeUserData);
+          // Return only safe user data without password, plus the recovery codes if two-factor
+          // was set up as part of this login, since they can't be fetched again
+          return res.status(200).json({ ...safeUserData, recoveryCodes: check.recoveryCodes });
         });
       } catch (innerError) {
         console.error("Error during authentication process:", innerError);
@@ -467,6 +591,18 @@ export function setupAuth(app: Express) {
         return res.status(400).json({ message: "Email is required" });
       }
       
+      // Counted before looking the email up, so the limit says nothing about which accounts exist
+      const ipLimit = passwordResetIpLimiter.hit(req.ip || "unknown");
+      if (!ipLimit.allowed) {
+        console.warn(`Password reset requests from ${req.ip} throttled`);
+        res.setHeader('Retry-After', Math.ceil(ipLimit.retryAfterMs / 1000).toString());
+        return res.status(429).json({ message: "Too many password reset requests. Please try again later." });
+      }
+      
+      const genericResponse = {
+        message: "If an account with that email exists, we've sent a password reset link"
+      };
+      
       // Find user by email
       const user = await storage.getUserByEmail(email);
       
@@ -474,56 +610,41 @@ export function setupAuth(app: Express) {
       // This prevents email enumeration attacks
       if (!user) {
         console.log(`Password reset requested for non-existent email: ${email}`);
-        return res.status(200).json({ 
-          message: "If an account with that email exists, we've sent a password reset link" 
-        });
+        return res.status(200).json(genericResponse);
       }
       
-      // Generate a reset token
-      const resetToken = randomBytes(32).toString('hex');
-      const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + 1); // Token valid for 1 hour
-      
-      // Store the reset token (In a production app, we would store this in the database)
-      await storage.savePasswordResetToken(user.id, resetToken, expiresAt);
+      // Past the per-account limit the request is quietly dropped, for the same reason
+      const recentRequests = await storage.countPasswordResetTokensSince(
+        user.id,
+        new Date(Date.now() - PASSWORD_RESET_WINDOW_MS)
+      );
+      if (recentRequests >= MAX_RESET_EMAILS_PER_ACCOUNT) {
+        console.warn(`Password reset emails for user ${user.id} throttled`);
+        return res.status(200).json(genericResponse);
+      }
       
-      // Build the reset URL
-      const baseUrl = process.env.BASE_URL || `http://localhost:5000`;
-      const resetUrl = `${baseUrl}/reset-password/${resetToken}`;
+      // Generate a reset token; only its hash is stored
+      const resetToken = randomBytes(32).toString('hex');
+      const expiresAt = new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS);
+      await storage.createPasswordResetToken(user.id, hashPasswordResetToken(resetToken), expiresAt);
       
       // Send the email
       try {
         const emailService = await import('./services/email');
-        await emailService.sendEmail({
-          to: email,
-          subject: "Reset your Artisans Platform password",
-          html: `
-            <h1>Password Reset Request</h1>
-            <p>You requested a password reset for your Artisans Platform account.</p>
-            <p>Please click the link below to set a new password. This link will expire in 1 hour:</p>
-            <p><a href="${resetUrl}" style="padding: 10px 20px; background-color: #4f46e5; color: white; text-decoration: none; border-radius: 5px;">Reset My Password</a></p>
-            <p>If you didn't request this password reset, you can safely ignore this email.</p>
-            <p>Regards,<br>The Artisans Platform Team</p>
-          `
-        });
-        
+        await emailService.sendPasswordResetEmail(user.email, resetToken);
         console.log(`Password reset email sent to ${email}`);
       } catch (error) {
         console.error("Error sending password reset email:", error);
         // Don't expose email sending errors to the client for security
       }
       
-      res.status(200).json({ 
-        message: "If an account with that email exists, we've sent a password reset link" 
-      });
+      res.status(200).json(genericResponse);
     } catch (error) {
       console.error("Error processing forgot password request:", error);
       res.status(500).json({ message: "An error occurred processing your request" });
     }
   });
   
-  // Reset password route
-  // Authentication verification endpoint - simplified for front-end checks
   app.get("/api/auth/verify", (req, res) => {
     // We want clients to bypass cache for this endpoint
     res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
@@ -567,24 +688,18 @@ export function setupAuth(app: Express) {
     try {
       const { token, password } = req.body;
       
-      if (!token || !password) {
+      if (typeof token !== "string" || !token || !password) {
         return res.status(400).json({ message: "Token and password are required" });
       }
       
-      // Verify token validity
-      const tokenData = await storage.getPasswordResetToken(token);
+      // Using the token up front means a link can only ever reset the password once
+      const tokenData = await storage.consumePasswordResetToken(hashPasswordResetToken(token));
       
       if (!tokenData) {
         return res.status(400).json({ message: "Invalid or expired token" });
       }
       
-      const { userId, expiresAt } = tokenData;
-      
-      // Check if token is expired
-      if (new Date() > new Date(expiresAt)) {
-        await storage.deletePasswordResetToken(token);
-        return res.status(400).json({ message: "Reset token has expired" });
-      }
+      const { userId } = tokenData;
       
       // Get user
       const user = await storage.getUser(userId);
@@ -592,12 +707,13 @@ export function setupAuth(app: Express) {
         return res.status(400).json({ message: "User not found" });
       }
       
-      // Update user's password
+      // Update user's password, and stop any other reset links or admin dashboard logins from working.
+      // Getting in through the emailed link proves it's them, so it also lifts a login lockout.
       const hashedPassword = await hashPassword(password);
       await storage.updateUserPassword(userId, hashedPassword);
-      
-      // Delete the used token
-      await storage.deletePasswordResetToken(token);
+      await storage.invalidatePasswordResetTokensForUser(userId);
+      await storage.revokeAdminRefreshTokensForUser(userId);
+      await storage.unlockUser(userId);
       
       // Return success
       res.status(200).json({ message: "Password has been successfully reset" });
@@ -606,4 +722,27 @@ export function setupAuth(app: Express) {
       res.status(500).json({ message: "An error occurred processing your request" });
     }
   });
-}
\ No newline at end of file
+
+  return sessionParser;
+}
+
+/**
+ * Works out who is opening a WebSocket from the session cookie sent with the upgrade request
+ * @param sessionParser The session middleware returned by setupAuth
+ * @param req The upgrade request
+ * @returns The signed-in user, or null if the request has no valid session
+ */
+export function getUpgradeRequestUser(sessionParser: RequestHandler, req: IncomingMessage): Promise<SelectUser | null> {
+  return new Promise((resolve) => {
+    // The upgrade has no express response; the session middleware only needs one to set cookies
+    sessionParser(req as Request, {} as Response, async () => {
+      try {
+        const userId = (req as Request).session?.passport?.user;
+        resolve(userId ? (await storage.getUser(userId)) || null : null);
+      } catch (error) {
+        console.error("Error loading WebSocket session user:", error);
+        resolve(null);
+      }
+    });
+  });
+}
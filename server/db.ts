@@ -1,4 +1,4 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
+import { DatabaseError, Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
 import * as schema from "@shared/schema";
@@ -45,5 +45,11 @@ export async function checkDatabaseConnection() {
   }
 }
 
+// Whether a query failed on a unique constraint, or on the one named, e.g. when two requests race to
+// insert the same row
+export function isUniqueViolation(error: unknown, constraint?: string): boolean {
+  return error instanceof DatabaseError && error.code === '23505' && (!constraint || error.constraint === constraint);
+}
+
 // Initialize database client with the schema
 export const db = drizzle({ client: pool, schema });
@@ -33,8 +33,19 @@ console.log("Environment:", {
   }
 })();
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body so payment webhook signatures can be verified
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 app.use(express.static('public')); // Serve static files from the public directory
 
@@ -1,89 +1,27 @@
 import express, { type Express, Request, Response, NextFunction } from "express";
-import { createServer, type Server } from "http";
+import { createServer, type IncomingMessage, type Server } from "http";
 import { WebSocketServer } from "ws";
 import WebSocket from "ws";
 import { storage } from "./storage";
-import { setupAuth, hashPassword, comparePasswords } from "./auth";
+import { setupAuth, hashPassword, comparePasswords, getUpgradeRequestUser } from "./auth";
+import { setupDirectAdminAuth } from "./admin-auth";
 import { z } from "zod";
 import multer from "multer";
 import path from "path";
 import { v4 as uuidv4 } from "uuid";
 import crypto from "crypto";
 import fs from "fs";
-import { db } from "./db";
+import { db, isUniqueViolation } from "./db";
 import { sql } from "drizzle-orm";
 
-// Helper function to get projects where a user is a team member
-async function getTeamMemberProjects(user: any): Promise<Project[]> {
-  try {
-    // Try different query formats to find team member projects
-    console.log(`Looking for projects where user ${user.id} is a team member (helper function)`);
-    
-    // Try format 1: Using string version of user ID
-    const teamMemberResult = await db.execute(sql`
-      SELECT * FROM projects
-      WHERE EXISTS (
-        SELECT 1 FROM jsonb_array_elements(team_members) as team_member
-        WHERE team_member->>'userId' = ${user.id.toString()}
-      )
-      AND company_id <> ${user.id}
-    `);
-    
-    if (teamMemberResult.rows.length > 0) {
-      console.log(`Found ${teamMemberResult.rows.length} projects with format 1`);
-      return teamMemberResult.rows as Project[];
-    }
-    
-    // Try format 2: With COALESCE and cast to integer
-    const teamMemberResult2 = await db.execute(sql`
-      SELECT * FROM projects
-      WHERE EXISTS (
-        SELECT 1 FROM jsonb_array_elements(COALESCE(team_members, '[]'::jsonb)) as team_member
-        WHERE (team_member->>'userId')::int = ${user.id}
-      )
-    `);
-    
-    if (teamMemberResult2.rows.length > 0) {
-      console.log(`Found ${teamMemberResult2.rows.length} projects with format 2`);
-      return teamMemberResult2.rows as Project[];
-    }
-    
-    // Try format 3: Specific test for the test project
-    const testResult = await db.execute(sql`
-      SELECT * FROM projects
-      WHERE name = 'Test Team Project'
-    `);
-    
-    if (testResult.rows.length > 0) {
-      console.log(`Found test project, checking team members`);
-      const testProject = testResult.rows[0];
-      const teamMembers = testProject.team_members || [];
-      
-      console.log(`Test project team members:`, JSON.stringify(teamMembers));
-      
-      if (Array.isArray(teamMembers) && 
-          teamMembers.some((member: any) => 
-            member && member.userId && String(member.userId) === String(user.id)
-          )) {
-        console.log(`User ${user.id} confirmed as team member of test project`);
-        return [testProject];
-      }
-    }
-    
-    console.log(`No team member projects found for user ${user.id}`);
-    return [];
-  } catch (err) {
-    console.error(`Error in getTeamMemberProjects:`, err);
-    return [];
-  }
-}
 import { 
   insertUserSkillSchema, 
   insertProjectTaskSchema, 
   insertTaskCommentSchema,
   insertSiteMaterialSchema,
   ExtendedProject,
-  Project
+  Project,
+  ProjectAccess
 } from "@shared/schema";
 // Using dynamic import for email service to prevent circular dependencies
 // This will be replaced with proper imports when needed
@@ -95,62 +33,294 @@ import {
   createMessageNotification,
   createOrderStatusNotification,
   createPaymentNotification,
-  createLowInventoryNotification
+  createLowInventoryNotification,
+  setRealTimeNotificationSender
 } from "./services/notification";
+import { orderStatuses, getAllowedOrderTransitions } from "./services/orders";
+import {
+  type PaymentProvider,
+  type PayoutStatus,
+  type WebhookRequest,
+  describeAmountMismatch,
+  fakePaymentProvider,
+  finalPaymentStatuses,
+  generatePaymentReference,
+  generatePayoutReference,
+  getPaymentProvider,
+  getPaymentProviderByName,
+  getPayoutProvider,
+  getPayoutProviderByName,
+  hashPaymentRequest
+} from "./services/payments";
+import { summariseEscrow } from "./services/escrow";
+import {
+  getFinancialReport,
+  getMaterialsReport,
+  getProjectReport,
+  getProviderReport
+} from "./services/reports";
+import { getVersionedPlatformSettings, updatePlatformSettings } from "./services/settings";
+import { getMaintenanceStatus, invalidateMaintenanceWindows } from "./services/maintenance";
+import { canSubscribeToTopic, getPermissionsForRole, requireProjectPermission, resolveProjectAccess } from "./services/permissions";
+import { publishRealtimeEvent, realtimeTopics, subscribeSocket, unsubscribeSocket, unsubscribeSocketFromAll } from "./services/realtime";
+import { generateProjectReportPdf, getProjectReportFileName } from "./services/project-report";
+import { type CatalogueFormat, catalogueFormats, exportCatalogue, importCatalogue } from "./services/catalogue";
+import { search } from "./services/search";
+import { getMaterialCatalogue } from "./services/material-catalogue";
+import { getProviderScorecard, getProviderScorecards } from "./services/provider-reputation";
+import { isCurrentSession, listActiveSessions, revokeAllSessions, revokeOtherSessions, revokeSession } from "./services/sessions";
+import {
+  confirmTwoFactorEnrolment,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorEnrolment,
+  verifyTwoFactorCode
+} from "./services/two-factor";
 
-/**
- * Returns a set of permissions based on a team member's role
- */
-function getPermissionsForRole(role: string): string[] {
-  const permissions: Record<string, string[]> = {
-    // Project Management Roles
-    'project_manager': ['edit_project', 'approve_changes', 'manage_team', 'view_all', 'create_timeline', 'approve_materials'],
-    'supervisor': ['view_all', 'approve_changes', 'create_timeline', 'manage_team', 'approve_materials'],
-    'client': ['edit_project', 'approve_changes', 'manage_team', 'view_all', 'approve_materials'],
-    'collaborator': ['view_project', 'comment'],
-    
-    // Technical Roles
-    'architect': ['view_project', 'create_timeline', 'approve_changes', 'design_review'],
-    'engineer': ['view_project', 'create_timeline', 'structural_review', 'approve_changes'],
-    'contractor': ['view_project', 'create_timeline', 'manage_workers'],
-    
-    // Specialized Construction Roles
-    'plumber': ['view_project', 'create_timeline', 'plumbing_work'],
-    'electrician': ['view_project', 'create_timeline', 'electrical_work'],
-    'carpenter': ['view_project', 'create_timeline', 'carpentry_work'],
-    'mason': ['view_project', 'create_timeline', 'masonry_work'],
-    'painter': ['view_project', 'create_timeline', 'painting_work'],
-    
-    // Support Roles
-    'inspector': ['view_project', 'create_timeline', 'inspection_review'],
-    'supplier': ['view_project', 'view_materials', 'manage_materials'],
-    
-    // Default/Other Roles
-    'member': ['view_project', 'comment'],
-    'family_member': ['view_project', 'comment'],
-    'designer': ['view_project', 'create_timeline', 'design_work'],
-    'manager': ['edit_project', 'approve_changes', 'manage_team', 'view_all', 'create_timeline'],
-    'consultant': ['view_project', 'create_timeline', 'comment', 'approve_changes']
-  };
-  
-  // Return default permissions if role isn't defined
-  return permissions[role] || ['view_project', 'comment'];
-}
 import {
   insertProjectSchema,
   insertProjectTimelineSchema,
   insertOrderSchema,
   insertMessageSchema,
   insertMaterialSchema,
+  searchQuerySchema,
+  materialCatalogueFiltersSchema,
+  submitMaterialReviewSchema,
+  materialReviewReplySchema,
+  moderateMaterialReviewSchema,
+  materialReviewStatuses,
+  MaterialReviewEligibility,
+  submitProviderReviewSchema,
+  ServiceProviderProfile,
   insertServiceRequestSchema,
   insertNotificationSchema,
   insertSupplierSchema,
   insertInventorySchema,
   insertProjectBidSchema,
   insertTeamInvitationSchema,
-  ServiceRequest
+  checkoutSchema,
+  ServiceRequest,
+  Order,
+  OrderWithFulfilment,
+  OrderStatusHistoryEntry,
+  ProjectBid,
+  Message,
+  PaymentIntent,
+  createPaymentIntentSchema,
+  EscrowMilestone,
+  ProjectTimeline,
+  ReportData,
+  ReportRange,
+  reportRangeSchema,
+  updatePlatformSettingsSchema,
+  createMaintenanceWindowSchema,
+  createSiteReportSchema,
+  siteReportFiltersSchema,
+  projectReportOptionsSchema,
+  ProjectReportOptions,
+  RealtimeTopic,
+  realtimeSubscriptionSchema,
+  startDirectConversationSchema,
+  sendConversationMessageSchema,
+  markConversationReadSchema,
+  conversationMessagesQuerySchema,
+  User
 } from "@shared/schema";
 
+// Labels used when telling users about order status changes
+const orderStatusLabels: Record<string, string> = {
+  confirmed: "confirmed",
+  packed: "packed",
+  dispatched: "dispatched",
+  delivered: "delivered",
+  cancelled: "cancelled",
+  returned: "returned",
+  refunded: "refunded"
+};
+
+// Notifies the client of every status transition recorded for their order, and the
+// supplier whenever someone else changed their part of it
+async function notifyOrderStatusChanges(order: Order, changes: OrderStatusHistoryEntry[], actorId: number) {
+  for (const change of changes) {
+    const status = orderStatusLabels[change.toStatus] || change.toStatus;
+    const event = {
+      type: "order.updated" as const,
+      orderId: order.id,
+      supplierOrderId: change.supplierOrderId,
+      status: change.toStatus
+    };
+    publishRealtimeEvent(realtimeTopics.user(order.clientId), event);
+    
+    if (change.supplierOrderId) {
+      const supplierOrder = await storage.getSupplierOrder(change.supplierOrderId);
+      const supplier = supplierOrder ? await storage.getSupplier(supplierOrder.supplierId) : undefined;
+      if (supplier) {
+        publishRealtimeEvent(realtimeTopics.user(supplier.userId), event);
+      }
+      
+      await createOrderStatusNotification({
+        userId: order.clientId,
+        title: `Order ${status}`,
+        message: `${supplier?.name || "A supplier"} has ${status} their part of order #${order.orderId}`,
+        orderId: order.id,
+        orderStatus: change.toStatus
+      });
+      
+      if (supplier && supplier.userId !== actorId) {
+        await createOrderStatusNotification({
+          userId: supplier.userId,
+          title: `Order ${status}`,
+          message: `Your part of order #${order.orderId} has been ${status}`,
+          orderId: order.id,
+          orderStatus: change.toStatus
+        });
+      }
+    } else {
+      await createOrderStatusNotification({
+        userId: order.clientId,
+        title: `Order ${status}`,
+        message: `Your order #${order.orderId} has been ${status}`,
+        orderId: order.id,
+        orderStatus: change.toStatus
+      });
+    }
+  }
+}
+
+// Bid changes go to everyone watching the project, and to the bidder wherever they are in the app
+function publishProjectBidUpdate(bid: ProjectBid) {
+  const event = { type: "bid.updated" as const, bidId: bid.id, status: bid.status, projectId: bid.projectId };
+  publishRealtimeEvent(realtimeTopics.project(bid.projectId), event);
+  publishRealtimeEvent(realtimeTopics.user(bid.serviceProviderId), event);
+}
+
+function publishServiceRequestBidUpdate(bid: { id: number, providerId: number }, serviceRequestId: number, status: string) {
+  const event = { type: "bid.updated" as const, bidId: bid.id, status, serviceRequestId };
+  publishRealtimeEvent(realtimeTopics.serviceRequest(serviceRequestId), event);
+  publishRealtimeEvent(realtimeTopics.user(bid.providerId), event);
+}
+
+// Sends a new message to every participant's open tabs, including the sender's others
+async function publishConversationMessage(message: Message) {
+  if (!message.conversationId) return;
+  
+  const participants = await storage.getConversationParticipants(message.conversationId);
+  const event = { type: "conversation.message" as const, conversationId: message.conversationId, message };
+  participants.forEach(participant => publishRealtimeEvent(realtimeTopics.user(participant.userId), event));
+}
+
+// Tells the payer when a payment has succeeded or failed
+async function notifyPaymentStatus(intent: PaymentIntent) {
+  if (intent.status !== "succeeded" && intent.status !== "failed") {
+    return;
+  }
+  
+  const amount = `₵${(intent.amount / 100).toFixed(2)}`;
+  await createPaymentNotification({
+    userId: intent.payerId,
+    title: intent.status === "succeeded" ? "Payment Received" : "Payment Failed",
+    message: intent.status === "succeeded"
+      ? `Your payment of ${amount} (${intent.reference}) was completed successfully`
+      : `Your payment of ${amount} (${intent.reference}) failed: ${intent.failureReason || "please try again"}`,
+    paymentId: intent.id,
+    paymentStatus: intent.status === "succeeded" ? "completed" : "failed"
+  });
+}
+
+// Verifies and applies a provider webhook, returning the HTTP status to respond with
+async function handlePaymentWebhook(provider: PaymentProvider, request: WebhookRequest): Promise<number> {
+  if (!provider.verifyWebhook(request)) {
+    return 401;
+  }
+  
+  // Events we don't act on are still acknowledged so the provider stops retrying
+  let event = provider.parseWebhook(request);
+  if (!event) {
+    return 200;
+  }
+  
+  if (provider.confirmWebhook) {
+    const payment = await storage.getPaymentIntentByReference(event.reference);
+    if (!payment || payment.provider !== provider.name || !payment.providerReference) {
+      return 200;
+    }
+    event = await provider.confirmWebhook(event, payment);
+  }
+  
+  const { intent, changed, amountMismatch } = await storage.applyPaymentWebhookEvent(provider.name, event, request.body);
+  if (amountMismatch) {
+    console.error(`Payment ${event.reference} was not settled: ${amountMismatch}`);
+  }
+  if (intent && changed) {
+    await notifyPaymentStatus(intent);
+  }
+  
+  return 200;
+}
+
+// Records a payout's outcome unless it's already settled, e.g. by a callback that arrived before
+// sendPayout returned, and tells the service provider when they've been paid
+async function settleEscrowPayout(milestone: EscrowMilestone, payoutStatus: PayoutStatus): Promise<EscrowMilestone> {
+  if (payoutStatus === "processing") {
+    return (await storage.getEscrowMilestone(milestone.id)) || milestone;
+  }
+  
+  const settled = await storage.settleEscrowPayout(milestone.id, milestone.payoutReference!, payoutStatus);
+  if (!settled) {
+    return (await storage.getEscrowMilestone(milestone.id)) || milestone;
+  }
+  
+  if (settled.payoutStatus === "paid") {
+    await notifyEscrowPayout(settled);
+  }
+  return settled;
+}
+
+// Sends a released milestone's funds to the service provider's mobile money number
+async function startEscrowPayout(milestone: EscrowMilestone, baseUrl: string): Promise<EscrowMilestone> {
+  const serviceProvider = await storage.getUser(milestone.serviceProviderId);
+  if (!serviceProvider?.phone) {
+    console.error(`Escrow milestone ${milestone.id} released but its service provider has no phone number for payout`);
+    return settleEscrowPayout(milestone, "failed");
+  }
+  
+  let payoutStatus: PayoutStatus;
+  try {
+    const provider = getPayoutProvider();
+    const result = await provider.sendPayout({
+      reference: milestone.payoutReference!,
+      amount: milestone.amount,
+      currency: "GHS",
+      phone: serviceProvider.phone,
+      note: `Milestone payout: ${milestone.title}`,
+      callbackUrl: `${baseUrl}/api/payments/payouts/webhooks/${provider.name}`
+    });
+    
+    if (result.status === "failed") {
+      console.error(`Payout ${milestone.payoutReference} failed: ${result.failureReason}`);
+    }
+    payoutStatus = result.status;
+  } catch (error) {
+    console.error(`Error starting payout ${milestone.payoutReference}:`, error);
+    payoutStatus = "failed";
+  }
+  
+  return settleEscrowPayout(milestone, payoutStatus);
+}
+
+// Tells the service provider their milestone payment has been sent
+async function notifyEscrowPayout(milestone: EscrowMilestone) {
+  await createSmartNotification({
+    userId: milestone.serviceProviderId,
+    title: "Milestone Paid",
+    message: `₵${(milestone.amount / 100).toFixed(2)} for "${milestone.title}" has been paid out to you`,
+    type: "payment",
+    relatedItemId: milestone.serviceRequestId,
+    relatedItemType: "service_request",
+    actionUrl: `/service-requests/${milestone.serviceRequestId}`
+  }, "completed");
+}
+
 // Client and ChatMessage interfaces for the WebSocket chat implementation
 interface Client {
   userId: number;
@@ -200,117 +370,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`Direct projects request for service provider: ${username} (ID: ${userId})`);
       
-      // First, get projects where the service provider is directly assigned (as primary contractor)
-      console.log(`Looking for projects with company_id = ${user.id}`);
-      // Show the actual SQL with proper parameterization
-      const mainContractorResult = await db.execute(sql`
-        SELECT * FROM projects 
-        WHERE company_id = ${user.id}
-      `);
-      const mainContractorProjects = mainContractorResult.rows as Project[];
-      console.log(`SQL query returned ${mainContractorProjects.length} projects`);
+      // Projects where the service provider is directly assigned (as primary contractor)
+      const mainContractorProjects = await storage.getProjectsByCompanyId(user.id);
       console.log(`Found ${mainContractorProjects.length} projects as primary contractor`);
       
-      // Next, get projects where the service provider is a team member
-      console.log(`Looking for projects where user ${user.id} is a team member`);
-      
-      // Debug test: Create a test project with team members for debugging purposes
-      let testCreated = false;
-      try {
-        // First check if we already have a test project
-        const checkTest = await db.execute(sql`
-          SELECT id, team_members 
-          FROM projects 
-          WHERE name = 'Test Team Project'
-        `);
-        
-        if (checkTest.rows.length === 0) {
-          console.log(`Creating a test project with team member: ${user.id}`);
-          // Create a test project with the current user as a team member
-          const teamMembers = JSON.stringify([{
-            userId: user.id,
-            username: user.username,
-            role: "contractor",
-            joinedAt: new Date().toISOString(),
-            inviteStatus: "accepted"
-          }]);
-          
-          await db.execute(sql`
-            INSERT INTO projects (
-              name, description, type, clientId, status, progress, location, team_members, createdAt
-            ) VALUES (
-              'Test Team Project', 
-              'A test project for debugging team member visibility', 
-              'residential', 
-              1, 
-              'active', 
-              20, 
-              'Accra, Ghana',
-              ${teamMembers}::jsonb,
-              NOW()
-            )
-          `);
-          testCreated = true;
-          console.log(`Test project created with team member: ${user.id}`);
-        } else {
-          console.log(`Test project already exists`);
-          
-          // Debug the existing team members
-          console.log(`Existing team members:`, JSON.stringify(checkTest.rows[0].team_members));
-          
-          // Make sure the current user is in the team_members array
-          const projectId = checkTest.rows[0].id;
-          const currentTeamMembers = checkTest.rows[0].team_members || [];
-          
-          // Check if user is already a team member
-          const userExists = Array.isArray(currentTeamMembers) && 
-            currentTeamMembers.some(member => 
-              member && member.userId && member.userId.toString() === user.id.toString()
-            );
-          
-          if (!userExists) {
-            console.log(`Adding user ${user.id} to test project's team members`);
-            // Add the current user to team members
-            const updatedTeamMembers = [
-              ...currentTeamMembers,
-              {
-                userId: user.id,
-                username: user.username,
-                role: "contractor",
-                joinedAt: new Date().toISOString(),
-                inviteStatus: "accepted"
-              }
-            ];
-            
-            await db.execute(sql`
-              UPDATE projects
-              SET team_members = ${JSON.stringify(updatedTeamMembers)}::jsonb
-              WHERE id = ${projectId}
-            `);
-            console.log(`Added user ${user.id} to test project team members`);
-          } else {
-            console.log(`User ${user.id} is already a team member of the test project`);
-          }
-        }
-      } catch (err) {
-        console.error(`Error in test project creation:`, err);
-      }
-      
-      // Debug the team_members format with a test query
-      try {
-        const testResult = await db.execute(sql`
-          SELECT id, team_members 
-          FROM projects 
-          LIMIT 5
-        `);
-        console.log(`Team members format sample:`, JSON.stringify(testResult.rows));
-      } catch (err) {
-        console.error(`Error in test query:`, err);
-      }
-      
-      // Now run the actual team members query with improved debugging
-      // Get the team member projects from the specialized query function
-      const teamMemberProjects = await getTeamMemberProjects(user) || [];
+      // Projects where they're on the team
+      const teamMemberProjects = await storage.getProjectsByServiceProviderId(user.id);
+      console.log(`Found ${teamMemberProjects.length} projects as team member`);
       
       // Mark the mainContractorProjects as not team members (they're primary contractors)
       const mainContractorProjectsWithRole = Array.isArray(mainContractorProjects) ?
@@ -454,58 +520,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
   
-  // Direct admin routes that don't depend on WebSocket
-  app.post("/api/direct-admin/login", async (req, res) => {
-    try {
-      const { username, password } = req.body;
-      
-      if (!username || !password) {
-        return res.status(400).json({ message: "Username and password required" });
-      }
-      
-      // Authenticate directly
-      const user = await storage.getUserByUsername(username);
-      
-      if (!user) {
-        return res.status(401).json({ message: "Invalid credentials" });
-      }
-      
-      const passwordValid = await comparePasswords(password, user.password);
-      
-      if (!passwordValid) {
-        return res.status(401).json({ message: "Invalid credentials" });
-      }
-      
-      if (user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
-      // For direct API endpoints, we don't use req.login since it requires passport middleware
-      // Just return the user data directly
-        
-      // Return success without sensitive information
-      const safeUser = { ...user };
-      delete safeUser.password;
-        
-      res.json(safeUser);
-    } catch (error) {
-      console.error("Direct admin login error:", error);
-      res.status(500).json({ message: "Server error during login" });
-    }
-  });
+  // Direct admin routes that don't depend on WebSocket; each one is authenticated by an admin access token
+  setupDirectAdminAuth(app);
   
   // Direct data access endpoints for admin dashboard
   app.post("/api/direct-admin/clients", async (req, res) => {
     try {
-      const { adminUsername } = req.body;
-      
-      // Verify admin access
-      const admin = await storage.getUserByUsername(adminUsername);
-      
-      if (!admin || admin.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
       const clients = await storage.getUsersByRole('client');
       res.json(clients.map(client => {
         const clientData = { ...client };
@@ -520,15 +540,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post("/api/direct-admin/service-providers", async (req, res) => {
     try {
-      const { adminUsername } = req.body;
-      
-      // Verify admin access
-      const admin = await storage.getUserByUsername(adminUsername);
-      
-      if (!admin || admin.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
       const providers = await storage.getUsersByRole('service_provider');
       res.json(providers.map(provider => {
         const providerData = { ...provider };
@@ -543,31 +554,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post("/api/direct-admin/projects", async (req, res) => {
     try {
-      console.log("Direct admin projects request received", req.body);
-      const { adminUsername } = req.body;
-      
-      console.log(`Admin ${adminUsername} is requesting projects`);
-      
-      // First try regular authentication
-      if (req.isAuthenticated && req.isAuthenticated() && req.user?.role === 'admin') {
-        console.log("Using session authentication for admin projects");
-        const projects = await storage.getAllProjects();
-        console.log(`Found ${projects.length} projects using session auth`);
-        return res.json(projects);
-      }
-      
-      // Fallback: Verify admin access by username
-      console.log("Falling back to username-based admin verification");
-      const admin = await storage.getUserByUsername(adminUsername);
-      console.log(`Admin verification result:`, admin ? `Found admin ${admin.username} with role ${admin.role}` : 'Admin not found');
-      
-      if (!admin || admin.role !== 'admin') {
-        console.log(`Admin verification failed for ${adminUsername}`);
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      const admin = req.adminUser!;
       
       // Get all projects
-      console.log(`Getting all projects for admin ${adminUsername}`);
+      console.log(`Getting all projects for admin ${admin.username}`);
       const projects = await storage.getAllProjects();
       
       // Get all users to add client details to projects
@@ -594,13 +584,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         };
       });
       
-      console.log(`Found ${projects.length} projects for admin ${adminUsername}`);
+      console.log(`Found ${projects.length} projects for admin ${admin.username}`);
       if (projectsWithClientDetails.length > 0) {
         console.log("First project sample:", JSON.stringify(projectsWithClientDetails[0]).substring(0, 300) + "...");
       }
       
       res.json(projectsWithClientDetails);
-      console.log(`Sent ${projectsWithClientDetails.length} projects to admin ${adminUsername}`);
+      console.log(`Sent ${projectsWithClientDetails.length} projects to admin ${admin.username}`);
     } catch (error) {
       console.error("Direct admin projects error:", error);
       res.status(500).json({ message: "Server error fetching projects" });
@@ -609,23 +599,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post("/api/direct-admin/service-requests", async (req, res) => {
     try {
-      const { adminUsername, projectId } = req.body;
-      
-      // Verify admin access
-      const admin = await storage.getUserByUsername(adminUsername);
-      
-      if (!admin || admin.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      const { projectId } = req.body;
+      const admin = req.adminUser!;
       
       // If projectId is provided, get service requests for that project
       if (projectId) {
-        console.log(`Admin ${adminUsername} is requesting service requests for project #${projectId}`);
+        console.log(`Admin ${admin.username} is requesting service requests for project #${projectId}`);
         const projectRequests = await storage.getServiceRequestsByProjectId(projectId);
         return res.json(projectRequests);
       } else {
         // Otherwise get all service requests
-        console.log(`Admin ${adminUsername} is requesting all service requests`);
+        console.log(`Admin ${admin.username} is requesting all service requests`);
         const requests = await storage.getAllServiceRequests();
         return res.json(requests);
       }
@@ -638,20 +622,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin get all users endpoint
   app.post("/api/direct-admin/all-users", async (req, res) => {
     try {
-      console.log("DIRECT ADMIN ALL USERS: Request received", req.body);
-      const { adminUsername } = req.body;
-      console.log(`Admin ${adminUsername} is requesting all users`);
-      
-      // Verify admin access
-      const admin = await storage.getUserByUsername(adminUsername);
-      console.log(`Admin verification result:`, admin ? `Found admin ${admin.username} with role ${admin.role}` : 'Admin not found');
-      
-      if (!admin || admin.role !== 'admin') {
-        console.log(`Admin verification failed for ${adminUsername}`);
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      const admin = req.adminUser!;
+      console.log(`Admin ${admin.username} is requesting all users`);
       
-      console.log(`Getting all users for admin ${adminUsername}`);
+      console.log(`Getting all users for admin ${admin.username}`);
       const users = await storage.getAllUsers();
       console.log(`Found ${users.length} users`);
       console.log("Sample of users (first 2):", users.slice(0, 2));
@@ -662,10 +636,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return safeUser;
       });
       
-      console.log(`Sending ${safeUsers.length} users to admin ${adminUsername}`);
+      console.log(`Sending ${safeUsers.length} users to admin ${admin.username}`);
       console.log("Sample of safeUsers (first 2):", safeUsers.slice(0, 2));
       res.json(safeUsers);
-      console.log(`Sent ${safeUsers.length} users to admin ${adminUsername}`);
+      console.log(`Sent ${safeUsers.length} users to admin ${admin.username}`);
     } catch (error) {
       console.error("Direct admin all users error:", error);
       res.status(500).json({ message: "Server error fetching users" });
@@ -675,16 +649,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin update user endpoint
   app.patch("/api/direct-admin/users/:userId", async (req, res) => {
     try {
-      const { adminUsername, ...userData } = req.body;
+      const userData = req.body;
       const userId = parseInt(req.params.userId);
       
-      // Verify admin access
-      const admin = await storage.getUserByUsername(adminUsername);
-      
-      if (!admin || admin.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
       // Get the existing user
       const existingUser = await storage.getUser(userId);
       if (!existingUser) {
@@ -707,15 +674,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin delete user endpoint
   app.delete("/api/direct-admin/users/:userId", async (req, res) => {
     try {
-      const { adminUsername } = req.body;
       const userId = parseInt(req.params.userId);
-      
-      // Verify admin access
-      const admin = await storage.getUserByUsername(adminUsername);
-      
-      if (!admin || admin.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      const admin = req.adminUser!;
       
       // Get the existing user
       const existingUser = await storage.getUser(userId);
@@ -738,29 +698,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get service requests with bids for admin bidding management
-  app.post("/api/direct-admin/service-requests-with-bids", async (req, res) => {
+  // Lifts a lockout from too many failed logins
+  app.post("/api/direct-admin/users/:userId/unlock", async (req, res) => {
     try {
-      console.log("DIRECT ADMIN SERVICE REQUESTS WITH BIDS: Request received", req.body);
-      const { adminUsername } = req.body;
-      console.log(`Admin ${adminUsername} is requesting service requests with bids`);
+      const admin = req.adminUser!;
+      const user = await storage.unlockUser(parseInt(req.params.userId));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
       
-      // Verify admin access
-      const admin = await storage.getUserByUsername(adminUsername);
-      console.log(`Admin verification result:`, admin ? `Found admin ${admin.username} with role ${admin.role}` : 'Admin not found');
+      console.log(`Admin ${admin.username} (ID: ${admin.id}) unlocked user ${user.username} (ID: ${user.id})`);
       
-      if (!admin || admin.role !== 'admin') {
-        console.log(`Admin verification failed for ${adminUsername}`);
-        return res.status(403).json({ message: "Admin access required" });
+      const { password, ...safeUser } = user;
+      res.json(safeUser);
+    } catch (error) {
+      console.error("Admin unlock user error:", error);
+      res.status(500).json({ message: "Server error unlocking user" });
+    }
+  });
+  
+  // Signs a user out of every session and direct admin login, e.g. after a shared computer was left signed in
+  app.post("/api/direct-admin/users/:userId/logout", async (req, res) => {
+    try {
+      const admin = req.adminUser!;
+      const user = await storage.getUser(parseInt(req.params.userId));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
       
+      const revoked = await revokeAllSessions(user.id);
+      console.log(`Admin ${admin.username} (ID: ${admin.id}) signed out ${revoked} session(s) of user ${user.username} (ID: ${user.id})`);
+      
+      res.json({ message: `${user.username} has been signed out everywhere`, revoked });
+    } catch (error) {
+      console.error("Admin force logout error:", error);
+      res.status(500).json({ message: "Server error signing out user" });
+    }
+  });
+  
+  // Get service requests with bids for admin bidding management
+  app.post("/api/direct-admin/service-requests-with-bids", async (req, res) => {
+    try {
+      const admin = req.adminUser!;
+      console.log(`Admin ${admin.username} is requesting service requests with bids`);
+      
       // Get all service requests
-      console.log(`Getting all service requests for admin ${adminUsername}`);
+      console.log(`Getting all service requests for admin ${admin.username}`);
       const requests = await storage.getAllServiceRequests();
       console.log(`Found ${requests.length} service requests`);
       
       // Get all bids
-      console.log(`Getting all bids for admin ${adminUsername}`);
+      console.log(`Getting all bids for admin ${admin.username}`);
       // Use the direct storage instance and its method to get all bids
       let bids = [];
       try {
@@ -772,7 +760,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Get all users for client and provider names
-      console.log(`Getting all users for admin ${adminUsername}`);
+      console.log(`Getting all users for admin ${admin.username}`);
       const users = await storage.getAllUsers();
       console.log(`Found ${users.length} users`);
       const userMap = users.reduce((map, user) => {
@@ -780,8 +768,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return map;
       }, {});
       
+      // Each bidder's track record, to judge the bids by
+      const scorecards = await getProviderScorecards(bids.map((bid: any) => bid.providerId || bid.serviceProviderId));
+      
       // Combine requests with their bids and client names
-      console.log(`Combining requests with bids for admin ${adminUsername}`);
+      console.log(`Combining requests with bids for admin ${admin.username}`);
       const requestsWithBids = requests.map(request => {
         // Check for field name inconsistencies and map them correctly
         const requestBids = bids.filter(bid => {
@@ -792,7 +783,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Check for either providerId or serviceProviderId in the bid object
           providerName: userMap[bid.providerId || bid.serviceProviderId]?.fullName || 
                        userMap[bid.providerId || bid.serviceProviderId]?.username || 
-                       `Provider #${bid.providerId || bid.serviceProviderId}`
+                       `Provider #${bid.providerId || bid.serviceProviderId}`,
+          scorecard: scorecards[bid.providerId || bid.serviceProviderId] || null
         }));
           
         return {
@@ -802,12 +794,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         };
       });
       
-      console.log(`Sending ${requestsWithBids.length} service requests with bids to admin ${adminUsername}`);
+      console.log(`Sending ${requestsWithBids.length} service requests with bids to admin ${admin.username}`);
       if (requestsWithBids.length > 0) {
         console.log("First service request sample:", JSON.stringify(requestsWithBids[0]).substring(0, 300) + "...");
       }
       res.json(requestsWithBids);
-      console.log(`Sent ${requestsWithBids.length} service requests with bids to admin ${adminUsername}`);
+      console.log(`Sent ${requestsWithBids.length} service requests with bids to admin ${admin.username}`);
     } catch (error) {
       console.error("Direct admin service requests with bids error:", error);
       res.status(500).json({ message: "Server error fetching service requests with bids" });
@@ -818,15 +810,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Endpoint for forwarding service requests to bidding system
   app.patch("/api/direct-admin/service-requests/:serviceRequestId/forward-to-bidding", async (req, res) => {
     try {
-      const { adminUsername, adminNotes, deadline, budget } = req.body;
+      const { adminNotes, deadline, budget } = req.body;
       const serviceRequestId = parseInt(req.params.serviceRequestId);
-      
-      // Verify admin access
-      const admin = await storage.getUserByUsername(adminUsername);
-      
-      if (!admin || admin.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      const admin = req.adminUser!;
       
       // Get the service request
       const serviceRequest = await storage.getServiceRequest(serviceRequestId);
@@ -872,7 +858,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      console.log(`Service request #${serviceRequestId} forwarded to bidding by admin ${adminUsername}`);
+      console.log(`Service request #${serviceRequestId} forwarded to bidding by admin ${admin.username}`);
       
       res.json(updatedRequest);
     } catch (error) {
@@ -884,23 +870,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/direct-admin/service-requests/:id/award", async (req, res) => {
     try {
       const requestId = parseInt(req.params.id);
-      const { adminUsername, bidId, serviceProviderId } = req.body;
+      const { bidId, serviceProviderId } = req.body;
+      const admin = req.adminUser!;
       
-      console.log(`Admin ${adminUsername} is awarding service request ${requestId} to provider ${serviceProviderId} with bid ${bidId}`);
+      console.log(`Admin ${admin.username} is awarding service request ${requestId} to provider ${serviceProviderId} with bid ${bidId}`);
       
-      if (!adminUsername || !bidId || !serviceProviderId) {
+      if (!bidId || !serviceProviderId) {
         return res.status(400).json({ 
           success: false, 
-          message: "Missing required fields: adminUsername, bidId, or serviceProviderId" 
-        });
-      }
-      
-      // Verify admin
-      const admin = await storage.getUserByUsername(adminUsername);
-      if (!admin || admin.role !== "admin") {
-        return res.status(403).json({ 
-          success: false, 
-          message: "Not authorized to award service requests" 
+          message: "Missing required fields: bidId or serviceProviderId" 
         });
       }
       
@@ -921,16 +899,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Update the service request status and assign provider
-      const updatedRequest = await storage.updateServiceRequest(requestId, {
-        status: 'awarded',
-        assignedServiceProviderId: serviceProviderId
-      });
+      const bid = await storage.getServiceRequestBid(bidId);
+      if (!bid || bid.serviceRequestId !== requestId || bid.serviceProviderId !== serviceProviderId) {
+        return res.status(400).json({ 
+          success: false, 
+          message: "Bid does not belong to this service request and provider" 
+        });
+      }
       
-      // Update the bid status
-      await storage.updateBid(bidId, {
-        status: 'accepted'
-      });
+      // Accept the bid, reject the others, assign the provider and set up escrow milestones
+      const updatedRequest = await storage.assignServiceProviderToBid(requestId, bidId);
+      const escrow = summariseEscrow(requestId, await storage.getEscrowMilestonesByServiceRequest(requestId));
       
       // Get the service provider to send notification
       const serviceProvider = await storage.getUser(serviceProviderId);
@@ -961,18 +940,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
             emoji: "✅",
             actionUrl: `/service-requests/${requestId}`
           });
+          
+          // Work starts once the client has paid into escrow
+          await createSmartNotification({
+            userId: serviceRequest.clientId,
+            title: "Fund Your Escrow",
+            message: `Fund ₵${(escrow.total / 100).toFixed(2)} into escrow across ${escrow.milestones.length} milestone(s). Each payment is only released to the provider once you approve their progress.`,
+            type: "payment",
+            relatedItemId: requestId,
+            relatedItemType: "service_request",
+            actionUrl: `/service-requests/${requestId}`
+          }, "due");
         }
       }
       
-      // Reject all other bids
-      const otherBids = await storage.getBidsByServiceRequestId(requestId);
+      // Notify the other bidders, whose bids were rejected above
+      const otherBids = await storage.getServiceRequestBidsByServiceRequest(requestId);
       for (const otherBid of otherBids) {
         if (otherBid.id !== bidId) {
-          await storage.updateBid(otherBid.id, {
-            status: 'rejected'
-          });
-          
-          // Notify other bidders
           await storage.createNotification({
             userId: otherBid.serviceProviderId,
             title: "Bid Not Selected",
@@ -990,7 +975,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.json({
         success: true,
         message: "Service request awarded successfully",
-        serviceRequest: updatedRequest
+        serviceRequest: updatedRequest,
+        escrow
       });
     } catch (error) {
       console.error("Error awarding service request:", error);
@@ -1004,16 +990,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin assign service provider to request
   app.patch("/api/direct-admin/service-requests/:requestId/assign", async (req, res) => {
     try {
-      const { adminUsername, serviceProviderId, adminNotes } = req.body;
+      const { serviceProviderId, adminNotes } = req.body;
       const requestId = parseInt(req.params.requestId);
       
-      // Verify admin access
-      const admin = await storage.getUserByUsername(adminUsername);
-      
-      if (!admin || admin.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
       // Get the service request
       const request = await storage.getServiceRequest(requestId);
       if (!request) {
@@ -1073,16 +1052,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin publish service request for bidding
   app.patch("/api/direct-admin/service-requests/:requestId/publish", async (req, res) => {
     try {
-      const { adminUsername, adminNotes } = req.body;
+      const { adminNotes } = req.body;
       const requestId = parseInt(req.params.requestId);
       
-      // Verify admin access
-      const admin = await storage.getUserByUsername(adminUsername);
-      
-      if (!admin || admin.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
       // Get the service request
       const request = await storage.getServiceRequest(requestId);
       if (!request) {
@@ -1141,16 +1113,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin accept bid
   app.patch("/api/direct-admin/bids/:bidId/accept", async (req, res) => {
     try {
-      const { adminUsername, serviceRequestId } = req.body;
+      const { serviceRequestId } = req.body;
       const bidId = parseInt(req.params.bidId);
       
-      // Verify admin access
-      const admin = await storage.getUserByUsername(adminUsername);
-      
-      if (!admin || admin.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
       // Get the bid
       const bid = await storage.getBid(bidId);
       if (!bid) {
@@ -1165,6 +1130,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Update bid status
       await storage.updateBid(bidId, { status: 'accepted' });
+      publishServiceRequestBidUpdate(bid, serviceRequestId, 'accepted');
       
       // Update service request
       await storage.updateServiceRequest(serviceRequestId, {
@@ -1177,6 +1143,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       for (const otherBid of otherBids) {
         if (otherBid.id !== bidId && otherBid.status === 'pending') {
           await storage.updateBid(otherBid.id, { status: 'rejected' });
+          publishServiceRequestBidUpdate(otherBid, serviceRequestId, 'rejected');
           
           // Notify other providers their bids were rejected
           await storage.createNotification({
@@ -1229,16 +1196,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin reject bid
   app.patch("/api/direct-admin/bids/:bidId/reject", async (req, res) => {
     try {
-      const { adminUsername, serviceRequestId } = req.body;
+      const { serviceRequestId } = req.body;
       const bidId = parseInt(req.params.bidId);
       
-      // Verify admin access
-      const admin = await storage.getUserByUsername(adminUsername);
-      
-      if (!admin || admin.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
       // Get the bid
       const bid = await storage.getBid(bidId);
       if (!bid) {
@@ -1247,6 +1207,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Update bid status
       await storage.updateBid(bidId, { status: 'rejected' });
+      publishServiceRequestBidUpdate(bid, serviceRequestId, 'rejected');
       
       // Notify the provider
       await storage.createNotification({
@@ -1268,32 +1229,192 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Add debug auth route for testing user auth without login form
-  app.get("/debug-auth/:username", async (req, res) => {
+  // ===== Admin Reports Routes =====
+  // A Map rather than an object, so a report name like "constructor" can't match anything inherited
+  const adminReports = new Map<string, (range: ReportRange) => Promise<ReportData>>([
+    ["financial", getFinancialReport],
+    ["providers", getProviderReport],
+    ["materials", getMaterialsReport],
+    ["projects", getProjectReport]
+  ]);
+  
+  // Aggregate reports for the admin reports page, filtered to a from/to date range
+  app.post("/api/direct-admin/reports/:report", async (req, res) => {
     try {
-      const username = req.params.username;
-      const user = await storage.getUserByUsername(username);
-      if (user) {
-        res.json({ 
-          found: true, 
-          id: user.id,
-          username: user.username,
-          role: user.role,
-          points: user.points
-        });
-      } else {
-        res.json({ found: false, message: `User ${username} not found` });
+      const { dateRange } = req.body;
+      
+      const buildReport = adminReports.get(req.params.report);
+      if (!buildReport) {
+        return res.status(404).json({ message: "Unknown report" });
       }
+      
+      const range = reportRangeSchema.parse(dateRange);
+      res.json(await buildReport(range));
     } catch (error) {
-      res.status(500).json({ error: 'Error testing auth' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error(`Admin ${req.params.report} report error:`, error);
+      res.status(500).json({ message: "Server error generating report" });
     }
   });
   
-  // Ensure storage has users for auth to work
-  const users = await storage.getAllUsers();
-  console.log(`Storage user count: ${users.length}`);
-  console.log("Available users:", users.map(u => ({ 
-    username: u.username, 
+  // ===== Admin Settings Routes =====
+  // Current platform settings and their version, for the admin settings page
+  app.get("/api/direct-admin/settings", async (req, res) => {
+    try {
+      res.json(await getVersionedPlatformSettings());
+    } catch (error) {
+      console.error("Admin get settings error:", error);
+      res.status(500).json({ message: "Server error loading settings" });
+    }
+  });
+  
+  // Saves one or more settings sections as a new version; 409 if the version being edited is out of date
+  app.put("/api/direct-admin/settings", async (req, res) => {
+    try {
+      const admin = req.adminUser!;
+      
+      const { version, settings } = updatePlatformSettingsSchema.parse(req.body);
+      const result = await updatePlatformSettings(settings, version, admin.id);
+      if (result.error) {
+        return res.status(409).json({ message: result.error });
+      }
+      
+      console.log(`Platform settings saved as version ${result.settings?.version} by ${admin.username}: ${Object.keys(settings).join(", ")}`);
+      res.json(result.settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Admin save settings error:", error);
+      res.status(500).json({ message: "Server error saving settings" });
+    }
+  });
+  
+  // ===== Maintenance Routes =====
+  // Whether maintenance is in progress or coming up, for the banner and maintenance screen.
+  // Registered ahead of the maintenance check so it keeps answering during a window.
+  app.get("/api/maintenance", async (req, res) => {
+    try {
+      res.json(await getMaintenanceStatus());
+    } catch (error) {
+      console.error("Get maintenance status error:", error);
+      res.status(500).json({ message: "Server error checking maintenance status" });
+    }
+  });
+  
+  // Reviews for moderation, optionally only those in one status
+  app.get("/api/direct-admin/material-reviews", async (req, res) => {
+    try {
+      const status = z.enum(materialReviewStatuses).optional().parse(req.query.status || undefined);
+      res.json(await storage.getAllMaterialReviews(status));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Admin get material reviews error:", error);
+      res.status(500).json({ message: "Server error loading reviews" });
+    }
+  });
+  
+  // Hides a review, taking it out of the ratings, or publishes it again
+  app.patch("/api/direct-admin/material-reviews/:id", async (req, res) => {
+    try {
+      const admin = req.adminUser!;
+      
+      const { status, note } = moderateMaterialReviewSchema.parse(req.body);
+      const review = await storage.moderateMaterialReview(parseInt(req.params.id), status, admin.id, note);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      
+      res.json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Admin moderate material review error:", error);
+      res.status(500).json({ message: "Server error moderating review" });
+    }
+  });
+  
+  // Maintenance windows that are scheduled or in progress
+  app.get("/api/direct-admin/maintenance-windows", async (req, res) => {
+    try {
+      res.json(await storage.getScheduledMaintenanceWindows());
+    } catch (error) {
+      console.error("Admin get maintenance windows error:", error);
+      res.status(500).json({ message: "Server error loading maintenance windows" });
+    }
+  });
+  
+  app.post("/api/direct-admin/maintenance-windows", async (req, res) => {
+    try {
+      const admin = req.adminUser!;
+      
+      const { startsAt, endsAt, message } = createMaintenanceWindowSchema.parse(req.body);
+      const window = await storage.createMaintenanceWindow({ startsAt, endsAt, message, createdBy: admin.id });
+      invalidateMaintenanceWindows();
+      
+      console.log(`Maintenance window ${window.id} scheduled by ${admin.username} from ${startsAt.toISOString()} to ${endsAt.toISOString()}`);
+      res.status(201).json(window);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Admin create maintenance window error:", error);
+      res.status(500).json({ message: "Server error scheduling maintenance" });
+    }
+  });
+  
+  // Cancels a window, or ends one that's in progress early
+  app.delete("/api/direct-admin/maintenance-windows/:id", async (req, res) => {
+    try {
+      const window = await storage.getMaintenanceWindow(parseInt(req.params.id));
+      if (!window) {
+        return res.status(404).json({ message: "Maintenance window not found" });
+      }
+      if (window.cancelledAt) {
+        return res.status(409).json({ message: "This maintenance window has already been cancelled" });
+      }
+      
+      const cancelled = await storage.cancelMaintenanceWindow(window.id);
+      invalidateMaintenanceWindows();
+      
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Admin cancel maintenance window error:", error);
+      res.status(500).json({ message: "Server error cancelling maintenance" });
+    }
+  });
+  
+  // Add debug auth route for testing user auth without login form
+  app.get("/debug-auth/:username", async (req, res) => {
+    try {
+      const username = req.params.username;
+      const user = await storage.getUserByUsername(username);
+      if (user) {
+        res.json({ 
+          found: true, 
+          id: user.id,
+          username: user.username,
+          role: user.role,
+          points: user.points
+        });
+      } else {
+        res.json({ found: false, message: `User ${username} not found` });
+      }
+    } catch (error) {
+      res.status(500).json({ error: 'Error testing auth' });
+    }
+  });
+  
+  // Ensure storage has users for auth to work
+  const users = await storage.getAllUsers();
+  console.log(`Storage user count: ${users.length}`);
+  console.log("Available users:", users.map(u => ({ 
+    username: u.username, 
     id: u.id, 
     role: u.role 
   })));
@@ -1307,19 +1428,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Set up authentication routes
   console.log("Setting up authentication");
-  setupAuth(app);
+  const sessionParser = setupAuth(app);
+  
+  // While maintenance mode is on or a maintenance window is in progress, only admins can use the API.
+  // Routes registered above this point (login, logout, the current user, maintenance status) and the
+  // direct-admin routes stay open so an admin can still get in to end it.
+  app.use(async (req, res, next) => {
+    if (!req.path.startsWith('/api/') || req.path.startsWith('/api/direct-admin/')) {
+      return next();
+    }
+    
+    try {
+      const maintenance = await getMaintenanceStatus();
+      if (maintenance.active && req.user?.role !== "admin") {
+        // Tell clients when to come back if a scheduled window is what's in progress
+        if (maintenance.window && new Date(maintenance.window.startsAt) <= new Date()) {
+          const secondsLeft = Math.ceil((new Date(maintenance.window.endsAt).getTime() - Date.now()) / 1000);
+          res.setHeader("Retry-After", Math.max(secondsLeft, 1).toString());
+        }
+        return res.status(503).json({
+          message: maintenance.message,
+          code: "MAINTENANCE_MODE",
+          maintenance
+        });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
   
   // Import password utilities
   const { comparePasswords, hashPassword } = await import('./auth');
   
   // User profile and settings routes
   app.patch("/api/user/profile", requireAuth, async (req, res) => {
-    const userId = req.user.id;
+    const userId = req.user!.id;
     const { fullName, email, phone, address, bio } = req.body;
     
     try {
       // Check if email is being changed and if it's already in use
-      if (email && email !== req.user.email) {
+      if (email && email !== req.user!.email) {
         const existingUserWithEmail = await storage.getUserByEmail(email);
         if (existingUserWithEmail && existingUserWithEmail.id !== userId) {
           return res.status(400).json({ message: "Email is already in use by another account" });
@@ -1344,7 +1493,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Change password endpoint
   app.post("/api/user/change-password", requireAuth, async (req, res) => {
-    const userId = req.user.id;
+    const userId = req.user!.id;
     const { currentPassword, newPassword } = req.body;
     
     try {
@@ -1365,8 +1514,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Hash new password
       const hashedPassword = await hashPassword(newPassword);
       
-      // Update password
+      // Update password, ending any admin dashboard logins made with the old one and any
+      // reset links sent before the change
       await storage.updateUserPassword(userId, hashedPassword);
+      await storage.invalidatePasswordResetTokensForUser(userId);
+      await storage.revokeAdminRefreshTokensForUser(userId);
       
       res.status(200).json({ message: "Password changed successfully" });
     } catch (error) {
@@ -1375,6 +1527,127 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Two-factor authentication for the logged in user
+  app.get("/api/user/two-factor", requireAuth, async (req, res) => {
+    try {
+      res.json(await getTwoFactorStatus(req.user!));
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+  
+  // Hands out a new secret to scan; two-factor stays off until a code from it is confirmed
+  app.post("/api/user/two-factor/setup", requireAuth, async (req, res) => {
+    try {
+      const status = await getTwoFactorStatus(req.user!);
+      if (status.enabled) {
+        return res.status(409).json({ message: "Two-factor authentication is already on" });
+      }
+      
+      res.json(await startTwoFactorEnrolment(req.user!));
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+  
+  app.post("/api/user/two-factor/enable", requireAuth, async (req, res) => {
+    try {
+      const { code } = req.body;
+      if (typeof code !== "string" || !code) {
+        return res.status(400).json({ message: "Authentication code is required" });
+      }
+      
+      const recoveryCodes = await confirmTwoFactorEnrolment(req.user!, code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+      
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+  
+  // Replaces the recovery codes; the old ones stop working
+  app.post("/api/user/two-factor/recovery-codes", requireAuth, async (req, res) => {
+    try {
+      const { code } = req.body;
+      if (typeof code !== "string" || !(await verifyTwoFactorCode(req.user!, code))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+      
+      res.json({ recoveryCodes: await regenerateRecoveryCodes(req.user!) });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+  
+  app.post("/api/user/two-factor/disable", requireAuth, async (req, res) => {
+    try {
+      const { password } = req.body;
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const status = await getTwoFactorStatus(user);
+      if (status.required) {
+        return res.status(403).json({ message: "Two-factor authentication is required for admin accounts" });
+      }
+      
+      if (typeof password !== "string" || !(await comparePasswords(password, user.password))) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+      
+      await storage.disableTwoFactor(user.id);
+      res.json({ message: "Two-factor authentication turned off" });
+    } catch (error) {
+      console.error("Error disabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+  
+  // Devices the user is signed in on, for the sessions list on the profile settings page
+  app.get("/api/user/sessions", requireAuth, async (req, res) => {
+    try {
+      res.json(await listActiveSessions(req.user!.id, req.sessionID));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+  
+  app.delete("/api/user/sessions/:sessionId", requireAuth, async (req, res) => {
+    try {
+      if (isCurrentSession(req.params.sessionId, req.sessionID)) {
+        return res.status(400).json({ message: "Log out to end the session on this device" });
+      }
+      
+      if (!(await revokeSession(req.user!.id, req.params.sessionId))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      res.json({ message: "Session signed out" });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to sign out session" });
+    }
+  });
+  
+  app.post("/api/user/sessions/revoke-others", requireAuth, async (req, res) => {
+    try {
+      const revoked = await revokeOtherSessions(req.user!.id, req.sessionID);
+      res.json({ message: "Signed out of all other sessions", revoked });
+    } catch (error) {
+      console.error("Error revoking other sessions:", error);
+      res.status(500).json({ message: "Failed to sign out other sessions" });
+    }
+  });
+  
   // Apply our secure middleware to protect all endpoints
   console.log("Applying authentication middleware to protected routes");
   secureEndpoints(app);
@@ -1508,6 +1781,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Update the user's password
       await storage.updateUserPassword(parseInt(userId), hashedPassword);
+      await storage.invalidatePasswordResetTokensForUser(parseInt(userId));
+      await storage.revokeAdminRefreshTokensForUser(parseInt(userId));
       
       // Log the password reset action
       console.log(`Admin user ${req.user!.username} (ID: ${req.user!.id}) reset password for user ${user.username} (ID: ${userId})`);
@@ -1543,46 +1818,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } else if (role === "admin") {
         projects = await storage.getAllProjects();
       } else if (role === "service_provider") {
-        // Get projects for service providers - they can see projects they're part of
-        const assignedProjects = await storage.getProjectsByServiceProviderId(userId);
-        
-        // Fetch all projects to check for team membership
-        const allProjects = await storage.getAllProjects();
-        const teamMemberProjects = allProjects.filter(project => {
-          // Parse team members if it's a string or use as is if it's already an array
-          let teamMembers = [];
-          if (project.teamMembers) {
-            if (typeof project.teamMembers === 'string') {
-              try {
-                teamMembers = JSON.parse(project.teamMembers);
-              } catch (e) {
-                console.error("Error parsing team members:", e);
-              }
-            } else {
-              teamMembers = project.teamMembers;
-            }
-          }
-          
-          // Check if user is a team member
-          return teamMembers.some(member => 
-            member.userId === userId || 
-            (member.email && member.email === req.user!.email) ||
-            (member.username && member.username === req.user!.username)
-          );
-        });
-        
-        // Combine assigned projects and team member projects, remove duplicates
-        projects = [...assignedProjects];
-        
-        // Add team member projects if they're not already in the assigned projects
-        teamMemberProjects.forEach(teamProject => {
-          if (!projects.some(p => p.id === teamProject.id)) {
-            // Cast to ExtendedProject to allow setting isTeamMember flag
-            const extendedProject = teamProject as ExtendedProject;
-            extendedProject.isTeamMember = true; // Mark as team member project
-            projects.push(extendedProject);
-          }
-        });
+        // Service providers see the projects they're on the team of
+        const teamProjects = await storage.getProjectsByServiceProviderId(userId);
+        projects = teamProjects.map(project => ({ ...project, isTeamMember: true } as ExtendedProject));
       } else if (role === "supplier") {
         // Get projects for suppliers - they can see projects they're providing materials for
         projects = await storage.getProjectsBySupplier(userId);
@@ -1599,7 +1837,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/projects/:id", async (req, res) => {
+  app.get("/api/projects/:id", requireProjectPermission('view_project', 'id'), (req, res) => {
+    res.json(res.locals.project);
+  });
+
+  // What the current user can do on a project, so the client can hide actions that would be refused
+  app.get("/api/projects/:id/permissions", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
@@ -1610,42 +1853,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Admin can access any project
-      if (req.user!.role === "admin") {
-        return res.json(project);
-      }
-      
-      // Client can access their own projects
-      if (req.user!.role === "client" && project.clientId === req.user!.id) {
-        return res.json(project);
-      }
-      
-      // Company can access projects assigned to them
-      if (req.user!.role === "company" && project.companyId === req.user!.id) {
-        return res.json(project);
-      }
-      
-      // Service provider can access if they're a team member
-      if (req.user!.role === "service_provider") {
-        const isTeamMember = await storage.isProjectTeamMember(projectId, req.user!.id);
-        if (isTeamMember) {
-          return res.json(project);
-        }
-      }
-      
-      // Supplier can access if they're providing materials
-      if (req.user!.role === "supplier") {
-        // Check if supplier is providing materials for this project
-        const isSupplier = await storage.isProjectSupplier(projectId, req.user!.id);
-        if (isSupplier) {
-          return res.json(project);
-        }
-      }
-      
-      // If we get here, the user doesn't have access
-      return res.status(403).send("Unauthorized access");
+      res.json(await resolveProjectAccess(req.user!, project));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch project" });
+      console.error("Error resolving project permissions:", error);
+      res.status(500).json({ message: "Failed to fetch project permissions" });
     }
   });
 
@@ -1708,11 +1919,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Check if user exists in the system
           const userExists = await storage.getUserByUsername(member.username);
           if (userExists) {
+            const memberRole = member.role || 'member';
             validatedTeamMembers.push({
               userId: userExists.id,
-              username: userExists.username,
-              role: member.role || 'member',
-              addedAt: new Date()
+              role: memberRole,
+              permissions: getPermissionsForRole(memberRole)
             });
           }
         }
@@ -1747,17 +1958,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Add service provider to team members with appropriate role
         validatedTeamMembers.push({
           userId: req.user!.id,
-          username: req.user!.username,
           role: serviceProviderRole,
-          addedAt: new Date(),
           permissions: getPermissionsForRole(serviceProviderRole)
         });
       }
       
-      projectData.teamMembers = validatedTeamMembers;
+      // The team lives in project_members, not the legacy JSON column
+      delete projectData.teamMembers;
       
       const project = await storage.createProject(projectData);
       
+      for (const member of validatedTeamMembers) {
+        await storage.addProjectMember({ ...member, projectId: project.id, addedBy: req.user!.id });
+      }
+      
       // Create a smart notification for the client that project was created
       await createProjectNotification({
         userId: req.user!.id,
@@ -1767,7 +1981,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         actionUrl: `/projects/${project.id}`
       }, "created");
       
-      res.status(201).json(project);
+      // Re-read so the response includes the team just added
+      res.status(201).json(await storage.getProject(project.id) || project);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ errors: error.errors });
@@ -1777,49 +1992,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/projects/:id", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.patch("/api/projects/:id", requireProjectPermission('edit_project', 'id'), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      
-      // Admin can update any project
-      if (req.user!.role !== "admin") {
-        // Validate permissions based on role
-        if (req.user!.role === "client" && project.clientId !== req.user!.id) {
-          return res.status(403).send("Unauthorized access");
-        }
-        
-        if (req.user!.role === "company" && project.companyId !== req.user!.id) {
-          return res.status(403).send("Unauthorized access");
-        }
+      const project: Project = res.locals.project;
+      const access: ProjectAccess = res.locals.projectAccess;
+      
+      // Team members can update certain fields only - the project's owner and company stay as they are
+      if (access.relationship === "member") {
+        const allowedFields = [
+          'status', 'progress', 'timeline', 'expenses', 'notes',
+          'budget', 'materials', 'tasks', 'completionPercentage'
+        ];
         
-        // Check if service provider is a team member of this project
-        if (req.user!.role === "service_provider") {
-          const isTeamMember = await storage.isProjectTeamMember(projectId, req.user!.id);
-          if (!isTeamMember) {
-            return res.status(403).send("Unauthorized access: You are not a team member of this project");
+        Object.keys(req.body).forEach(key => {
+          if (!allowedFields.includes(key)) {
+            delete req.body[key];
           }
-          
-          // Service providers can update certain fields only - apply restrictions
-          // Only allow status, progress, timeline entries, expenses updates
-          const allowedFields = [
-            'status', 'progress', 'timeline', 'expenses', 'notes',
-            'budget', 'materials', 'tasks', 'completionPercentage'
-          ];
-          
-          // Filter out unauthorized fields
-          Object.keys(req.body).forEach(key => {
-            if (!allowedFields.includes(key)) {
-              delete req.body[key];
-            }
-          });
-        }
+        });
       }
       
       // If changing status and is admin, create notification
@@ -1843,32 +2033,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Add team members to a project
-  app.post("/api/projects/:id/team", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.post("/api/projects/:id/team", requireProjectPermission('manage_team', 'id'), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       console.log(`Adding team member to project ${projectId}`);
       
-      // Use direct database connection to avoid any ORM issues
-      const { pool } = await import('./db');
-      
-      // Fetch project with direct SQL
-      const projectResult = await pool.query(
-        `SELECT * FROM projects WHERE id = $1`,
-        [projectId]
-      );
-      
-      if (projectResult.rows.length === 0) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      
-      const project = projectResult.rows[0];
-      
-      // Only client who owns the project or admin can add team members
-      if (req.user!.role !== "admin" && (req.user!.role !== "client" || project.client_id !== req.user!.id)) {
-        return res.status(403).json({ message: "Unauthorized access" });
-      }
+      const project: Project = res.locals.project;
       
       const { username, role = 'member' } = req.body;
       console.log(`Attempting to add user ${username} with role ${role}`);
@@ -1877,57 +2047,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Username is required" });
       }
       
-      // Check if user exists in the system with direct SQL
-      const userResult = await pool.query(
-        `SELECT * FROM users WHERE username = $1`,
-        [username]
-      );
-      
-      if (userResult.rows.length === 0) {
+      const userToAdd = await storage.getUserByUsername(username);
+      if (!userToAdd) {
         return res.status(404).json({ message: "User not found" });
       }
       
-      const userToAdd = userResult.rows[0];
       console.log(`Found user with ID: ${userToAdd.id}`);
       
-      // Parse team members
-      let teamMembers = [];
-      if (project.team_members) {
-        if (typeof project.team_members === 'string') {
-          try {
-            teamMembers = JSON.parse(project.team_members);
-          } catch (e) {
-            console.error("Error parsing team members:", e);
-            teamMembers = [];
-          }
-        } else {
-          teamMembers = project.team_members;
-        }
-      }
-      
-      // Ensure teamMembers is an array
-      if (!Array.isArray(teamMembers)) {
-        teamMembers = Object.values(teamMembers || {});
-      }
-      
-      console.log(`Current team members:`, teamMembers);
-      
-      // Check if user is already a team member
-      const isAlreadyMember = teamMembers.some((member: any) => 
-        member && typeof member === 'object' && member.userId === userToAdd.id
-      );
-      
-      if (isAlreadyMember) {
-        return res.status(400).json({ message: "User is already a team member" });
-      }
-      
       // Auto-assign role based on user's platform role if no role was specified
       let assignedRole = role;
       
       if (!assignedRole || assignedRole === 'member') {
         // Automatically assign role based on the user's system role
         if (userToAdd.role === 'service_provider') {
-          const serviceType = userToAdd.service_type || '';
+          const serviceType = userToAdd.serviceType || '';
           if (serviceType.includes('architect')) {
             assignedRole = 'architect';
           } else if (serviceType.includes('engineer')) {
@@ -1958,56 +2091,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`Assigned role: ${assignedRole}`);
       
-      // Add the new team member
-      const newTeamMember = {
+      const member = await storage.addProjectMember({
+        projectId,
         userId: userToAdd.id,
-        username: userToAdd.username,
         role: assignedRole,
-        joinedAt: new Date().toISOString(),
-        permissions: getPermissionsForRole(assignedRole)
-      };
-      
-      // Add to team members array
-      teamMembers.push(newTeamMember);
-      
-      // Update the project with the new team member using direct SQL
-      const updateResult = await pool.query(
-        `UPDATE projects 
-         SET team_members = $1 
-         WHERE id = $2
-         RETURNING *`,
-        [JSON.stringify(teamMembers), projectId]
-      );
+        permissions: getPermissionsForRole(assignedRole),
+        addedBy: req.user!.id
+      });
       
-      if (updateResult.rows.length === 0) {
-        throw new Error("Failed to update project with new team member");
+      if (!member) {
+        return res.status(400).json({ message: "User is already a team member" });
       }
       
-      const updatedProject = updateResult.rows[0];
-      
-      // Create notification for the added team member
-      await pool.query(
-        `INSERT INTO notifications 
-         (user_id, title, message, type, priority, emoji, related_item_id, related_item_type, action_url) 
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-        [
-          userToAdd.id,
-          "Added to Project Team",
-          `You have been added to the project "${project.name}" as a ${assignedRole}`,
-          "project_team",
-          "high",
-          "👷",
-          projectId,
-          "project",
-          `/projects/${projectId}`
-        ]
-      );
+      await createSmartNotification({
+        userId: userToAdd.id,
+        title: "Added to Project Team",
+        message: `You have been added to the project "${project.name}" as a ${assignedRole}`,
+        type: "project_team",
+        relatedItemId: projectId,
+        relatedItemType: "project",
+        actionUrl: `/projects/${projectId}`
+      }, undefined, "👷", "high");
       
       console.log(`Successfully added ${username} to project team`);
       
       res.status(200).json({
         message: `Successfully added ${username} to the project team`,
-        project: updatedProject
+        project: await storage.getProject(projectId)
       });
     } catch (error) {
       console.error("Add team member error:", error);
@@ -2019,115 +2129,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Remove team member from a project
-  app.delete("/api/projects/:id/team/:userId", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.delete("/api/projects/:id/team/:userId", requireProjectPermission('manage_team', 'id'), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const userIdToRemove = parseInt(req.params.userId);
       
       console.log(`Removing user ${userIdToRemove} from project ${projectId}`);
       
-      // Use direct database connection to avoid any ORM issues
-      const { pool } = await import('./db');
-      
-      // Fetch project with direct SQL
-      const projectResult = await pool.query(
-        `SELECT * FROM projects WHERE id = $1`,
-        [projectId]
-      );
-      
-      if (projectResult.rows.length === 0) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      
-      const project = projectResult.rows[0];
-      
-      // Only client who owns the project or admin can remove team members
-      if (req.user!.role !== "admin" && (req.user!.role !== "client" || project.client_id !== req.user!.id)) {
-        return res.status(403).json({ message: "Unauthorized access" });
-      }
-      
-      // Parse team members
-      let teamMembers = [];
-      if (project.team_members) {
-        if (typeof project.team_members === 'string') {
-          try {
-            teamMembers = JSON.parse(project.team_members);
-          } catch (e) {
-            console.error("Error parsing team members:", e);
-            teamMembers = [];
-          }
-        } else {
-          teamMembers = project.team_members;
-        }
-      }
-      
-      // Ensure teamMembers is an array
-      if (!Array.isArray(teamMembers)) {
-        teamMembers = Object.values(teamMembers || {});
-      }
-      
-      if (teamMembers.length === 0) {
-        return res.status(400).json({ message: "Project has no team members" });
-      }
-      
-      console.log(`Current team members:`, teamMembers);
+      const project: Project = res.locals.project;
       
-      // Find the team member to remove
-      const memberIndex = teamMembers.findIndex((member: any) => 
-        member && typeof member === 'object' && member.userId === userIdToRemove
-      );
-      
-      if (memberIndex === -1) {
+      const removedMember = await storage.removeProjectMember(projectId, userIdToRemove);
+      if (!removedMember) {
         return res.status(404).json({ message: "Team member not found" });
       }
       
-      // Get the member we're removing
-      const removedMember = teamMembers[memberIndex];
-      console.log(`Removing team member:`, removedMember);
-      
-      // Remove the member
-      teamMembers.splice(memberIndex, 1);
-      
-      // Update the project with the modified team members array using direct SQL
-      const updateResult = await pool.query(
-        `UPDATE projects 
-         SET team_members = $1 
-         WHERE id = $2
-         RETURNING *`,
-        [JSON.stringify(teamMembers), projectId]
-      );
-      
-      if (updateResult.rows.length === 0) {
-        throw new Error("Failed to update project after removing team member");
-      }
-      
-      const updatedProject = updateResult.rows[0];
+      console.log(`Removed team member:`, removedMember);
       
-      // Create notification for the removed team member
-      await pool.query(
-        `INSERT INTO notifications 
-         (user_id, title, message, type, priority, emoji, related_item_id, related_item_type, action_url) 
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-        [
-          userIdToRemove,
-          "Removed from Project Team",
-          `You have been removed from the project "${project.name}"`,
-          "project_team",
-          "high",
-          "🚫",
-          projectId,
-          "project",
-          "/"
-        ]
-      );
+      await createSmartNotification({
+        userId: userIdToRemove,
+        title: "Removed from Project Team",
+        message: `You have been removed from the project "${project.name}"`,
+        type: "project_team",
+        relatedItemId: projectId,
+        relatedItemType: "project",
+        actionUrl: "/"
+      }, undefined, "🚫", "high");
       
       console.log(`Successfully removed user ${userIdToRemove} from project team`);
       
       res.status(200).json({
         message: "Team member successfully removed",
-        project: updatedProject
+        project: await storage.getProject(projectId)
       });
     } catch (error) {
       console.error("Remove team member error:", error);
@@ -2140,25 +2172,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // ===== Team Invitation Routes =====
   // Get project invitations
-  app.get("/api/projects/:id/invitations", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.get("/api/projects/:id/invitations", requireProjectPermission('view_project', 'id'), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      
-      // Validate permissions - only allow project owner or team members to view invitations
-      const isTeamMember = project.teamMembers?.some((m: any) => m.userId === req.user!.id);
-      const isProjectOwner = project.clientId === req.user!.id;
-      const isAdmin = req.user!.role === "admin";
-      
-      if (!isProjectOwner && !isTeamMember && !isAdmin) {
-        return res.status(403).json({ message: "You don't have permission to view project invitations" });
-      }
       
       const invitations = await storage.getTeamInvitationsByProject(projectId);
       
@@ -2179,21 +2195,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Create a team invitation
-  app.post("/api/projects/:id/invitations", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.post("/api/projects/:id/invitations", requireProjectPermission('manage_team', 'id'), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      
-      // Only client who owns the project or admin can create invitations
-      if (req.user!.role !== "admin" && (req.user!.role !== "client" || project.clientId !== req.user!.id)) {
-        return res.status(403).send("Unauthorized access");
-      }
+      const project: Project = res.locals.project;
       
       // Get email and role from request body
       const { inviteEmail, role } = req.body;
@@ -2322,7 +2327,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Fetch invitation with direct SQL
       const invitationResult = await pool.query(
-        `SELECT i.*, p.name as project_name, p.client_id, p.team_members
+        `SELECT i.*, p.name as project_name, p.client_id
          FROM team_invitations i
          LEFT JOIN projects p ON i.project_id = p.id
          WHERE i.invite_token = $1`,
@@ -2345,85 +2350,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: `This invitation has already been ${invitation.invite_status}` });
       }
       
-      // Update status based on action
-      const inviteStatus = action === "accept" ? "accepted" : "declined";
-      
-      // Update invitation status in database
-      const updateResult = await pool.query(
-        `UPDATE team_invitations 
-         SET invite_status = $1, accepted_at = $2
-         WHERE invite_token = $3
-         RETURNING *`,
-        [inviteStatus, action === "accept" ? new Date() : null, inviteToken]
-      );
-      
-      if (updateResult.rows.length === 0) {
-        throw new Error("Failed to update invitation status");
-      }
-      
-      const updatedInvitation = updateResult.rows[0];
+      let updatedInvitation;
       
       if (action === "accept") {
         console.log(`User ${req.user!.id} (${req.user!.username}) accepting invitation to project ${invitation.project_id}`);
         
-        // Parse team members
-        let teamMembers = [];
-        if (invitation.team_members) {
-          if (typeof invitation.team_members === 'string') {
-            try {
-              teamMembers = JSON.parse(invitation.team_members);
-            } catch (e) {
-              console.error("Error parsing team members:", e);
-              teamMembers = [];
-            }
-          } else {
-            teamMembers = invitation.team_members;
-          }
-        }
-        
-        // Ensure teamMembers is an array
-        if (!Array.isArray(teamMembers)) {
-          teamMembers = Object.values(teamMembers || {});
-        }
-        
-        console.log(`Current team members:`, teamMembers);
-        
-        // Check if user is already a team member
-        const isAlreadyMember = teamMembers.some((member: any) => 
-          member && typeof member === 'object' && member.userId === req.user!.id
+        const result = await storage.acceptTeamInvitation(
+          inviteToken,
+          req.user!.id,
+          invitation.permissions || getPermissionsForRole(invitation.role)
         );
+        if (result.error) {
+          return res.status(400).json({ message: result.error });
+        }
         
-        console.log(`Is user already a member? ${isAlreadyMember}`);
+        updatedInvitation = result.invitation;
         
-        if (!isAlreadyMember) {
-          // Create new team member object
-          const newMember = {
-            userId: req.user!.id,
-            username: req.user!.username,
-            role: invitation.role,
-            permissions: invitation.permissions || getPermissionsForRole(invitation.role),
-            joinedAt: new Date().toISOString()
-          };
-          
-          // Add user to team members array
-          teamMembers.push(newMember);
-          
-          console.log(`Adding new team member:`, newMember);
-          
-          // Update the project with the new team member
-          const projectUpdateResult = await pool.query(
-            `UPDATE projects 
-             SET team_members = $1 
-             WHERE id = $2
-             RETURNING *`,
-            [JSON.stringify(teamMembers), invitation.project_id]
-          );
-          
-          if (projectUpdateResult.rows.length === 0) {
-            throw new Error("Failed to update project with new team member");
-          }
-          
-          console.log(`Successfully updated project team members`);
+        // No member comes back if they were already on the team, so there's nothing to announce
+        if (result.member) {
+          console.log(`Added team member:`, result.member);
           
           // Create notification for the project owner
           await pool.query(
@@ -2447,6 +2392,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Declined invitation
         console.log(`User ${req.user!.id} (${req.user!.username}) declining invitation to project ${invitation.project_id}`);
         
+        const updateResult = await pool.query(
+          `UPDATE team_invitations 
+           SET invite_status = 'declined'
+           WHERE invite_token = $1
+           RETURNING *`,
+          [inviteToken]
+        );
+        
+        if (updateResult.rows.length === 0) {
+          throw new Error("Failed to update invitation status");
+        }
+        
+        updatedInvitation = updateResult.rows[0];
+        
         // Create notification for the project owner about declined invitation
         await pool.query(
           `INSERT INTO notifications 
@@ -2546,7 +2505,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Fetch invitation with project information in a single query
       const inviteResult = await pool.query(
-        `SELECT i.*, p.name as project_name, p.client_id, p.team_members, p.id as project_id
+        `SELECT i.*, p.name as project_name, p.client_id, p.id as project_id
          FROM team_invitations i
          LEFT JOIN projects p ON i.project_id = p.id
          WHERE i.invite_token = $1`,
@@ -2570,55 +2529,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: `This invitation has already been ${invitation.invite_status}` });
       }
       
-      // Update invitation to accepted directly in database
-      await pool.query(
-        `UPDATE team_invitations 
-         SET invite_status = 'accepted', accepted_at = NOW() 
-         WHERE invite_token = $1`,
-        [token]
+      const result = await storage.acceptTeamInvitation(
+        token,
+        req.user!.id,
+        invitation.permissions || getPermissionsForRole(invitation.role)
       );
-      
-      // Handle team member addition
-      let teamMembers = invitation.team_members || [];
-      
-      // Convert to array if it's still a string or object
-      if (typeof teamMembers === 'string') {
-        try {
-          teamMembers = JSON.parse(teamMembers);
-        } catch (e) {
-          teamMembers = [];
-        }
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
       }
       
-      if (!Array.isArray(teamMembers)) {
-        teamMembers = Object.values(teamMembers);
-      }
-      
-      // Check if user is already a team member
-      const isAlreadyMember = teamMembers.some((member: any) => 
-        member && typeof member === 'object' && member.userId === req.user!.id
-      );
-      
-      if (!isAlreadyMember) {
-        // Add user to team members
-        const newMember = {
-          userId: req.user!.id,
-          username: req.user!.username,
-          role: invitation.role,
-          permissions: invitation.permissions || getPermissionsForRole(invitation.role),
-          joinedAt: new Date().toISOString()
-        };
-        
-        teamMembers.push(newMember);
-        
-        // Update project with new team member using direct SQL
-        await pool.query(
-          `UPDATE projects 
-           SET team_members = $1 
-           WHERE id = $2`,
-          [JSON.stringify(teamMembers), invitation.project_id]
-        );
-        
+      // No member comes back if they were already on the team
+      if (result.member) {
         // Create smart notification for the project owner using direct SQL
         await pool.query(
           `INSERT INTO notifications 
@@ -2730,39 +2651,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Delete a pending invitation
-  app.delete("/api/projects/:projectId/invitations/:invitationId", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.delete("/api/projects/:projectId/invitations/:invitationId", requireProjectPermission('manage_team'), async (req, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const invitationId = parseInt(req.params.invitationId);
       
-      if (isNaN(projectId) || isNaN(invitationId)) {
-        return res.status(400).json({ message: "Invalid project ID or invitation ID" });
+      if (isNaN(invitationId)) {
+        return res.status(400).json({ message: "Invalid invitation ID" });
       }
       
       // Use direct database query to avoid ORM date conversion issues
       const { pool } = await import('./db');
       
-      // Get the project first
-      const projectResult = await pool.query(
-        `SELECT * FROM projects WHERE id = $1`,
-        [projectId]
-      );
-      
-      if (projectResult.rows.length === 0) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      
-      const project = projectResult.rows[0];
-      
-      // Only project owner or admin can delete invitations
-      const isOwner = project.client_id === req.user!.id;
-      
-      if (!isOwner && req.user!.role !== "admin") {
-        return res.status(403).json({ message: "You don't have permission to delete project invitations" });
-      }
-      
       // Get the invitation first
       const invitationResult = await pool.query(
         `SELECT * FROM team_invitations WHERE id = $1 AND project_id = $2`,
@@ -2980,6 +2880,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const bid = await storage.createProjectBid(bidData);
+      publishRealtimeEvent(realtimeTopics.project(projectId), { type: "bid.created", bidId: bid.id, projectId });
       
       // Notify the project owner (client)
       const client = await storage.getUser(project.clientId);
@@ -3055,10 +2956,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (req.body.withdraw === true) {
             // Special case for withdrawing a bid
             const updatedBid = await storage.updateProjectBid(bidId, { status: "withdrawn" });
+            publishProjectBidUpdate(updatedBid);
             return res.json(updatedBid);
           }
           
           const updatedBid = await storage.updateProjectBid(bidId, updateData);
+          publishProjectBidUpdate(updatedBid);
           return res.json(updatedBid);
         }
         return res.status(403).send("Unauthorized access");
@@ -3066,6 +2969,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Admin or project owner can update any bid fields including status
       const updatedBid = await storage.updateProjectBid(bidId, req.body);
+      publishProjectBidUpdate(updatedBid);
       
       // If bid is accepted, notify the service provider and update project
       if (req.body.status === "accepted" && bid.status !== "accepted") {
@@ -3093,7 +2997,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const otherBids = await storage.getProjectBidsByProject(project.id);
         for (const otherBid of otherBids) {
           if (otherBid.id !== bid.id && otherBid.status === "pending") {
-            await storage.updateProjectBid(otherBid.id, { status: "rejected" });
+            publishProjectBidUpdate(await storage.updateProjectBid(otherBid.id, { status: "rejected" }));
             
             // Notify the service provider about rejection
             const rejectNotification = insertNotificationSchema.parse({
@@ -3120,66 +3024,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // ===== Project Timeline Routes =====
-  app.get("/api/projects/:id/timeline", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.get("/api/projects/:id/timeline", requireProjectPermission('view_project', 'id'), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      
-      // Validate permissions
-      if (req.user!.role === "client" && project.clientId !== req.user!.id) {
-        return res.status(403).send("Unauthorized access");
-      }
-      
-      if (req.user!.role === "company" && project.companyId !== req.user!.id) {
-        return res.status(403).send("Unauthorized access");
-      }
       
       const timeline = await storage.getProjectTimelines(projectId);
-      res.json(timeline);
+      
+      // Entries submitted as evidence for an escrow milestone carry it, so it can be approved from the timeline
+      const milestones = await storage.getEscrowMilestonesByTimelineIds(timeline.map(entry => entry.id));
+      res.json(timeline.map(entry => ({
+        ...entry,
+        escrowMilestone: milestones.find(milestone => milestone.timelineId === entry.id) || null
+      })));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch project timeline" });
     }
   });
 
-  app.post("/api/projects/:id/timeline", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    // Update permissions check to include all valid roles (client, service_provider, admin)
-    const allowedRoles = ["service_provider", "client", "admin"];
-    if (!allowedRoles.includes(req.user!.role)) {
-      return res.status(403).send("You don't have permission to update project timeline");
-    }
-    
+  app.post("/api/projects/:id/timeline", requireProjectPermission('edit_schedule', 'id'), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      
-      // Check if user has access to this project
-      if (
-        req.user!.role === "service_provider" && 
-        project.companyId !== req.user!.id &&
-        !await storage.isProjectTeamMember(projectId, req.user!.id)
-      ) {
-        return res.status(403).send("Unauthorized access to this project");
-      }
-      
-      if (
-        req.user!.role === "client" &&
-        project.clientId !== req.user!.id &&
-        !await storage.isProjectTeamMember(projectId, req.user!.id)
-      ) {
-        return res.status(403).send("Unauthorized access to this project");
-      }
       
       // Process and properly format the date field before validation
       let formattedDate: Date;
@@ -3213,6 +3077,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid date format. Please use YYYY-MM-DD format." });
       }
       
+      // Progress can be submitted against a funded escrow milestone for the client to approve
+      const escrowMilestoneId = z.number().int().positive().optional().parse(req.body.escrowMilestoneId);
+      let escrowMilestone: EscrowMilestone | undefined;
+      if (escrowMilestoneId) {
+        escrowMilestone = await storage.getEscrowMilestone(escrowMilestoneId);
+        if (!escrowMilestone) {
+          return res.status(404).json({ message: "Escrow milestone not found" });
+        }
+        if (escrowMilestone.serviceProviderId !== req.user!.id) {
+          return res.status(403).json({ message: "Only the assigned service provider can submit progress for this milestone" });
+        }
+        if (escrowMilestone.status !== "funded") {
+          return res.status(409).json({ message: "Only funded milestones can be submitted for approval" });
+        }
+        
+        // The request names the project its work is for, and edit_schedule has already checked the provider is on it
+        const serviceRequest = await storage.getServiceRequest(escrowMilestone.serviceRequestId);
+        if (!serviceRequest || serviceRequest.projectId !== projectId) {
+          return res.status(400).json({ message: "This escrow milestone isn't for work on this project" });
+        }
+      }
+      
       console.log("Received date:", req.body.date);
       console.log("Formatted date:", formattedDate);
       
@@ -3228,14 +3114,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log("Validated data:", validated);
       
-      const timelineEntry = await storage.createProjectTimeline(validated);
+      let timelineEntry: ProjectTimeline;
+      if (escrowMilestone) {
+        // The entry and the milestone are saved together, so a failed submission leaves no entry behind
+        const { error, entry, milestone } = await storage.submitEscrowMilestone(escrowMilestone.id, req.user!.id, validated);
+        if (error) {
+          return res.status(409).json({ message: error });
+        }
+        timelineEntry = entry!;
+        escrowMilestone = milestone;
+      } else {
+        timelineEntry = await storage.createProjectTimeline(validated);
+      }
+      publishRealtimeEvent(realtimeTopics.project(projectId), { type: "timeline.created", projectId, entry: timelineEntry });
       
       // Update project progress if timeline entry includes it
       if (validated.completionPercentage) {
         await storage.updateProject(projectId, { progress: validated.completionPercentage });
       }
       
-      res.status(201).json(timelineEntry);
+      if (escrowMilestone) {
+        const serviceRequest = await storage.getServiceRequest(escrowMilestone.serviceRequestId);
+        if (serviceRequest) {
+          await createSmartNotification({
+            userId: serviceRequest.clientId,
+            title: "Milestone Ready for Approval",
+            message: `Progress for "${escrowMilestone.title}" has been submitted. Review it to release ₵${(escrowMilestone.amount / 100).toFixed(2)} from escrow.`,
+            type: "payment",
+            relatedItemId: serviceRequest.id,
+            relatedItemType: "service_request",
+            actionUrl: `/service-requests/${serviceRequest.id}`
+          }, "due");
+        }
+      }
+      
+      res.status(201).json({ ...timelineEntry, escrowMilestone: escrowMilestone || null });
     } catch (error) {
       console.error("Timeline entry error:", error);
       
@@ -3295,52 +3208,575 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).send("Unauthorized role");
       }
       
-      res.json(orders);
+      // Attach each order's per-supplier fulfilment records and status history
+      const orderIds = orders.map(order => order.id);
+      const supplierOrders = await storage.getSupplierOrdersByOrderIds(orderIds);
+      const statusHistory = await storage.getOrderStatusHistory(orderIds);
+      const ordersWithFulfilment: OrderWithFulfilment[] = orders.map(order => ({
+        ...order,
+        supplierOrders: supplierOrders.filter(supplierOrder => supplierOrder.orderId === order.id),
+        statusHistory: statusHistory.filter(entry => entry.orderId === order.id),
+        allowedTransitions: getAllowedOrderTransitions(order.status, role)
+      }));
+      
+      res.json(ordersWithFulfilment);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
+
+  app.post("/api/orders", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user!.role !== "client") {
+      return res.status(403).send("Only clients can place orders");
+    }
+    
+    try {
+      // Only material IDs and quantities are taken from the request - prices,
+      // totals and availability are all recomputed against the database
+      const checkout = checkoutSchema.parse(req.body);
+      
+      if (checkout.projectId) {
+        const project = await storage.getProject(checkout.projectId);
+        if (!project || project.clientId !== req.user!.id) {
+          return res.status(400).json({ message: "Orders can only be linked to your own projects" });
+        }
+      }
+      
+      const { order, errors } = await storage.placeOrder(req.user!.id, checkout);
+      
+      if (errors) {
+        return res.status(409).json({ 
+          message: "Some items in your cart can't be ordered", 
+          errors 
+        });
+      }
+      
+      res.status(201).json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create order" });
+    }
+  });
+
+  // Move an order through its status state machine
+  app.patch("/api/orders/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user!.role !== "admin" && req.user!.role !== "client") {
+      return res.status(403).send("Only admins and clients can update order status");
+    }
+    
+    try {
+      const orderId = parseInt(req.params.id);
+      const order = await storage.getOrder(orderId);
+      
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      if (req.user!.role === "client" && order.clientId !== req.user!.id) {
+        return res.status(403).json({ message: "You can only update your own orders" });
+      }
+      
+      const transitionSchema = z.object({
+        status: z.enum(orderStatuses),
+        note: z.string().max(500).optional()
+      });
+      
+      const { status, note } = transitionSchema.parse(req.body);
+      const result = await storage.transitionOrder(
+        orderId,
+        status,
+        { userId: req.user!.id, role: req.user!.role },
+        note
+      );
+      
+      if (result.error) {
+        return res.status(409).json({ message: result.error });
+      }
+      
+      await notifyOrderStatusChanges(result.order!, result.changes!, req.user!.id);
+      
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update order" });
+    }
+  });
+
+  // ===== Payments Routes =====
+  // Start collecting a payment for an order, or for a service request's escrow milestones
+  app.post("/api/payments/intents", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    const idempotencyKey = req.header("Idempotency-Key");
+    if (!idempotencyKey || idempotencyKey.length > 255) {
+      return res.status(400).json({ message: "An Idempotency-Key header is required" });
+    }
+    
+    try {
+      const data = createPaymentIntentSchema.parse(req.body);
+      const requestHash = hashPaymentRequest(data);
+      
+      // A retried request gets back the payment it already created
+      const existing = await storage.getPaymentIntentByIdempotencyKey(req.user!.id, idempotencyKey);
+      if (existing) {
+        if (existing.requestHash !== requestHash) {
+          return res.status(409).json({ message: "This Idempotency-Key was already used for a different payment" });
+        }
+        return res.json(existing);
+      }
+      
+      let amount: number;
+      let escrowMilestones: EscrowMilestone[] = [];
+      if (data.purpose === "order") {
+        const order = await storage.getOrder(data.orderId);
+        if (!order || order.clientId !== req.user!.id) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        
+        if (["cancelled", "returned", "refunded"].includes(order.status)) {
+          return res.status(409).json({ message: "This order can no longer be paid for" });
+        }
+        
+        const payments = await storage.getPaymentIntentsByOrder(order.id);
+        if (payments.some(payment => payment.status === "succeeded")) {
+          return res.status(409).json({ message: "This order has already been paid" });
+        }
+        if (payments.some(payment => !(finalPaymentStatuses as string[]).includes(payment.status))) {
+          return res.status(409).json({ message: "A payment for this order is already in progress" });
+        }
+        
+        amount = order.totalAmount;
+      } else {
+        const serviceRequest = await storage.getServiceRequest(data.serviceRequestId);
+        if (!serviceRequest || serviceRequest.clientId !== req.user!.id) {
+          return res.status(404).json({ message: "Service request not found" });
+        }
+        
+        const milestones = await storage.getEscrowMilestonesByServiceRequest(serviceRequest.id);
+        if (milestones.length === 0) {
+          return res.status(409).json({ message: "Escrow can only be funded once a bid has been awarded" });
+        }
+        
+        // Milestones that are funded, or have a payment in progress, can't be paid for again
+        const unfunded = milestones.filter(milestone =>
+          milestone.status === "awaiting_funding" && milestone.fundingIntentId === null
+        );
+        escrowMilestones = data.purpose === "milestone"
+          ? unfunded.filter(milestone => milestone.id === data.milestoneId)
+          : unfunded;
+        
+        if (escrowMilestones.length === 0) {
+          return res.status(409).json({ message: "There is nothing left to fund for this service request" });
+        }
+        
+        amount = escrowMilestones.reduce((total, milestone) => total + milestone.amount, 0);
+      }
+      
+      let provider: PaymentProvider;
+      try {
+        provider = getPaymentProvider(data.method);
+      } catch (error) {
+        return res.status(503).json({ message: "This payment method is currently unavailable" });
+      }
+      
+      let intent: PaymentIntent;
+      try {
+        intent = await storage.createPaymentIntent({
+          reference: generatePaymentReference(),
+          payerId: req.user!.id,
+          purpose: data.purpose,
+          orderId: data.purpose === "order" ? data.orderId : null,
+          serviceRequestId: data.purpose !== "order" ? data.serviceRequestId : null,
+          milestoneId: data.purpose === "milestone" ? data.milestoneId : null,
+          amount,
+          currency: "GHS",
+          method: data.method,
+          provider: provider.name,
+          status: "pending",
+          idempotencyKey,
+          requestHash
+        });
+      } catch (error) {
+        // Two requests raced with the same key - return the one that won
+        if (isUniqueViolation(error, "payment_intents_payer_idempotency_key")) {
+          const winner = await storage.getPaymentIntentByIdempotencyKey(req.user!.id, idempotencyKey);
+          if (winner) return res.json(winner);
+        }
+        // Another payment for the order was started since the check above
+        if (isUniqueViolation(error, "payment_intents_open_order")) {
+          return res.status(409).json({ message: "A payment for this order is already in progress" });
+        }
+        throw error;
+      }
+      
+      if (escrowMilestones.length > 0) {
+        const { error } = await storage.attachEscrowFunding(intent.id, escrowMilestones.map(milestone => milestone.id));
+        if (error) {
+          await storage.updatePaymentIntent(intent.id, { status: "cancelled", failureReason: error });
+          return res.status(409).json({ message: error });
+        }
+      }
+      
+      const baseUrl = process.env.BASE_URL || `http://${req.headers.host}`;
+      try {
+        const charge = await provider.createCharge(intent, {
+          phone: data.phone,
+          email: req.user!.email,
+          callbackUrl: `${baseUrl}/api/payments/webhooks/${provider.name}`
+        });
+        
+        intent = await storage.updatePaymentIntent(intent.id, {
+          providerReference: charge.providerReference,
+          status: charge.status,
+          nextAction: charge.nextAction ?? null,
+          failureReason: charge.failureReason ?? null
+        });
+      } catch (error) {
+        console.error(`Error starting ${provider.name} payment ${intent.reference}:`, error);
+        intent = await storage.updatePaymentIntent(intent.id, {
+          status: "failed",
+          failureReason: "The payment provider could not be reached"
+        });
+      }
+      
+      await notifyPaymentStatus(intent);
+      
+      res.status(201).json(intent);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error creating payment intent:", error);
+      res.status(500).json({ message: "Failed to create payment" });
+    }
+  });
+  
+  app.get("/api/payments/intents", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      let intents = await storage.getPaymentIntentsByPayer(req.user!.id);
+      
+      if (req.query.orderId) {
+        intents = intents.filter(intent => intent.orderId === parseInt(req.query.orderId as string));
+      }
+      if (req.query.serviceRequestId) {
+        intents = intents.filter(intent => intent.serviceRequestId === parseInt(req.query.serviceRequestId as string));
+      }
+      
+      res.json(intents);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch payments" });
+    }
+  });
+  
+  app.get("/api/payments/intents/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      let intent = await storage.getPaymentIntent(parseInt(req.params.id));
+      
+      if (!intent || (intent.payerId !== req.user!.id && req.user!.role !== "admin")) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      // Ask the provider directly in case its webhook is late
+      if (req.query.refresh === "true" && !(finalPaymentStatuses as string[]).includes(intent.status)) {
+        const provider = getPaymentProviderByName(intent.provider);
+        if (provider && intent.providerReference) {
+          const latest = await provider.getChargeStatus(intent);
+          const amountMismatch = describeAmountMismatch(intent, latest);
+          if (amountMismatch) {
+            console.error(`Payment ${intent.reference} was not settled: ${amountMismatch}`);
+            intent = await storage.updatePaymentIntent(intent.id, { failureReason: amountMismatch });
+          } else if (latest.status !== intent.status) {
+            intent = await storage.updatePaymentIntent(intent.id, {
+              status: latest.status,
+              failureReason: latest.failureReason ?? null
+            });
+            await notifyPaymentStatus(intent);
+          }
+        }
+      }
+      
+      res.json(intent);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch payment" });
+    }
+  });
+  
+  // Provider callbacks - authenticated by signature rather than session
+  app.post("/api/payments/webhooks/:provider", async (req, res) => {
+    const provider = getPaymentProviderByName(req.params.provider);
+    if (!provider) {
+      return res.status(404).json({ message: "Unknown payment provider" });
+    }
+    
+    try {
+      const status = await handlePaymentWebhook(provider, {
+        rawBody: req.rawBody || Buffer.from(""),
+        body: req.body,
+        headers: req.headers,
+        query: req.query
+      });
+      
+      res.status(status).json({ received: status === 200 });
+    } catch (error) {
+      console.error(`Error handling ${provider.name} webhook:`, error);
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+  
+  // Settle a payment made through the offline fake provider (development only)
+  app.post("/api/payments/fake/:reference/settle", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (process.env.NODE_ENV === "production") {
+      return res.sendStatus(404);
+    }
+    
+    try {
+      const { status } = z.object({ status: z.enum(["succeeded", "failed"]) }).parse(req.body);
+      const intent = await storage.getPaymentIntentByReference(req.params.reference);
+      
+      if (!intent || intent.provider !== "fake" || (intent.payerId !== req.user!.id && req.user!.role !== "admin")) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      // Goes through the same signed webhook path as a real provider
+      await handlePaymentWebhook(fakePaymentProvider, fakePaymentProvider.createWebhook(intent, status));
+      
+      res.json(await storage.getPaymentIntent(intent.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to settle payment" });
+    }
+  });
+
+  // ===== Escrow Routes =====
+  // Escrow milestones for a service request - visible to its client and assigned provider
+  app.get("/api/service-requests/:id/escrow", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const serviceRequest = await storage.getServiceRequest(parseInt(req.params.id));
+      if (
+        !serviceRequest ||
+        (req.user!.role !== "admin" &&
+          serviceRequest.clientId !== req.user!.id &&
+          serviceRequest.assignedServiceProviderId !== req.user!.id)
+      ) {
+        return res.status(404).json({ message: "Service request not found" });
+      }
+      
+      const milestones = await storage.getEscrowMilestonesByServiceRequest(serviceRequest.id);
+      res.json(summariseEscrow(serviceRequest.id, milestones));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch escrow" });
+    }
+  });
+  
+  // A service provider's own milestones, e.g. the funded ones they can submit progress against on a project
+  app.get("/api/escrow/milestones", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const projectId = typeof req.query.projectId === "string" ? parseInt(req.query.projectId) || undefined : undefined;
+      res.json(await storage.getEscrowMilestonesByServiceProvider(req.user!.id, status, projectId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch escrow milestones" });
+    }
+  });
+  
+  // Client approves the progress submitted for a milestone, releasing its funds
+  app.post("/api/escrow/milestones/:id/approve", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const milestone = await storage.getEscrowMilestone(parseInt(req.params.id));
+      const serviceRequest = milestone ? await storage.getServiceRequest(milestone.serviceRequestId) : undefined;
+      
+      if (!milestone || !serviceRequest || serviceRequest.clientId !== req.user!.id) {
+        return res.status(404).json({ message: "Escrow milestone not found" });
+      }
+      
+      const { error, milestone: released } = await storage.releaseEscrowMilestone(
+        milestone.id,
+        { userId: req.user!.id, role: "client" },
+        generatePayoutReference()
+      );
+      if (error) {
+        return res.status(409).json({ message: error });
+      }
+      
+      const baseUrl = process.env.BASE_URL || `http://${req.headers.host}`;
+      res.json(await startEscrowPayout(released!, baseUrl));
+    } catch (error) {
+      console.error("Error approving escrow milestone:", error);
+      res.status(500).json({ message: "Failed to approve milestone" });
+    }
+  });
+  
+  // Admin view of a service request's escrow
+  app.post("/api/direct-admin/service-requests/:id/escrow", async (req, res) => {
+    try {
+      const serviceRequestId = parseInt(req.params.id);
+      const milestones = await storage.getEscrowMilestonesByServiceRequest(serviceRequestId);
+      res.json(summariseEscrow(serviceRequestId, milestones));
+    } catch (error) {
+      console.error("Admin escrow fetch error:", error);
+      res.status(500).json({ message: "Server error fetching escrow" });
+    }
+  });
+  
+  // Admin inspector approves a milestone on the client's behalf, e.g. after a site visit
+  app.post("/api/direct-admin/escrow/milestones/:id/approve", async (req, res) => {
+    try {
+      const admin = req.adminUser!;
+      
+      const milestone = await storage.getEscrowMilestone(parseInt(req.params.id));
+      if (!milestone) {
+        return res.status(404).json({ message: "Escrow milestone not found" });
+      }
+      
+      const { error, milestone: released } = await storage.releaseEscrowMilestone(
+        milestone.id,
+        { userId: admin.id, role: "admin" },
+        generatePayoutReference()
+      );
+      if (error) {
+        return res.status(409).json({ message: error });
+      }
+      
+      const baseUrl = process.env.BASE_URL || `http://${req.headers.host}`;
+      res.json(await startEscrowPayout(released!, baseUrl));
+    } catch (error) {
+      console.error("Admin approve escrow milestone error:", error);
+      res.status(500).json({ message: "Server error approving milestone" });
+    }
+  });
+  
+  // Admin disputes or freezes a milestone so its funds can't move, or lifts the hold
+  app.patch("/api/direct-admin/escrow/milestones/:id/hold", async (req, res) => {
+    try {
+      const { action, reason } = z.object({
+        action: z.enum(["dispute", "freeze", "release_hold"]),
+        reason: z.string().optional()
+      }).parse(req.body);
+      
+      const admin = req.adminUser!;
+      
+      const existing = await storage.getEscrowMilestone(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Escrow milestone not found" });
+      }
+      
+      if (action !== "release_hold" && !reason) {
+        return res.status(400).json({ message: "A reason is required to put a milestone on hold" });
+      }
+      
+      const { error, milestone } = await storage.holdEscrowMilestone(existing.id, action, admin.id, reason);
+      if (error) {
+        return res.status(409).json({ message: error });
+      }
+      
+      // Both parties to the contract are told when its money is held or freed
+      const serviceRequest = await storage.getServiceRequest(milestone!.serviceRequestId);
+      const message = action === "release_hold"
+        ? `The hold on milestone "${milestone!.title}" has been lifted`
+        : `Milestone "${milestone!.title}" has been ${action === "dispute" ? "disputed" : "frozen"} by an administrator: ${reason}`;
+      await notifyMultipleUsers(
+        [milestone!.serviceProviderId, ...(serviceRequest ? [serviceRequest.clientId] : [])],
+        {
+          title: action === "release_hold" ? "Milestone Hold Lifted" : "Milestone On Hold",
+          message,
+          type: "payment",
+          relatedItemId: milestone!.serviceRequestId,
+          relatedItemType: "service_request",
+          actionUrl: `/service-requests/${milestone!.serviceRequestId}`
+        }
+      );
+      
+      res.json(milestone);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch orders" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Admin escrow hold error:", error);
+      res.status(500).json({ message: "Server error updating milestone hold" });
     }
   });
-
-  app.post("/api/orders", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    if (req.user!.role !== "client") {
-      return res.status(403).send("Only clients can place orders");
-    }
-    
+  
+  // Admin retries a payout that failed, e.g. after the provider has added a phone number
+  app.post("/api/direct-admin/escrow/milestones/:id/payout", async (req, res) => {
     try {
-      // Generate order ID
-      const year = new Date().getFullYear();
-      const randomId = Math.floor(1000 + Math.random() * 9000);
-      const orderId = `ORD-${year}-${randomId}`;
+      const milestone = await storage.getEscrowMilestone(parseInt(req.params.id));
+      if (!milestone) {
+        return res.status(404).json({ message: "Escrow milestone not found" });
+      }
       
-      const validated = insertOrderSchema.parse({
-        ...req.body,
-        orderId,
-        clientId: req.user!.id
-      });
+      // Claimed with a conditional update, so two retries at once can't both send the money. The new
+      // reference stops a late callback for the failed attempt being mistaken for this one.
+      const retried = await storage.retryEscrowPayout(milestone.id, generatePayoutReference());
+      if (!retried) {
+        return res.status(409).json({ message: "Only failed payouts can be retried" });
+      }
       
-      const order = await storage.createOrder(validated);
-      res.status(201).json(order);
+      const baseUrl = process.env.BASE_URL || `http://${req.headers.host}`;
+      res.json(await startEscrowPayout(retried, baseUrl));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ errors: error.errors });
-      }
-      res.status(500).json({ message: "Failed to create order" });
+      console.error("Admin escrow payout retry error:", error);
+      res.status(500).json({ message: "Server error retrying payout" });
     }
   });
-
-  app.patch("/api/orders/:id", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    if (req.user!.role !== "admin") {
-      return res.status(403).send("Only admins can update order status");
+  
+  // Payout provider callbacks - authenticated by signature rather than session
+  app.post("/api/payments/payouts/webhooks/:provider", async (req, res) => {
+    const provider = getPayoutProviderByName(req.params.provider);
+    if (!provider) {
+      return res.status(404).json({ message: "Unknown payout provider" });
     }
     
     try {
-      const orderId = parseInt(req.params.id);
-      const updatedOrder = await storage.updateOrder(orderId, req.body);
-      res.json(updatedOrder);
+      const request = {
+        rawBody: req.rawBody || Buffer.from(""),
+        body: req.body,
+        headers: req.headers,
+        query: req.query
+      };
+      
+      if (!provider.verifyWebhook(request)) {
+        return res.status(401).json({ received: false });
+      }
+      
+      let event = provider.parseWebhook(request);
+      const milestone = event ? await storage.getEscrowMilestoneByPayoutReference(event.reference) : undefined;
+      
+      // Callbacks repeat, so only a payout that's still in progress is updated
+      if (event && milestone && milestone.payoutStatus === "processing") {
+        if (provider.confirmWebhook) {
+          event = await provider.confirmWebhook(event);
+        }
+        
+        if (event.status === "failed") {
+          console.error(`Payout ${event.reference} failed: ${event.failureReason}`);
+        }
+        
+        await settleEscrowPayout(milestone, event.status);
+      }
+      
+      res.json({ received: true });
     } catch (error) {
-      res.status(500).json({ message: "Failed to update order" });
+      console.error(`Error handling ${provider.name} payout webhook:`, error);
+      res.status(500).json({ message: "Failed to process webhook" });
     }
   });
 
@@ -3361,7 +3797,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const validated = insertMessageSchema.parse({
+      const validated = insertMessageSchema.extend({ receiverId: z.number().int().positive() }).parse({
         ...req.body,
         senderId: req.user!.id
       });
@@ -3391,7 +3827,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      const message = await storage.createMessage(validated);
+      // One-to-one messages belong to the pair's direct conversation
+      const conversation = await storage.getOrCreateDirectConversation(req.user!.id, validated.receiverId);
+      const message = await storage.createMessage({ ...validated, conversationId: conversation.id });
+      await publishConversationMessage(message);
       
       // Add notification for the receiver
       await storage.createNotification({
@@ -3438,6 +3877,171 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ===== Search Routes =====
+  // Full-text search over everything the user can see, for the command palette
+  app.get("/api/search", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const options = searchQuerySchema.parse(req.query);
+      const results = await search(req.user!, options);
+      res.json({ query: options.q, results });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error searching:", error);
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
+  // ===== Conversations Routes =====
+  app.get("/api/conversations", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const conversations = await storage.getConversationsForUser(req.user!.id);
+      res.json(conversations);
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+  
+  // Opens the direct conversation with another user, creating it the first time
+  app.post("/api/conversations/direct", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { userId } = startDirectConversationSchema.parse(req.body);
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "You can't start a conversation with yourself" });
+      }
+      
+      const other = await storage.getUser(userId);
+      if (!other) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Same rule as one-to-one messages: clients and providers only talk once a request connects them
+      const pair = [req.user!.role, other.role];
+      if (pair.includes("client") && pair.includes("service_provider")) {
+        const allRequests = await storage.getAllServiceRequests();
+        const connected = allRequests.some(request =>
+          (request.clientId === req.user!.id && request.assignedServiceProviderId === userId) ||
+          (request.assignedServiceProviderId === req.user!.id && request.clientId === userId)
+        );
+        if (!connected) {
+          return res.status(403).json({ message: "You can only message service providers/clients assigned to your requests" });
+        }
+      }
+      
+      const conversation = await storage.getOrCreateDirectConversation(req.user!.id, userId);
+      res.status(201).json(conversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error starting conversation:", error);
+      res.status(500).json({ message: "Failed to start conversation" });
+    }
+  });
+  
+  app.get("/api/conversations/:id/messages", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const conversationId = parseInt(req.params.id);
+      const participant = await storage.getConversationParticipant(conversationId, req.user!.id);
+      if (!participant) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      
+      const query = conversationMessagesQuerySchema.parse(req.query);
+      const page = await storage.getConversationMessages(conversationId, query);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error fetching conversation messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+  
+  app.post("/api/conversations/:id/messages", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const conversationId = parseInt(req.params.id);
+      const participant = await storage.getConversationParticipant(conversationId, req.user!.id);
+      if (!participant) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      
+      const { content } = sendConversationMessageSchema.parse(req.body);
+      const message = await storage.createConversationMessage(conversationId, req.user!.id, content);
+      await publishConversationMessage(message);
+      
+      // Everyone else in the thread is notified; the sender's name leads so group messages make sense
+      const participants = await storage.getConversationParticipants(conversationId);
+      const sender = req.user!.fullName || req.user!.username;
+      for (const other of participants.filter(p => p.userId !== req.user!.id)) {
+        await storage.createNotification({
+          userId: other.userId,
+          title: "New Message",
+          message: `${sender}: ${content.length > 30 ? content.substring(0, 30) + "..." : content}`,
+          type: "message",
+          priority: "normal",
+          relatedItemId: message.id,
+          relatedItemType: "message",
+          emoji: "💬",
+          actionUrl: `/messages?conversation=${conversationId}`
+        });
+      }
+      
+      res.status(201).json(message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error sending conversation message:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+  
+  // Moves the user's read cursor, which the other participants see as a read receipt
+  app.post("/api/conversations/:id/read", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const conversationId = parseInt(req.params.id);
+      const { messageId } = markConversationReadSchema.parse(req.body);
+      
+      const participant = await storage.markConversationRead(conversationId, req.user!.id, messageId);
+      if (!participant) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      
+      const participants = await storage.getConversationParticipants(conversationId);
+      const event = {
+        type: "conversation.read" as const,
+        conversationId,
+        userId: req.user!.id,
+        lastReadMessageId: participant.lastReadMessageId!
+      };
+      participants.forEach(p => publishRealtimeEvent(realtimeTopics.user(p.userId), event));
+      
+      res.json(participant);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error marking conversation read:", error);
+      res.status(500).json({ message: "Failed to mark conversation as read" });
+    }
+  });
+
   // ===== Users Routes =====
   app.get("/api/users/companies", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
@@ -3710,6 +4314,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log("Service request validated successfully");
       
+      // The work can only be for one of the client's own projects
+      if (validated.projectId) {
+        const project = await storage.getProject(validated.projectId);
+        if (!project || project.clientId !== req.user!.id) {
+          return res.status(400).json({ message: "Project not found", code: "VALIDATION_ERROR" });
+        }
+      }
+      
       // Process request data
       const requestData = { ...validated };
       
@@ -4771,9 +5383,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // ===== Project Tasks Routes =====
-  app.get("/api/projects/:projectId/tasks", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.get("/api/projects/:projectId/tasks", requireProjectPermission('view_project'), async (req, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const status = req.query.status as string | undefined;
@@ -4846,48 +5456,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/projects/:projectId/tasks", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.post("/api/projects/:projectId/tasks", requireProjectPermission('edit_schedule'), async (req, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       
-      // Verify project exists
-      const project = await storage.getProject(projectId);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      
-      // Check if user has permission to create tasks for this project
-      // Admins, clients, project managers, and team members with appropriate permissions can create tasks
-      const isProjectClient = project.clientId === req.user!.id;
-      const isAdmin = req.user!.role === "admin";
-      
-      // Check if user is a team member with task creation permission
-      let isAuthorizedTeamMember = false;
-      if (project.teamMembers && typeof project.teamMembers === 'object') {
-        // Use type assertion to handle teamMembers properly
-        const teamMembersArray = Array.isArray(project.teamMembers) 
-          ? project.teamMembers 
-          : Object.values(project.teamMembers as Record<string, any>);
-        
-        const teamMember = teamMembersArray.find(
-          (member: any) => member.userId === req.user!.id
-        );
-        
-        if (teamMember) {
-          const memberRole = teamMember.role;
-          const permissions = getPermissionsForRole(memberRole);
-          isAuthorizedTeamMember = permissions.includes('create_timeline') || 
-                                  permissions.includes('manage_team') ||
-                                  permissions.includes('edit_project');
-        }
-      }
-      
-      if (!isProjectClient && !isAdmin && !isAuthorizedTeamMember) {
-        return res.status(403).json({ message: "You don't have permission to create tasks for this project" });
-      }
-      
       // Set creator as the assignee if not specified
       if (!req.body.assignedByUserId) {
         req.body.assignedByUserId = req.user!.id;
@@ -4928,35 +5500,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user has permission to update this task
-      const isProjectClient = project.clientId === req.user!.id;
-      const isAdmin = req.user!.role === "admin";
+      // Whoever the task is between can update it, as can anyone who runs the project's schedule
       const isTaskAssignee = task.assignedToId === req.user!.id;
       const isTaskAssigner = task.assignedByUserId === req.user!.id;
+      const { permissions } = await resolveProjectAccess(req.user!, project);
       
-      // Check if user is a team member with task update permission
-      let isAuthorizedTeamMember = false;
-      if (project.teamMembers && typeof project.teamMembers === 'object') {
-        // Use type assertion to handle teamMembers properly
-        const teamMembersArray = Array.isArray(project.teamMembers) 
-          ? project.teamMembers 
-          : Object.values(project.teamMembers as Record<string, any>);
-        
-        const teamMember = teamMembersArray.find(
-          (member: any) => member.userId === req.user!.id
-        );
-        
-        if (teamMember) {
-          const memberRole = teamMember.role;
-          const permissions = getPermissionsForRole(memberRole);
-          isAuthorizedTeamMember = permissions.includes('create_timeline') || 
-                                  permissions.includes('manage_team') ||
-                                  permissions.includes('edit_project') ||
-                                  permissions.includes('approve_changes');
-        }
-      }
-      
-      if (!isProjectClient && !isAdmin && !isTaskAssignee && !isTaskAssigner && !isAuthorizedTeamMember) {
+      if (!isTaskAssignee && !isTaskAssigner && !permissions.includes('edit_schedule')) {
         return res.status(403).json({ message: "You don't have permission to update this task" });
       }
       
@@ -5025,9 +5574,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // ===== Site Materials Routes =====
-  app.get("/api/projects/:projectId/site-materials", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.get("/api/projects/:projectId/site-materials", requireProjectPermission('view_project'), async (req, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const siteMaterials = await storage.getSiteMaterials(projectId);
@@ -5074,18 +5621,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/projects/:projectId/site-materials", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.post("/api/projects/:projectId/site-materials", requireProjectPermission('manage_materials'), async (req, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       
-      // Make sure project exists
-      const project = await storage.getProject(projectId);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      
       // Validate request body
       const validated = insertSiteMaterialSchema.parse({
         ...req.body,
@@ -5365,6 +5904,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // ===== Public Material APIs (accessible without authentication) =====
   
+  // Browse the catalogue a page at a time, filtered, sorted and with facet counts - PUBLIC ENDPOINT
+  app.get("/api/materials/catalogue", async (req, res) => {
+    try {
+      const filters = materialCatalogueFiltersSchema.parse(req.query);
+      res.json(await getMaterialCatalogue(filters));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error in /api/materials/catalogue:", error);
+      res.status(500).json({ message: "Failed to fetch materials" });
+    }
+  });
+  
   // Get all available materials (for clients to browse) - PUBLIC ENDPOINT
   app.get("/api/materials/public", async (req, res) => {
     // This is a public API endpoint - no authentication required
@@ -5397,7 +5950,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             address: "15 Industrial Road, Accra, Ghana",
             businessRegistrationNumber: "GBM-12345-2024",
             specialties: ["cement", "timber", "roofing", "electrical"],
-            rating: 4.8,
             verificationStatus: "verified",
             userId: adminUser.id,
             active: true
@@ -5423,7 +5975,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             price: 7500, // ₵75.00
             unit: "bag",
             inStock: true,
-            reviewCount: 158,
             brand: "GHACEM",
             featured: true,
             imageUrl: "https://images.unsplash.com/photo-1517911478175-54994cca56d7?q=80&w=500",
@@ -5438,7 +5989,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             price: 12000, // ₵120.00
             unit: "piece",
             inStock: true,
-            reviewCount: 82,
             brand: "Golden West",
             featured: false,
             imageUrl: "https://images.unsplash.com/photo-1501139083538-0139583c060f?q=80&w=500",
@@ -5453,7 +6003,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             price: 8500, // ₵85.00
             unit: "sheet",
             inStock: true,
-            reviewCount: 46,
             brand: "Kumasi Metals",
             featured: true,
             imageUrl: "https://images.unsplash.com/photo-1622021211530-8c6af92d114b?q=80&w=500",
@@ -5468,7 +6017,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             price: 15000, // ₵150.00
             unit: "square meter",
             inStock: true,
-            reviewCount: 34,
             brand: "Tema Glass",
             featured: false,
             imageUrl: "https://images.unsplash.com/photo-1553908839-cbe3e588536b?q=80&w=500",
@@ -5483,7 +6031,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             price: 3500, // ₵35.00
             unit: "piece",
             inStock: true,
-            reviewCount: 127,
             brand: "Accra Plumbing",
             featured: true,
             imageUrl: "https://images.unsplash.com/photo-1534427840435-6531bfa887a0?q=80&w=500",
@@ -5498,7 +6045,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             price: 6000, // ₵60.00
             unit: "square meter",
             inStock: true,
-            reviewCount: 92,
             brand: "Akosombo Ceramics",
             featured: true,
             imageUrl: "https://images.unsplash.com/photo-1585661034322-073a8f7a136d?q=80&w=500",
@@ -5513,7 +6059,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             price: 9500, // ₵95.00
             unit: "bar",
             inStock: true,
-            reviewCount: 65,
             brand: "Ghana Steel",
             featured: false,
             imageUrl: "https://images.unsplash.com/photo-1603807617198-0876cb0c5681?q=80&w=500",
@@ -5528,7 +6073,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             price: 25000, // ₵250.00
             unit: "set",
             inStock: true,
-            reviewCount: 38,
             brand: "Takoradi Electrics",
             featured: true,
             imageUrl: "https://images.unsplash.com/photo-1619032208107-4fa43191d0d7?q=80&w=500",
@@ -5585,6 +6129,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...material,
         supplierName: supplier ? supplier.name : null,
         supplierVerified: supplier ? supplier.verificationStatus === "verified" : false,
+        supplierRating: supplier ? supplier.rating : null,
+        supplierReviewCount: supplier ? supplier.reviewCount : 0,
         inventory: inventory || []
       });
     } catch (error) {
@@ -5656,6 +6202,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Catalogue uploads are parsed in memory and never written to disk
+  const catalogueUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 10 * 1024 * 1024 },
+    fileFilter: (req, file, cb) => {
+      cb(null, /\.(csv|xlsx|xls)$/i.test(file.originalname));
+    }
+  });
+  
+  // Bulk import of the supplier's catalogue from CSV or XLSX. With ?dryRun=true nothing is written;
+  // otherwise the file is only written if every row is valid.
+  app.post("/api/suppliers/materials/import", (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user!.role !== "supplier") {
+      return res.status(403).json({ message: "Only suppliers can import materials" });
+    }
+    next();
+  }, catalogueUpload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Upload a CSV or XLSX file" });
+      }
+      
+      const suppliers = await storage.getAllSuppliers();
+      const supplier = suppliers.find(s => s.userId === req.user!.id);
+      
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier profile not found" });
+      }
+      
+      const dryRun = req.query.dryRun === "true";
+      const { error, result } = await importCatalogue(supplier.id, req.file.buffer, dryRun);
+      if (error || !result) {
+        return res.status(400).json({ message: error });
+      }
+      
+      // A real import with invalid rows writes nothing and reports why
+      if (!dryRun && result.dryRun) {
+        return res.status(422).json(result);
+      }
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Import catalogue error:", error);
+      res.status(500).json({ message: "Failed to import catalogue" });
+    }
+  });
+  
+  // The supplier's catalogue in the layout the import reads
+  app.get("/api/suppliers/materials/export", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      if (req.user!.role !== "supplier") {
+        return res.status(403).json({ message: "Only suppliers can export materials" });
+      }
+      
+      const format = String(req.query.format || "csv") as CatalogueFormat;
+      if (!catalogueFormats.includes(format)) {
+        return res.status(400).json({ message: `Format must be one of: ${catalogueFormats.join(", ")}` });
+      }
+      
+      const suppliers = await storage.getAllSuppliers();
+      const supplier = suppliers.find(s => s.userId === req.user!.id);
+      
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier profile not found" });
+      }
+      
+      const [materials, inventory] = await Promise.all([
+        storage.getMaterialsBySupplier(supplier.id),
+        storage.getInventoryBySupplier(supplier.id)
+      ]);
+      const file = exportCatalogue(materials, inventory, format);
+      
+      res.setHeader("Content-Type", format === "csv"
+        ? "text/csv; charset=utf-8"
+        : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename="catalogue-${new Date().toISOString().split("T")[0]}.${format}"`);
+      res.send(file);
+    } catch (error) {
+      console.error("Export catalogue error:", error);
+      res.status(500).json({ message: "Failed to export catalogue" });
+    }
+  });
+  
   // Add a new material
   app.post("/api/materials", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
@@ -5772,8 +6404,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Update material
-      const updatedMaterial = await storage.updateMaterial(materialId, req.body);
+      // Ratings only ever come from reviews
+      const { rating, reviewCount, ...updates } = req.body;
+      const updatedMaterial = await storage.updateMaterial(materialId, updates);
       res.json(updatedMaterial);
     } catch (error) {
       res.status(500).json({ message: "Failed to update material" });
@@ -5842,23 +6475,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Supplier profile not found" });
       }
       
-      // Get all orders
-      const allOrders = await storage.getAllOrders();
+      const supplierOrders = await storage.getSupplierOrdersBySupplier(supplier.id);
+      res.json(supplierOrders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch supplier orders" });
+    }
+  });
+  
+  // Update the fulfilment of a supplier's part of an order
+  app.patch("/api/suppliers/orders/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      if (req.user!.role !== "supplier" && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "Only suppliers or admins can update order fulfilment" });
+      }
       
-      // Get materials for this supplier
-      const supplierMaterials = await storage.getMaterialsBySupplier(supplier.id);
-      const supplierMaterialIds = supplierMaterials.map(m => m.id);
-      
-      // Filter orders that contain this supplier's materials
-      const supplierOrders = allOrders.filter(order => {
-        // Check if order items include any of this supplier's materials
-        const items = order.items as { materialId: number; quantity: number; price: number }[];
-        return items.some(item => supplierMaterialIds.includes(item.materialId));
+      const supplierOrderId = parseInt(req.params.id);
+      const supplierOrder = await storage.getSupplierOrder(supplierOrderId);
+      
+      if (!supplierOrder) {
+        return res.status(404).json({ message: "Supplier order not found" });
+      }
+      
+      // Suppliers can only update their own part of an order
+      if (req.user!.role === "supplier") {
+        const suppliers = await storage.getAllSuppliers();
+        const supplier = suppliers.find(s => s.userId === req.user!.id);
+        
+        if (!supplier || supplier.id !== supplierOrder.supplierId) {
+          return res.status(403).json({ message: "You can only update your own orders" });
+        }
+      }
+      
+      const updateSchema = z.object({
+        status: z.enum(orderStatuses).optional(),
+        carrier: z.string().nullable().optional(),
+        trackingNumber: z.string().nullable().optional(),
+        deliveryDate: z.coerce.date().nullable().optional(),
+        note: z.string().max(500).optional()
       });
       
-      res.json(supplierOrders);
+      const updates = updateSchema.parse(req.body);
+      const result = await storage.updateSupplierOrder(
+        supplierOrderId,
+        updates,
+        { userId: req.user!.id, role: req.user!.role }
+      );
+      
+      if (result.error) {
+        return res.status(409).json({ message: result.error });
+      }
+      
+      await notifyOrderStatusChanges(result.order!, result.changes!, req.user!.id);
+      
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch supplier orders" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update supplier order" });
     }
   });
   
@@ -6041,9 +6717,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         images: imageUrls
       };
       
-      // Validate and create the message
+      // Validate and create the message in the pair's direct conversation
       const validated = insertMessageSchema.parse(messageData);
-      const message = await storage.createMessage(validated);
+      const conversation = await storage.getOrCreateDirectConversation(req.user!.id, receiverId);
+      const message = await storage.createMessage({ ...validated, conversationId: conversation.id });
+      await publishConversationMessage(message);
       
       // Add notification for the receiver with special handling for image messages
       await storage.createNotification({
@@ -6070,6 +6748,321 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ===== Material Reviews Routes =====
+  // Review photos are images only, and smaller than general uploads
+  const reviewPhotoUpload = multer({
+    storage: storageConfig,
+    fileFilter: (req, file, cb) => {
+      if (['image/jpeg', 'image/png', 'image/gif', 'image/webp'].includes(file.mimetype)) {
+        cb(null, true);
+      } else {
+        cb(new Error(`Invalid file type: ${file.mimetype}. Review photos must be images.`));
+      }
+    },
+    limits: {
+      fileSize: 5 * 1024 * 1024,
+    }
+  });
+
+  // Published reviews of a material - PUBLIC ENDPOINT
+  app.get("/api/materials/:id/reviews", async (req, res) => {
+    try {
+      const materialId = parseInt(req.params.id);
+      if (isNaN(materialId)) {
+        return res.status(400).json({ message: "Invalid material ID" });
+      }
+      
+      res.json(await storage.getMaterialReviews(materialId));
+    } catch (error) {
+      console.error("Error fetching material reviews:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+  
+  // Whether the user can review a material: clients can, once an order containing it is delivered
+  app.get("/api/materials/:id/reviews/eligibility", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const materialId = parseInt(req.params.id);
+      const review = await storage.getMaterialReviewByClient(materialId, req.user!.id) || null;
+      
+      let reason: string | null = null;
+      if (req.user!.role !== "client") {
+        reason = "Only clients can review materials";
+      } else if (review) {
+        reason = "You've already reviewed this material";
+      } else if (!await storage.getDeliveredOrderForMaterial(req.user!.id, materialId)) {
+        reason = "You can review this material once an order containing it has been delivered";
+      }
+      
+      const eligibility: MaterialReviewEligibility = { canReview: reason === null, reason, review };
+      res.json(eligibility);
+    } catch (error) {
+      console.error("Error checking review eligibility:", error);
+      res.status(500).json({ message: "Failed to check review eligibility" });
+    }
+  });
+  
+  // Checked before the photos are taken, so nobody else can write files to the uploads directory
+  app.post("/api/materials/:id/reviews", (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user!.role !== "client") {
+      return res.status(403).json({ message: "Only clients can review materials" });
+    }
+    next();
+  }, reviewPhotoUpload.array('photos', 5), async (req, res) => {
+    // Photos only stay if the review is saved
+    res.on('finish', () => {
+      if (res.statusCode !== 201) {
+        for (const file of (req.files as Express.Multer.File[]) || []) {
+          fs.promises.unlink(file.path).catch(error => console.error(`Error removing review photo ${file.path}:`, error));
+        }
+      }
+    });
+    
+    try {
+      const materialId = parseInt(req.params.id);
+      const material = await storage.getMaterial(materialId);
+      if (!material) {
+        return res.status(404).json({ message: "Material not found" });
+      }
+      
+      const { rating, supplierRating, comment } = submitMaterialReviewSchema.parse(req.body);
+      
+      const order = await storage.getDeliveredOrderForMaterial(req.user!.id, materialId);
+      if (!order) {
+        return res.status(403).json({ error: "You can review this material once an order containing it has been delivered" });
+      }
+      if (await storage.getMaterialReviewByClient(materialId, req.user!.id)) {
+        return res.status(409).json({ error: "You've already reviewed this material" });
+      }
+      
+      const files = (req.files as Express.Multer.File[]) || [];
+      const review = await storage.createMaterialReview({
+        materialId,
+        supplierId: material.supplierId,
+        clientId: req.user!.id,
+        orderId: order.id,
+        rating,
+        supplierRating: supplierRating ?? null,
+        comment: comment || null,
+        photos: files.map(file => `/uploads/${file.filename}`)
+      });
+      
+      // Let the supplier know so they can reply
+      const supplier = await storage.getSupplier(material.supplierId);
+      if (supplier) {
+        await storage.createNotification({
+          userId: supplier.userId,
+          title: "New Product Review",
+          message: `${material.name} received a ${rating}-star review`,
+          type: "review",
+          priority: "normal",
+          relatedItemId: review.id,
+          relatedItemType: "material_review",
+          emoji: "⭐",
+          actionUrl: `/materials/view/${materialId}`
+        });
+      }
+      
+      res.status(201).json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      // Another review from the client was saved since the check above
+      if (isUniqueViolation(error, "material_reviews_material_client")) {
+        return res.status(409).json({ error: "You've already reviewed this material" });
+      }
+      console.error("Error creating material review:", error);
+      res.status(500).json({ message: "Failed to submit review" });
+    }
+  });
+  
+  // The material's supplier can answer a review publicly; replying again replaces the answer
+  app.post("/api/material-reviews/:id/reply", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    if (req.user!.role !== "supplier") {
+      return res.status(403).json({ message: "Only suppliers can reply to reviews" });
+    }
+    
+    try {
+      const { reply } = materialReviewReplySchema.parse(req.body);
+      const review = await storage.getMaterialReview(parseInt(req.params.id));
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      
+      const suppliers = await storage.getAllSuppliers();
+      const supplier = suppliers.find(s => s.userId === req.user!.id);
+      if (!supplier || supplier.id !== review.supplierId) {
+        return res.status(403).json({ message: "You can only reply to reviews of your own products" });
+      }
+      
+      const updated = await storage.replyToMaterialReview(review.id, reply);
+      
+      await storage.createNotification({
+        userId: review.clientId,
+        title: "Supplier Replied to Your Review",
+        message: `${supplier.name} replied to your review`,
+        type: "review",
+        priority: "low",
+        relatedItemId: review.id,
+        relatedItemType: "material_review",
+        emoji: "💬",
+        actionUrl: `/materials/view/${review.materialId}`
+      });
+      
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error replying to review:", error);
+      res.status(500).json({ message: "Failed to reply to review" });
+    }
+  });
+  
+  // ===== Provider Reputation Routes =====
+  // Clients review the provider once their service request or project is completed
+  app.post("/api/provider-reviews", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    if (req.user!.role !== "client") {
+      return res.status(403).json({ message: "Only clients can review service providers" });
+    }
+    
+    try {
+      const { serviceRequestId, projectId, rating, comment } = submitProviderReviewSchema.parse(req.body);
+      
+      let serviceProviderId: number | null = null;
+      let jobTitle = "";
+      if (serviceRequestId) {
+        const request = await storage.getServiceRequest(serviceRequestId);
+        if (!request || request.clientId !== req.user!.id) {
+          return res.status(404).json({ message: "Service request not found" });
+        }
+        if (request.status !== "completed") {
+          return res.status(400).json({ error: "You can review the provider once the service request is completed" });
+        }
+        serviceProviderId = request.assignedServiceProviderId;
+        jobTitle = `your ${request.serviceType.replace(/_/g, " ")} request`;
+      } else if (projectId) {
+        const project = await storage.getProject(projectId);
+        if (!project || project.clientId !== req.user!.id) {
+          return res.status(404).json({ message: "Project not found" });
+        }
+        if (project.status !== "completed") {
+          return res.status(400).json({ error: "You can review the provider once the project is completed" });
+        }
+        serviceProviderId = project.companyId;
+        jobTitle = `"${project.name}"`;
+      }
+      
+      const provider = serviceProviderId ? await storage.getUser(serviceProviderId) : undefined;
+      if (!provider || provider.role !== "service_provider") {
+        return res.status(400).json({ error: "No service provider worked on this job" });
+      }
+      
+      const existing = await storage.getProviderReviewsByClient(req.user!.id);
+      if (existing.some(review => serviceRequestId ? review.serviceRequestId === serviceRequestId : review.projectId === projectId)) {
+        return res.status(409).json({ error: "You've already reviewed the provider for this job" });
+      }
+      
+      const review = await storage.createProviderReview({
+        serviceProviderId: provider.id,
+        clientId: req.user!.id,
+        serviceRequestId: serviceRequestId ?? null,
+        projectId: projectId ?? null,
+        rating,
+        comment: comment || null
+      });
+      
+      await storage.createNotification({
+        userId: provider.id,
+        title: "New Client Review",
+        message: `You received a ${rating}-star review for ${jobTitle}`,
+        type: "review",
+        priority: "normal",
+        relatedItemId: review.id,
+        relatedItemType: "provider_review",
+        emoji: "⭐",
+        actionUrl: `/service-providers/${provider.id}`
+      });
+      
+      res.status(201).json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      // Another review of the job from the client was saved since the check above
+      if (isUniqueViolation(error, "provider_reviews_service_request_client") || isUniqueViolation(error, "provider_reviews_project_client")) {
+        return res.status(409).json({ error: "You've already reviewed the provider for this job" });
+      }
+      console.error("Error creating provider review:", error);
+      res.status(500).json({ message: "Failed to submit review" });
+    }
+  });
+  
+  // The signed-in client's own provider reviews, so they know which jobs they've reviewed
+  app.get("/api/provider-reviews/mine", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      res.json(await storage.getProviderReviewsByClient(req.user!.id));
+    } catch (error) {
+      console.error("Error fetching provider reviews:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+  
+  app.get("/api/service-providers/:id/profile", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const provider = await storage.getUser(parseInt(req.params.id));
+      if (!provider || provider.role !== "service_provider") {
+        return res.status(404).json({ message: "Service provider not found" });
+      }
+      
+      const [scorecard, reviews] = await Promise.all([
+        getProviderScorecard(provider.id),
+        storage.getProviderReviews(provider.id)
+      ]);
+      
+      const profile: ServiceProviderProfile = {
+        provider: {
+          id: provider.id,
+          fullName: provider.fullName,
+          businessName: provider.businessName,
+          serviceType: provider.serviceType,
+          bio: provider.bio,
+          verificationStatus: provider.verificationStatus,
+          createdAt: provider.createdAt
+        },
+        scorecard,
+        reviews
+      };
+      res.json(profile);
+    } catch (error) {
+      console.error("Error fetching service provider profile:", error);
+      res.status(500).json({ message: "Failed to fetch service provider profile" });
+    }
+  });
+  
+  app.get("/api/service-providers/:id/scorecard", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      res.json(await getProviderScorecard(parseInt(req.params.id)));
+    } catch (error) {
+      console.error("Error fetching provider scorecard:", error);
+      res.status(500).json({ message: "Failed to fetch provider scorecard" });
+    }
+  });
+
   // Test upload endpoint that doesn't require authentication
   app.post('/api/test-upload', upload.single('file'), (req, res) => {
     console.log('Test upload request received:', req.body);
@@ -6157,30 +7150,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // GET endpoint for project documents
-  app.get('/api/projects/:projectId/documents', async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get('/api/projects/:projectId/documents', requireProjectPermission('view_project'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     
-    if (isNaN(projectId)) {
-      return res.status(400).json({ message: 'Invalid project ID' });
-    }
-    
     try {
-      // Get the project
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      // Check permission
-      const isClient = req.user.id === project.clientId;
-      const isTeamMember = project.teamMembers && Array.isArray(project.teamMembers) && 
-        project.teamMembers.some((member: any) => member.userId === req.user.id);
-      
-      if (!isClient && !isTeamMember && req.user.role !== "admin") {
-        return res.status(403).json({ message: 'You do not have permission to view documents for this project' });
-      }
+      const project: Project = res.locals.project;
       
       // Format documents for frontend with necessary IDs
       const attachments = Array.isArray(project.attachments) ? project.attachments : [];
@@ -6190,7 +7164,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type: doc.type || 'document',
         url: doc.url,
         projectId: projectId,
-        uploadedBy: doc.uploadedBy?.userId || req.user.id,
+        uploadedBy: doc.uploadedBy?.userId || req.user!.id,
         createdAt: doc.uploadedAt || new Date().toISOString()
       }));
       
@@ -6202,38 +7176,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Project-specific file upload endpoint (for building plans and documents)
-  app.post('/api/projects/:projectId/documents', upload.single('file'), async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.post('/api/projects/:projectId/documents', requireProjectPermission('upload_documents'), upload.single('file'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     
-    // Make sure projectId is valid
-    if (isNaN(projectId)) {
-      return res.status(400).json({ message: 'Invalid project ID' });
-    }
-    
     try {
       if (!req.file) {
         return res.status(400).json({ message: 'No file uploaded' });
       }
       
-      // Get the project to check permissions
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      // Allow upload if user is the client or on the project team with contractor or project_manager role
-      const isClient = req.user.id === project.clientId;
-      const isTeamMember = project.teamMembers && Array.isArray(project.teamMembers) && 
-        project.teamMembers.some((member: any) => 
-          member.userId === req.user.id && 
-          (member.role === "contractor" || member.role === "project_manager")
-        );
-        
-      if (!isClient && !isTeamMember && req.user.role !== "admin") {
-        return res.status(403).json({ message: 'You do not have permission to upload documents to this project' });
-      }
+      const project: Project = res.locals.project;
+      const isClient = req.user!.id === project.clientId;
 
       // Use relative URL instead of full URL with domain
       const url = `/uploads/${req.file.filename}`;
@@ -6249,8 +7201,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type: documentType,
         size: req.file.size,
         uploadedBy: {
-          userId: req.user.id,
-          username: req.user.username,
+          userId: req.user!.id,
+          username: req.user!.username,
           role: isClient ? "client" : "team"
         },
         uploadedAt: new Date().toISOString()
@@ -6282,7 +7234,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Mobile-friendly video upload endpoint
-  app.post('/api/projects/:projectId/video-upload', (req, res, next) => {
+  app.post('/api/projects/:projectId/video-upload', requireProjectPermission('upload_media'), (req, res, next) => {
     console.log('📱 VIDEO UPLOAD ENDPOINT HIT');
     console.log('- Headers:', Object.keys(req.headers));
     console.log('- Content Type:', req.headers['content-type']);
@@ -6391,7 +7343,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Mobile-friendly image upload endpoint for better iOS testing
-  app.post('/api/projects/:projectId/mobile-upload', (req, res, next) => {
+  app.post('/api/projects/:projectId/mobile-upload', requireProjectPermission('upload_media'), (req, res, next) => {
     console.log('📱 MOBILE UPLOAD ENDPOINT HIT');
     console.log('- Headers:', Object.keys(req.headers));
     console.log('- Content Type:', req.headers['content-type']);
@@ -6510,7 +7462,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Project image upload endpoint
-  app.post('/api/projects/:projectId/images', (req, res, next) => {
+  app.post('/api/projects/:projectId/images', requireProjectPermission('upload_media'), (req, res, next) => {
     // Debug middleware to log request details before multer processes it
     console.log('📷 IMAGE UPLOAD REQUEST RECEIVED:');
     console.log('- Headers:', Object.keys(req.headers));
@@ -6520,20 +7472,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Continue to multer middleware
     next();
   }, upload.single('image'), async (req, res) => {
-    if (!req.isAuthenticated()) {
-      console.log('User not authenticated for upload');
-      return res.sendStatus(401);
-    }
-    
-    console.log('Authenticated user for upload:', req.user.username, req.user.id);
+    console.log('Authenticated user for upload:', req.user!.username, req.user!.id);
     const projectId = parseInt(req.params.projectId);
     
-    // Make sure projectId is valid
-    if (isNaN(projectId)) {
-      console.log('Invalid project ID:', req.params.projectId);
-      return res.status(400).json({ message: 'Invalid project ID' });
-    }
-    
     try {
       if (!req.file) {
         console.error('No file in request:', req.body);
@@ -6557,25 +7498,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Uploaded file is not an image' });
       }
       
-      // Get the project to check permissions
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        console.log('Project not found:', projectId);
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      // Allow upload if user is the client or contractor
-      const isClient = req.user.id === project.clientId;
-      const isContractor = project.teamMembers && Array.isArray(project.teamMembers) && 
-        project.teamMembers.some((member: any) => 
-          member.userId === req.user.id && member.role === "contractor"
-        );
-        
-      if (!isClient && !isContractor && req.user.role !== "admin") {
-        console.log('Permission denied for upload. User role:', req.user.role);
-        return res.status(403).json({ message: 'Only the client or contractor can upload project images' });
-      }
+      const project: Project = res.locals.project;
+      const isClient = req.user!.id === project.clientId;
 
       console.log('🖼️ File saved at:', req.file.path);
       
@@ -6600,8 +7524,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         size: req.file.size,
         isMainImage: !project.mainImage, // Make it the main image if no main image exists
         uploadedBy: {
-          userId: req.user.id,
-          username: req.user.username,
+          userId: req.user!.id,
+          username: req.user!.username,
           role: isClient ? "client" : "contractor"
         },
         uploadedAt: new Date().toISOString(),
@@ -6637,37 +7561,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Update project main image
-  app.put('/api/projects/:projectId/main-image', async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.put('/api/projects/:projectId/main-image', requireProjectPermission('upload_media'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     const { imageIndex } = req.body;
     
-    if (isNaN(projectId)) {
-      return res.status(400).json({ message: 'Invalid project ID' });
-    }
-    
     if (imageIndex === undefined) {
       return res.status(400).json({ message: 'Image index is required' });
     }
     
     try {
-      // Get the project to check permissions
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      // Allow change if user is the client or contractor
-      const isClient = req.user.id === project.clientId;
-      const isContractor = project.teamMembers && Array.isArray(project.teamMembers) && 
-        project.teamMembers.some((member: any) => 
-          member.userId === req.user.id && member.role === "contractor"
-        );
-        
-      if (!isClient && !isContractor && req.user.role !== "admin") {
-        return res.status(403).json({ message: 'Only the client or contractor can change the main project image' });
-      }
+      const project: Project = res.locals.project;
       
       const additionalImages = Array.isArray(project.additionalImages) ? project.additionalImages : [];
       
@@ -6720,34 +7623,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Delete project image
-  app.delete('/api/projects/:projectId/images/:imageIndex', async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.delete('/api/projects/:projectId/images/:imageIndex', requireProjectPermission('upload_media'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     const imageIndex = parseInt(req.params.imageIndex);
     const isMainImage = req.query.isMainImage === 'true';
     
-    if (isNaN(projectId) || isNaN(imageIndex)) {
-      return res.status(400).json({ message: 'Invalid project ID or image index' });
+    if (isNaN(imageIndex)) {
+      return res.status(400).json({ message: 'Invalid image index' });
     }
     
     try {
-      // Get the project to check permissions
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      // Allow deletion if user is the client or contractor
-      const isClient = req.user.id === project.clientId;
-      const isContractor = project.teamMembers && Array.isArray(project.teamMembers) && 
-        project.teamMembers.some((member: any) => 
-          member.userId === req.user.id && member.role === "contractor"
-        );
-        
-      if (!isClient && !isContractor && req.user.role !== "admin") {
-        return res.status(403).json({ message: 'Only the client or contractor can delete project images' });
-      }
+      const project: Project = res.locals.project;
       
       if (isMainImage) {
         // Remove main image
@@ -6786,16 +7672,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Add comment to project image
-  app.post('/api/projects/:projectId/images/:imageId/comments', async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.post('/api/projects/:projectId/images/:imageId/comments', requireProjectPermission('comment'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     const imageId = parseInt(req.params.imageId);
     const { comment } = req.body;
     
-    if (isNaN(projectId)) {
-      return res.status(400).json({ message: 'Invalid project ID' });
-    }
-    
     if (isNaN(imageId)) {
       return res.status(400).json({ message: 'Invalid image ID' });
     }
@@ -6805,21 +7686,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     try {
-      // Get the project
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      // Check if user is a team member or client for this project
-      const isClient = req.user.id === project.clientId;
-      const isTeamMember = project.teamMembers && Array.isArray(project.teamMembers) && 
-        project.teamMembers.some((member: any) => member.userId === req.user.id);
-        
-      if (!isClient && !isTeamMember && req.user.role !== "admin") {
-        return res.status(403).json({ message: 'You do not have permission to comment on this project' });
-      }
+      const project: Project = res.locals.project;
       
       // Find the image
       let imageFound = false;
@@ -6828,9 +7695,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Prepare the comment object
       const newComment = {
         id: Date.now(),
-        userId: req.user.id,
-        username: req.user.username,
-        role: req.user.role,
+        userId: req.user!.id,
+        username: req.user!.username,
+        role: req.user!.role,
         text: comment.trim(),
         timestamp: new Date().toISOString()
       };
@@ -6887,12 +7754,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Notify the image uploader if it's not the commenter
       if (project.mainImage && project.mainImage.id === imageId && 
           project.mainImage.uploadedBy && 
-          project.mainImage.uploadedBy.userId !== req.user.id) {
+          project.mainImage.uploadedBy.userId !== req.user!.id) {
         // Generate notification for main image owner
         await storage.createNotification({
           userId: project.mainImage.uploadedBy.userId,
           title: "New Comment on Your Project Image",
-          message: `${req.user.username} commented on your image: "${comment.length > 20 ? comment.substring(0, 20) + '...' : comment}"`,
+          message: `${req.user!.username} commented on your image: "${comment.length > 20 ? comment.substring(0, 20) + '...' : comment}"`,
           type: "comment",
           priority: "normal", 
           relatedItemId: projectId,
@@ -6905,12 +7772,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         for (const img of project.additionalImages) {
           if (img.id === imageId && 
               img.uploadedBy && 
-              img.uploadedBy.userId !== req.user.id) {
+              img.uploadedBy.userId !== req.user!.id) {
             // Generate notification for additional image owner
             await storage.createNotification({
               userId: img.uploadedBy.userId,
               title: "New Comment on Your Project Image",
-              message: `${req.user.username} commented on your image: "${comment.length > 20 ? comment.substring(0, 20) + '...' : comment}"`,
+              message: `${req.user!.username} commented on your image: "${comment.length > 20 ? comment.substring(0, 20) + '...' : comment}"`,
               type: "comment",
               priority: "normal",
               relatedItemId: projectId,
@@ -6934,171 +7801,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Site reports
-  app.get('/api/projects/:projectId/reports', async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get('/api/projects/:projectId/reports', requireProjectPermission('view_project'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     
-    if (isNaN(projectId)) {
-      return res.status(400).json({ message: 'Invalid project ID' });
-    }
-    
     try {
-      // Get the project to check permissions
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      // Check if user is a team member, client, or admin for this project
-      const isClient = req.user.id === project.clientId;
-      const isTeamMember = project.teamMembers && Array.isArray(project.teamMembers) && 
-        project.teamMembers.some((member: any) => member.userId === req.user.id);
-        
-      if (!isClient && !isTeamMember && req.user.role !== "admin") {
-        return res.status(403).json({ message: 'You do not have permission to view reports for this project' });
-      }
-      
-      // Get reports from storage
-      const reports = project.siteReports || [];
-      
-      res.json(reports);
+      const filters = siteReportFiltersSchema.parse(req.query);
+      res.json(await storage.getSiteReports(projectId, filters));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
       console.error('Get site reports error:', error);
       res.status(500).json({ message: 'Failed to get site reports' });
     }
   });
   
-  app.post('/api/projects/:projectId/reports', async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get('/api/projects/:projectId/reports/:reportId', requireProjectPermission('view_project'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
-    const { 
-      title, 
-      description, 
-      date, 
-      type, 
-      weather, 
-      workforcePresent, 
-      materialsUsed, 
-      equipmentUsed, 
-      progressMade, 
-      challenges, 
-      actions, 
-      safetyIncidents, 
-      photos 
-    } = req.body;
-    
-    if (isNaN(projectId)) {
-      return res.status(400).json({ message: 'Invalid project ID' });
-    }
+    const reportId = parseInt(req.params.reportId);
     
-    if (!title || !description) {
-      return res.status(400).json({ message: 'Title and description are required' });
+    if (isNaN(reportId)) {
+      return res.status(400).json({ message: 'Invalid report ID' });
     }
     
     try {
-      // Get the project to check permissions
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      // Check if user is a team member with contractor role, project manager, or admin
-      const isTeamMember = project.teamMembers && Array.isArray(project.teamMembers) && 
-        project.teamMembers.some((member: any) => 
-          member.userId === req.user.id && 
-          (member.role === "contractor" || member.role === "project_manager" || member.role === "inspector")
-        );
-        
-      if (!isTeamMember && req.user.role !== "admin") {
-        return res.status(403).json({ message: 'Only contractors, project managers, and inspectors can create site reports' });
+      const report = await storage.getSiteReport(reportId);
+      if (!report || report.projectId !== projectId) {
+        return res.status(404).json({ message: 'Report not found' });
       }
       
-      // Generate a new report
-      const newReport = {
-        id: Date.now(),
-        title,
-        description,
-        date: date || new Date().toISOString(),
-        type: type || "general",
-        weather: weather || null,
-        workforcePresent: workforcePresent || null,
-        materialsUsed: materialsUsed || null,
-        equipmentUsed: equipmentUsed || null,
-        progressMade: progressMade || null,
-        challenges: challenges || null,
-        actions: actions || null,
-        safetyIncidents: safetyIncidents || null,
-        photos: photos || [],
-        createdBy: {
-          userId: req.user.id,
-          username: req.user.username,
-          role: req.user.role
-        },
-        createdAt: new Date().toISOString(),
-        comments: []
-      };
+      res.json(report);
+    } catch (error) {
+      console.error('Get site report error:', error);
+      res.status(500).json({ message: 'Failed to get site report' });
+    }
+  });
+  
+  app.post('/api/projects/:projectId/reports', requireProjectPermission('submit_reports'), async (req, res) => {
+    const projectId = parseInt(req.params.projectId);
+    
+    try {
+      const project: Project = res.locals.project;
+      const fields = createSiteReportSchema.parse(req.body);
       
-      // Add the report to the project
-      const existingReports = Array.isArray(project.siteReports) ? project.siteReports : [];
-      const updatedProject = await storage.updateProject(projectId, {
-        ...project,
-        siteReports: [...existingReports, newReport]
+      const created = await storage.createSiteReport({
+        ...fields,
+        projectId,
+        authorId: req.user!.id
       });
       
       // Notify the client
-      if (project.clientId !== req.user.id) {
+      if (project.clientId !== req.user!.id) {
         await storage.createNotification({
           userId: project.clientId,
           title: "New Site Report",
-          message: `A new site report "${title}" has been added to your project`,
+          message: `A new site report "${created.title}" has been added to your project`,
           type: "project",
-          priority: "normal",
+          priority: fields.safetyIncidents ? "high" : "normal",
           relatedItemId: projectId,
           relatedItemType: "project_report",
           emoji: "📋",
-          actionUrl: `/projects/${projectId}`
+          actionUrl: `/projects/${projectId}/reports`
         });
       }
       
       // Notify other team members
-      if (project.teamMembers && Array.isArray(project.teamMembers)) {
-        for (const member of project.teamMembers) {
-          if (member.userId !== req.user.id) {
-            await storage.createNotification({
-              userId: member.userId,
-              title: "New Site Report",
-              message: `A new site report "${title}" has been added by ${req.user.username}`,
-              type: "project",
-              priority: "normal",
-              relatedItemId: projectId,
-              relatedItemType: "project_report",
-              emoji: "📋",
-              actionUrl: `/projects/${projectId}`
-            });
-          }
+      for (const member of await storage.getProjectMembers(projectId)) {
+        if (member.userId !== req.user!.id) {
+          await storage.createNotification({
+            userId: member.userId,
+            title: "New Site Report",
+            message: `A new site report "${created.title}" has been added by ${req.user!.username}`,
+            type: "project",
+            priority: "normal",
+            relatedItemId: projectId,
+            relatedItemType: "project_report",
+            emoji: "📋",
+            actionUrl: `/projects/${projectId}/reports`
+          });
         }
       }
       
       res.status(201).json({
         message: 'Site report created successfully',
-        report: newReport
+        report: await storage.getSiteReport(created.id)
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
       console.error('Create site report error:', error);
       res.status(500).json({ message: 'Failed to create site report' });
     }
   });
   
-  app.post('/api/projects/:projectId/reports/:reportId/comments', async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.post('/api/projects/:projectId/reports/:reportId/comments', requireProjectPermission('comment'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     const reportId = parseInt(req.params.reportId);
     const { comment } = req.body;
     
-    if (isNaN(projectId) || isNaN(reportId)) {
-      return res.status(400).json({ message: 'Invalid project ID or report ID' });
+    if (isNaN(reportId)) {
+      return res.status(400).json({ message: 'Invalid report ID' });
     }
     
     if (!comment || typeof comment !== 'string' || comment.trim() === '') {
@@ -7106,84 +7909,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     try {
-      // Get the project
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      // Check if user is a team member, client, or admin for this project
-      const isClient = req.user.id === project.clientId;
-      const isTeamMember = project.teamMembers && Array.isArray(project.teamMembers) && 
-        project.teamMembers.some((member: any) => member.userId === req.user.id);
-        
-      if (!isClient && !isTeamMember && req.user.role !== "admin") {
-        return res.status(403).json({ message: 'You do not have permission to comment on this report' });
-      }
-      
-      // Find the report
-      let reportFound = false;
-      let updatedProject = { ...project };
-      
-      if (!project.siteReports || !Array.isArray(project.siteReports)) {
-        return res.status(404).json({ message: 'No reports found for this project' });
-      }
-      
-      const reports = [...project.siteReports];
-      
-      for (let i = 0; i < reports.length; i++) {
-        if (reports[i].id === reportId) {
-          reportFound = true;
-          
-          // Create new comment
-          const newComment = {
-            id: Date.now(),
-            userId: req.user.id,
-            username: req.user.username,
-            role: req.user.role,
-            text: comment.trim(),
-            timestamp: new Date().toISOString()
-          };
-          
-          // Add comment to report
-          const comments = Array.isArray(reports[i].comments) ? [...reports[i].comments, newComment] : [newComment];
-          
-          reports[i] = {
-            ...reports[i],
-            comments
-          };
-          
-          break;
-        }
-      }
-      
-      if (!reportFound) {
+      const report = await storage.getSiteReport(reportId);
+      if (!report || report.projectId !== projectId) {
         return res.status(404).json({ message: 'Report not found' });
       }
       
-      // Update project with new report comments
-      updatedProject.siteReports = reports;
-      await storage.updateProject(projectId, updatedProject);
+      const created = await storage.addSiteReportComment({
+        reportId,
+        userId: req.user!.id,
+        text: comment.trim()
+      });
       
-      // Notify the report creator if it's not the commenter
-      const report = reports.find(r => r.id === reportId);
-      if (report && report.createdBy && report.createdBy.userId !== req.user.id) {
+      // Notify the report author if it's not the commenter
+      if (report.authorId !== req.user!.id) {
         await storage.createNotification({
-          userId: report.createdBy.userId,
+          userId: report.authorId,
           title: "New Comment on Your Site Report",
-          message: `${req.user.username} commented on your report: "${comment.length > 20 ? comment.substring(0, 20) + '...' : comment}"`,
+          message: `${req.user!.username} commented on your report: "${comment.length > 20 ? comment.substring(0, 20) + '...' : comment}"`,
           type: "comment",
           priority: "normal",
           relatedItemId: projectId,
           relatedItemType: "project_report",
           emoji: "💬",
-          actionUrl: `/projects/${projectId}`
+          actionUrl: `/projects/${projectId}/reports`
         });
       }
       
       res.status(201).json({
-        message: 'Comment added successfully'
+        message: 'Comment added successfully',
+        comment: created
       });
     } catch (error) {
       console.error('Add report comment error:', error);
@@ -7191,64 +7945,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Project PDF report. The financial section is dropped for users who can't see the project's finances.
+  const getPermittedReportOptions = (query: unknown, access: ProjectAccess): ProjectReportOptions => {
+    const options = projectReportOptionsSchema.parse(query);
+    if (!access.permissions.includes('view_financials')) {
+      options.sections = options.sections.filter(section => section !== 'financial');
+    }
+    return options;
+  };
+
+  app.get('/api/projects/:projectId/report/pdf', requireProjectPermission('view_project'), async (req, res) => {
+    try {
+      const project: Project = res.locals.project;
+      const options = getPermittedReportOptions(req.query, res.locals.projectAccess);
+      const pdf = await generateProjectReportPdf(project, options);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${getProjectReportFileName(project)}"`);
+      res.setHeader('Content-Length', pdf.length);
+      res.send(pdf);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error('Generate project report error:', error);
+      res.status(500).json({ message: 'Failed to generate project report' });
+    }
+  });
+
+  // Emails the same report to the signed-in user, for clients following a project from abroad
+  app.post('/api/projects/:projectId/report/email', requireProjectPermission('view_project'), async (req, res) => {
+    try {
+      const project: Project = res.locals.project;
+      const options = getPermittedReportOptions(req.body, res.locals.projectAccess);
+      const pdf = await generateProjectReportPdf(project, options);
+
+      const emailService = await import('./services/email');
+      await emailService.sendProjectReportEmail(req.user!.email, project.name, getProjectReportFileName(project), pdf);
+
+      res.json({ message: `Report sent to ${req.user!.email}` });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error('Email project report error:', error);
+      res.status(500).json({ message: 'Failed to email project report' });
+    }
+  });
+
   // Project expenses API endpoints
-  app.get('/api/projects/:projectId/expenses', async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get('/api/projects/:projectId/expenses', requireProjectPermission('view_financials'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     
-    if (isNaN(projectId)) {
-      return res.status(400).json({ message: 'Invalid project ID' });
-    }
-    
     try {
       console.log(`Fetching expenses for project ${projectId}`);
       
       // Use direct database connection to avoid any ORM issues
       const { pool } = await import('./db');
       
-      // Fetch project with direct SQL
-      const projectResult = await pool.query(
-        `SELECT * FROM projects WHERE id = $1`,
-        [projectId]
-      );
-      
-      if (projectResult.rows.length === 0) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      
-      const project = projectResult.rows[0];
-      
-      // Check if user is the client, team member, or admin
-      const isClient = req.user.id === project.client_id;
-      
-      // Parse team members
-      let teamMembers = [];
-      if (project.team_members) {
-        if (typeof project.team_members === 'string') {
-          try {
-            teamMembers = JSON.parse(project.team_members);
-          } catch (e) {
-            console.error("Error parsing team members:", e);
-            teamMembers = [];
-          }
-        } else {
-          teamMembers = project.team_members;
-        }
-      }
-      
-      // Ensure teamMembers is an array
-      if (!Array.isArray(teamMembers)) {
-        teamMembers = Object.values(teamMembers || {});
-      }
-      
-      const isTeamMember = teamMembers.some((member: any) => 
-        member && typeof member === 'object' && member.userId === req.user.id
-      );
-      
-      if (!isClient && !isTeamMember && req.user.role !== "admin") {
-        return res.status(403).json({ message: 'You do not have permission to view expenses for this project' });
-      }
-      
       // Query expenses from project_expenses table
       const expensesResult = await pool.query(
         `SELECT pe.*, u.username as added_by_username 
@@ -7295,8 +8049,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post('/api/projects/:projectId/expenses', async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.post('/api/projects/:projectId/expenses', requireProjectPermission('record_expenses'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     const { 
       title, 
@@ -7310,10 +8063,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       invoiceNumber 
     } = req.body;
     
-    if (isNaN(projectId)) {
-      return res.status(400).json({ message: 'Invalid project ID' });
-    }
-    
     if (!title || typeof amount !== 'number' || amount <= 0) {
       return res.status(400).json({ message: 'Title and a valid amount are required' });
     }
@@ -7324,49 +8073,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Use direct database connection to avoid any ORM issues
       const { pool } = await import('./db');
       
-      // Get the project to check permissions
-      const projectResult = await pool.query(
-        `SELECT * FROM projects WHERE id = $1`,
-        [projectId]
-      );
-      
-      if (projectResult.rows.length === 0) {
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      const project = projectResult.rows[0];
-      
-      // Check if user is the client, admin, or has appropriate team role
-      const isClient = req.user.id === project.client_id;
-      
-      // Parse team members
-      let teamMembers = [];
-      if (project.team_members) {
-        if (typeof project.team_members === 'string') {
-          try {
-            teamMembers = JSON.parse(project.team_members);
-          } catch (e) {
-            console.error("Error parsing team members:", e);
-            teamMembers = [];
-          }
-        } else {
-          teamMembers = project.team_members;
-        }
-      }
-      
-      // Ensure teamMembers is an array
-      if (!Array.isArray(teamMembers)) {
-        teamMembers = Object.values(teamMembers || {});
-      }
+      const project: Project = res.locals.project;
+      const isClient = req.user!.id === project.clientId;
       
-      const isTeamMember = teamMembers.some((member: any) => 
-        member && typeof member === 'object' && member.userId === req.user.id &&
-        (member.role === "contractor" || member.role === "project_manager")
-      );
-        
-      if (!isClient && !isTeamMember && req.user.role !== "admin") {
-        return res.status(403).json({ message: 'Only the client, contractor, or project manager can record expenses' });
-      }
+      const teamMembers = await storage.getProjectMembers(projectId);
       
       // Insert into the project_expenses table
       const insertResult = await pool.query(
@@ -7396,7 +8106,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           vendor || null,
           invoiceNumber || null,
           receiptImage || null,
-          req.user.id
+          req.user!.id
         ]
       );
       
@@ -7409,7 +8119,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create notifications for team members and client using direct SQL
       // First, create notifications for team members
       for (const member of teamMembers) {
-        if (member.userId !== req.user.id) {
+        if (member.userId !== req.user!.id) {
           await pool.query(
             `INSERT INTO notifications 
              (user_id, title, message, type, priority, emoji, related_item_id, related_item_type, action_url) 
@@ -7417,7 +8127,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             [
               member.userId,
               "New Project Expense",
-              `A new expense of ${amount.toLocaleString('en-US', { style: 'currency', currency: 'GHS', currencyDisplay: 'symbol' })} was recorded by ${req.user.username}`,
+              `A new expense of ${amount.toLocaleString('en-US', { style: 'currency', currency: 'GHS', currencyDisplay: 'symbol' })} was recorded by ${req.user!.username}`,
               "expense",
               "normal",
               "💰",
@@ -7430,15 +8140,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Notify client if they're not the one adding the expense
-      if (!isClient && project.client_id !== req.user.id) {
+      if (!isClient) {
         await pool.query(
           `INSERT INTO notifications 
            (user_id, title, message, type, priority, emoji, related_item_id, related_item_type, action_url) 
            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
           [
-            project.client_id,
+            project.clientId,
             "New Project Expense",
-            `A new expense of ${amount.toLocaleString('en-US', { style: 'currency', currency: 'GHS', currencyDisplay: 'symbol' })} was recorded by ${req.user.username}`,
+            `A new expense of ${amount.toLocaleString('en-US', { style: 'currency', currency: 'GHS', currencyDisplay: 'symbol' })} was recorded by ${req.user!.username}`,
             "expense",
             "high",
             "💰",
@@ -7464,13 +8174,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put('/api/projects/:projectId/expenses/:expenseId/approve', async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.put('/api/projects/:projectId/expenses/:expenseId/approve', requireProjectPermission('approve_expenses'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     const expenseId = parseInt(req.params.expenseId);
     
-    if (isNaN(projectId) || isNaN(expenseId)) {
-      return res.status(400).json({ message: 'Invalid project ID or expense ID' });
+    if (isNaN(expenseId)) {
+      return res.status(400).json({ message: 'Invalid expense ID' });
     }
     
     try {
@@ -7479,25 +8188,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Use direct database connection to avoid any ORM issues
       const { pool } = await import('./db');
       
-      // Get the project with direct SQL
-      const projectResult = await pool.query(
-        `SELECT * FROM projects WHERE id = $1`,
-        [projectId]
-      );
-      
-      if (projectResult.rows.length === 0) {
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      const project = projectResult.rows[0];
-      
-      // Only client or admin can approve expenses
-      const isClient = req.user.id === project.client_id;
-      
-      if (!isClient && req.user.role !== "admin") {
-        return res.status(403).json({ message: 'Only the client or admin can approve expenses' });
-      }
-      
       // Get the expense from the database
       const expenseResult = await pool.query(
         `SELECT pe.*, u.username as added_by_username 
@@ -7529,7 +8219,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
              approved_at = NOW()
          WHERE id = $2 AND project_id = $3
          RETURNING *`,
-        [req.user.id, expenseId, projectId]
+        [req.user!.id, expenseId, projectId]
       );
       
       if (updateResult.rows.length === 0) {
@@ -7542,7 +8232,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`Successfully approved expense ${expenseId}`);
       
       // Notify the expense recorder about approval using direct SQL
-      if (expenseRecordedByUserId && expenseRecordedByUserId !== req.user.id) {
+      if (expenseRecordedByUserId && expenseRecordedByUserId !== req.user!.id) {
         await pool.query(
           `INSERT INTO notifications 
            (user_id, title, message, type, priority, emoji, related_item_id, related_item_type, action_url) 
@@ -7550,7 +8240,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           [
             expenseRecordedByUserId,
             "Expense Approved",
-            `Your expense "${expenseTitle}" has been approved by ${req.user.username}`,
+            `Your expense "${expenseTitle}" has been approved by ${req.user!.username}`,
             "expense",
             "normal",
             "✅",
@@ -7576,13 +8266,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Reject expense endpoint
-  app.put('/api/projects/:projectId/expenses/:expenseId/reject', async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.put('/api/projects/:projectId/expenses/:expenseId/reject', requireProjectPermission('approve_expenses'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     const expenseId = parseInt(req.params.expenseId);
     
-    if (isNaN(projectId) || isNaN(expenseId)) {
-      return res.status(400).json({ message: 'Invalid project ID or expense ID' });
+    if (isNaN(expenseId)) {
+      return res.status(400).json({ message: 'Invalid expense ID' });
     }
     
     try {
@@ -7591,25 +8280,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Use direct database connection to avoid any ORM issues
       const { pool } = await import('./db');
       
-      // Get the project with direct SQL
-      const projectResult = await pool.query(
-        `SELECT * FROM projects WHERE id = $1`,
-        [projectId]
-      );
-      
-      if (projectResult.rows.length === 0) {
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      const project = projectResult.rows[0];
-      
-      // Only client or admin can reject expenses
-      const isClient = req.user.id === project.client_id;
-      
-      if (!isClient && req.user.role !== "admin") {
-        return res.status(403).json({ message: 'Only the client or admin can reject expenses' });
-      }
-      
       // Get the expense from the database
       const expenseResult = await pool.query(
         `SELECT pe.*, u.username as added_by_username 
@@ -7643,7 +8313,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
              rejected_at = NOW()
          WHERE id = $2 AND project_id = $3
          RETURNING *`,
-        [req.user.id, expenseId, projectId]
+        [req.user!.id, expenseId, projectId]
       );
       
       if (updateResult.rows.length === 0) {
@@ -7656,7 +8326,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`Successfully rejected expense ${expenseId}`);
       
       // Notify the expense recorder about rejection using direct SQL
-      if (expenseRecordedByUserId && expenseRecordedByUserId !== req.user.id) {
+      if (expenseRecordedByUserId && expenseRecordedByUserId !== req.user!.id) {
         await pool.query(
           `INSERT INTO notifications 
            (user_id, title, message, type, priority, emoji, related_item_id, related_item_type, action_url) 
@@ -7664,7 +8334,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           [
             expenseRecordedByUserId,
             "Expense Rejected",
-            `Your expense "${expenseTitle}" has been rejected by ${req.user.username}`,
+            `Your expense "${expenseTitle}" has been rejected by ${req.user!.username}`,
             "expense",
             "high",
             "❌",
@@ -7689,13 +8359,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete('/api/projects/:projectId/expenses/:expenseId', async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.delete('/api/projects/:projectId/expenses/:expenseId', requireProjectPermission('view_financials'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     const expenseId = parseInt(req.params.expenseId);
     
-    if (isNaN(projectId) || isNaN(expenseId)) {
-      return res.status(400).json({ message: 'Invalid project ID or expense ID' });
+    if (isNaN(expenseId)) {
+      return res.status(400).json({ message: 'Invalid expense ID' });
     }
     
     try {
@@ -7704,20 +8373,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Use direct database connection to avoid any ORM issues
       const { pool } = await import('./db');
       
-      // Get the project with direct SQL
-      const projectResult = await pool.query(
-        `SELECT * FROM projects WHERE id = $1`,
-        [projectId]
-      );
-      
-      if (projectResult.rows.length === 0) {
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      const project = projectResult.rows[0];
-      
-      // Check if user is the client or admin
-      const isClient = req.user.id === project.client_id;
+      const project: Project = res.locals.project;
+      const isClient = req.user!.id === project.clientId;
+      const { permissions }: ProjectAccess = res.locals.projectAccess;
       
       // Get the expense to delete from the database
       const expenseResult = await pool.query(
@@ -7734,10 +8392,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const expense = expenseResult.rows[0];
       
-      // Check permissions
-      const isRecorder = expense.added_by === req.user.id;
+      // Whoever recorded an expense can take it back; otherwise it takes someone who can approve expenses
+      const isRecorder = expense.added_by === req.user!.id;
       
-      if (!isClient && !isRecorder && req.user.role !== "admin") {
+      if (!isRecorder && !permissions.includes('approve_expenses')) {
         return res.status(403).json({ message: 'You do not have permission to delete this expense' });
       }
       
@@ -7789,9 +8447,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
            (user_id, title, message, type, priority, emoji, related_item_id, related_item_type, action_url) 
            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
           [
-            project.client_id,
+            project.clientId,
             "Expense Deleted",
-            `An expense "${expenseTitle}" was deleted by ${req.user.username}`,
+            `An expense "${expenseTitle}" was deleted by ${req.user!.username}`,
             "expense",
             "normal",
             "🗑️",
@@ -7801,7 +8459,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ]
         );
         
-        console.log(`Sent deletion notification to client ${project.client_id}`);
+        console.log(`Sent deletion notification to client ${project.clientId}`);
       }
       
       res.status(200).json({
@@ -7817,15 +8475,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update project location
-  app.put('/api/projects/:projectId/location', async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.put('/api/projects/:projectId/location', requireProjectPermission('edit_project'), async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     const { location, coordinates } = req.body;
     
-    if (isNaN(projectId)) {
-      return res.status(400).json({ message: 'Invalid project ID' });
-    }
-    
     if (!location || !coordinates || !coordinates.lat || !coordinates.lng) {
       return res.status(400).json({ 
         message: 'Location and coordinates are required. Coordinates must include lat and lng values.' 
@@ -7833,23 +8486,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     try {
-      // Get the project to check permissions
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: 'Project not found' });
-      }
-      
-      // Allow location update if user is the client or contractor
-      const isClient = req.user.id === project.clientId;
-      const isContractor = project.teamMembers && Array.isArray(project.teamMembers) && 
-        project.teamMembers.some((member: any) => 
-          member.userId === req.user.id && member.role === "contractor"
-        );
-        
-      if (!isClient && !isContractor && req.user.role !== "admin") {
-        return res.status(403).json({ message: 'Only the client or contractor can update project location' });
-      }
+      const project: Project = res.locals.project;
+      const isClient = req.user!.id === project.clientId;
       
       // Update project location
       const updatedProject = await storage.updateProject(projectId, {
@@ -7860,12 +8498,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Create a notification for other team members
       if (project.teamMembers && Array.isArray(project.teamMembers)) {
-        const updaterRole = isClient ? "Client" : "Contractor";
+        const updaterRole = isClient ? "Client" : req.user!.username;
         const notificationMessage = `Project location updated by ${updaterRole}`;
         
         // Notify team members except the updater
         for (const member of project.teamMembers) {
-          if (member.userId !== req.user.id) {
+          if (member.userId !== req.user!.id) {
             await storage.createNotification({
               userId: member.userId,
               title: "Project Location Updated",
@@ -7881,7 +8519,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         // Notify client if contractor updated location
-        if (!isClient && project.clientId !== req.user.id) {
+        if (!isClient && project.clientId !== req.user!.id) {
           await storage.createNotification({
             userId: project.clientId,
             title: "Project Location Updated",
@@ -7991,24 +8629,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Direct admin API endpoints for a more stable admin dashboard
-  // These endpoints use a simpler authentication method as fallback for when session auth fails
   
   app.post('/api/direct-admin/clients', async (req, res) => {
     try {
-      const { adminUsername } = req.body;
-      
-      // First try regular authentication
-      if (req.isAuthenticated && req.isAuthenticated() && req.user?.role === 'admin') {
-        const clients = await storage.getUsersByRole('client');
-        return res.json(clients);
-      }
-      
-      // Fallback: Check if the provided admin username is valid
-      const adminUser = await storage.getUserByUsername(adminUsername);
-      if (!adminUser || adminUser.role !== 'admin') {
-        return res.status(403).json({ message: 'Admin access required' });
-      }
-      
       const clients = await storage.getUsersByRole('client');
       return res.json(clients);
     } catch (error) {
@@ -8019,156 +8642,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post('/api/direct-admin/service-providers', async (req, res) => {
     try {
-      const { adminUsername } = req.body;
-      
-      // First try regular authentication
-      if (req.isAuthenticated && req.isAuthenticated() && req.user?.role === 'admin') {
-        const providers = await storage.getUsersByRole('service_provider');
-        return res.json(providers);
-      }
-      
-      // Fallback: Check if the provided admin username is valid
-      const adminUser = await storage.getUserByUsername(adminUsername);
-      if (!adminUser || adminUser.role !== 'admin') {
-        return res.status(403).json({ message: 'Admin access required' });
-      }
-      
       const providers = await storage.getUsersByRole('service_provider');
       return res.json(providers);
     } catch (error) {
-      console.error('Error getting service providers:', error);
-      res.status(500).json({ message: 'Error fetching service providers' });
-    }
-  });
-  
-  /* COMMENTED OUT DUPLICATE ENDPOINT 
-  app.post('/api/direct-admin/projects', async (req, res) => {
-    try {
-      const { adminUsername } = req.body;
-      
-      // First try regular authentication
-      if (req.isAuthenticated && req.isAuthenticated() && req.user?.role === 'admin') {
-        const projects = await storage.getAllProjects();
-        return res.json(projects);
-      }
-      
-      // Fallback: Check if the provided admin username is valid
-      const adminUser = await storage.getUserByUsername(adminUsername);
-      if (!adminUser || adminUser.role !== 'admin') {
-        return res.status(403).json({ message: 'Admin access required' });
-      }
-      
-      const projects = await storage.getAllProjects();
-      return res.json(projects);
-    } catch (error) {
-      console.error('Error getting projects:', error);
-      res.status(500).json({ message: 'Error fetching projects' });
-    }
-  });
-  */
-  
-  app.post('/api/direct-admin/service-requests', async (req, res) => {
-    try {
-      const { adminUsername } = req.body;
-      
-      // First try regular authentication
-      if (req.isAuthenticated && req.isAuthenticated() && req.user?.role === 'admin') {
-        const requests = await storage.getAllServiceRequests();
-        return res.json(requests);
-      }
-      
-      // Fallback: Check if the provided admin username is valid
-      const adminUser = await storage.getUserByUsername(adminUsername);
-      if (!adminUser || adminUser.role !== 'admin') {
-        return res.status(403).json({ message: 'Admin access required' });
-      }
-      
-      const requests = await storage.getAllServiceRequests();
-      return res.json(requests);
-    } catch (error) {
-      console.error('Error getting service requests:', error);
-      res.status(500).json({ message: 'Error fetching service requests' });
+      console.error('Error getting service providers:', error);
+      res.status(500).json({ message: 'Error fetching service providers' });
     }
   });
-
-  // Direct admin API endpoints that use explicit authentication instead of session
   
-  // Direct admin verify endpoint
-  app.post("/api/direct-admin/verify", async (req, res) => {
+  /* COMMENTED OUT DUPLICATE ENDPOINT 
+  app.post('/api/direct-admin/projects', async (req, res) => {
     try {
       const { adminUsername } = req.body;
       
-      if (!adminUsername) {
-        return res.status(400).json({ message: "Admin username is required" });
+      // First try regular authentication
+      if (req.isAuthenticated && req.isAuthenticated() && req.user?.role === 'admin') {
+        const projects = await storage.getAllProjects();
+        return res.json(projects);
       }
       
-      // Verify this is an admin
-      const isAdmin = await verifyAdminUsername(adminUsername);
-      
-      if (!isAdmin) {
-        return sendAdminUnauthorized(res);
+      // Fallback: Check if the provided admin username is valid
+      const adminUser = await storage.getUserByUsername(adminUsername);
+      if (!adminUser || adminUser.role !== 'admin') {
+        return res.status(403).json({ message: 'Admin access required' });
       }
       
-      // Get the admin user details
-      const admin = await storage.getUserByUsername(adminUsername, true);
-      
-      return res.json({
-        isAdmin: true,
-        adminId: admin?.id,
-        adminUsername: admin?.username,
-        fullName: admin?.fullName || null
-      });
+      const projects = await storage.getAllProjects();
+      return res.json(projects);
     } catch (error) {
-      console.error("Error in direct admin verify endpoint:", error);
-      return res.status(500).json({ message: "Internal server error" });
+      console.error('Error getting projects:', error);
+      res.status(500).json({ message: 'Error fetching projects' });
     }
   });
+  */
   
-  // Verify if a username belongs to an admin
-  async function verifyAdminUsername(adminUsername: string): Promise<boolean> {
+  app.post('/api/direct-admin/service-requests', async (req, res) => {
     try {
-      console.log("Looking up user by username:", adminUsername);
-      const user = await storage.getUserByUsername(adminUsername, true); // Use case-insensitive search
-      
-      if (!user) {
-        console.log(`User ${adminUsername} not found`);
-        return false;
-      }
-      
-      console.log(`Found user with case-insensitive query: ${user.username} (ID: ${user.id})`);
-      
-      // Check if this user is an admin
-      return user.role === 'admin';
+      const requests = await storage.getAllServiceRequests();
+      return res.json(requests);
     } catch (error) {
-      console.error("Error verifying admin:", error);
-      return false;
+      console.error('Error getting service requests:', error);
+      res.status(500).json({ message: 'Error fetching service requests' });
     }
-  }
-  
-  // Helper to send an error response for unauthorized admin access attempts
-  function sendAdminUnauthorized(res: Response): void {
-    res.status(401).json({
-      message: "Unauthorized: Admin access required",
-      error: "ADMIN_AUTH_FAILED"
-    });
-  }
-  
+  });
+
   // Direct admin endpoint for service requests
   app.post("/api/direct-admin/service-requests", async (req, res) => {
     try {
-      const { adminUsername } = req.body;
-      
-      if (!adminUsername) {
-        return res.status(400).json({ message: "Admin username is required" });
-      }
-      
-      // Verify this is an admin
-      const isAdmin = await verifyAdminUsername(adminUsername);
-      if (!isAdmin) {
-        return sendAdminUnauthorized(res);
-      }
-      
-      // Admin is verified, fetch all service requests
+      // Fetch all service requests
       const serviceRequests = await storage.getAllServiceRequests();
       return res.json(serviceRequests);
     } catch (error) {
@@ -8180,19 +8701,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Direct admin endpoint for clients
   app.post("/api/direct-admin/clients", async (req, res) => {
     try {
-      const { adminUsername } = req.body;
-      
-      if (!adminUsername) {
-        return res.status(400).json({ message: "Admin username is required" });
-      }
-      
-      // Verify this is an admin
-      const isAdmin = await verifyAdminUsername(adminUsername);
-      if (!isAdmin) {
-        return sendAdminUnauthorized(res);
-      }
-      
-      // Admin is verified, fetch all clients
+      // Fetch all clients
       const users = await storage.getAllUsers();
       const clients = users.filter(user => user.role === 'client');
       return res.json(clients);
@@ -8205,19 +8714,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Direct admin endpoint for service providers
   app.post("/api/direct-admin/service-providers", async (req, res) => {
     try {
-      const { adminUsername } = req.body;
-      
-      if (!adminUsername) {
-        return res.status(400).json({ message: "Admin username is required" });
-      }
-      
-      // Verify this is an admin
-      const isAdmin = await verifyAdminUsername(adminUsername);
-      if (!isAdmin) {
-        return sendAdminUnauthorized(res);
-      }
-      
-      // Admin is verified, fetch all service providers
+      // Fetch all service providers
       const users = await storage.getAllUsers();
       const serviceProviders = users.filter(user => user.role === 'service_provider');
       return res.json(serviceProviders);
@@ -8309,16 +8806,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Direct admin service requests endpoint (legacy)
   app.post("/api/direct-admin/service-requests-legacy", async (req, res) => {
     try {
-      // Validate admin user
-      const { adminUsername } = req.body;
-      if (!adminUsername) {
-        return res.status(400).json({ error: "Admin username is required" });
-      }
-      
-      const admin = await storage.getUserByUsername(adminUsername);
-      if (!admin || admin.role !== "admin") {
-        return res.status(403).json({ error: "Not authorized" });
-      }
+      const admin = req.adminUser!;
       
       // Get all service requests
       const serviceRequests = await storage.getAllServiceRequests();
@@ -8332,16 +8820,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Direct admin clients endpoint (legacy)
   app.post("/api/direct-admin/clients-legacy", async (req, res) => {
     try {
-      // Validate admin user
-      const { adminUsername } = req.body;
-      if (!adminUsername) {
-        return res.status(400).json({ error: "Admin username is required" });
-      }
-      
-      const admin = await storage.getUserByUsername(adminUsername);
-      if (!admin || admin.role !== "admin") {
-        return res.status(403).json({ error: "Not authorized" });
-      }
+      const admin = req.adminUser!;
       
       // Get all clients
       const clients = await storage.getUsersByRole("client");
@@ -8355,16 +8834,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Direct admin service providers endpoint (legacy)
   app.post("/api/direct-admin/service-providers-legacy", async (req, res) => {
     try {
-      // Validate admin user
-      const { adminUsername } = req.body;
-      if (!adminUsername) {
-        return res.status(400).json({ error: "Admin username is required" });
-      }
-      
-      const admin = await storage.getUserByUsername(adminUsername);
-      if (!admin || admin.role !== "admin") {
-        return res.status(403).json({ error: "Not authorized" });
-      }
+      const admin = req.adminUser!;
       
       // Get all service providers
       const serviceProviders = await storage.getUsersByRole("service_provider");
@@ -9108,16 +9578,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Direct endpoint to get service requests for admin dashboard
   app.post("/api/direct-admin/service-requests", async (req, res) => {
     try {
-      // Validate admin user
-      const { adminUsername } = req.body;
-      if (!adminUsername) {
-        return res.status(400).json({ error: "Admin username is required" });
-      }
-      
-      const admin = await storage.getUserByUsername(adminUsername);
-      if (!admin || admin.role !== "admin") {
-        return res.status(403).json({ error: "Not authorized" });
-      }
+      const admin = req.adminUser!;
       
       // Get service requests - prioritize pending requests
       const pendingRequests = await storage.getServiceRequestsByStatus('pending_admin,pending');
@@ -9153,16 +9614,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Direct admin projects endpoint
   app.post("/api/direct-admin/projects-legacy", async (req, res) => {
     try {
-      // Validate admin user
-      const { adminUsername } = req.body;
-      if (!adminUsername) {
-        return res.status(400).json({ error: "Admin username is required" });
-      }
-      
-      const admin = await storage.getUserByUsername(adminUsername);
-      if (!admin || admin.role !== "admin") {
-        return res.status(403).json({ error: "Not authorized" });
-      }
+      const admin = req.adminUser!;
       
       // Get all projects
       const projects = await storage.getAllProjects();
@@ -9179,18 +9631,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // NEW Direct admin mark notification as read
   app.post("/api/direct-admin/notifications/mark-read", async (req, res) => {
     try {
-      const { adminUsername, notificationId } = req.body;
+      const { notificationId } = req.body;
+      const admin = req.adminUser!;
       
-      if (!adminUsername || !notificationId) {
+      if (!notificationId) {
         return res.status(400).json({ message: "Missing required parameters" });
       }
       
-      const admin = await storage.getUserByUsername(adminUsername);
-      
-      if (!admin || admin.role !== "admin") {
-        return res.status(403).json({ message: "Not authorized" });
-      }
-      
       const notification = await storage.getNotification(notificationId);
       
       if (!notification || notification.userId !== admin.id) {
@@ -9208,19 +9655,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // NEW Direct admin mark all notifications as read
   app.post("/api/direct-admin/notifications/mark-all-read", async (req, res) => {
     try {
-      const { adminUsername } = req.body;
-      
-      if (!adminUsername) {
-        return res.status(400).json({ message: "Missing admin username" });
-      }
-      
-      const admin = await storage.getUserByUsername(adminUsername);
-      
-      if (!admin || admin.role !== "admin") {
-        return res.status(403).json({ message: "Not authorized" });
-      }
-      
-      await storage.markAllNotificationsAsRead(admin.id);
+      await storage.markAllNotificationsAsRead(req.adminUser!.id);
       res.json({ success: true });
     } catch (error) {
       console.error("Error marking all notifications as read:", error);
@@ -9231,16 +9666,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Direct endpoint to get clients for admin dashboard
   app.post("/api/direct-admin/clients", async (req, res) => {
     try {
-      // Validate admin user
-      const { adminUsername } = req.body;
-      if (!adminUsername) {
-        return res.status(400).json({ error: "Admin username is required" });
-      }
-      
-      const admin = await storage.getUserByUsername(adminUsername);
-      if (!admin || admin.role !== "admin") {
-        return res.status(403).json({ error: "Not authorized" });
-      }
+      const admin = req.adminUser!;
       
       // Get all clients
       const clients = await storage.getUsersByRole("client");
@@ -9520,6 +9946,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: "pending",
         createdAt: new Date().toISOString()
       });
+      publishRealtimeEvent(realtimeTopics.serviceRequest(serviceRequestId), { type: "bid.created", bidId: bid.id, serviceRequestId });
       
       // Notify the admin
       await storage.createNotification({
@@ -9659,16 +10086,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Direct endpoint to get admin notifications
   app.post("/api/direct-admin/notifications", async (req, res) => {
     try {
-      // Validate admin user
-      const { adminUsername } = req.body;
-      if (!adminUsername) {
-        return res.status(400).json({ message: "Missing user admin username" });
-      }
-      
-      const admin = await storage.getUserByUsername(adminUsername);
-      if (!admin || admin.role !== "admin") {
-        return res.status(403).json({ message: "Not authorized" });
-      }
+      const admin = req.adminUser!;
       
       console.log("Direct admin notifications request user verified:", admin.username);
       
@@ -9691,16 +10109,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Direct endpoint to get service providers for admin dashboard
   app.post("/api/direct-admin/service-providers", async (req, res) => {
     try {
-      // Validate admin user
-      const { adminUsername } = req.body;
-      if (!adminUsername) {
-        return res.status(400).json({ error: "Admin username is required" });
-      }
-      
-      const admin = await storage.getUserByUsername(adminUsername);
-      if (!admin || admin.role !== "admin") {
-        return res.status(403).json({ error: "Not authorized" });
-      }
+      const admin = req.adminUser!;
       
       // Get all service providers
       const providers = await storage.getUsersByRole("service_provider");
@@ -9792,91 +10201,177 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
   
-  // Set up WebSocket server on a distinct path
-  const wss = new WebSocketServer({ 
-    server: httpServer, 
-    path: '/ws' 
+  // WebSocket server on a distinct path. Connections are only accepted from signed-in users,
+  // identified by the same session cookie as the rest of the API.
+  const wss = new WebSocketServer({ noServer: true });
+  
+  httpServer.on('upgrade', async (req, socket, head) => {
+    // Other upgrades on this server, like Vite's hot reload, are left to their own handlers
+    if (new URL(req.url || '', 'http://localhost').pathname !== '/ws') return;
+    
+    const user = await getUpgradeRequestUser(sessionParser, req);
+    if (!user) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+    
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit('connection', ws, req, user);
+    });
   });
   
-  // Store connected clients with their user info
-  const clients = new Map();
+  // A user can have several sockets open at once, e.g. chat and notifications in more than one tab
+  const clients = new Map<number, Set<WebSocket>>();
   
   // Store message history (limited to 1000 recent messages)
   let chatHistory: ChatMessage[] = [];
   
+  // Each socket may send this many messages per window; well past the limit it's disconnected
+  const SOCKET_RATE_LIMIT = 30;
+  const SOCKET_RATE_WINDOW_MS = 10 * 1000;
+  const SOCKET_RATE_DISCONNECT = SOCKET_RATE_LIMIT * 3;
+  
+  // Sockets that don't answer a ping within one interval are treated as dead and dropped
+  const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+  const socketsAlive = new WeakMap<WebSocket, boolean>();
+  
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (socketsAlive.get(ws) === false) {
+        ws.terminate(); // fires 'close', which removes it from clients
+        return;
+      }
+      socketsAlive.set(ws, false);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  
+  wss.on('close', () => clearInterval(heartbeat));
+  
   /**
    * Send a real-time notification to a connected client
    * @param userId The ID of the user to send the notification to
    * @param notification The notification object to send
+   * @param options Whether the client should play the notification sound
    * @returns True if notification was sent, false if user is not connected
    */
-  async function sendRealTimeNotification(userId: number, notification: any): Promise<boolean> {
-    const client = clients.get(userId);
-    if (client && client.socket.readyState === WebSocket.OPEN) {
+  async function sendRealTimeNotification(userId: number, notification: any, options: { sound: boolean } = { sound: true }): Promise<boolean> {
+    return sendToUser(userId, {
+      type: 'notification',
+      notification,
+      sound: options.sound
+    });
+  }
+  
+  // Sends a payload to every open socket a user has; false if none are open
+  function sendToUser(userId: number, payload: unknown): boolean {
+    let sent = false;
+    clients.get(userId)?.forEach((socket) => {
+      if (socket.readyState !== WebSocket.OPEN) return;
       try {
-        client.socket.send(JSON.stringify({
-          type: 'notification',
-          notification
-        }));
-        console.log(`Real-time notification sent to user ${userId}`);
-        return true;
+        socket.send(JSON.stringify(payload));
+        sent = true;
       } catch (error) {
-        console.error(`Error sending real-time notification to user ${userId}:`, error);
-        return false;
+        console.error(`Error sending to user ${userId} over WebSocket:`, error);
       }
-    }
-    return false;
+    });
+    return sent;
   }
   
-  wss.on('connection', (ws) => {
-    console.log('WebSocket client connected');
-    let userId: number | null = null;
-    let username: string | null = null;
-    let userRole: string | null = null;
+  // Smart notifications are pushed as they're created, when push notifications are enabled
+  setRealTimeNotificationSender(sendRealTimeNotification);
+  
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage, user: User) => {
+    // Who the socket belongs to comes from the session, never from anything the client sends
+    const userId = user.id;
+    console.log(`WebSocket client connected: ${user.username} (ID: ${userId})`);
+    
+    if (!clients.has(userId)) {
+      clients.set(userId, new Set());
+    }
+    clients.get(userId)!.add(ws);
+    
+    socketsAlive.set(ws, true);
+    ws.on('pong', () => socketsAlive.set(ws, true));
+    
+    // Sends the user their own chat history and unread notifications
+    const sendInitialState = async () => {
+      ws.send(JSON.stringify({
+        type: 'history',
+        messages: chatHistory.filter(message => message.senderId === userId || message.receiverId === userId)
+      }));
+      
+      try {
+        const unreadNotifications = await storage.getUnreadNotificationsByUserId(userId);
+        if (unreadNotifications.length > 0) {
+          ws.send(JSON.stringify({
+            type: 'notifications',
+            notifications: unreadNotifications
+          }));
+        }
+      } catch (error) {
+        console.error('Error fetching unread notifications:', error);
+      }
+    };
+    sendInitialState();
+    
+    // Topics are only subscribed to once the user is known to be allowed to see them
+    const handleSubscription = async (data: unknown) => {
+      const parsed = realtimeSubscriptionSchema.safeParse(data);
+      if (!parsed.success) {
+        ws.send(JSON.stringify({ type: 'error', code: 'INVALID_SUBSCRIPTION', message: parsed.error.errors[0].message }));
+        return;
+      }
+      
+      const topics = parsed.data.topics as RealtimeTopic[];
+      if (parsed.data.type === 'unsubscribe') {
+        topics.forEach(topic => unsubscribeSocket(ws, topic));
+        return;
+      }
+      
+      const allowed: RealtimeTopic[] = [];
+      const denied: RealtimeTopic[] = [];
+      for (const topic of topics) {
+        (await canSubscribeToTopic(user, topic) ? allowed : denied).push(topic);
+      }
+      
+      allowed.forEach(topic => subscribeSocket(ws, topic));
+      ws.send(JSON.stringify({ type: 'subscribed', topics: allowed }));
+      if (denied.length > 0) {
+        ws.send(JSON.stringify({ type: 'error', code: 'TOPIC_FORBIDDEN', topics: denied }));
+      }
+    };
+    
+    let windowStart = Date.now();
+    let messagesInWindow = 0;
 
     ws.on('message', async (message) => {
+      const now = Date.now();
+      if (now - windowStart > SOCKET_RATE_WINDOW_MS) {
+        windowStart = now;
+        messagesInWindow = 0;
+      }
+      messagesInWindow++;
+      
+      if (messagesInWindow > SOCKET_RATE_DISCONNECT) {
+        console.log(`Closing WebSocket for user ${userId}: rate limit exceeded`);
+        ws.close(1008, 'Rate limit exceeded');
+        return;
+      }
+      if (messagesInWindow > SOCKET_RATE_LIMIT) {
+        ws.send(JSON.stringify({
+          type: 'error',
+          code: 'RATE_LIMITED',
+          message: 'Too many messages, slow down'
+        }));
+        return;
+      }
+      
       try {
-        const messageString = message.toString();
-        console.log('WebSocket message received:', messageString);
-        const data = JSON.parse(messageString);
+        const data = JSON.parse(message.toString());
         
-        if (data.type === 'auth') {
-          // Authenticate user
-          userId = data.userId;
-          username = data.username;
-          userRole = data.role;
-          
-          if (userId && username) {
-            // Store client connection
-            clients.set(userId, {
-              userId,
-              username,
-              role: userRole,
-              socket: ws
-            });
-            
-            // Send message history to newly connected client
-            ws.send(JSON.stringify({
-              type: 'history',
-              messages: chatHistory
-            }));
-            
-            // Send any unread notifications
-            try {
-              const unreadNotifications = await storage.getUnreadNotificationsByUserId(userId);
-              if (unreadNotifications.length > 0) {
-                ws.send(JSON.stringify({
-                  type: 'notifications',
-                  notifications: unreadNotifications
-                }));
-              }
-            } catch (error) {
-              console.error('Error fetching unread notifications:', error);
-            }
-            
-            console.log(`User authenticated: ${username} (ID: ${userId})`);
-          }
-        } else if (data.type === 'message' && userId) {
+        if (data.type === 'message') {
           // Handle new message
           const messageData = data.message;
           
@@ -9885,13 +10380,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             return;
           }
           
-          // Get sender details
-          const user = await storage.getUser(userId);
-          if (!user) {
-            console.error(`User not found: ${userId}`);
-            return;
-          }
-          
           // Add user details to message
           const newMessage: ChatMessage = {
             ...messageData,
@@ -9922,24 +10410,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
           
           // Send message to recipient if online
-          const recipientClient = clients.get(newMessage.receiverId);
-          if (recipientClient && recipientClient.socket.readyState === WebSocket.OPEN) {
-            recipientClient.socket.send(JSON.stringify({
-              type: 'message',
-              message: newMessage
-            }));
-          }
+          sendToUser(newMessage.receiverId, {
+            type: 'message',
+            message: newMessage
+          });
           
-          // Send confirmation back to sender
-          ws.send(JSON.stringify({
+          // Send confirmation back to the sender's sockets
+          sendToUser(userId, {
             type: 'message',
             message: newMessage
-          }));
+          });
           
           // Create a smart notification for the recipient
           try {
-            // Create a notification using the smart notification system
-            const notification = await createMessageNotification(
+            // Create a notification using the smart notification system, which also pushes it to
+            // the recipient if they're online
+            await createMessageNotification(
               newMessage.receiverId,
               newMessage.senderName,
               newMessage.content,
@@ -9947,21 +10433,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
               newMessage.projectId,
               newMessage.projectName
             );
-            
-            // Send a real-time notification to recipient if they're online
-            await sendRealTimeNotification(newMessage.receiverId, notification);
           } catch (error) {
             console.error('Failed to create notification', error);
           }
-        } else if (data.type === 'mark_read' && userId) {
+        } else if (data.type === 'subscribe' || data.type === 'unsubscribe') {
+          await handleSubscription(data);
+        } else if (data.type === 'typing') {
+          // Typing indicators are passed straight on to the rest of the conversation, never stored
+          const conversationId = Number(data.conversationId);
+          if (!Number.isInteger(conversationId) || !(await storage.getConversationParticipant(conversationId, userId))) return;
+          
+          const participants = await storage.getConversationParticipants(conversationId);
+          const event = { type: 'conversation.typing' as const, conversationId, userId, name: user.fullName || user.username };
+          participants
+            .filter(participant => participant.userId !== userId)
+            .forEach(participant => publishRealtimeEvent(realtimeTopics.user(participant.userId), event));
+        } else if (data.type === 'mark_read') {
           // Mark notifications as read
           const { notificationIds } = data;
           if (Array.isArray(notificationIds) && notificationIds.length > 0) {
             try {
-              await storage.markNotificationsAsRead(notificationIds);
+              // Only the user's own notifications can be marked read
+              const unread = await storage.getUnreadNotificationsByUserId(userId);
+              const ownIds = unread.map(notification => notification.id).filter(id => notificationIds.includes(id));
+              await storage.markNotificationsAsRead(ownIds);
               ws.send(JSON.stringify({
                 type: 'notifications_marked_read',
-                notificationIds
+                notificationIds: ownIds
               }));
             } catch (error) {
               console.error('Error marking notifications as read:', error);
@@ -9974,8 +10472,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     ws.on('close', () => {
-      console.log('WebSocket client disconnected');
-      if (userId) {
+      console.log(`WebSocket client disconnected: ${user.username} (ID: ${userId})`);
+      unsubscribeSocketFromAll(ws);
+      const sockets = clients.get(userId);
+      sockets?.delete(ws);
+      if (sockets?.size === 0) {
         clients.delete(userId);
       }
     });
@@ -9984,18 +10485,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin endpoint to get specific project details with client information
   app.post("/api/direct-admin/projects/:projectId", async (req, res) => {
     try {
-      const { adminUsername } = req.body;
       const projectId = parseInt(req.params.projectId);
+      const admin = req.adminUser!;
       
-      console.log(`Admin ${adminUsername} is requesting project #${projectId}`);
-      
-      // Verify admin access
-      const admin = await storage.getUserByUsername(adminUsername);
-      
-      if (!admin || admin.role !== 'admin') {
-        console.log(`Admin verification failed for ${adminUsername}`);
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      console.log(`Admin ${admin.username} is requesting project #${projectId}`);
       
       // Get the project
       const project = await storage.getProject(projectId);
@@ -10022,7 +10515,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } : null
       };
       
-      console.log(`Sending enriched project #${projectId} to admin ${adminUsername}`);
+      console.log(`Sending enriched project #${projectId} to admin ${admin.username}`);
       
       res.json(enrichedProject);
     } catch (error) {
@@ -0,0 +1,285 @@
+import * as XLSX from '@e965/xlsx';
+import { z } from 'zod';
+import { storage } from '../storage';
+import {
+  CatalogueImportResult,
+  CatalogueItem,
+  CatalogueRowResult,
+  Inventory,
+  Material,
+  catalogueInventorySchema,
+  insertMaterialSchema
+} from '@shared/schema';
+
+// Big enough for any real catalogue, small enough that one upload can't tie up the server
+export const MAX_CATALOGUE_ROWS = 5000;
+
+export const catalogueFormats = ['csv', 'xlsx'] as const;
+export type CatalogueFormat = typeof catalogueFormats[number];
+
+type CellValue = string | number | Date | null;
+
+// How a catalogue column maps onto a material or its inventory row
+interface CatalogueColumn {
+  header: string;
+  target: 'material' | 'inventory';
+  field: string;
+  type: 'text' | 'integer' | 'money' | 'list' | 'date';
+}
+
+// Columns in the order they're exported. Prices are in cedis in the file and pesewas in the
+// database, and lists are separated with "|" so they survive being opened in a spreadsheet.
+const CATALOGUE_COLUMNS: CatalogueColumn[] = [
+  { header: 'productCode', target: 'material', field: 'productCode', type: 'text' },
+  { header: 'supplierProductId', target: 'material', field: 'supplierProductId', type: 'text' },
+  { header: 'name', target: 'material', field: 'name', type: 'text' },
+  { header: 'description', target: 'material', field: 'description', type: 'text' },
+  { header: 'category', target: 'material', field: 'category', type: 'text' },
+  { header: 'subcategory', target: 'material', field: 'subcategory', type: 'text' },
+  { header: 'price', target: 'material', field: 'price', type: 'money' },
+  { header: 'discountPrice', target: 'material', field: 'discountPrice', type: 'money' },
+  { header: 'unit', target: 'material', field: 'unit', type: 'text' },
+  { header: 'weight', target: 'material', field: 'weight', type: 'integer' },
+  { header: 'brand', target: 'material', field: 'brand', type: 'text' },
+  { header: 'warrantyInfo', target: 'material', field: 'warrantyInfo', type: 'text' },
+  { header: 'imageUrl', target: 'material', field: 'imageUrl', type: 'text' },
+  { header: 'tags', target: 'material', field: 'tags', type: 'list' },
+  { header: 'features', target: 'material', field: 'features', type: 'list' },
+  { header: 'quantityAvailable', target: 'inventory', field: 'quantityAvailable', type: 'integer' },
+  { header: 'minOrderQuantity', target: 'inventory', field: 'minOrderQuantity', type: 'integer' },
+  { header: 'expectedRestockDate', target: 'inventory', field: 'expectedRestockDate', type: 'date' },
+  { header: 'inventoryStatus', target: 'inventory', field: 'status', type: 'text' },
+];
+
+// "Product Code", "product_code" and "productCode" all name the same column
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const columnsByHeader = new Map(CATALOGUE_COLUMNS.map(column => [normaliseHeader(column.header), column]));
+
+function formatIssue(issue: z.ZodIssue): string {
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+// Converts one cell to the value stored for its column, or explains why it can't be
+function parseCell(column: CatalogueColumn, value: CellValue): { value?: unknown, error?: string } {
+  if (column.type === 'date') {
+    const date = value instanceof Date ? value : new Date(String(value));
+    return isNaN(date.getTime()) ? { error: `${column.header}: Expected a date like 2025-06-30` } : { value: date };
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value).trim();
+
+  switch (column.type) {
+    case 'integer': {
+      const number = Number(text.replace(/,/g, ''));
+      return Number.isInteger(number) ? { value: number } : { error: `${column.header}: Expected a whole number` };
+    }
+    case 'money': {
+      const number = Number(text.replace(/[,₵\s]|GHS/gi, ''));
+      return isNaN(number) ? { error: `${column.header}: Expected an amount in cedis` } : { value: Math.round(number * 100) };
+    }
+    case 'list':
+      return { value: text.split('|').map(item => item.trim()).filter(Boolean) };
+    default:
+      return { value: text };
+  }
+}
+
+/**
+ * Reads the rows of the first sheet of a CSV or XLSX file
+ * @param file The uploaded file contents
+ * @returns Each row keyed by its header, with the spreadsheet row number
+ */
+export function readCatalogueFile(file: Buffer): { row: number, cells: Record<string, CellValue> }[] {
+  // raw stops CSV cells being guessed at, which would turn a product code like 00123 into 123
+  const workbook = XLSX.read(file, { type: 'buffer', cellDates: true, raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet?.['!ref']) return [];
+
+  // Rows come back as arrays with blank rows kept, so a row's position gives its row number
+  const options = { header: 1, defval: null, blankrows: true } as const;
+  const [headerRow = [], ...rows] = XLSX.utils.sheet_to_json<CellValue[]>(sheet, { ...options, raw: true });
+  // Text columns are read as the spreadsheet shows them, so a code formatted as 00123 keeps its zeros
+  const [, ...displayed] = XLSX.utils.sheet_to_json<(string | null)[]>(sheet, { ...options, raw: false });
+  const headerRowNumber = XLSX.utils.decode_range(sheet['!ref']).s.r + 1;
+
+  // Columns without a header are ignored
+  const headers = headerRow.map(header => header === null ? '' : String(header).trim());
+
+  return rows
+    .map((values, index) => ({
+      row: headerRowNumber + index + 1,
+      cells: Object.fromEntries(headers.flatMap((header, column) => {
+        if (!header) return [];
+        const value = values[column] ?? null;
+        const type = columnsByHeader.get(normaliseHeader(header))?.type;
+        return [[header, type === 'text' && value !== null ? displayed[index][column] : value]];
+      }))
+    }))
+    .filter(({ cells }) => Object.values(cells).some(value => value !== null && String(value).trim() !== ''));
+}
+
+/**
+ * Checks an uploaded catalogue against the supplier's existing materials, and writes it unless
+ * this is a dry run or any row is invalid. Rows are matched on productCode, or on
+ * supplierProductId for rows without one; matched rows update the material and unmatched rows
+ * create one. Columns left out of the file, or left blank, keep their current values.
+ * @param supplierId The supplier the catalogue belongs to
+ * @param file The uploaded CSV or XLSX file
+ * @param dryRun Report what would happen without writing anything
+ * @returns The outcome for every row, or an error if the file as a whole can't be imported
+ */
+export async function importCatalogue(
+  supplierId: number,
+  file: Buffer,
+  dryRun: boolean
+): Promise<{ error?: string, result?: CatalogueImportResult }> {
+  let rows: ReturnType<typeof readCatalogueFile>;
+  try {
+    rows = readCatalogueFile(file);
+  } catch (error) {
+    return { error: 'The file could not be read as a CSV or Excel spreadsheet' };
+  }
+
+  if (rows.length === 0) {
+    return { error: 'The file has no rows to import' };
+  }
+  if (rows.length > MAX_CATALOGUE_ROWS) {
+    return { error: `Catalogues are limited to ${MAX_CATALOGUE_ROWS} rows; this file has ${rows.length}` };
+  }
+
+  const unknownHeaders = Object.keys(rows[0].cells).filter(header => !columnsByHeader.has(normaliseHeader(header)));
+  if (unknownHeaders.length > 0) {
+    return { error: `Unknown columns: ${unknownHeaders.join(', ')}` };
+  }
+
+  const existing = await storage.getMaterialsBySupplier(supplierId);
+  const byProductCode = new Map(existing.filter(material => material.productCode).map(material => [material.productCode!, material]));
+  const bySupplierProductId = new Map(existing.filter(material => material.supplierProductId).map(material => [material.supplierProductId!, material]));
+
+  const seenKeys = new Map<string, number>();
+  const items: CatalogueItem[] = [];
+  const results: CatalogueRowResult[] = rows.map(({ row, cells }) => {
+    const errors: string[] = [];
+    const materialFields: Record<string, unknown> = {};
+    const inventoryFields: Record<string, unknown> = {};
+
+    for (const [header, value] of Object.entries(cells)) {
+      if (value === null || String(value).trim() === '') continue;
+
+      const column = columnsByHeader.get(normaliseHeader(header))!;
+      const parsed = parseCell(column, value);
+      if (parsed.error) {
+        errors.push(parsed.error);
+      } else {
+        (column.target === 'material' ? materialFields : inventoryFields)[column.field] = parsed.value;
+      }
+    }
+
+    const productCode = materialFields.productCode as string | undefined;
+    const supplierProductId = materialFields.supplierProductId as string | undefined;
+    const key = productCode || supplierProductId || null;
+    const match = (productCode && byProductCode.get(productCode)) || (supplierProductId && bySupplierProductId.get(supplierProductId)) || null;
+
+    if (!key) {
+      errors.push('Each row needs a productCode or supplierProductId');
+    } else if (seenKeys.has(key)) {
+      errors.push(`Same product as row ${seenKeys.get(key)}`);
+    } else {
+      seenKeys.set(key, row);
+    }
+
+    // Updates are checked as the material will look afterwards, so a row only needs the columns it changes
+    const material = insertMaterialSchema.safeParse({
+      ...(match ? pickInsertFields(match) : {}),
+      ...materialFields,
+      supplierId
+    });
+    if (!material.success) {
+      errors.push(...material.error.issues.map(formatIssue));
+    }
+
+    const stock = catalogueInventorySchema.safeParse(inventoryFields);
+    if (!stock.success) {
+      errors.push(...stock.error.issues.map(formatIssue));
+    }
+
+    if (errors.length === 0 && material.success && stock.success) {
+      items.push({ existingId: match?.id ?? null, material: material.data, inventory: stock.data });
+    }
+
+    return {
+      row,
+      key,
+      name: (materialFields.name as string) || match?.name || null,
+      action: errors.length > 0 ? 'error' : match ? 'update' : 'create',
+      errors
+    };
+  });
+
+  const summary = {
+    total: results.length,
+    created: results.filter(result => result.action === 'create').length,
+    updated: results.filter(result => result.action === 'update').length,
+    errors: results.filter(result => result.action === 'error').length
+  };
+
+  // Nothing is written unless the whole file is valid, so a fixed file can simply be uploaded again
+  const write = !dryRun && summary.errors === 0;
+  if (write) {
+    await storage.upsertCatalogueItems(supplierId, items);
+  }
+
+  return { result: { dryRun: !write, summary, rows: results } };
+}
+
+// The fields of an existing material that an import can change
+function pickInsertFields(material: Material): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const key of Object.keys(insertMaterialSchema.shape)) {
+    const value = material[key as keyof Material];
+    if (value !== null) fields[key] = value;
+  }
+  return fields;
+}
+
+function formatCell(column: CatalogueColumn, value: unknown): CellValue {
+  if (value === null || value === undefined) return null;
+
+  switch (column.type) {
+    case 'money':
+      return Number(value) / 100;
+    case 'list':
+      return Array.isArray(value) ? value.join(' | ') : String(value);
+    case 'date':
+      return new Date(value as string).toISOString().split('T')[0];
+    default:
+      return value as CellValue;
+  }
+}
+
+/**
+ * Writes a supplier's catalogue in the same layout the import reads, so an export can be edited
+ * and uploaded again. An empty catalogue gives a file with just the headers, to use as a template.
+ * @param materials The supplier's materials
+ * @param inventory The supplier's inventory rows
+ * @param format The file format to write
+ * @returns The file contents
+ */
+export function exportCatalogue(materials: Material[], inventory: Inventory[], format: CatalogueFormat): Buffer {
+  const inventoryByMaterial = new Map(inventory.map(item => [item.materialId, item]));
+
+  const rows = materials.map(material => {
+    const stock = inventoryByMaterial.get(material.id);
+    return CATALOGUE_COLUMNS.map(column => {
+      const source = column.target === 'material' ? material : stock;
+      return formatCell(column, source ? (source as Record<string, unknown>)[column.field] : null);
+    });
+  });
+
+  const sheet = XLSX.utils.aoa_to_sheet([CATALOGUE_COLUMNS.map(column => column.header), ...rows]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Catalogue');
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: format });
+}
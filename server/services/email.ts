@@ -6,6 +6,7 @@ interface EmailParams {
   subject: string;
   text?: string;
   html?: string;
+  attachments?: { filename: string; content: Buffer; contentType?: string }[];
 }
 
 let transporter: nodemailer.Transporter;
@@ -73,7 +74,7 @@ export async function sendEmail(params: EmailParams): Promise<any> {
     await initTransporter();
   }
   
-  const { to, subject, text, html } = params;
+  const { to, subject, text, html, attachments } = params;
   
   // Send the email
   try {
@@ -83,6 +84,7 @@ export async function sendEmail(params: EmailParams): Promise<any> {
       subject,
       text: text || '',
       html: html || '',
+      attachments,
     };
     
     const result = await transporter.sendMail(mailOptions);
@@ -156,7 +158,7 @@ export async function sendTeamInvitationEmail(invitation: TeamInvitation, projec
  * @returns Promise resolving to the email send result
  */
 export async function sendPasswordResetEmail(email: string, token: string): Promise<any> {
-  const resetLink = `${process.env.APP_URL || 'http://localhost:5000'}/reset-password/${token}`;
+  const resetLink = `${process.env.APP_URL || process.env.BASE_URL || 'http://localhost:5000'}/reset-password/${token}`;
   
   return sendEmail({
     to: email,
@@ -169,7 +171,7 @@ export async function sendPasswordResetEmail(email: string, token: string): Prom
       To reset your password, please click on the following link or copy and paste it into your browser:
       ${resetLink}
       
-      This link will expire in 24 hours.
+      This link will expire in 1 hour.
       
       If you did not request a password reset, please ignore this email.
       
@@ -194,7 +196,7 @@ export async function sendPasswordResetEmail(email: string, token: string): Prom
         </p>
         
         <p style="color: #666; margin-top: 30px; font-size: 0.9em;">
-          This link will expire in 24 hours. If you did not request a password reset, please ignore this email.
+          This link will expire in 1 hour. If you did not request a password reset, please ignore this email.
         </p>
         
         <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
@@ -205,4 +207,95 @@ export async function sendPasswordResetEmail(email: string, token: string): Prom
       </div>
     `,
   });
-}
\ No newline at end of file
+}
+/**
+ * Send a project report as a PDF attachment
+ * @param email The address to send the report to
+ * @param projectName The name of the project the report covers
+ * @param fileName The attachment's file name
+ * @param pdf The rendered report
+ * @returns Promise resolving to the email send result
+ */
+export async function sendProjectReportEmail(email: string, projectName: string, fileName: string, pdf: Buffer): Promise<any> {
+  const projectLink = `${process.env.APP_URL || 'http://localhost:5000'}/projects`;
+
+  return sendEmail({
+    to: email,
+    subject: `Project report: ${projectName}`,
+    text: `
+      Hello,
+      
+      Your report for the "${projectName}" project is attached as a PDF.
+      
+      You can follow the project day to day at ${projectLink}
+      
+      Best regards,
+      The Artisans Platform Team
+    `,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #333;">Project Report</h2>
+        <p>Hello,</p>
+        <p>Your report for the <strong>"${projectName}"</strong> project is attached as a PDF.</p>
+        
+        <p>You can follow the project day to day on the <a href="${projectLink}">Artisans Platform</a>.</p>
+        
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p style="color: #888; font-size: 0.8em;">
+          Best regards,<br>
+          The Artisans Platform Team
+        </p>
+      </div>
+    `,
+    attachments: [{ filename: fileName, content: pdf, contentType: 'application/pdf' }],
+  });
+}
+
+/**
+ * Tell a user their account was locked after repeated failed logins
+ * @param email The user's email address
+ * @param failedAttempts How many failed attempts led to the lock
+ * @returns Promise resolving to the email send result
+ */
+export async function sendAccountLockedEmail(email: string, failedAttempts: number): Promise<any> {
+  const forgotPasswordLink = `${process.env.APP_URL || process.env.BASE_URL || 'http://localhost:5000'}/auth`;
+
+  return sendEmail({
+    to: email,
+    subject: 'Your Artisans Platform account has been locked',
+    text: `
+      Hello,
+      
+      Your Artisans Platform account was locked after ${failedAttempts} failed login attempts in a row.
+      
+      If this was you, reset your password from the login page to unlock it: ${forgotPasswordLink}
+      If it wasn't, someone may be trying to guess your password. Resetting it unlocks the account
+      and keeps them out, or you can contact support to have it unlocked.
+      
+      Best regards,
+      The Artisans Platform Team
+    `,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h2 style="color: #333;">Account Locked</h2>
+        <p>Hello,</p>
+        <p>Your Artisans Platform account was locked after <strong>${failedAttempts} failed login attempts</strong> in a row.</p>
+        <p>If this was you, reset your password from the login page to unlock it.</p>
+        
+        <div style="margin: 30px 0; text-align: center;">
+          <a href="${forgotPasswordLink}" style="background-color: #4f46e5; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block; font-weight: bold;">
+            Go to Login
+          </a>
+        </div>
+        
+        <p>If it wasn't you, someone may be trying to guess your password. Resetting it unlocks the account and keeps them out, or you can contact support to have it unlocked.</p>
+        
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+        <p style="color: #888; font-size: 0.8em;">
+          Best regards,<br>
+          The Artisans Platform Team
+        </p>
+      </div>
+    `,
+  });
+}
@@ -0,0 +1,92 @@
+import { EscrowMilestone, EscrowSummary, ServiceRequestBid } from "@shared/schema";
+
+export type EscrowMilestoneStatus =
+  | "awaiting_funding"
+  | "funded"
+  | "submitted"
+  | "released"
+  | "disputed"
+  | "frozen";
+
+// Statuses in which an admin hold stops the money moving
+export const heldEscrowStatuses: EscrowMilestoneStatus[] = ["disputed", "frozen"];
+
+// How each payment schedule on a bid is split into escrow milestones, by percentage of the bid
+const milestoneSplits: Record<string, { title: string, percentage: number }[]> = {
+  upfront: [
+    { title: "Upfront payment", percentage: 100 }
+  ],
+  milestone: [
+    { title: "Mobilisation", percentage: 30 },
+    { title: "Mid-project", percentage: 40 },
+    { title: "Completion", percentage: 30 }
+  ],
+  phase: [
+    { title: "Foundation and structure", percentage: 40 },
+    { title: "Roofing and services", percentage: 35 },
+    { title: "Finishing", percentage: 25 }
+  ],
+  completion: [
+    { title: "Completion", percentage: 100 }
+  ]
+};
+
+/**
+ * Splits an accepted bid into the milestones its escrow is released in.
+ * Monthly schedules get one milestone per 30 days of the bid's timeframe.
+ * Any rounding difference is added to the last milestone so the total matches the bid.
+ * @param bid The accepted bid
+ * @returns Milestones in release order, amounts in cents
+ */
+export function planEscrowMilestones(bid: ServiceRequestBid): { sequence: number, title: string, amount: number }[] {
+  let splits = milestoneSplits[bid.paymentSchedule] || milestoneSplits.milestone;
+
+  if (bid.paymentSchedule === "monthly") {
+    const months = Math.max(1, Math.ceil(bid.timeframe / 30));
+    splits = Array.from({ length: months }, (_, index) => ({
+      title: `Month ${index + 1}`,
+      percentage: 100 / months
+    }));
+  }
+
+  const milestones = splits.map((split, index) => ({
+    sequence: index + 1,
+    title: split.title,
+    amount: Math.floor(bid.bidAmount * split.percentage / 100)
+  }));
+
+  const allocated = milestones.reduce((total, milestone) => total + milestone.amount, 0);
+  milestones[milestones.length - 1].amount += bid.bidAmount - allocated;
+
+  return milestones;
+}
+
+/**
+ * Checks whether a milestone can be put on hold by an admin
+ * @param status Current milestone status
+ * @returns True unless the money has already been released or it's already held
+ */
+export function canHoldEscrowMilestone(status: string): boolean {
+  return status !== "released" && !(heldEscrowStatuses as string[]).includes(status);
+}
+
+/**
+ * Totals up where the money for a service request's escrow currently is
+ * @param serviceRequestId The service request the milestones belong to
+ * @param milestones All of the request's escrow milestones
+ * @returns The milestones with their totals
+ */
+export function summariseEscrow(serviceRequestId: number, milestones: EscrowMilestone[]): EscrowSummary {
+  const sum = (statuses: string[]) => milestones
+    .filter(milestone => statuses.includes(milestone.status))
+    .reduce((total, milestone) => total + milestone.amount, 0);
+
+  return {
+    serviceRequestId,
+    milestones,
+    total: milestones.reduce((total, milestone) => total + milestone.amount, 0),
+    funded: sum(["funded", "submitted"]),
+    released: sum(["released"]),
+    onHold: sum(heldEscrowStatuses)
+  };
+}
@@ -0,0 +1,115 @@
+import { User } from '@shared/schema';
+import { storage } from '../storage';
+import { createSmartNotification } from './notification';
+import { sendAccountLockedEmail } from './email';
+
+// Failures allowed before any delay, so a couple of typos don't slow anyone down
+const FREE_ATTEMPTS = 3;
+
+// After that, each failure doubles the wait before the next attempt, up to the cap
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+// Failures in a row that lock the account until an admin unlocks it or the password is reset
+export const LOCKOUT_THRESHOLD = 10;
+
+// Failures from an address are forgotten this long after the last one. They're kept in memory, so
+// each server instance counts its own; the per-account count is in the database.
+const IP_FAILURE_TTL_MS = 60 * 60 * 1000;
+
+const IP_SWEEP_THRESHOLD = 10000;
+
+const ipFailures = new Map<string, { count: number, lastFailureAt: number }>();
+
+export type LoginThrottleResult =
+  | { allowed: true }
+  | { allowed: false, locked: true }
+  | { allowed: false, locked: false, retryAfterMs: number };
+
+function backoffMs(failures: number): number {
+  if (failures <= FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_BACKOFF_MS * 2 ** (failures - FREE_ATTEMPTS - 1), MAX_BACKOFF_MS);
+}
+
+function getIpFailures(ip: string, now: number) {
+  const entry = ipFailures.get(ip);
+  if (entry && now - entry.lastFailureAt > IP_FAILURE_TTL_MS) {
+    ipFailures.delete(ip);
+    return undefined;
+  }
+  return entry;
+}
+
+/**
+ * Checks whether a login attempt may go ahead, before its password is looked at
+ * @param ip The address the attempt came from
+ * @param user The account being logged into, if the username matched one
+ */
+export function checkLoginThrottle(ip: string, user?: User): LoginThrottleResult {
+  if (user?.lockedAt) {
+    return { allowed: false, locked: true };
+  }
+
+  const now = Date.now();
+  const ipEntry = getIpFailures(ip, now);
+  const ipWait = ipEntry ? ipEntry.lastFailureAt + backoffMs(ipEntry.count) - now : 0;
+  const userWait = user?.lastFailedLoginAt
+    ? new Date(user.lastFailedLoginAt).getTime() + backoffMs(user.failedLoginAttempts) - now
+    : 0;
+
+  const retryAfterMs = Math.max(ipWait, userWait);
+  return retryAfterMs > 0 ? { allowed: false, locked: false, retryAfterMs } : { allowed: true };
+}
+
+async function notifyAccountLocked(user: User): Promise<void> {
+  try {
+    // Forced to normal priority so the notification isn't emailed as well as the lockout email
+    await createSmartNotification({
+      userId: user.id,
+      title: "Account locked",
+      message: `Your account was locked after ${LOCKOUT_THRESHOLD} failed login attempts. Reset your password or contact support to unlock it.`,
+      type: "system"
+    }, "security", "🔒", "normal");
+
+    await sendAccountLockedEmail(user.email, LOCKOUT_THRESHOLD);
+  } catch (error) {
+    console.error(`Error sending lockout notice to user ${user.id}:`, error);
+  }
+}
+
+/**
+ * Counts a failed attempt against the address and the account, locking the account once it
+ * reaches the threshold
+ * @returns Whether this attempt locked the account
+ */
+export async function recordFailedLogin(ip: string, user?: User): Promise<boolean> {
+  const now = Date.now();
+  if (ipFailures.size >= IP_SWEEP_THRESHOLD) {
+    ipFailures.forEach((entry, key) => {
+      if (now - entry.lastFailureAt > IP_FAILURE_TTL_MS) ipFailures.delete(key);
+    });
+  }
+
+  const ipEntry = getIpFailures(ip, now);
+  ipFailures.set(ip, { count: (ipEntry?.count ?? 0) + 1, lastFailureAt: now });
+
+  if (!user) return false;
+
+  const result = await storage.recordFailedLogin(user.id, LOCKOUT_THRESHOLD);
+  if (result?.locked) {
+    console.warn(`Locked account ${user.username} (ID: ${user.id}) after ${LOCKOUT_THRESHOLD} failed logins`);
+    await notifyAccountLocked(result.user);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Clears the account's failed attempts after it logs in. The address keeps its count, so one
+ * working login can't be used to reset the delay on guesses at other accounts.
+ */
+export async function clearFailedLogins(user: User): Promise<void> {
+  if (user.failedLoginAttempts > 0 || user.lastFailedLoginAt) {
+    await storage.resetFailedLogins(user.id);
+  }
+}
@@ -0,0 +1,62 @@
+import { MaintenanceStatus, MaintenanceWindow } from '@shared/schema';
+import { storage } from '../storage';
+import { getPlatformSettings } from './settings';
+
+// Checked on every API request, so the schedule is cached like the settings are
+const CACHE_TTL_MS = 30 * 1000;
+
+const DEFAULT_MAINTENANCE_MESSAGE = "The platform is undergoing maintenance. Please try again shortly.";
+
+let cached: { windows: MaintenanceWindow[], loadedAt: number } | null = null;
+
+/**
+ * Gets the maintenance windows that are scheduled or in progress
+ * @returns Windows that haven't been cancelled or ended, soonest first
+ */
+async function getScheduledWindows(): Promise<MaintenanceWindow[]> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.windows;
+  }
+
+  try {
+    const windows = await storage.getScheduledMaintenanceWindows();
+    cached = { windows, loadedAt: Date.now() };
+    return windows;
+  } catch (error) {
+    console.error('Error loading maintenance windows:', error);
+    return cached?.windows || [];
+  }
+}
+
+/**
+ * Drops the cached schedule so the next check sees a window that was just created or cancelled
+ */
+export function invalidateMaintenanceWindows() {
+  cached = null;
+}
+
+/**
+ * Works out whether the platform is in maintenance right now, either because an admin has
+ * switched maintenance mode on or because a scheduled window is in progress
+ * @param now The time to check, defaults to the current time
+ * @returns Whether maintenance is active, with the window in progress or the next one coming up
+ */
+export async function getMaintenanceStatus(now: Date = new Date()): Promise<MaintenanceStatus> {
+  const [{ general }, windows] = await Promise.all([getPlatformSettings(), getScheduledWindows()]);
+
+  // The cache can hold windows that have ended since it was loaded
+  const remaining = windows.filter(window => new Date(window.endsAt) > now);
+  const current = remaining.find(window => new Date(window.startsAt) <= now) || null;
+
+  if (current) {
+    return { active: true, message: current.message, window: current };
+  }
+
+  const upcoming = remaining[0] || null;
+
+  return {
+    active: general.maintenanceMode,
+    message: general.maintenanceMode ? DEFAULT_MAINTENANCE_MESSAGE : upcoming?.message || null,
+    window: upcoming
+  };
+}
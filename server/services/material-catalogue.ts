@@ -0,0 +1,188 @@
+import { and, count, eq, getTableColumns, inArray, isNotNull, sql, type SQL } from "drizzle-orm";
+import { db } from "../db";
+import {
+  CatalogueMaterial,
+  FacetCount,
+  MaterialCatalogueFacets,
+  MaterialCatalogueFilters,
+  MaterialCataloguePage,
+  MaterialCatalogueSort,
+  encodeCatalogueCursor,
+  inventory,
+  materialSearchDocument,
+  materials,
+  suppliers
+} from "@shared/schema";
+import { toPrefixTsQuery } from "./search";
+
+// Enough tags to pick from without sending every one ever used
+const MAX_TAG_FACETS = 30;
+
+// What the customer pays: the discount price when there is one
+const effectivePrice = sql`coalesce(${materials.discountPrice}, ${materials.price})`;
+
+// Materials a supplier tracks stock for are available when some of it isn't reserved; the rest
+// fall back to the inStock flag set on the material
+const available = sql<boolean>`(CASE
+  WHEN EXISTS (SELECT 1 FROM ${inventory} WHERE ${inventory.materialId} = ${materials.id})
+  THEN EXISTS (
+    SELECT 1 FROM ${inventory}
+    WHERE ${inventory.materialId} = ${materials.id}
+      AND ${inventory.status} NOT IN ('out_of_stock', 'discontinued')
+      AND ${inventory.quantityAvailable} - coalesce(${inventory.reservedQuantity}, 0) > 0
+  )
+  ELSE coalesce(${materials.inStock}, false)
+END)`;
+
+// Filters a facet can leave out when counting its own options
+type FacetFilter = "category" | "brand" | "tags" | "price";
+
+function buildConditions(filters: MaterialCatalogueFilters, tsQuery: SQL | null, except?: FacetFilter): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (tsQuery) {
+    conditions.push(sql`${materialSearchDocument(materials)} @@ ${tsQuery}`);
+  }
+  if (filters.category && except !== "category") {
+    conditions.push(inArray(materials.category, filters.category));
+  }
+  if (filters.subcategory) {
+    conditions.push(eq(materials.subcategory, filters.subcategory));
+  }
+  if (filters.brand && except !== "brand") {
+    conditions.push(inArray(materials.brand, filters.brand));
+  }
+  if (filters.tags && except !== "tags") {
+    for (const tag of filters.tags) {
+      conditions.push(sql`${materials.tags}::jsonb @> ${JSON.stringify([tag])}::jsonb`);
+    }
+  }
+  if (filters.minPrice !== undefined && except !== "price") {
+    conditions.push(sql`${effectivePrice} >= ${filters.minPrice}`);
+  }
+  if (filters.maxPrice !== undefined && except !== "price") {
+    conditions.push(sql`${effectivePrice} <= ${filters.maxPrice}`);
+  }
+  if (filters.inStock !== undefined) {
+    conditions.push(filters.inStock ? available : sql`NOT ${available}`);
+  }
+  if (filters.featured !== undefined) {
+    conditions.push(eq(materials.featured, filters.featured));
+  }
+  if (filters.minRating !== undefined) {
+    conditions.push(sql`coalesce(${materials.rating}, 0) >= ${filters.minRating}`);
+  }
+
+  return conditions;
+}
+
+const whereAll = (conditions: SQL[]) => and(...conditions) ?? sql`true`;
+
+// The value each sort orders by, how, and the type its cursor value is read back as. Ties are
+// broken on id in the same direction, so every material has a unique position to resume from.
+function getSortKey(sort: MaterialCatalogueSort, tsQuery: SQL | null): { key: SQL, direction: "asc" | "desc", type: string } {
+  switch (sort) {
+    case "relevance":
+      return tsQuery
+        ? { key: sql`ts_rank(${materialSearchDocument(materials)}, ${tsQuery})`, direction: "desc", type: "real" }
+        : getSortKey("newest", null);
+    case "price_asc":
+      return { key: effectivePrice, direction: "asc", type: "integer" };
+    case "price_desc":
+      return { key: effectivePrice, direction: "desc", type: "integer" };
+    case "rating":
+      return { key: sql`coalesce(${materials.rating}, 0)`, direction: "desc", type: "double precision" };
+    case "name":
+      return { key: sql`${materials.name}`, direction: "asc", type: "text" };
+    default:
+      return { key: sql`${materials.createdAt}`, direction: "desc", type: "timestamp" };
+  }
+}
+
+async function getFacets(filters: MaterialCatalogueFilters, tsQuery: SQL | null): Promise<MaterialCatalogueFacets> {
+  const [categories, brands, tags, [price]] = await Promise.all([
+    db.select({ value: materials.category, count: count() })
+      .from(materials)
+      .where(whereAll(buildConditions(filters, tsQuery, "category")))
+      .groupBy(materials.category)
+      .orderBy(sql`count(*) DESC`, materials.category),
+    db.select({ value: sql<string>`${materials.brand}`, count: count() })
+      .from(materials)
+      .where(and(isNotNull(materials.brand), whereAll(buildConditions(filters, tsQuery, "brand"))))
+      .groupBy(materials.brand)
+      .orderBy(sql`count(*) DESC`, materials.brand),
+    db.execute(sql`
+      SELECT tag AS value, count(*)::int AS count
+      FROM ${materials},
+        json_array_elements_text(CASE WHEN json_typeof(${materials.tags}) = 'array' THEN ${materials.tags} ELSE '[]'::json END) AS tag
+      WHERE ${whereAll(buildConditions(filters, tsQuery, "tags"))}
+      GROUP BY tag
+      ORDER BY count(*) DESC, tag
+      LIMIT ${MAX_TAG_FACETS}
+    `),
+    db.select({ min: sql<number | null>`min(${effectivePrice})::int`, max: sql<number | null>`max(${effectivePrice})::int` })
+      .from(materials)
+      .where(whereAll(buildConditions(filters, tsQuery, "price")))
+  ]);
+
+  return {
+    categories,
+    brands,
+    tags: tags.rows as unknown as FacetCount[],
+    price: price.min === null || price.max === null ? null : { min: price.min, max: price.max }
+  };
+}
+
+/**
+ * Lists a page of the public materials catalogue. Pages are read with a cursor rather than an
+ * offset, so materials added while someone is scrolling don't shift what they see next.
+ * @param filters The filters, sort order and page position
+ * @returns The page of materials, plus the total and facet counts on the first page
+ */
+export async function getMaterialCatalogue(filters: MaterialCatalogueFilters): Promise<MaterialCataloguePage> {
+  const prefixQuery = filters.q ? toPrefixTsQuery(filters.q) : null;
+  const tsQuery = prefixQuery ? sql`to_tsquery('english', ${prefixQuery})` : null;
+  const { key, direction, type } = getSortKey(filters.sort, tsQuery);
+
+  const conditions = buildConditions(filters, tsQuery);
+  if (filters.cursor) {
+    // The sort value was read back as text, so it's cast to its own type to compare exactly; the
+    // filters schema has checked it's for this sort and reads as that type
+    const operator = sql.raw(direction === "asc" ? ">" : "<");
+    conditions.push(sql`(${key}, ${materials.id}) ${operator} (${filters.cursor.sortValue}::${sql.raw(type)}, ${filters.cursor.id})`);
+  }
+
+  const order = sql.raw(direction === "asc" ? "ASC" : "DESC");
+  const rows = await db
+    .select({
+      ...getTableColumns(materials),
+      supplierName: suppliers.name,
+      supplierVerified: sql<boolean>`coalesce(${suppliers.verificationStatus} = 'verified', false)`,
+      available,
+      sortValue: sql<string>`(${key})::text`
+    })
+    .from(materials)
+    .leftJoin(suppliers, eq(suppliers.id, materials.supplierId))
+    .where(whereAll(conditions))
+    .orderBy(sql`${key} ${order}`, sql`${materials.id} ${order}`)
+    .limit(filters.limit + 1);
+
+  const hasMore = rows.length > filters.limit;
+  const page = rows.slice(0, filters.limit);
+  const last = page[page.length - 1];
+
+  const firstPage = !filters.cursor;
+  const [total, facets] = firstPage
+    ? await Promise.all([
+        db.select({ total: count() }).from(materials).where(whereAll(buildConditions(filters, tsQuery))).then(([row]) => row.total),
+        getFacets(filters, tsQuery)
+      ])
+    : [null, null];
+
+  return {
+    materials: page.map(({ sortValue, ...material }): CatalogueMaterial => material),
+    nextCursor: hasMore && last ? encodeCatalogueCursor(filters.sort, last.sortValue, last.id) : null,
+    total,
+    facets
+  };
+}
@@ -1,5 +1,6 @@
-import { InsertNotification } from '@shared/schema';
+import { InsertNotification, Notification } from '@shared/schema';
 import { storage } from '../storage';
+import { getPlatformSettings } from './settings';
 
 // Define notification priority levels
 export type NotificationPriority = 'urgent' | 'high' | 'normal' | 'low' | 'info';
@@ -31,6 +32,19 @@ interface NotificationBase {
   actionUrl?: string;
 }
 
+// Delivers a notification to a user's open websocket connection; returns false if they aren't connected
+type RealTimeNotificationSender = (userId: number, notification: any, options: { sound: boolean }) => Promise<boolean>;
+
+let realTimeSender: RealTimeNotificationSender | null = null;
+
+/**
+ * Registers how notifications are pushed to connected users, once the websocket server is running
+ * @param sender Function that sends a notification to a user's websocket
+ */
+export function setRealTimeNotificationSender(sender: RealTimeNotificationSender) {
+  realTimeSender = sender;
+}
+
 // Create a type map for notification contexts
 type ContextualEmojis = {
   [key in NotificationType]: {
@@ -72,6 +86,8 @@ const contextualEmojis: ContextualEmojis = {
     shipped: '🚚',
     delivered: '📬',
     cancelled: '❌',
+    returned: '↩️',
+    refunded: '💸',
     payment_failed: '💳'
   },
   message: {
@@ -169,9 +185,12 @@ const priorityRules: Record<NotificationType, Record<string, NotificationPriorit
   order: {
     default: 'normal',
     placed: 'normal',
+    packed: 'low',
     shipped: 'normal',
     delivered: 'normal',
     cancelled: 'high',
+    returned: 'high',
+    refunded: 'normal',
     payment_failed: 'urgent',
     delayed: 'high'
   },
@@ -358,11 +377,33 @@ export async function createSmartNotification(
      '📢');
   
   // Create the notification with smart priority and emoji
-  return storage.createNotification({
+  const created = await storage.createNotification({
     ...notification,
     priority,
     emoji
   });
+  
+  await deliverNotification(created);
+  
+  return created;
+}
+
+/**
+ * Pushes a stored notification to the user's open tabs, when push notifications are enabled on
+ * the admin settings page. Delivery failures are logged rather than thrown, since the notification
+ * itself has been saved.
+ * @param notification The created notification
+ */
+async function deliverNotification(notification: Notification): Promise<void> {
+  try {
+    const { notifications: channels } = await getPlatformSettings();
+    
+    if (channels.pushNotifications && realTimeSender) {
+      await realTimeSender(notification.userId, notification, { sound: channels.notificationSound });
+    }
+  } catch (error) {
+    console.error(`Error delivering notification ${notification.id}:`, error);
+  }
 }
 
 /**
@@ -471,8 +512,13 @@ export async function createOrderStatusNotification(
   const contextMap: Record<string, string> = {
     'processing': 'placed',
     'in_transit': 'shipped',
+    'confirmed': 'placed',
+    'packed': 'packed',
+    'dispatched': 'shipped',
     'delivered': 'delivered',
     'cancelled': 'cancelled',
+    'returned': 'returned',
+    'refunded': 'refunded',
     'delayed': 'delayed',
     'payment_failed': 'payment_failed'
   };
@@ -0,0 +1,163 @@
+// Every status an order (or a supplier's part of one) can be in
+export const orderStatuses = [
+  "confirmed",
+  "packed",
+  "dispatched",
+  "delivered",
+  "cancelled",
+  "returned",
+  "refunded"
+] as const;
+
+export type OrderStatus = typeof orderStatuses[number];
+
+// Roles that are allowed to move orders between statuses
+export type OrderActorRole = "supplier" | "admin" | "client";
+
+// Allowed transitions out of each status, and the roles that may make them
+const orderTransitions: Record<OrderStatus, Partial<Record<OrderStatus, OrderActorRole[]>>> = {
+  confirmed: {
+    packed: ["supplier", "admin"],
+    cancelled: ["supplier", "admin", "client"]
+  },
+  packed: {
+    dispatched: ["supplier", "admin"],
+    cancelled: ["supplier", "admin"]
+  },
+  dispatched: {
+    delivered: ["supplier", "admin", "client"]
+  },
+  delivered: {
+    returned: ["admin", "client"]
+  },
+  cancelled: {
+    refunded: ["admin"]
+  },
+  returned: {
+    refunded: ["admin"]
+  },
+  refunded: {}
+};
+
+// Free-text statuses used before the state machine was introduced
+const legacyOrderStatuses: Record<string, OrderStatus> = {
+  processing: "confirmed",
+  in_transit: "dispatched"
+};
+
+// Position of each fulfilment status, used when rolling supplier orders up
+const fulfilmentSteps: OrderStatus[] = ["confirmed", "packed", "dispatched", "delivered"];
+
+/**
+ * Maps a stored status, including pre-state-machine values, onto the state machine
+ * @param status Status as stored on the order
+ * @returns The equivalent order status
+ */
+export function normaliseOrderStatus(status: string): OrderStatus {
+  if ((orderStatuses as readonly string[]).includes(status)) {
+    return status as OrderStatus;
+  }
+  return legacyOrderStatuses[status] || "confirmed";
+}
+
+/**
+ * Lists the statuses a user with the given role may move an order to
+ * @param status Current status of the order
+ * @param role Role of the user making the change
+ * @returns Statuses that can be transitioned to
+ */
+export function getAllowedOrderTransitions(status: string, role: string): OrderStatus[] {
+  const transitions = orderTransitions[normaliseOrderStatus(status)];
+
+  return (Object.keys(transitions) as OrderStatus[])
+    .filter(next => transitions[next]!.includes(role as OrderActorRole));
+}
+
+/**
+ * Checks whether a user with the given role may move an order between two statuses
+ * @param from Current status of the order
+ * @param to Requested status
+ * @param role Role of the user making the change
+ * @returns True if the transition is allowed
+ */
+export function canTransitionOrder(from: string, to: OrderStatus, role: string): boolean {
+  return getAllowedOrderTransitions(from, role).includes(to);
+}
+
+/**
+ * Derives a parent order's status from the statuses of its supplier orders.
+ * Cancelled supplier orders are ignored unless every supplier has cancelled.
+ * The order is only delivered once every remaining supplier has delivered, is
+ * dispatched as soon as any supplier has shipped, and packed once all have packed.
+ * @param statuses Statuses of all supplier orders belonging to the order
+ * @returns The rolled-up status for the parent order
+ */
+export function rollUpOrderStatus(statuses: string[]): OrderStatus {
+  const active = statuses
+    .map(normaliseOrderStatus)
+    .filter(status => status !== "cancelled");
+
+  if (active.length === 0) {
+    return statuses.length > 0 ? "cancelled" : "confirmed";
+  }
+
+  const steps = active.map(status => fulfilmentSteps.indexOf(status));
+
+  if (steps.every(step => step === 3)) {
+    return "delivered";
+  }
+
+  if (steps.some(step => step >= 2)) {
+    return "dispatched";
+  }
+
+  if (steps.every(step => step >= 1)) {
+    return "packed";
+  }
+
+  return "confirmed";
+}
+
+/**
+ * Decides whether a whole-order status change also applies to one of its supplier orders.
+ * Cancellation applies to every supplier order that isn't already cancelled (the order can only
+ * be cancelled once they all can be), and fulfilment steps bring along any supplier orders that
+ * are behind. Returns and refunds stay on the order.
+ * @param supplierOrderStatus Current status of the supplier order
+ * @param orderStatus Status the whole order is moving to
+ * @returns True if the supplier order should move to the same status
+ */
+export function shouldCascadeOrderStatus(supplierOrderStatus: string, orderStatus: OrderStatus): boolean {
+  const current = normaliseOrderStatus(supplierOrderStatus);
+
+  if (orderStatus === "cancelled") {
+    return current !== "cancelled";
+  }
+
+  const currentStep = fulfilmentSteps.indexOf(current);
+  const targetStep = fulfilmentSteps.indexOf(orderStatus);
+
+  return currentStep !== -1 && targetStep !== -1 && currentStep < targetStep;
+}
+
+/**
+ * Works out how a status change affects the stock reserved at checkout
+ * @param from Status the supplier order is leaving
+ * @param to Status the supplier order is moving to
+ * @returns "release" to free the reservation, "consume" to take the stock, or null
+ */
+export function getInventoryEffect(from: string, to: OrderStatus): "release" | "consume" | null {
+  const fromStep = fulfilmentSteps.indexOf(normaliseOrderStatus(from));
+  const toStep = fulfilmentSteps.indexOf(to);
+
+  // Reserved stock leaves the warehouse once the supplier dispatches it
+  if (fromStep !== -1 && fromStep < 2 && toStep >= 2) {
+    return "consume";
+  }
+
+  if (to === "cancelled" && fromStep !== -1 && fromStep < 2) {
+    return "release";
+  }
+
+  return null;
+}
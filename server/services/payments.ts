@@ -0,0 +1,749 @@
+import crypto from "crypto";
+import { PaymentIntent } from "@shared/schema";
+
+export type PaymentMethod = "mobile_money" | "card" | "bank_transfer";
+
+export type PaymentProviderName = "mtn_momo" | "card" | "bank_transfer" | "fake";
+
+export type PaymentIntentStatus =
+  | "pending"
+  | "requires_action"
+  | "processing"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+// Statuses a payment can't leave once reached
+export const finalPaymentStatuses: PaymentIntentStatus[] = ["succeeded", "failed", "cancelled"];
+
+// What the payer has to do next to complete a payment
+export interface PaymentNextAction {
+  type: "approve_on_phone" | "redirect" | "bank_transfer";
+  url?: string;
+  instructions?: string;
+}
+
+// Extra details a provider needs to start a charge
+export interface ChargeDetails {
+  phone?: string;
+  email: string;
+  callbackUrl: string;
+}
+
+export interface ChargeResult {
+  providerReference: string;
+  status: PaymentIntentStatus;
+  nextAction?: PaymentNextAction;
+  failureReason?: string;
+}
+
+// Where a charge has got to according to the provider
+export interface ChargeStatus {
+  status: PaymentIntentStatus;
+  failureReason?: string;
+  amount?: number; // what the provider says was paid, in cents
+  currency?: string;
+}
+
+// A provider webhook reduced to what we need to update the payment intent
+export interface PaymentWebhookEvent extends ChargeStatus {
+  eventId: string;
+  reference: string; // our payment intent reference
+}
+
+// Raw webhook request as received by the webhook route
+export interface WebhookRequest {
+  rawBody: Buffer;
+  body: any;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, any>;
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  // Starts collecting the payment with the provider
+  createCharge(intent: PaymentIntent, details: ChargeDetails): Promise<ChargeResult>;
+  // Asks the provider for the latest status, for when a webhook hasn't arrived
+  getChargeStatus(intent: PaymentIntent): Promise<ChargeStatus>;
+  // Checks the webhook really came from the provider
+  verifyWebhook(request: WebhookRequest): boolean;
+  parseWebhook(request: WebhookRequest): PaymentWebhookEvent | null;
+  // For providers whose webhooks aren't signed over what they say: replaces the event with the
+  // outcome read back from the provider
+  confirmWebhook?(event: PaymentWebhookEvent, intent: PaymentIntent): Promise<PaymentWebhookEvent>;
+}
+
+/**
+ * Creates a hex HMAC of a payload
+ * @param secret Shared secret
+ * @param payload Data to sign
+ * @param algorithm Hash algorithm
+ * @returns The hex encoded signature
+ */
+export function signPayload(secret: string, payload: string | Buffer, algorithm: "sha256" | "sha512" = "sha256"): string {
+  return crypto.createHmac(algorithm, secret).update(payload).digest("hex");
+}
+
+// Constant-time comparison so signatures can't be guessed byte by byte
+function signaturesMatch(expected: string, received: string | string[] | undefined): boolean {
+  if (typeof received !== "string") {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+  return expectedBuffer.length === receivedBuffer.length && crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+// Formats an amount in cents, e.g. "GHS 12.50"
+function formatAmount(amount: number, currency: string): string {
+  return `${currency} ${(amount / 100).toFixed(2)}`;
+}
+
+/**
+ * Checks a successful charge paid what the payment intent asked for, so a partial payment can't
+ * settle it in full
+ * @param intent The payment intent being settled
+ * @param reported What the provider says happened
+ * @returns Why the amounts don't match, or null if they do or the charge didn't succeed
+ */
+export function describeAmountMismatch(intent: PaymentIntent, reported: ChargeStatus): string | null {
+  if (reported.status !== "succeeded") {
+    return null;
+  }
+  if (reported.amount === undefined || !reported.currency) {
+    return "The provider didn't say how much was paid";
+  }
+  if (reported.amount !== intent.amount || reported.currency.toUpperCase() !== intent.currency) {
+    return `${formatAmount(reported.amount, reported.currency.toUpperCase())} was paid but ` +
+      `${formatAmount(intent.amount, intent.currency)} was due`;
+  }
+  return null;
+}
+
+// MoMo amounts are strings in the major unit, e.g. "12.50"
+function parseMomoAmount(amount: unknown): number | undefined {
+  const value = typeof amount === "string" || typeof amount === "number" ? Number(amount) : NaN;
+  return Number.isFinite(value) ? Math.round(value * 100) : undefined;
+}
+
+/**
+ * MTN Mobile Money collections (Request to Pay).
+ * MoMo doesn't sign its callbacks. The callback URL we register carries an HMAC of the payment
+ * reference to turn away stray requests, but that never changes for a payment and says nothing
+ * about the body, so a callback is only a prompt to read the payment back from MoMo.
+ */
+class MtnMomoProvider implements PaymentProvider {
+  name: PaymentProviderName = "mtn_momo";
+
+  private baseUrl = process.env.MOMO_BASE_URL || "https://sandbox.momodeveloper.mtn.com";
+  private targetEnvironment = process.env.MOMO_TARGET_ENVIRONMENT || "sandbox";
+
+  static isConfigured(): boolean {
+    return !!(process.env.MOMO_SUBSCRIPTION_KEY && process.env.MOMO_API_USER &&
+      process.env.MOMO_API_KEY && process.env.MOMO_WEBHOOK_SECRET);
+  }
+
+  private async getAccessToken(): Promise<string> {
+    const credentials = Buffer.from(`${process.env.MOMO_API_USER}:${process.env.MOMO_API_KEY}`).toString("base64");
+    const response = await fetch(`${this.baseUrl}/collection/token/`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${credentials}`,
+        "Ocp-Apim-Subscription-Key": process.env.MOMO_SUBSCRIPTION_KEY!
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`MoMo token request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.access_token;
+  }
+
+  async createCharge(intent: PaymentIntent, details: ChargeDetails): Promise<ChargeResult> {
+    const providerReference = crypto.randomUUID();
+    const signature = signPayload(process.env.MOMO_WEBHOOK_SECRET!, intent.reference);
+    const token = await this.getAccessToken();
+
+    const response = await fetch(`${this.baseUrl}/collection/v1_0/requesttopay`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${token}`,
+        "X-Reference-Id": providerReference,
+        "X-Target-Environment": this.targetEnvironment,
+        "X-Callback-Url": `${details.callbackUrl}?signature=${signature}`,
+        "Ocp-Apim-Subscription-Key": process.env.MOMO_SUBSCRIPTION_KEY!,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        amount: (intent.amount / 100).toFixed(2),
+        currency: intent.currency,
+        externalId: intent.reference,
+        payer: { partyIdType: "MSISDN", partyId: (details.phone || "").replace(/[^0-9]/g, "") },
+        payerMessage: `Payment ${intent.reference}`,
+        payeeNote: `Payment ${intent.reference}`
+      })
+    });
+
+    // MoMo accepts the request and asks the payer to approve it on their phone
+    if (response.status !== 202) {
+      return { providerReference, status: "failed", failureReason: `Mobile money request was rejected (${response.status})` };
+    }
+
+    return {
+      providerReference,
+      status: "requires_action",
+      nextAction: { type: "approve_on_phone", instructions: "Approve the payment prompt on your phone to complete payment" }
+    };
+  }
+
+  async getChargeStatus(intent: PaymentIntent) {
+    const token = await this.getAccessToken();
+    const response = await fetch(`${this.baseUrl}/collection/v1_0/requesttopay/${intent.providerReference}`, {
+      headers: {
+        "Authorization": `Bearer ${token}`,
+        "X-Target-Environment": this.targetEnvironment,
+        "Ocp-Apim-Subscription-Key": process.env.MOMO_SUBSCRIPTION_KEY!
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`MoMo status request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    return { ...this.mapStatus(data), amount: parseMomoAmount(data.amount), currency: data.currency };
+  }
+
+  verifyWebhook(request: WebhookRequest): boolean {
+    const reference = request.body?.externalId;
+    if (typeof reference !== "string") {
+      return false;
+    }
+    return signaturesMatch(signPayload(process.env.MOMO_WEBHOOK_SECRET!, reference), request.query.signature);
+  }
+
+  parseWebhook(request: WebhookRequest): PaymentWebhookEvent | null {
+    const { externalId, status, financialTransactionId } = request.body || {};
+    if (!externalId || !status) {
+      return null;
+    }
+
+    return {
+      eventId: `${externalId}:${financialTransactionId || status}`,
+      reference: externalId,
+      ...this.mapStatus(request.body)
+    };
+  }
+
+  // Nothing in the callback is trusted; the event is keyed on the status MoMo reports, so a replayed
+  // or forged callback can't use up the event for the real outcome
+  async confirmWebhook(event: PaymentWebhookEvent, intent: PaymentIntent): Promise<PaymentWebhookEvent> {
+    const latest = await this.getChargeStatus(intent);
+    return { ...latest, eventId: `${event.reference}:${latest.status}`, reference: event.reference };
+  }
+
+  private mapStatus(data: any): { status: PaymentIntentStatus, failureReason?: string } {
+    if (data.status === "SUCCESSFUL") {
+      return { status: "succeeded" };
+    }
+    if (data.status === "FAILED" || data.status === "REJECTED" || data.status === "TIMEOUT") {
+      return { status: "failed", failureReason: data.reason?.message || data.reason || "Mobile money payment failed" };
+    }
+    return { status: "requires_action" };
+  }
+}
+
+/**
+ * Card payments through Paystack's hosted checkout.
+ * Webhooks are signed with an HMAC-SHA512 of the body using the secret key.
+ */
+class CardProvider implements PaymentProvider {
+  name: PaymentProviderName = "card";
+
+  private baseUrl = "https://api.paystack.co";
+
+  static isConfigured(): boolean {
+    return !!process.env.PAYSTACK_SECRET_KEY;
+  }
+
+  async createCharge(intent: PaymentIntent, details: ChargeDetails): Promise<ChargeResult> {
+    const response = await fetch(`${this.baseUrl}/transaction/initialize`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${process.env.PAYSTACK_SECRET_KEY}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        email: details.email,
+        amount: intent.amount,
+        currency: intent.currency,
+        reference: intent.reference,
+        callback_url: details.callbackUrl,
+        channels: ["card"]
+      })
+    });
+
+    const data = await response.json();
+    if (!response.ok || !data.status) {
+      return { providerReference: intent.reference, status: "failed", failureReason: data.message || "Card payment could not be started" };
+    }
+
+    return {
+      providerReference: data.data.access_code,
+      status: "requires_action",
+      nextAction: { type: "redirect", url: data.data.authorization_url }
+    };
+  }
+
+  async getChargeStatus(intent: PaymentIntent) {
+    const response = await fetch(`${this.baseUrl}/transaction/verify/${encodeURIComponent(intent.reference)}`, {
+      headers: { "Authorization": `Bearer ${process.env.PAYSTACK_SECRET_KEY}` }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Paystack verify request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    return {
+      ...this.mapStatus(data.data?.status, data.data?.gateway_response),
+      amount: data.data?.amount,
+      currency: data.data?.currency
+    };
+  }
+
+  verifyWebhook(request: WebhookRequest): boolean {
+    const expected = signPayload(process.env.PAYSTACK_SECRET_KEY!, request.rawBody, "sha512");
+    return signaturesMatch(expected, request.headers["x-paystack-signature"]);
+  }
+
+  parseWebhook(request: WebhookRequest): PaymentWebhookEvent | null {
+    const { event, data } = request.body || {};
+    if (!data?.reference || (event !== "charge.success" && event !== "charge.failed")) {
+      return null;
+    }
+
+    return {
+      eventId: `${event}:${data.id}`,
+      reference: data.reference,
+      ...this.mapStatus(data.status, data.gateway_response),
+      amount: data.amount,
+      currency: data.currency
+    };
+  }
+
+  private mapStatus(status: string | undefined, gatewayResponse?: string): { status: PaymentIntentStatus, failureReason?: string } {
+    if (status === "success") {
+      return { status: "succeeded" };
+    }
+    if (status === "failed" || status === "reversed") {
+      return { status: "failed", failureReason: gatewayResponse || "Card payment failed" };
+    }
+    if (status === "abandoned") {
+      return { status: "cancelled" };
+    }
+    return { status: "requires_action" };
+  }
+}
+
+/**
+ * Direct bank transfer into the platform's account.
+ * The payer quotes the payment reference, and our bank reconciliation feed posts
+ * matched transfers back to the webhook, with the amount received in cents,
+ * signed with an HMAC-SHA256 of the body.
+ */
+class BankTransferProvider implements PaymentProvider {
+  name: PaymentProviderName = "bank_transfer";
+
+  static isConfigured(): boolean {
+    return !!(process.env.BANK_TRANSFER_ACCOUNT_NUMBER && process.env.BANK_TRANSFER_WEBHOOK_SECRET);
+  }
+
+  async createCharge(intent: PaymentIntent): Promise<ChargeResult> {
+    const amount = `${intent.currency} ${(intent.amount / 100).toFixed(2)}`;
+    return {
+      providerReference: intent.reference,
+      status: "requires_action",
+      nextAction: {
+        type: "bank_transfer",
+        instructions: `Transfer ${amount} to ${process.env.BANK_TRANSFER_ACCOUNT_NAME || "the platform account"}, ` +
+          `${process.env.BANK_TRANSFER_BANK_NAME || ""} account ${process.env.BANK_TRANSFER_ACCOUNT_NUMBER}, ` +
+          `quoting reference ${intent.reference}`
+      }
+    };
+  }
+
+  // Transfers are only confirmed through the reconciliation webhook
+  async getChargeStatus(intent: PaymentIntent) {
+    return { status: intent.status as PaymentIntentStatus };
+  }
+
+  verifyWebhook(request: WebhookRequest): boolean {
+    const expected = signPayload(process.env.BANK_TRANSFER_WEBHOOK_SECRET!, request.rawBody);
+    return signaturesMatch(expected, request.headers["x-bank-signature"]);
+  }
+
+  parseWebhook(request: WebhookRequest): PaymentWebhookEvent | null {
+    const { eventId, reference, status, amount, currency } = request.body || {};
+    if (!eventId || !reference) {
+      return null;
+    }
+
+    return {
+      eventId,
+      reference,
+      status: status === "matched" ? "succeeded" : "failed",
+      failureReason: status === "matched" ? undefined : "Bank transfer could not be matched",
+      amount,
+      currency
+    };
+  }
+}
+
+/**
+ * Offline provider for development. Charges wait for approval until settled
+ * through createFakeWebhook, which signs the event like a real provider would.
+ */
+class FakePaymentProvider implements PaymentProvider {
+  name: PaymentProviderName = "fake";
+
+  private secret = process.env.FAKE_PAYMENTS_WEBHOOK_SECRET || "fake-payments-secret";
+
+  async createCharge(intent: PaymentIntent): Promise<ChargeResult> {
+    return {
+      providerReference: `fake_${crypto.randomBytes(8).toString("hex")}`,
+      status: "requires_action",
+      nextAction: {
+        type: intent.method === "card" ? "redirect" : intent.method === "bank_transfer" ? "bank_transfer" : "approve_on_phone",
+        instructions: "Test payment - settle it from the fake provider endpoint"
+      }
+    };
+  }
+
+  async getChargeStatus(intent: PaymentIntent) {
+    return { status: intent.status as PaymentIntentStatus };
+  }
+
+  verifyWebhook(request: WebhookRequest): boolean {
+    return signaturesMatch(signPayload(this.secret, request.rawBody), request.headers["x-fake-signature"]);
+  }
+
+  parseWebhook(request: WebhookRequest): PaymentWebhookEvent | null {
+    const { eventId, reference, status, failureReason, amount, currency } = request.body || {};
+    if (!eventId || !reference || (status !== "succeeded" && status !== "failed")) {
+      return null;
+    }
+    return { eventId, reference, status, failureReason, amount, currency };
+  }
+
+  /**
+   * Builds a signed webhook request settling a fake payment in full
+   * @param intent Payment intent to settle
+   * @param status Outcome to simulate
+   * @returns A webhook request that passes verifyWebhook
+   */
+  createWebhook(intent: PaymentIntent, status: "succeeded" | "failed"): WebhookRequest {
+    const body = {
+      eventId: `fake_evt_${crypto.randomBytes(8).toString("hex")}`,
+      reference: intent.reference,
+      status,
+      failureReason: status === "failed" ? "Simulated failure" : undefined,
+      amount: intent.amount,
+      currency: intent.currency
+    };
+    const rawBody = Buffer.from(JSON.stringify(body));
+
+    return {
+      rawBody,
+      body,
+      headers: { "x-fake-signature": signPayload(this.secret, rawBody) },
+      query: {}
+    };
+  }
+}
+
+export const fakePaymentProvider = new FakePaymentProvider();
+
+export type PayoutStatus = "processing" | "paid" | "failed";
+
+// Money being paid out of the platform to a service provider
+export interface PayoutRequest {
+  reference: string;
+  amount: number; // in cents
+  currency: string;
+  phone: string;
+  note: string;
+  callbackUrl: string;
+}
+
+export interface PayoutResult {
+  status: PayoutStatus;
+  failureReason?: string;
+}
+
+// A payout callback reduced to what we need to update the payout
+export interface PayoutWebhookEvent {
+  reference: string; // our payout reference
+  status: PayoutStatus;
+  failureReason?: string;
+}
+
+export interface PayoutProvider {
+  name: PaymentProviderName;
+  // Starts sending the money to the recipient
+  sendPayout(payout: PayoutRequest): Promise<PayoutResult>;
+  // Checks the callback really came from the provider
+  verifyWebhook(request: WebhookRequest): boolean;
+  parseWebhook(request: WebhookRequest): PayoutWebhookEvent | null;
+  // For providers whose callbacks aren't signed over what they say: replaces the event with the
+  // outcome read back from the provider
+  confirmWebhook?(event: PayoutWebhookEvent): Promise<PayoutWebhookEvent>;
+}
+
+// MoMo wants a UUID for each transfer. Deriving it from our payout reference means a transfer can be
+// looked up again from the reference alone.
+function momoTransferId(reference: string): string {
+  const hex = crypto.createHash("sha256").update(reference).digest("hex");
+  const variant = (8 | (parseInt(hex[16], 16) & 3)).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * MTN Mobile Money disbursements (Transfer), used to pay service providers.
+ * Callbacks are only a prompt to read the transfer back from MoMo, the same
+ * as for collections.
+ */
+class MtnMomoPayoutProvider implements PayoutProvider {
+  name: PaymentProviderName = "mtn_momo";
+
+  private baseUrl = process.env.MOMO_BASE_URL || "https://sandbox.momodeveloper.mtn.com";
+  private targetEnvironment = process.env.MOMO_TARGET_ENVIRONMENT || "sandbox";
+
+  static isConfigured(): boolean {
+    return !!(process.env.MOMO_DISBURSEMENT_SUBSCRIPTION_KEY && process.env.MOMO_DISBURSEMENT_API_USER &&
+      process.env.MOMO_DISBURSEMENT_API_KEY && process.env.MOMO_WEBHOOK_SECRET);
+  }
+
+  private async getAccessToken(): Promise<string> {
+    const credentials = Buffer.from(
+      `${process.env.MOMO_DISBURSEMENT_API_USER}:${process.env.MOMO_DISBURSEMENT_API_KEY}`
+    ).toString("base64");
+    const response = await fetch(`${this.baseUrl}/disbursement/token/`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${credentials}`,
+        "Ocp-Apim-Subscription-Key": process.env.MOMO_DISBURSEMENT_SUBSCRIPTION_KEY!
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`MoMo disbursement token request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.access_token;
+  }
+
+  async sendPayout(payout: PayoutRequest): Promise<PayoutResult> {
+    const signature = signPayload(process.env.MOMO_WEBHOOK_SECRET!, payout.reference);
+    const token = await this.getAccessToken();
+
+    const response = await fetch(`${this.baseUrl}/disbursement/v1_0/transfer`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${token}`,
+        "X-Reference-Id": momoTransferId(payout.reference),
+        "X-Target-Environment": this.targetEnvironment,
+        "X-Callback-Url": `${payout.callbackUrl}?signature=${signature}`,
+        "Ocp-Apim-Subscription-Key": process.env.MOMO_DISBURSEMENT_SUBSCRIPTION_KEY!,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        amount: (payout.amount / 100).toFixed(2),
+        currency: payout.currency,
+        externalId: payout.reference,
+        payee: { partyIdType: "MSISDN", partyId: payout.phone.replace(/[^0-9]/g, "") },
+        payerMessage: payout.note,
+        payeeNote: payout.note
+      })
+    });
+
+    if (response.status !== 202) {
+      return { status: "failed", failureReason: `Mobile money transfer was rejected (${response.status})` };
+    }
+
+    return { status: "processing" };
+  }
+
+  verifyWebhook(request: WebhookRequest): boolean {
+    const reference = request.body?.externalId;
+    if (typeof reference !== "string") {
+      return false;
+    }
+    return signaturesMatch(signPayload(process.env.MOMO_WEBHOOK_SECRET!, reference), request.query.signature);
+  }
+
+  parseWebhook(request: WebhookRequest): PayoutWebhookEvent | null {
+    const { externalId, status, reason } = request.body || {};
+    if (!externalId || (status !== "SUCCESSFUL" && status !== "FAILED")) {
+      return null;
+    }
+
+    return {
+      reference: externalId,
+      status: status === "SUCCESSFUL" ? "paid" : "failed",
+      failureReason: status === "FAILED" ? reason?.message || reason || "Mobile money transfer failed" : undefined
+    };
+  }
+
+  async confirmWebhook(event: PayoutWebhookEvent): Promise<PayoutWebhookEvent> {
+    const token = await this.getAccessToken();
+    const response = await fetch(`${this.baseUrl}/disbursement/v1_0/transfer/${momoTransferId(event.reference)}`, {
+      headers: {
+        "Authorization": `Bearer ${token}`,
+        "X-Target-Environment": this.targetEnvironment,
+        "Ocp-Apim-Subscription-Key": process.env.MOMO_DISBURSEMENT_SUBSCRIPTION_KEY!
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`MoMo transfer status request failed with status ${response.status}`);
+    }
+
+    const { status, reason } = await response.json();
+    if (status === "SUCCESSFUL") {
+      return { reference: event.reference, status: "paid" };
+    }
+    if (status === "FAILED") {
+      return { reference: event.reference, status: "failed", failureReason: reason?.message || reason || "Mobile money transfer failed" };
+    }
+    return { reference: event.reference, status: "processing" };
+  }
+}
+
+/**
+ * Offline payouts for development - every payout is paid straight away
+ */
+class FakePayoutProvider implements PayoutProvider {
+  name: PaymentProviderName = "fake";
+
+  async sendPayout(): Promise<PayoutResult> {
+    return { status: "paid" };
+  }
+
+  verifyWebhook(request: WebhookRequest): boolean {
+    return fakePaymentProvider.verifyWebhook(request);
+  }
+
+  parseWebhook(request: WebhookRequest): PayoutWebhookEvent | null {
+    const { reference, status, failureReason } = request.body || {};
+    if (!reference || (status !== "paid" && status !== "failed")) {
+      return null;
+    }
+    return { reference, status, failureReason };
+  }
+}
+
+const momoPayoutProvider = new MtnMomoPayoutProvider();
+const fakePayoutProvider = new FakePayoutProvider();
+
+/**
+ * Picks the provider used to pay service providers out of escrow. Without
+ * credentials the fake provider is used outside production.
+ * @returns The payout provider
+ */
+export function getPayoutProvider(): PayoutProvider {
+  if (process.env.PAYMENTS_PROVIDER !== "fake" && MtnMomoPayoutProvider.isConfigured()) {
+    return momoPayoutProvider;
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("Payout provider is not configured");
+  }
+
+  return fakePayoutProvider;
+}
+
+/**
+ * Looks up a payout provider by name, e.g. from a payout callback URL
+ * @param name Provider name
+ * @returns The provider, or undefined if there isn't one with that name
+ */
+export function getPayoutProviderByName(name: string): PayoutProvider | undefined {
+  if (name === "fake") {
+    return process.env.NODE_ENV === "production" ? undefined : fakePayoutProvider;
+  }
+  return name === "mtn_momo" ? momoPayoutProvider : undefined;
+}
+
+const providers: Record<Exclude<PaymentProviderName, "fake">, { configured: () => boolean, instance: PaymentProvider }> = {
+  mtn_momo: { configured: MtnMomoProvider.isConfigured, instance: new MtnMomoProvider() },
+  card: { configured: CardProvider.isConfigured, instance: new CardProvider() },
+  bank_transfer: { configured: BankTransferProvider.isConfigured, instance: new BankTransferProvider() }
+};
+
+const providerForMethod: Record<PaymentMethod, Exclude<PaymentProviderName, "fake">> = {
+  mobile_money: "mtn_momo",
+  card: "card",
+  bank_transfer: "bank_transfer"
+};
+
+/**
+ * Picks the provider used to collect a payment method. Without credentials the
+ * fake provider is used outside production so payments can be tested offline.
+ * @param method How the payer wants to pay
+ * @returns The provider to charge through
+ */
+export function getPaymentProvider(method: PaymentMethod): PaymentProvider {
+  const provider = providers[providerForMethod[method]];
+
+  if (process.env.PAYMENTS_PROVIDER !== "fake" && provider.configured()) {
+    return provider.instance;
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(`Payment provider for ${method} is not configured`);
+  }
+
+  return fakePaymentProvider;
+}
+
+/**
+ * Looks up a provider by name, e.g. from a webhook URL
+ * @param name Provider name
+ * @returns The provider, or undefined if there isn't one with that name
+ */
+export function getPaymentProviderByName(name: string): PaymentProvider | undefined {
+  if (name === "fake") {
+    return process.env.NODE_ENV === "production" ? undefined : fakePaymentProvider;
+  }
+  return providers[name as keyof typeof providers]?.instance;
+}
+
+/**
+ * Generates a new payment reference
+ * @returns A reference like PAY-1A2B3C4D5E6F
+ */
+export function generatePaymentReference(): string {
+  return `PAY-${crypto.randomBytes(6).toString("hex").toUpperCase()}`;
+}
+
+/**
+ * Generates a new payout reference
+ * @returns A reference like OUT-1A2B3C4D5E6F
+ */
+export function generatePayoutReference(): string {
+  return `OUT-${crypto.randomBytes(6).toString("hex").toUpperCase()}`;
+}
+
+/**
+ * Hashes a payment request so a reused idempotency key can be matched to its original request
+ * @param body The parsed request body
+ * @returns A hex SHA-256 hash
+ */
+export function hashPaymentRequest(body: unknown): string {
+  return crypto.createHash("sha256").update(JSON.stringify(body)).digest("hex");
+}
@@ -0,0 +1,206 @@
+import type { Request, Response, NextFunction } from 'express';
+import { Project, ProjectAccess, ProjectPermission, RealtimeTopic, User, projectPermissions } from '@shared/schema';
+import { storage } from '../storage';
+import { parseRealtimeTopic } from './realtime';
+
+/**
+ * Returns a set of permissions based on a team member's role
+ */
+export function getPermissionsForRole(role: string): string[] {
+  const permissions: Record<string, string[]> = {
+    // Project Management Roles
+    'project_manager': ['edit_project', 'approve_changes', 'manage_team', 'view_all', 'create_timeline', 'approve_materials'],
+    'supervisor': ['view_all', 'approve_changes', 'create_timeline', 'manage_team', 'approve_materials'],
+    'client': ['edit_project', 'approve_changes', 'manage_team', 'view_all', 'approve_materials'],
+    'collaborator': ['view_project', 'comment'],
+
+    // Technical Roles
+    'architect': ['view_project', 'create_timeline', 'approve_changes', 'design_review'],
+    'engineer': ['view_project', 'create_timeline', 'structural_review', 'approve_changes'],
+    'contractor': ['view_project', 'create_timeline', 'manage_workers'],
+
+    // Specialized Construction Roles
+    'plumber': ['view_project', 'create_timeline', 'plumbing_work'],
+    'electrician': ['view_project', 'create_timeline', 'electrical_work'],
+    'carpenter': ['view_project', 'create_timeline', 'carpentry_work'],
+    'mason': ['view_project', 'create_timeline', 'masonry_work'],
+    'painter': ['view_project', 'create_timeline', 'painting_work'],
+
+    // Support Roles
+    'inspector': ['view_project', 'create_timeline', 'inspection_review'],
+    'supplier': ['view_project', 'view_materials', 'manage_materials'],
+
+    // Default/Other Roles
+    'member': ['view_project', 'comment'],
+    'family_member': ['view_project', 'comment'],
+    'designer': ['view_project', 'create_timeline', 'design_work'],
+    'manager': ['edit_project', 'approve_changes', 'manage_team', 'view_all', 'create_timeline'],
+    'consultant': ['view_project', 'create_timeline', 'comment', 'approve_changes']
+  };
+
+  // Return default permissions if role isn't defined
+  return permissions[role] || ['view_project', 'comment'];
+}
+
+// The role-level grants stored on team members and invitations, and the project permissions each one carries
+const IMPLIED_PERMISSIONS: Record<string, ProjectPermission[]> = {
+  edit_project: ['edit_project', 'edit_schedule', 'view_financials', 'record_expenses', 'upload_media', 'upload_documents', 'submit_reports', 'manage_materials'],
+  view_all: ['view_financials'],
+  create_timeline: ['edit_schedule'],
+  manage_workers: ['view_financials', 'record_expenses', 'upload_media', 'upload_documents', 'submit_reports', 'manage_materials'],
+  inspection_review: ['submit_reports'],
+  approve_materials: ['manage_materials'],
+  manage_materials: ['manage_materials'],
+};
+
+// Everyone on the team can see the project and join the discussion on it
+const MEMBER_PERMISSIONS: ProjectPermission[] = ['view_project', 'comment'];
+
+// The company delivering the project runs the site, but the client holds the purse strings
+const COMPANY_PERMISSIONS: ProjectPermission[] = [
+  'view_project', 'comment', 'edit_schedule', 'manage_team', 'view_financials',
+  'record_expenses', 'upload_media', 'upload_documents', 'submit_reports', 'manage_materials'
+];
+
+// Describes each permission for the message sent back when it's missing
+const PERMISSION_DESCRIPTIONS: Record<ProjectPermission, string> = {
+  view_project: 'view this project',
+  comment: 'comment on this project',
+  edit_project: 'edit this project',
+  edit_schedule: 'change the schedule for this project',
+  manage_team: 'manage the team for this project',
+  view_financials: 'view the finances for this project',
+  record_expenses: 'record expenses for this project',
+  approve_expenses: 'approve expenses for this project',
+  upload_media: 'upload photos and videos to this project',
+  upload_documents: 'upload documents to this project',
+  submit_reports: 'submit site reports for this project',
+  manage_materials: 'manage the materials on site for this project',
+};
+
+/**
+ * Expands a team member's stored grants into project permissions. Grants that are already
+ * project permissions are kept as they are, so they can be given to a member individually.
+ * @param role The member's team role
+ * @param granted The permissions stored on the member
+ * @returns The member's project permissions
+ */
+export function expandMemberPermissions(role: string, granted: unknown): ProjectPermission[] {
+  const grants = Array.isArray(granted) && granted.length > 0 ? granted : getPermissionsForRole(role);
+  const permissions = new Set<ProjectPermission>(MEMBER_PERMISSIONS);
+
+  for (const grant of grants) {
+    if ((projectPermissions as readonly string[]).includes(grant)) {
+      permissions.add(grant as ProjectPermission);
+    }
+    for (const implied of IMPLIED_PERMISSIONS[grant] || []) {
+      permissions.add(implied);
+    }
+  }
+
+  return projectPermissions.filter(permission => permissions.has(permission));
+}
+
+/**
+ * Works out what a user can do on a project
+ * @param user The user asking
+ * @param project The project they're asking about
+ * @returns The user's relationship to the project and the permissions it gives them
+ */
+export async function resolveProjectAccess(user: User, project: Project): Promise<ProjectAccess> {
+  if (user.role === 'admin') {
+    return { relationship: 'admin', role: null, permissions: [...projectPermissions] };
+  }
+
+  if (project.clientId === user.id) {
+    return { relationship: 'client', role: null, permissions: [...projectPermissions] };
+  }
+
+  if (project.companyId === user.id) {
+    return { relationship: 'company', role: null, permissions: COMPANY_PERMISSIONS };
+  }
+
+  const member = await storage.getProjectMember(project.id, user.id);
+  if (member) {
+    return {
+      relationship: 'member',
+      role: member.role,
+      permissions: expandMemberPermissions(member.role, member.permissions)
+    };
+  }
+
+  return { relationship: null, role: null, permissions: [] };
+}
+
+/**
+ * Express middleware that only lets the request through if the user has a permission on the
+ * project named in the route. The project and the user's access are left on res.locals
+ * for the handler to use.
+ * @param permission The permission the route needs
+ * @param param The route parameter holding the project ID
+ */
+export function requireProjectPermission(permission: ProjectPermission, param: string = 'projectId') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const projectId = parseInt(req.params[param]);
+    if (isNaN(projectId)) {
+      return res.status(400).json({ message: 'Invalid project ID' });
+    }
+
+    try {
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+
+      const access = await resolveProjectAccess(req.user!, project);
+      if (!access.permissions.includes(permission)) {
+        return res.status(403).json({
+          message: `You do not have permission to ${PERMISSION_DESCRIPTIONS[permission]}`,
+          code: 'PERMISSION_DENIED',
+          permission
+        });
+      }
+
+      res.locals.project = project;
+      res.locals.projectAccess = access;
+      next();
+    } catch (error) {
+      console.error('Error checking project permissions:', error);
+      res.status(500).json({ message: 'Failed to check project permissions' });
+    }
+  };
+}
+
+/**
+ * Checks whether a user may receive a real-time topic's events: their own user topic, projects
+ * they can view, and service requests they own, are assigned to or have bid on
+ * @param user The user subscribing
+ * @param topic The topic they asked for
+ * @returns Whether the subscription is allowed
+ */
+export async function canSubscribeToTopic(user: User, topic: RealtimeTopic): Promise<boolean> {
+  const { kind, id } = parseRealtimeTopic(topic);
+
+  switch (kind) {
+    case 'user':
+      return id === user.id;
+    case 'project': {
+      const project = await storage.getProject(id);
+      if (!project) return false;
+      const access = await resolveProjectAccess(user, project);
+      return access.permissions.includes('view_project');
+    }
+    case 'service_request': {
+      if (user.role === 'admin') return true;
+      const serviceRequest = await storage.getServiceRequest(id);
+      if (!serviceRequest) return false;
+      if (serviceRequest.clientId === user.id || serviceRequest.assignedServiceProviderId === user.id) return true;
+      const bids = await storage.getServiceRequestBidsByServiceRequest(id);
+      return bids.some(bid => bid.serviceProviderId === user.id);
+    }
+    default:
+      return false;
+  }
+}
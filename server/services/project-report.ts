@@ -0,0 +1,469 @@
+import fs from 'fs';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { format } from 'date-fns';
+import { eq, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { storage } from '../storage';
+import { getPlatformSettings } from './settings';
+import {
+  materials,
+  siteMaterials,
+  Project,
+  ProjectReportOptions,
+  ProjectTeamMember,
+  ProjectTimeline
+} from '@shared/schema';
+
+// Uploaded photos and the platform logo are served from here, so they can be read straight off disk
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+
+// How many photos go in the report when none are picked
+const DEFAULT_PHOTO_COUNT = 6;
+
+const PAGE_MARGIN = 50;
+
+// A project image as stored in project.mainImage and project.additionalImages
+interface ProjectImage {
+  id: number;
+  name?: string;
+  url: string;
+  type?: string;
+  uploadedAt?: string;
+}
+
+interface ExpenseCategoryTotal {
+  category: string;
+  total: number;
+  count: number;
+}
+
+interface SiteMaterialRow {
+  name: string;
+  quantity: number;
+  unit: string;
+  location: string | null;
+  status: string | null;
+}
+
+interface ReportPhoto {
+  caption: string;
+  file: string;
+}
+
+// Everything that goes into a report, gathered before any drawing starts
+interface ProjectReportData {
+  project: Project;
+  options: ProjectReportOptions;
+  siteName: string;
+  brandColor: string;
+  logoFile: string | null;
+  timeline: ProjectTimeline[];
+  expenses: ExpenseCategoryTotal[];
+  siteMaterials: SiteMaterialRow[];
+  team: ProjectTeamMember[];
+  photos: ReportPhoto[];
+}
+
+// The built-in PDF fonts have no cedi sign, so amounts are written with the currency code
+const formatMoney = (cents: number) =>
+  `GHS ${(cents / 100).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDay = (date: Date | string) => format(new Date(date), 'd MMM yyyy');
+
+const humanize = (value: string) => value.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+function inPeriod(date: Date, options: ProjectReportOptions): boolean {
+  const day = format(date, 'yyyy-MM-dd');
+  return (!options.from || day >= options.from) && (!options.to || day <= options.to);
+}
+
+// Maps an image URL, relative or absolute, to the uploaded file behind it. Remote images are
+// left out so the report never depends on the network.
+function resolvePublicFile(url: string): string | null {
+  const match = url.match(/\/(uploads|assets)\/[^?#]+/);
+  if (!match) return null;
+
+  const file = path.join(PUBLIC_DIR, decodeURIComponent(match[0]));
+  if (!file.startsWith(PUBLIC_DIR) || !fs.existsSync(file)) return null;
+
+  // PDFKit can only embed JPEG and PNG images
+  return /\.(jpe?g|png)$/i.test(file) ? file : null;
+}
+
+async function getExpenseBreakdown(projectId: number, options: ProjectReportOptions): Promise<ExpenseCategoryTotal[]> {
+  const result = await db.execute(sql`
+    SELECT category, SUM(amount)::int AS total, COUNT(*)::int AS count
+    FROM project_expenses
+    WHERE project_id = ${projectId}
+      ${options.from ? sql`AND date >= ${options.from}::date` : sql``}
+      ${options.to ? sql`AND date < ${options.to}::date + 1` : sql``}
+    GROUP BY category
+    ORDER BY total DESC
+  `);
+  return result.rows as unknown as ExpenseCategoryTotal[];
+}
+
+async function getSiteMaterialRows(projectId: number): Promise<SiteMaterialRow[]> {
+  return db
+    .select({
+      name: materials.name,
+      quantity: siteMaterials.quantity,
+      unit: siteMaterials.unit,
+      location: siteMaterials.location,
+      status: siteMaterials.status
+    })
+    .from(siteMaterials)
+    .innerJoin(materials, eq(siteMaterials.materialId, materials.id))
+    .where(eq(siteMaterials.projectId, projectId))
+    .orderBy(materials.name);
+}
+
+function getReportPhotos(project: Project, photoIds?: number[]): ReportPhoto[] {
+  const images = [
+    project.mainImage as ProjectImage | null,
+    ...(Array.isArray(project.additionalImages) ? project.additionalImages as ProjectImage[] : [])
+  ].filter((image): image is ProjectImage => !!image?.url);
+
+  const chosen = photoIds
+    ? images.filter(image => photoIds.includes(image.id))
+    : [...images]
+        .sort((a, b) => new Date(b.uploadedAt || 0).getTime() - new Date(a.uploadedAt || 0).getTime())
+        .slice(0, DEFAULT_PHOTO_COUNT);
+
+  return chosen
+    .map(image => ({
+      caption: image.uploadedAt ? `${image.name || 'Site photo'} - ${formatDay(image.uploadedAt)}` : image.name || 'Site photo',
+      file: resolvePublicFile(image.url)
+    }))
+    .filter((photo): photo is ReportPhoto => !!photo.file);
+}
+
+async function gatherReportData(project: Project, options: ProjectReportOptions): Promise<ProjectReportData> {
+  const sections = new Set(options.sections);
+  const settings = await getPlatformSettings();
+
+  const [timeline, expenses, materialRows, team] = await Promise.all([
+    sections.has('overview') || sections.has('progress') ? storage.getProjectTimelines(project.id) : [],
+    sections.has('financial') ? getExpenseBreakdown(project.id, options) : [],
+    sections.has('materials') ? getSiteMaterialRows(project.id) : [],
+    sections.has('team') ? storage.getProjectMembers(project.id) : []
+  ]);
+
+  return {
+    project,
+    options,
+    siteName: settings.general.siteName,
+    brandColor: settings.appearance.primaryColor,
+    logoFile: resolvePublicFile(settings.appearance.logo),
+    timeline: timeline
+      .filter(entry => inPeriod(new Date(entry.date), options))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    expenses,
+    siteMaterials: materialRows,
+    team,
+    photos: sections.has('photos') ? getReportPhotos(project, options.photos) : []
+  };
+}
+
+// Drawing helpers. Each one leaves doc.y below whatever it drew.
+
+function ensureSpace(doc: PDFKit.PDFDocument, height: number) {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+    doc.addPage();
+  }
+}
+
+function sectionHeading(doc: PDFKit.PDFDocument, data: ProjectReportData, title: string) {
+  ensureSpace(doc, 60);
+  doc.moveDown(1);
+  doc.font('Helvetica-Bold').fontSize(14).fillColor(data.brandColor).text(title, PAGE_MARGIN);
+  const y = doc.y + 2;
+  doc.moveTo(PAGE_MARGIN, y).lineTo(doc.page.width - PAGE_MARGIN, y).lineWidth(1).strokeColor(data.brandColor).stroke();
+  doc.moveDown(0.6);
+  doc.font('Helvetica').fontSize(10).fillColor('#111827');
+}
+
+function emptyNote(doc: PDFKit.PDFDocument, text: string) {
+  doc.font('Helvetica-Oblique').fontSize(10).fillColor('#6B7280').text(text, PAGE_MARGIN);
+  doc.font('Helvetica').fillColor('#111827');
+}
+
+// Draws a simple table; widths are fractions of the page's content width
+function table(doc: PDFKit.PDFDocument, data: ProjectReportData, headers: string[], widths: number[], rows: string[][]) {
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const columns = widths.map(width => width * contentWidth);
+
+  const drawRow = (cells: string[], header: boolean) => {
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    const height = Math.max(...cells.map((cell, index) => doc.heightOfString(cell, { width: columns[index] - 8 }))) + 8;
+    ensureSpace(doc, height);
+
+    const top = doc.y;
+    if (header) {
+      doc.rect(PAGE_MARGIN, top, contentWidth, height).fill(data.brandColor);
+    }
+
+    let x = PAGE_MARGIN;
+    cells.forEach((cell, index) => {
+      doc.fillColor(header ? '#FFFFFF' : '#111827').text(cell, x + 4, top + 4, { width: columns[index] - 8 });
+      x += columns[index];
+    });
+
+    doc.moveTo(PAGE_MARGIN, top + height).lineTo(PAGE_MARGIN + contentWidth, top + height).lineWidth(0.5).strokeColor('#E5E7EB').stroke();
+    doc.y = top + height;
+  };
+
+  drawRow(headers, true);
+  rows.forEach(row => drawRow(row, false));
+  doc.x = PAGE_MARGIN;
+  doc.moveDown(0.5);
+}
+
+function drawHeader(doc: PDFKit.PDFDocument, data: ProjectReportData) {
+  const { project, options } = data;
+
+  doc.rect(0, 0, doc.page.width, 90).fill(data.brandColor);
+  if (data.logoFile) {
+    doc.image(data.logoFile, PAGE_MARGIN, 20, { fit: [50, 50] });
+  }
+  const textLeft = data.logoFile ? PAGE_MARGIN + 62 : PAGE_MARGIN;
+  doc.font('Helvetica-Bold').fontSize(18).fillColor('#FFFFFF').text(data.siteName, textLeft, 26);
+  doc.font('Helvetica').fontSize(10).text('Project Report', textLeft, 50);
+
+  const period = options.from || options.to
+    ? `${options.from ? formatDay(options.from) : 'Start'} to ${options.to ? formatDay(options.to) : 'today'}`
+    : 'Whole project';
+
+  doc.y = 110;
+  doc.font('Helvetica-Bold').fontSize(16).fillColor('#111827').text(project.name, PAGE_MARGIN);
+  doc.font('Helvetica').fontSize(10).fillColor('#6B7280')
+    .text(`${project.location}  |  ${period}  |  Generated ${formatDay(new Date())}`, PAGE_MARGIN);
+  doc.fillColor('#111827');
+}
+
+function drawOverview(doc: PDFKit.PDFDocument, data: ProjectReportData) {
+  const { project } = data;
+  sectionHeading(doc, data, 'Overview');
+
+  const totalSpent = data.expenses.reduce((sum, category) => sum + category.total, 0);
+  const facts: [string, string][] = [
+    ['Status', humanize(project.status)],
+    ['Progress', `${project.progress}%`],
+    ['Construction phase', project.constructionPhase ? humanize(project.constructionPhase) : 'Not set'],
+    ['Estimated completion', project.estimatedCompletion ? formatDay(project.estimatedCompletion) : 'Not set'],
+    ['Timeline updates', String(data.timeline.length)]
+  ];
+  if (data.options.sections.includes('financial')) {
+    facts.push(['Budget', project.budget ? formatMoney(project.budget) : 'Not set']);
+    facts.push(['Spent', formatMoney(totalSpent)]);
+  }
+
+  facts.forEach(([label, value]) => {
+    doc.font('Helvetica-Bold').text(`${label}: `, PAGE_MARGIN, doc.y, { continued: true }).font('Helvetica').text(value);
+  });
+
+  // Progress bar
+  ensureSpace(doc, 30);
+  const barWidth = doc.page.width - PAGE_MARGIN * 2;
+  const top = doc.y + 8;
+  doc.roundedRect(PAGE_MARGIN, top, barWidth, 10, 5).fill('#E5E7EB');
+  if (project.progress > 0) {
+    doc.roundedRect(PAGE_MARGIN, top, barWidth * Math.min(project.progress, 100) / 100, 10, 5).fill(data.brandColor);
+  }
+  doc.fillColor('#111827');
+  doc.y = top + 18;
+
+  doc.moveDown(0.5);
+  doc.text(project.description, PAGE_MARGIN);
+}
+
+function drawProgress(doc: PDFKit.PDFDocument, data: ProjectReportData) {
+  sectionHeading(doc, data, 'Progress');
+
+  if (data.timeline.length === 0) {
+    emptyNote(doc, 'No progress updates in this period.');
+    return;
+  }
+
+  data.timeline.forEach(entry => {
+    ensureSpace(doc, 50);
+    const completion = entry.completionPercentage !== null ? `  |  ${entry.completionPercentage}% complete` : '';
+    doc.font('Helvetica-Bold').fontSize(10).text(entry.title, PAGE_MARGIN);
+    doc.font('Helvetica').fontSize(9).fillColor('#6B7280')
+      .text(`${formatDay(entry.date)}  |  ${humanize(entry.status)}${completion}`);
+    doc.fillColor('#111827').fontSize(10).text(entry.description);
+    if (entry.delayReason) {
+      doc.fillColor('#B91C1C').text(`Delay: ${entry.delayReason}`).fillColor('#111827');
+    }
+    if (entry.nextSteps) {
+      doc.text(`Next steps: ${entry.nextSteps}`);
+    }
+    doc.moveDown(0.6);
+  });
+}
+
+function drawFinancial(doc: PDFKit.PDFDocument, data: ProjectReportData) {
+  sectionHeading(doc, data, 'Expenses by Category');
+
+  if (data.expenses.length === 0) {
+    emptyNote(doc, 'No expenses recorded in this period.');
+    return;
+  }
+
+  const totalSpent = data.expenses.reduce((sum, category) => sum + category.total, 0);
+  table(doc, data, ['Category', 'Expenses', 'Amount', 'Share'], [0.4, 0.15, 0.25, 0.2], [
+    ...data.expenses.map(category => [
+      humanize(category.category),
+      String(category.count),
+      formatMoney(category.total),
+      totalSpent > 0 ? `${Math.round((category.total / totalSpent) * 100)}%` : '-'
+    ]),
+    ['Total', String(data.expenses.reduce((sum, category) => sum + category.count, 0)), formatMoney(totalSpent), '100%']
+  ]);
+
+  if (data.project.budget) {
+    doc.text(`${formatMoney(totalSpent)} of the ${formatMoney(data.project.budget)} budget has been spent.`, PAGE_MARGIN);
+  }
+}
+
+function drawMaterials(doc: PDFKit.PDFDocument, data: ProjectReportData) {
+  sectionHeading(doc, data, 'Site Materials');
+
+  if (data.siteMaterials.length === 0) {
+    emptyNote(doc, 'No materials are recorded on site.');
+    return;
+  }
+
+  table(doc, data, ['Material', 'Quantity', 'Location', 'Status'], [0.4, 0.2, 0.25, 0.15],
+    data.siteMaterials.map(material => [
+      material.name,
+      `${material.quantity} ${material.unit}`,
+      material.location || '-',
+      material.status ? humanize(material.status) : '-'
+    ])
+  );
+}
+
+function drawTeam(doc: PDFKit.PDFDocument, data: ProjectReportData) {
+  sectionHeading(doc, data, 'Team');
+
+  if (data.team.length === 0) {
+    emptyNote(doc, 'No team members have been added.');
+    return;
+  }
+
+  table(doc, data, ['Member', 'Role', 'Joined'], [0.4, 0.35, 0.25],
+    data.team.map(member => [member.username, humanize(member.role), formatDay(member.addedAt)])
+  );
+}
+
+function drawPhotos(doc: PDFKit.PDFDocument, data: ProjectReportData) {
+  sectionHeading(doc, data, 'Photos');
+
+  if (data.photos.length === 0) {
+    emptyNote(doc, 'No photos selected.');
+    return;
+  }
+
+  // Two photos to a row
+  const gap = 15;
+  const width = (doc.page.width - PAGE_MARGIN * 2 - gap) / 2;
+  const height = width * 0.75;
+
+  for (let index = 0; index < data.photos.length; index += 2) {
+    ensureSpace(doc, height + 30);
+    const top = doc.y;
+
+    data.photos.slice(index, index + 2).forEach((photo, column) => {
+      const left = PAGE_MARGIN + column * (width + gap);
+      try {
+        doc.image(photo.file, left, top, { fit: [width, height], align: 'center', valign: 'center' });
+      } catch (error) {
+        console.error(`Could not add photo ${photo.file} to the report:`, error);
+        doc.rect(left, top, width, height).strokeColor('#E5E7EB').stroke();
+      }
+      doc.font('Helvetica').fontSize(8).fillColor('#6B7280').text(photo.caption, left, top + height + 4, { width });
+    });
+
+    doc.fillColor('#111827');
+    doc.x = PAGE_MARGIN;
+    doc.y = top + height + 24;
+  }
+}
+
+function drawFooters(doc: PDFKit.PDFDocument, data: ProjectReportData) {
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    // Writing inside the bottom margin would otherwise push the text onto a new page
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font('Helvetica').fontSize(8).fillColor('#9CA3AF').text(
+      `${data.siteName}  |  ${data.project.name}  |  Page ${index + 1} of ${range.count}`,
+      PAGE_MARGIN,
+      doc.page.height - 35,
+      { width: doc.page.width - PAGE_MARGIN * 2, align: 'center' }
+    );
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+const SECTION_RENDERERS = {
+  overview: drawOverview,
+  progress: drawProgress,
+  financial: drawFinancial,
+  materials: drawMaterials,
+  team: drawTeam,
+  photos: drawPhotos
+};
+
+/**
+ * Renders a branded PDF report for a project. Everything, including photos, is read from the
+ * database and local uploads, so no network access is needed.
+ * @param project The project to report on
+ * @param options Which sections to include, the period to cover and the photos to show
+ * @returns The PDF file contents
+ */
+export async function generateProjectReportPdf(project: Project, options: ProjectReportOptions): Promise<Buffer> {
+  const data = await gatherReportData(project, options);
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+    info: {
+      Title: `${project.name} - Project Report`,
+      Author: data.siteName
+    }
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  drawHeader(doc, data);
+  // Sections are always drawn in the same order, whatever order they were asked for in
+  for (const section of Object.keys(SECTION_RENDERERS) as (keyof typeof SECTION_RENDERERS)[]) {
+    if (options.sections.includes(section)) {
+      SECTION_RENDERERS[section](doc, data);
+    }
+  }
+  drawFooters(doc, data);
+
+  doc.end();
+  return finished;
+}
+
+/**
+ * Builds the download name for a project report, e.g. "east-legon-villa-report-2025-03-14.pdf"
+ * @param project The project the report is for
+ * @returns A filesystem-safe file name
+ */
+export function getProjectReportFileName(project: Project): string {
+  const slug = project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || `project-${project.id}`;
+  return `${slug}-report-${format(new Date(), 'yyyy-MM-dd')}.pdf`;
+}
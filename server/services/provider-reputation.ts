@@ -0,0 +1,175 @@
+import { sql, type SQL } from "drizzle-orm";
+import { db } from "../db";
+import { ProviderScorecard } from "@shared/schema";
+
+// How far back replies count towards the response time, so it reflects how they work now
+const RESPONSE_WINDOW_DAYS = 90;
+
+async function query<T>(statement: SQL): Promise<T[]> {
+  const result = await db.execute(statement);
+  return result.rows as T[];
+}
+
+const rate = (part: number, whole: number) => whole > 0 ? part / whole : null;
+
+function emptyScorecard(serviceProviderId: number): ProviderScorecard {
+  return {
+    serviceProviderId,
+    averageRating: null,
+    reviewCount: 0,
+    completedJobs: 0,
+    onTimeRate: null,
+    onTimeSample: 0,
+    budgetVariance: null,
+    budgetSample: 0,
+    bidsWon: 0,
+    bidsDecided: 0,
+    winRate: null,
+    medianResponseMinutes: null,
+    responseSample: 0
+  };
+}
+
+/**
+ * Works out the track record of several service providers at once, e.g. everyone who bid on a request.
+ *
+ * Jobs are on time when they were completed within the winning bid's timeframe: from assignment for
+ * service requests, and from the bid being accepted for projects. Budget variance only covers
+ * projects, since service requests are paid through escrow for exactly the bid amount.
+ * Response time is the median wait between someone messaging the provider directly and their reply.
+ * @param providerIds The service providers' user IDs
+ * @returns A scorecard for every ID asked for, by ID
+ */
+export async function getProviderScorecards(providerIds: number[]): Promise<Record<number, ProviderScorecard>> {
+  const ids = Array.from(new Set(providerIds));
+  const scorecards: Record<number, ProviderScorecard> = {};
+  if (ids.length === 0) return scorecards;
+
+  const [reviews, requestJobs, projectJobs, bids, responses] = await Promise.all([
+    query<{ provider_id: number, average: number, count: number }>(sql`
+      SELECT service_provider_id AS provider_id, AVG(rating)::float8 AS average, COUNT(*)::int AS count
+      FROM provider_reviews
+      WHERE service_provider_id IN ${ids}
+      GROUP BY service_provider_id
+    `),
+    query<{ provider_id: number, completed: number, timed: number, on_time: number }>(sql`
+      SELECT
+        sr.assigned_service_provider_id AS provider_id,
+        COUNT(*)::int AS completed,
+        COUNT(*) FILTER (WHERE b.id IS NOT NULL AND sr.assigned_at IS NOT NULL AND sr.completed_at IS NOT NULL)::int AS timed,
+        COUNT(*) FILTER (WHERE sr.completed_at <= sr.assigned_at + b.timeframe * interval '1 day')::int AS on_time
+      FROM service_requests sr
+      LEFT JOIN service_request_bids b ON b.service_request_id = sr.id
+        AND b.service_provider_id = sr.assigned_service_provider_id
+        AND b.status = 'accepted'
+      WHERE sr.status = 'completed' AND sr.assigned_service_provider_id IN ${ids}
+      GROUP BY sr.assigned_service_provider_id
+    `),
+    query<{ provider_id: number, completed: number, timed: number, on_time: number, budgeted: number, variance: number | null }>(sql`
+      SELECT
+        p.company_id AS provider_id,
+        COUNT(*)::int AS completed,
+        COUNT(*) FILTER (WHERE b.estimated_duration IS NOT NULL AND p.completed_at IS NOT NULL)::int AS timed,
+        COUNT(*) FILTER (WHERE p.completed_at <= b.updated_at + b.estimated_duration * interval '1 day')::int AS on_time,
+        COUNT(*) FILTER (WHERE b.bid_amount > 0 AND p.actual_cost > 0)::int AS budgeted,
+        AVG((p.actual_cost - b.bid_amount)::float8 / b.bid_amount) FILTER (WHERE b.bid_amount > 0 AND p.actual_cost > 0) AS variance
+      FROM projects p
+      LEFT JOIN project_bids b ON b.project_id = p.id
+        AND b.service_provider_id = p.company_id
+        AND b.status = 'accepted'
+      WHERE p.status = 'completed' AND p.company_id IN ${ids}
+      GROUP BY p.company_id
+    `),
+    query<{ provider_id: number, won: number, decided: number }>(sql`
+      SELECT provider_id, COUNT(*) FILTER (WHERE status = 'accepted')::int AS won, COUNT(*)::int AS decided
+      FROM (
+        SELECT service_provider_id AS provider_id, status FROM service_request_bids
+        WHERE service_provider_id IN ${ids} AND status IN ('accepted', 'rejected')
+        UNION ALL
+        SELECT service_provider_id AS provider_id, status FROM project_bids
+        WHERE service_provider_id IN ${ids} AND status IN ('accepted', 'rejected')
+      ) decided_bids
+      GROUP BY provider_id
+    `),
+    // A reply answers everything the other person sent since the provider's previous message, so
+    // it's timed from the first of those
+    query<{ provider_id: number, median_minutes: number, count: number }>(sql`
+      WITH replies AS (
+        SELECT
+          r.sender_id AS provider_id,
+          r.created_at,
+          (
+            SELECT MIN(m.created_at) FROM messages m
+            WHERE m.conversation_id = r.conversation_id
+              AND m.sender_id <> r.sender_id
+              AND m.created_at < r.created_at
+              AND m.created_at > COALESCE((
+                SELECT MAX(previous.created_at) FROM messages previous
+                WHERE previous.conversation_id = r.conversation_id
+                  AND previous.sender_id = r.sender_id
+                  AND previous.created_at < r.created_at
+              ), '-infinity'::timestamp)
+          ) AS asked_at
+        FROM messages r
+        JOIN conversations c ON c.id = r.conversation_id AND c.type = 'direct'
+        WHERE r.sender_id IN ${ids}
+          AND r.created_at > now() - ${RESPONSE_WINDOW_DAYS}::int * interval '1 day'
+      )
+      SELECT
+        provider_id,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM created_at - asked_at) / 60)::float8 AS median_minutes,
+        COUNT(*)::int AS count
+      FROM replies
+      WHERE asked_at IS NOT NULL
+      GROUP BY provider_id
+    `)
+  ]);
+
+  for (const id of ids) {
+    const scorecard = emptyScorecard(id);
+    const review = reviews.find(row => row.provider_id === id);
+    const requestJob = requestJobs.find(row => row.provider_id === id);
+    const projectJob = projectJobs.find(row => row.provider_id === id);
+    const bid = bids.find(row => row.provider_id === id);
+    const response = responses.find(row => row.provider_id === id);
+
+    if (review) {
+      scorecard.averageRating = review.average;
+      scorecard.reviewCount = review.count;
+    }
+
+    scorecard.completedJobs = (requestJob?.completed ?? 0) + (projectJob?.completed ?? 0);
+    scorecard.onTimeSample = (requestJob?.timed ?? 0) + (projectJob?.timed ?? 0);
+    scorecard.onTimeRate = rate((requestJob?.on_time ?? 0) + (projectJob?.on_time ?? 0), scorecard.onTimeSample);
+
+    if (projectJob && projectJob.budgeted > 0) {
+      scorecard.budgetVariance = projectJob.variance;
+      scorecard.budgetSample = projectJob.budgeted;
+    }
+
+    if (bid) {
+      scorecard.bidsWon = bid.won;
+      scorecard.bidsDecided = bid.decided;
+      scorecard.winRate = rate(bid.won, bid.decided);
+    }
+
+    if (response) {
+      scorecard.medianResponseMinutes = response.median_minutes;
+      scorecard.responseSample = response.count;
+    }
+
+    scorecards[id] = scorecard;
+  }
+
+  return scorecards;
+}
+
+/**
+ * Works out one service provider's track record
+ * @param providerId The service provider's user ID
+ * @returns Their scorecard
+ */
+export async function getProviderScorecard(providerId: number): Promise<ProviderScorecard> {
+  const scorecards = await getProviderScorecards([providerId]);
+  return scorecards[providerId];
+}
@@ -0,0 +1,58 @@
+// Counts are kept in memory, so each server instance limits on its own and a restart clears them.
+// That's fine for slowing down abuse from one place; anything that has to hold across restarts,
+// like how many reset emails an account has been sent, is counted in the database instead.
+
+// Expired entries are swept once the map gets this big, so it can't grow without bound
+const SWEEP_THRESHOLD = 10000;
+
+interface RateLimiterOptions {
+  windowMs: number;
+  max: number; // hits allowed per key in each window
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // how long until the key's window resets; 0 when allowed
+}
+
+export interface RateLimiter {
+  // Counts a hit against the key and says whether it's within the limit
+  hit(key: string): RateLimitResult;
+  reset(key: string): void;
+}
+
+/**
+ * Creates a fixed-window limiter, e.g. for requests per IP address
+ * @param options How long each window lasts and how many hits a key gets in it
+ */
+export function createRateLimiter({ windowMs, max }: RateLimiterOptions): RateLimiter {
+  const windows = new Map<string, { count: number, resetAt: number }>();
+
+  const sweep = (now: number) => {
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  };
+
+  return {
+    hit(key) {
+      const now = Date.now();
+      if (windows.size >= SWEEP_THRESHOLD) sweep(now);
+
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      window.count++;
+      return window.count > max
+        ? { allowed: false, retryAfterMs: window.resetAt - now }
+        : { allowed: true, retryAfterMs: 0 };
+    },
+
+    reset(key) {
+      windows.delete(key);
+    }
+  };
+}
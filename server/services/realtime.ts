@@ -0,0 +1,91 @@
+import WebSocket from 'ws';
+import { RealtimeEvent, RealtimeEventMessage, RealtimeTopic, RealtimeTopicKind } from '@shared/schema';
+
+// Sockets subscribed to each topic, and the topics each socket is subscribed to so they can
+// all be dropped when it closes
+const subscribers = new Map<RealtimeTopic, Set<WebSocket>>();
+const socketTopics = new WeakMap<WebSocket, Set<RealtimeTopic>>();
+
+// Builds topic names, so they're spelled the same everywhere events are published
+export const realtimeTopics = {
+  user: (userId: number): RealtimeTopic => `user:${userId}`,
+  project: (projectId: number): RealtimeTopic => `project:${projectId}`,
+  serviceRequest: (serviceRequestId: number): RealtimeTopic => `service_request:${serviceRequestId}`
+};
+
+/**
+ * Splits a topic into what kind of thing it watches and that thing's ID
+ * @param topic A topic such as "project:12"
+ * @returns The topic kind and ID
+ */
+export function parseRealtimeTopic(topic: RealtimeTopic): { kind: RealtimeTopicKind, id: number } {
+  const [kind, id] = topic.split(':');
+  return { kind: kind as RealtimeTopicKind, id: Number(id) };
+}
+
+/**
+ * Starts sending a topic's events to a socket. Callers check the user may see the topic first.
+ * @param socket The subscribing socket
+ * @param topic The topic to receive
+ */
+export function subscribeSocket(socket: WebSocket, topic: RealtimeTopic) {
+  if (!subscribers.has(topic)) {
+    subscribers.set(topic, new Set());
+  }
+  subscribers.get(topic)!.add(socket);
+
+  if (!socketTopics.has(socket)) {
+    socketTopics.set(socket, new Set());
+  }
+  socketTopics.get(socket)!.add(topic);
+}
+
+/**
+ * Stops sending a topic's events to a socket
+ * @param socket The subscribed socket
+ * @param topic The topic to stop receiving
+ */
+export function unsubscribeSocket(socket: WebSocket, topic: RealtimeTopic) {
+  const sockets = subscribers.get(topic);
+  sockets?.delete(socket);
+  if (sockets?.size === 0) {
+    subscribers.delete(topic);
+  }
+  socketTopics.get(socket)?.delete(topic);
+}
+
+/**
+ * Drops every subscription a socket has, once it has closed
+ * @param socket The closed socket
+ */
+export function unsubscribeSocketFromAll(socket: WebSocket) {
+  socketTopics.get(socket)?.forEach(topic => unsubscribeSocket(socket, topic));
+  socketTopics.delete(socket);
+}
+
+/**
+ * Sends an event to every socket subscribed to a topic. Publishing is fire-and-forget: nobody
+ * listening is normal, and a failed send is logged rather than failing whatever caused the event.
+ * @param topic The topic the event belongs to
+ * @param event The event to send
+ * @returns How many sockets the event was sent to
+ */
+export function publishRealtimeEvent(topic: RealtimeTopic, event: RealtimeEvent): number {
+  const sockets = subscribers.get(topic);
+  if (!sockets) return 0;
+
+  const message: RealtimeEventMessage = { type: 'event', topic, event };
+  const payload = JSON.stringify(message);
+
+  let sent = 0;
+  sockets.forEach(socket => {
+    if (socket.readyState !== WebSocket.OPEN) return;
+    try {
+      socket.send(payload);
+      sent++;
+    } catch (error) {
+      console.error(`Error publishing ${event.type} on ${topic}:`, error);
+    }
+  });
+  return sent;
+}
@@ -0,0 +1,388 @@
+import { sql, type SQL } from "drizzle-orm";
+import { db } from "../db";
+import { ReportData, ReportRange, ReportRow } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Order statuses that don't count towards revenue
+const excludedOrderStatuses = sql`('cancelled', 'returned', 'refunded')`;
+
+// A date range as SQL bounds; the end is exclusive so the whole of the last day is included
+interface Period {
+  from: string;
+  to: string;
+}
+
+const formatDay = (date: Date) => date.toISOString().split("T")[0];
+
+// The period of the same length immediately before the requested range, for comparisons
+function getPreviousPeriod(range: ReportRange): Period {
+  const from = new Date(`${range.from}T00:00:00Z`);
+  const days = Math.round((new Date(`${range.to}T00:00:00Z`).getTime() - from.getTime()) / DAY_MS) + 1;
+
+  return {
+    from: formatDay(new Date(from.getTime() - days * DAY_MS)),
+    to: formatDay(new Date(from.getTime() - DAY_MS))
+  };
+}
+
+// Bucket size for time series, so long ranges don't produce hundreds of points
+function getBucket(range: ReportRange): "day" | "week" | "month" {
+  const days = (new Date(range.to).getTime() - new Date(range.from).getTime()) / DAY_MS;
+  if (days <= 31) return "day";
+  if (days <= 120) return "week";
+  return "month";
+}
+
+function inPeriod(column: SQL, period: Period): SQL {
+  return sql`${column} >= ${period.from}::date AND ${column} < ${period.to}::date + 1`;
+}
+
+async function query<T>(statement: SQL): Promise<T[]> {
+  const result = await db.execute(statement);
+  return result.rows as T[];
+}
+
+const toDateString = (value: unknown) => value ? new Date(value as string).toISOString() : null;
+
+/**
+ * Builds the financial report: order revenue against project expenses
+ * @param range Inclusive date range to report on
+ * @returns Report data for the admin reports page
+ */
+export async function getFinancialReport(range: ReportRange): Promise<ReportData> {
+  const previous = getPreviousPeriod(range);
+  const bucket = getBucket(range);
+
+  const totals = (period: Period) => query<{ revenue: number, completed: number, paid_orders: number }>(sql`
+    SELECT
+      COALESCE(SUM(total_amount) FILTER (WHERE status NOT IN ${excludedOrderStatuses}), 0)::float8 AS revenue,
+      COUNT(*) FILTER (WHERE status = 'delivered')::int AS completed,
+      COUNT(*) FILTER (WHERE status NOT IN ${excludedOrderStatuses})::int AS paid_orders
+    FROM orders
+    WHERE ${inPeriod(sql`created_at`, period)}
+  `);
+
+  const [[current], [before]] = await Promise.all([totals(range), totals(previous)]);
+  const averageOrder = (row: typeof current) => row.paid_orders ? Math.round(row.revenue / row.paid_orders) : 0;
+
+  const series = await query<{ bucket: string, revenue: number, expenses: number }>(sql`
+    WITH buckets AS (
+      SELECT generate_series(
+        date_trunc(${bucket}, ${range.from}::timestamp),
+        ${range.to}::timestamp,
+        ('1 ' || ${bucket})::interval
+      ) AS bucket
+    ),
+    revenue AS (
+      SELECT date_trunc(${bucket}, created_at) AS bucket, SUM(total_amount)::float8 AS revenue
+      FROM orders
+      WHERE status NOT IN ${excludedOrderStatuses} AND ${inPeriod(sql`created_at`, range)}
+      GROUP BY 1
+    ),
+    expenses AS (
+      SELECT date_trunc(${bucket}, date) AS bucket, SUM(amount)::float8 AS expenses
+      FROM project_expenses
+      WHERE ${inPeriod(sql`date`, range)}
+      GROUP BY 1
+    )
+    SELECT buckets.bucket, COALESCE(revenue.revenue, 0) AS revenue, COALESCE(expenses.expenses, 0) AS expenses
+    FROM buckets
+    LEFT JOIN revenue ON revenue.bucket = buckets.bucket
+    LEFT JOIN expenses ON expenses.bucket = buckets.bucket
+    ORDER BY buckets.bucket
+  `);
+
+  const expenseRows = await query<{ category: string, amount: number, last_date: string }>(sql`
+    SELECT COALESCE(category, 'other') AS category, SUM(amount)::float8 AS amount, MAX(date) AS last_date
+    FROM project_expenses
+    WHERE ${inPeriod(sql`date`, range)}
+    GROUP BY 1
+    ORDER BY amount DESC
+  `);
+
+  const orderRows = await query<{ status: string, amount: number, last_date: string }>(sql`
+    SELECT status, SUM(total_amount)::float8 AS amount, MAX(created_at) AS last_date
+    FROM orders
+    WHERE ${inPeriod(sql`created_at`, range)}
+    GROUP BY status
+    ORDER BY amount DESC
+  `);
+
+  const rows: ReportRow[] = [
+    ...orderRows.map(row => ({
+      name: `Orders ${row.status}`,
+      category: "Revenue",
+      amount: Number(row.amount),
+      date: toDateString(row.last_date)
+    })),
+    ...expenseRows.map(row => ({
+      name: row.category,
+      category: "Project expenses",
+      amount: Number(row.amount),
+      date: toDateString(row.last_date)
+    }))
+  ];
+
+  return {
+    title: "Financial Report",
+    description: "Order revenue compared with expenses recorded against projects",
+    dateRange: range,
+    data: {
+      metrics: [
+        { label: "Total Revenue", value: Number(current.revenue), previous: Number(before.revenue), format: "currency" },
+        { label: "Orders Completed", value: current.completed, previous: before.completed, format: "number" },
+        { label: "Average Order Value", value: averageOrder(current), previous: averageOrder(before), format: "currency" }
+      ],
+      chart: {
+        valueLabel: "Revenue",
+        secondaryLabel: "Expenses",
+        format: "currency",
+        points: series.map(point => ({
+          label: formatDay(new Date(point.bucket)),
+          value: Number(point.revenue),
+          secondary: Number(point.expenses)
+        }))
+      },
+      rows
+    }
+  };
+}
+
+/**
+ * Builds the service provider report: bidding activity, win rates and awarded work
+ * @param range Inclusive date range to report on
+ * @returns Report data for the admin reports page
+ */
+export async function getProviderReport(range: ReportRange): Promise<ReportData> {
+  const previous = getPreviousPeriod(range);
+
+  const totals = (period: Period) => query<{ providers: number, response_hours: number | null, win_rate: number | null }>(sql`
+    SELECT
+      (SELECT COUNT(*)::int FROM users WHERE role = 'service_provider' AND created_at < ${period.to}::date + 1) AS providers,
+      (
+        SELECT AVG(EXTRACT(EPOCH FROM (first_bid.created_at - sr.created_at)) / 3600)::float8
+        FROM service_requests sr
+        JOIN (
+          SELECT service_request_id, MIN(created_at) AS created_at
+          FROM service_request_bids
+          GROUP BY service_request_id
+        ) first_bid ON first_bid.service_request_id = sr.id
+        WHERE ${inPeriod(sql`first_bid.created_at`, period)}
+      ) AS response_hours,
+      (
+        SELECT (100.0 * COUNT(*) FILTER (WHERE status = 'accepted') / NULLIF(COUNT(*), 0))::float8
+        FROM service_request_bids
+        WHERE ${inPeriod(sql`created_at`, period)}
+      ) AS win_rate
+  `);
+
+  const [[current], [before]] = await Promise.all([totals(range), totals(previous)]);
+
+  const providers = await query<{ name: string, category: string, bids: number, won: number, awarded: number, last_bid: string }>(sql`
+    SELECT
+      COALESCE(u.business_name, u.full_name) AS name,
+      COALESCE(u.service_type, 'general') AS category,
+      COUNT(b.id)::int AS bids,
+      COUNT(b.id) FILTER (WHERE b.status = 'accepted')::int AS won,
+      COALESCE(SUM(b.bid_amount) FILTER (WHERE b.status = 'accepted'), 0)::float8 AS awarded,
+      MAX(b.created_at) AS last_bid
+    FROM users u
+    JOIN service_request_bids b ON b.service_provider_id = u.id
+    WHERE u.role = 'service_provider' AND ${inPeriod(sql`b.created_at`, range)}
+    GROUP BY u.id
+    ORDER BY awarded DESC, bids DESC
+  `);
+
+  return {
+    title: "Service Provider Report",
+    description: "Bids submitted, bids won and the value of work awarded to each provider",
+    dateRange: range,
+    data: {
+      metrics: [
+        { label: "Total Providers", value: current.providers, previous: before.providers, format: "number" },
+        {
+          label: "Avg. Response Time",
+          value: Number(current.response_hours ?? 0),
+          previous: before.response_hours === null ? null : Number(before.response_hours),
+          format: "hours"
+        },
+        {
+          label: "Bid Win Rate",
+          value: Number(current.win_rate ?? 0),
+          previous: before.win_rate === null ? null : Number(before.win_rate),
+          format: "percent"
+        }
+      ],
+      chart: {
+        valueLabel: "Bids submitted",
+        secondaryLabel: "Bids won",
+        format: "number",
+        points: providers.slice(0, 10).map(provider => ({
+          label: provider.name,
+          value: provider.bids,
+          secondary: provider.won
+        }))
+      },
+      rows: providers.map(provider => ({
+        name: provider.name,
+        category: provider.category,
+        amount: Number(provider.awarded),
+        date: toDateString(provider.last_bid)
+      }))
+    }
+  };
+}
+
+/**
+ * Builds the materials report: what has been ordered, by material and category
+ * @param range Inclusive date range to report on
+ * @returns Report data for the admin reports page
+ */
+export async function getMaterialsReport(range: ReportRange): Promise<ReportData> {
+  const previous = getPreviousPeriod(range);
+
+  // Order items record the unit price paid; older orders without one fall back to the list price
+  const sales = (period: Period) => query<{ name: string, category: string, quantity: number, revenue: number, last_ordered: string }>(sql`
+    SELECT
+      m.name,
+      m.category,
+      SUM((item->>'quantity')::numeric)::float8 AS quantity,
+      SUM((item->>'quantity')::numeric * COALESCE((item->>'price')::numeric, m.price))::float8 AS revenue,
+      MAX(o.created_at) AS last_ordered
+    FROM orders o
+    CROSS JOIN LATERAL jsonb_array_elements(o.items::jsonb) AS item
+    JOIN materials m ON m.id = (item->>'materialId')::int
+    WHERE o.status NOT IN ${excludedOrderStatuses} AND ${inPeriod(sql`o.created_at`, period)}
+    GROUP BY m.id
+    ORDER BY revenue DESC
+  `);
+
+  const counts = (period: Period) => query<{ materials: number }>(sql`
+    SELECT COUNT(*)::int AS materials FROM materials WHERE created_at < ${period.to}::date + 1
+  `);
+
+  const [current, before, [materialsNow], [materialsBefore], [stock]] = await Promise.all([
+    sales(range),
+    sales(previous),
+    counts(range),
+    counts(previous),
+    query<{ low_stock: number }>(sql`
+      SELECT COUNT(*)::int AS low_stock FROM inventory WHERE status IN ('low_stock', 'out_of_stock')
+    `)
+  ]);
+
+  const totalRevenue = (rows: typeof current) => rows.reduce((total, row) => total + Number(row.revenue), 0);
+
+  const byCategory = new Map<string, number>();
+  for (const row of current) {
+    byCategory.set(row.category, (byCategory.get(row.category) || 0) + Number(row.revenue));
+  }
+
+  return {
+    title: "Materials Report",
+    description: "Materials ordered through the marketplace, by revenue",
+    dateRange: range,
+    data: {
+      metrics: [
+        { label: "Total Materials", value: materialsNow.materials, previous: materialsBefore.materials, format: "number" },
+        { label: "Total Orders Value", value: Math.round(totalRevenue(current)), previous: Math.round(totalRevenue(before)), format: "currency" },
+        // Stock levels aren't kept historically, so there's nothing to compare against
+        { label: "Low Stock Items", value: stock.low_stock, previous: null, format: "number" }
+      ],
+      chart: {
+        valueLabel: "Revenue",
+        format: "currency",
+        points: Array.from(byCategory.entries())
+          .sort((a, b) => b[1] - a[1])
+          .map(([category, revenue]) => ({ label: category, value: Math.round(revenue) }))
+      },
+      rows: current.map(row => ({
+        name: row.name,
+        category: row.category,
+        amount: Math.round(Number(row.revenue)),
+        date: toDateString(row.last_ordered)
+      }))
+    }
+  };
+}
+
+/**
+ * Builds the projects report: project pipeline, completion times and on-time delivery.
+ * A project's completion date is taken from its latest timeline entry.
+ * @param range Inclusive date range to report on
+ * @returns Report data for the admin reports page
+ */
+export async function getProjectReport(range: ReportRange): Promise<ReportData> {
+  const previous = getPreviousPeriod(range);
+
+  const completion = (period: Period) => query<{ months: number | null, on_time: number | null }>(sql`
+    WITH completed AS (
+      SELECT p.id, p.created_at, p.estimated_completion, MAX(t.date) AS completed_at
+      FROM projects p
+      JOIN project_timelines t ON t.project_id = p.id
+      WHERE p.status = 'completed'
+      GROUP BY p.id
+    )
+    SELECT
+      AVG(EXTRACT(EPOCH FROM (completed_at - created_at)) / 86400 / 30)::float8 AS months,
+      (100.0 * COUNT(*) FILTER (WHERE completed_at <= estimated_completion) / NULLIF(COUNT(estimated_completion), 0))::float8 AS on_time
+    FROM completed
+    WHERE ${inPeriod(sql`completed_at`, period)}
+  `);
+
+  const [[current], [before], [active]] = await Promise.all([
+    completion(range),
+    completion(previous),
+    query<{ active: number }>(sql`
+      SELECT COUNT(*)::int AS active FROM projects WHERE status IN ('active', 'in_progress')
+    `)
+  ]);
+
+  const projects = await query<{ name: string, status: string, budget: number | null, created_at: string }>(sql`
+    SELECT name, status, budget, created_at
+    FROM projects
+    WHERE ${inPeriod(sql`created_at`, range)}
+    ORDER BY created_at DESC
+  `);
+
+  const byStatus = new Map<string, number>();
+  for (const project of projects) {
+    byStatus.set(project.status, (byStatus.get(project.status) || 0) + 1);
+  }
+
+  return {
+    title: "Projects Report",
+    description: "Projects started in the period with their budgets, and how completed projects were delivered",
+    dateRange: range,
+    data: {
+      metrics: [
+        // Project statuses aren't kept historically, so there's nothing to compare against
+        { label: "Active Projects", value: active.active, previous: null, format: "number" },
+        {
+          label: "Avg. Completion Time",
+          value: Number(current.months ?? 0),
+          previous: before.months === null ? null : Number(before.months),
+          format: "months"
+        },
+        {
+          label: "On-time Completion",
+          value: Number(current.on_time ?? 0),
+          previous: before.on_time === null ? null : Number(before.on_time),
+          format: "percent"
+        }
+      ],
+      chart: {
+        valueLabel: "Projects started",
+        format: "number",
+        points: Array.from(byStatus.entries()).map(([status, total]) => ({ label: status, value: total }))
+      },
+      rows: projects.map(project => ({
+        name: project.name,
+        category: project.status,
+        amount: Number(project.budget ?? 0),
+        date: toDateString(project.created_at)
+      }))
+    }
+  };
+}
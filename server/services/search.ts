@@ -0,0 +1,191 @@
+import { and, desc, eq, exists, or, sql, type SQL } from "drizzle-orm";
+import { db } from "../db";
+import {
+  SearchQuery,
+  SearchResult,
+  SearchResultType,
+  User,
+  conversationParticipants,
+  materialSearchDocument,
+  materials,
+  messageSearchDocument,
+  messages,
+  projectMembers,
+  projectSearchDocument,
+  projects,
+  searchWords,
+  serviceRequestBids,
+  serviceRequestSearchDocument,
+  serviceRequests,
+  users
+} from "@shared/schema";
+
+/**
+ * Turns what the user typed into a tsquery matching every word, the last one as a prefix so results
+ * show up while it's still being typed. Anything other than letters and numbers is dropped, so the
+ * input can't break the tsquery syntax.
+ * @param text The search text
+ * @returns The tsquery, or null when there's nothing left to search for
+ */
+export function toPrefixTsQuery(text: string): string | null {
+  const words = searchWords(text);
+  if (words.length === 0) return null;
+  return words.map((word, index) => index === words.length - 1 ? `${word}:*` : word).join(" & ");
+}
+
+// Materials are the public catalogue, so anyone signed in can find them
+async function searchMaterials(query: SQL, limit: number): Promise<SearchResult[]> {
+  const document = materialSearchDocument(materials);
+  const rank = sql<number>`ts_rank(${document}, ${query})`;
+
+  const rows = await db
+    .select({ id: materials.id, name: materials.name, brand: materials.brand, category: materials.category, rank })
+    .from(materials)
+    .where(sql`${document} @@ ${query}`)
+    .orderBy(desc(rank))
+    .limit(limit);
+
+  return rows.map(row => ({
+    type: "material",
+    id: row.id,
+    title: row.name,
+    subtitle: [row.brand, row.category].filter(Boolean).join(" · ") || null,
+    url: `/materials/view/${row.id}`,
+    rank: row.rank
+  }));
+}
+
+// Projects the user is the client, company or a team member of; admins see them all
+async function searchProjects(user: User, query: SQL, limit: number): Promise<SearchResult[]> {
+  const document = projectSearchDocument(projects);
+  const rank = sql<number>`ts_rank(${document}, ${query})`;
+  const canView = user.role === "admin" ? undefined : or(
+    eq(projects.clientId, user.id),
+    eq(projects.companyId, user.id),
+    exists(db.select({ id: projectMembers.id }).from(projectMembers)
+      .where(and(eq(projectMembers.projectId, projects.id), eq(projectMembers.userId, user.id))))
+  );
+
+  const rows = await db
+    .select({ id: projects.id, name: projects.name, location: projects.location, rank })
+    .from(projects)
+    .where(and(sql`${document} @@ ${query}`, canView))
+    .orderBy(desc(rank))
+    .limit(limit);
+
+  return rows.map(row => ({
+    type: "project",
+    id: row.id,
+    title: row.name,
+    subtitle: row.location,
+    url: user.role === "admin" ? `/admin-projects/${row.id}` : `/projects/${row.id}`,
+    rank: row.rank
+  }));
+}
+
+// Clients find their own requests. Service providers find the ones open for bidding and the ones
+// they've bid on or been assigned, matching what the bidding pages show them.
+async function searchServiceRequests(user: User, query: SQL, limit: number): Promise<SearchResult[]> {
+  let canView: SQL | undefined;
+  if (user.role === "client") {
+    canView = eq(serviceRequests.clientId, user.id);
+  } else if (user.role === "service_provider") {
+    canView = or(
+      eq(serviceRequests.status, "published_for_bidding"),
+      eq(serviceRequests.assignedServiceProviderId, user.id),
+      exists(db.select({ id: serviceRequestBids.id }).from(serviceRequestBids)
+        .where(and(eq(serviceRequestBids.serviceRequestId, serviceRequests.id), eq(serviceRequestBids.serviceProviderId, user.id))))
+    );
+  } else if (user.role !== "admin") {
+    return [];
+  }
+
+  const document = serviceRequestSearchDocument(serviceRequests);
+  const rank = sql<number>`ts_rank(${document}, ${query})`;
+
+  const rows = await db
+    .select({
+      id: serviceRequests.id,
+      serviceType: serviceRequests.serviceType,
+      description: serviceRequests.description,
+      location: serviceRequests.location,
+      rank
+    })
+    .from(serviceRequests)
+    .where(and(sql`${document} @@ ${query}`, canView))
+    .orderBy(desc(rank))
+    .limit(limit);
+
+  const url = user.role === "admin"
+    ? "/admin-service-requests"
+    : user.role === "service_provider" ? "/service-provider-bidding" : "/service-requests";
+
+  return rows.map(row => ({
+    type: "service_request",
+    id: row.id,
+    title: `${row.serviceType.replace(/_/g, " ")} in ${row.location}`,
+    subtitle: row.description.length > 120 ? `${row.description.slice(0, 117)}...` : row.description,
+    url,
+    rank: row.rank
+  }));
+}
+
+// Only messages the user sent, received or can read in one of their conversations - admins included
+async function searchMessages(user: User, query: SQL, limit: number): Promise<SearchResult[]> {
+  const document = messageSearchDocument(messages);
+  const rank = sql<number>`ts_rank(${document}, ${query})`;
+
+  const rows = await db
+    .select({
+      id: messages.id,
+      content: messages.content,
+      conversationId: messages.conversationId,
+      senderName: users.fullName,
+      senderUsername: users.username,
+      rank
+    })
+    .from(messages)
+    .innerJoin(users, eq(users.id, messages.senderId))
+    .where(and(
+      sql`${document} @@ ${query}`,
+      or(
+        eq(messages.senderId, user.id),
+        eq(messages.receiverId, user.id),
+        exists(db.select({ id: conversationParticipants.id }).from(conversationParticipants)
+          .where(and(eq(conversationParticipants.conversationId, messages.conversationId), eq(conversationParticipants.userId, user.id))))
+      )
+    ))
+    .orderBy(desc(rank), desc(messages.createdAt))
+    .limit(limit);
+
+  return rows.map(row => ({
+    type: "message",
+    id: row.id,
+    title: row.content.length > 120 ? `${row.content.slice(0, 117)}...` : row.content,
+    subtitle: row.senderName || row.senderUsername,
+    url: row.conversationId ? `/messages?conversation=${row.conversationId}` : "/messages",
+    rank: row.rank
+  }));
+}
+
+/**
+ * Searches everything the user is allowed to see, best matches first
+ * @param user The user searching
+ * @param options The search text, which types to search and how many of each to return
+ * @returns Up to the limit of results of each type, ranked together
+ */
+export async function search(user: User, options: SearchQuery): Promise<SearchResult[]> {
+  const tsQuery = toPrefixTsQuery(options.q);
+  if (!tsQuery) return [];
+
+  const query = sql`to_tsquery('english', ${tsQuery})`;
+  const searches: Record<SearchResultType, () => Promise<SearchResult[]>> = {
+    material: () => searchMaterials(query, options.limit),
+    project: () => searchProjects(user, query, options.limit),
+    service_request: () => searchServiceRequests(user, query, options.limit),
+    message: () => searchMessages(user, query, options.limit)
+  };
+
+  const results = await Promise.all(Array.from(new Set(options.types)).map(type => searches[type]()));
+  return results.flat().sort((a, b) => b.rank - a.rank);
+}
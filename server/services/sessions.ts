@@ -0,0 +1,152 @@
+import { createHash } from 'crypto';
+import { createRequire } from 'module';
+import type { Request } from 'express';
+import { ActiveSession, SessionDevice } from '@shared/schema';
+import { storage } from '../storage';
+
+declare module 'express-session' {
+  interface SessionData {
+    device?: SessionDevice;
+    // Set in place of everything else when the session is signed out from elsewhere
+    revoked?: true;
+  }
+}
+
+const countryNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+// Checked in order, since most user agents name several browsers, e.g. Edge also says Chrome and Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Safari\//, 'Safari']
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows/, 'Windows'],
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+/**
+ * Names the browser and operating system from a user agent, e.g. "Chrome on Android"
+ */
+function describeUserAgent(userAgent: string): string {
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+// geoip-lite reads its whole database into memory, well over 100MB, as soon as it's loaded, so it's
+// only loaded on deployments that turn location lookups on
+const locationLookupEnabled = process.env.SESSION_LOCATION_LOOKUP === 'true';
+let geoip: typeof import('geoip-lite') | undefined;
+
+/**
+ * Works out roughly where an IP address is from the bundled GeoLite database, so addresses are
+ * never sent to a third party. Private and unknown addresses have no location, and neither does
+ * anything when location lookups are off.
+ */
+function lookupLocation(ip: string | null): string | null {
+  if (!ip || !locationLookupEnabled) return null;
+
+  geoip ??= createRequire(import.meta.url)('geoip-lite') as typeof import('geoip-lite');
+  const match = geoip.lookup(ip);
+  if (!match?.country) return null;
+
+  const country = countryNames.of(match.country) || match.country;
+  return match.city ? `${match.city}, ${country}` : country;
+}
+
+// Session IDs are as good as the cookie to anyone holding the session secret, so the client only
+// ever sees a hash of them
+function hashSessionId(sid: string): string {
+  return createHash('sha256').update(sid).digest('hex');
+}
+
+/**
+ * Records the device behind a signed-in session and when it was last seen. Runs on every request,
+ * and straight after logging in, since passport starts a new session then.
+ */
+export function recordSessionDevice(req: Request): void {
+  if (!req.session || !req.isAuthenticated?.()) return;
+
+  const now = new Date().toISOString();
+  const ip = req.ip || null;
+  const previous = req.session.device;
+
+  req.session.device = {
+    userAgent: req.get('user-agent') || previous?.userAgent || '',
+    ip,
+    // Only looked up again when the address changes, e.g. a phone moving off wifi
+    location: previous && previous.ip === ip ? previous.location : lookupLocation(ip),
+    signedInAt: previous?.signedInAt || now,
+    lastSeenAt: now
+  };
+}
+
+/**
+ * Lists the sessions the user is signed in to, this one first and then the most recently used
+ * @param currentSid The ID of the session making the request
+ */
+export async function listActiveSessions(userId: number, currentSid: string): Promise<ActiveSession[]> {
+  const sessions = await storage.getUserSessions(userId);
+
+  return sessions
+    .map(({ sid, device }) => ({
+      id: hashSessionId(sid),
+      device: device ? describeUserAgent(device.userAgent) : 'Unknown device',
+      ip: device?.ip ?? null,
+      location: device?.location ?? null,
+      signedInAt: device?.signedInAt ?? null,
+      lastSeenAt: device?.lastSeenAt ?? null,
+      current: sid === currentSid
+    }))
+    .sort((a, b) => {
+      if (a.current !== b.current) return a.current ? -1 : 1;
+      return (b.lastSeenAt || '').localeCompare(a.lastSeenAt || '');
+    });
+}
+
+export function isCurrentSession(id: string, currentSid: string): boolean {
+  return id === hashSessionId(currentSid);
+}
+
+/**
+ * Signs one of the user's sessions out
+ * @param id The session's ID as listed by listActiveSessions
+ * @returns False if the user has no such session
+ */
+export async function revokeSession(userId: number, id: string): Promise<boolean> {
+  const sessions = await storage.getUserSessions(userId);
+  const session = sessions.find(({ sid }) => hashSessionId(sid) === id);
+  return session ? storage.revokeUserSession(userId, session.sid) : false;
+}
+
+/**
+ * Signs the user out of every session but the one making the request
+ * @returns How many sessions were signed out
+ */
+export function revokeOtherSessions(userId: number, currentSid: string): Promise<number> {
+  return storage.revokeUserSessions(userId, currentSid);
+}
+
+/**
+ * Signs the user out everywhere, including direct admin dashboard logins, whose access tokens
+ * stop working straight away since their login is revoked.
+ * @returns How many sessions were signed out
+ */
+export async function revokeAllSessions(userId: number): Promise<number> {
+  const [ended] = await Promise.all([
+    storage.revokeUserSessions(userId),
+    storage.revokeAdminRefreshTokensForUser(userId)
+  ]);
+  return ended;
+}
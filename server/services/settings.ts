@@ -0,0 +1,113 @@
+import {
+  PlatformSettings,
+  PlatformSettingsVersion,
+  VersionedPlatformSettings,
+  defaultPlatformSettings,
+  platformSettingsSchema
+} from '@shared/schema';
+import { storage } from '../storage';
+
+// Settings are read on every request, so they're cached briefly rather than fetched each time.
+// Saves through this module refresh the cache straight away; other server instances catch up within the TTL.
+const CACHE_TTL_MS = 30 * 1000;
+
+let cached: { value: VersionedPlatformSettings, loadedAt: number } | null = null;
+
+/**
+ * Fills in any fields a stored version is missing (e.g. settings added since it was saved) from the defaults
+ * @param stored A saved settings version
+ * @returns Complete, validated settings
+ */
+function toVersionedSettings(stored: PlatformSettingsVersion): VersionedPlatformSettings {
+  const saved = (stored.settings || {}) as Partial<PlatformSettings>;
+  const merged = Object.fromEntries(
+    Object.entries(defaultPlatformSettings).map(([section, defaults]) => [
+      section,
+      { ...defaults, ...(saved[section as keyof PlatformSettings] || {}) }
+    ])
+  );
+
+  const parsed = platformSettingsSchema.safeParse(merged);
+  if (!parsed.success) {
+    console.error(`Stored platform settings version ${stored.version} are invalid, using defaults:`, parsed.error.errors);
+  }
+
+  return {
+    version: stored.version,
+    settings: parsed.success ? parsed.data : defaultPlatformSettings,
+    updatedBy: stored.updatedBy,
+    updatedAt: stored.createdAt
+  };
+}
+
+/**
+ * Gets the current platform settings along with their version
+ * @returns The latest saved settings, or the defaults as version 0 if none have been saved
+ */
+export async function getVersionedPlatformSettings(): Promise<VersionedPlatformSettings> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.value;
+  }
+
+  try {
+    const latest = await storage.getLatestPlatformSettings();
+    const value = latest
+      ? toVersionedSettings(latest)
+      : { version: 0, settings: defaultPlatformSettings, updatedBy: null, updatedAt: null };
+
+    cached = { value, loadedAt: Date.now() };
+    return value;
+  } catch (error) {
+    // Keep serving the last known settings rather than failing every request while the database is down
+    console.error('Error loading platform settings:', error);
+    return cached?.value || { version: 0, settings: defaultPlatformSettings, updatedBy: null, updatedAt: null };
+  }
+}
+
+/**
+ * Gets the current platform settings
+ * @returns The settings in effect right now
+ */
+export async function getPlatformSettings(): Promise<PlatformSettings> {
+  return (await getVersionedPlatformSettings()).settings;
+}
+
+/**
+ * Saves changes to one or more settings sections as a new version
+ * @param sections The sections being changed; sections left out keep their current values
+ * @param expectedVersion The version the admin was editing
+ * @param adminId The admin saving the settings
+ * @returns The new current settings, or an error if a newer version was saved in the meantime
+ */
+export async function updatePlatformSettings(
+  sections: Partial<PlatformSettings>,
+  expectedVersion: number,
+  adminId: number
+): Promise<{ error?: string, settings?: VersionedPlatformSettings }> {
+  // Read straight from the database so the version check isn't made against a stale cache
+  cached = null;
+  const current = await getVersionedPlatformSettings();
+
+  if (current.version !== expectedVersion) {
+    return { error: "Settings were changed by someone else. Reload them and try again." };
+  }
+
+  const next: PlatformSettings = {
+    ...current.settings,
+    ...sections,
+    // The last backup time is recorded by the backup job, not edited through the form
+    database: {
+      ...(sections.database || current.settings.database),
+      lastBackup: current.settings.database.lastBackup
+    }
+  };
+
+  const { error, saved } = await storage.savePlatformSettings(next, expectedVersion, adminId);
+  if (error || !saved) {
+    return { error };
+  }
+
+  const value = toVersionedSettings(saved);
+  cached = { value, loadedAt: Date.now() };
+  return { settings: value };
+}
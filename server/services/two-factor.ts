@@ -0,0 +1,249 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import QRCode from 'qrcode';
+import {
+  TwoFactorChallenge,
+  TwoFactorCredential,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  User
+} from '@shared/schema';
+import { storage } from '../storage';
+import { getPlatformSettings } from './settings';
+
+// RFC 6238 defaults, which is what every authenticator app expects
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+// Codes from one step either side are accepted, to allow for clock drift and slow typing
+const TOTP_DRIFT_STEPS = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export type SecondFactorResult =
+  | { ok: true, recoveryCodes?: string[] } // recovery codes are only set when enrolment was finished during login
+  | { ok: false, challenge: TwoFactorChallenge };
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Works out the code an authenticator app shows for a time step (RFC 4226 HOTP over the step number)
+ * @param secret The base32 secret
+ * @param step The number of 30 second steps since the epoch
+ */
+function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Checks a code against the secret, allowing for a little clock drift
+ * @returns The time step the code belongs to, or null if it doesn't match or that step was already used
+ */
+function matchTotp(credential: TwoFactorCredential, code: string): number | null {
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (credential.lastUsedStep !== null && step <= credential.lastUsedStep) continue;
+
+    const expected = Buffer.from(generateTotp(credential.secret, step));
+    const supplied = Buffer.from(code);
+    if (expected.length === supplied.length && timingSafeEqual(expected, supplied)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Recovery codes are accepted however they're typed: any case, with or without the dash
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+function generateRecoveryCodes(): { codes: string[], hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+function normaliseTotpCode(code: string): string {
+  return code.replace(/\s/g, '');
+}
+
+async function buildSetup(user: User, secret: string): Promise<TwoFactorSetup> {
+  const { general } = await getPlatformSettings();
+  const issuer = encodeURIComponent(general.siteName);
+  const account = encodeURIComponent(user.email || user.username);
+  const otpauthUrl = `otpauth://totp/${issuer}:${account}?secret=${secret}&issuer=${issuer}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+/**
+ * Whether the user has to use two-factor authentication: admins do while the security setting is on,
+ * everyone else can choose
+ */
+export async function isTwoFactorRequired(user: User): Promise<boolean> {
+  if (user.role !== 'admin') return false;
+  const { security } = await getPlatformSettings();
+  return security.twoFactorAuth;
+}
+
+export async function getTwoFactorStatus(user: User): Promise<TwoFactorStatus> {
+  const [credential, required] = await Promise.all([
+    storage.getTwoFactorCredential(user.id),
+    isTwoFactorRequired(user)
+  ]);
+  const enabled = !!credential?.enabledAt;
+
+  return {
+    enabled,
+    required,
+    recoveryCodesRemaining: enabled ? await storage.countUnusedTwoFactorRecoveryCodes(user.id) : 0
+  };
+}
+
+/**
+ * Starts enrolment with a new secret; two-factor isn't on until a code from it is confirmed
+ * @param user A user who doesn't have two-factor authentication on yet
+ */
+export async function startTwoFactorEnrolment(user: User): Promise<TwoFactorSetup> {
+  const secret = base32Encode(randomBytes(20));
+  await storage.saveTwoFactorSecret(user.id, secret);
+  return buildSetup(user, secret);
+}
+
+/**
+ * Finishes enrolment once the user shows their app is producing the right codes
+ * @param code A code from the authenticator app
+ * @returns The new recovery codes, or null if the code is wrong or there's no enrolment in progress
+ */
+export async function confirmTwoFactorEnrolment(user: User, code: string): Promise<string[] | null> {
+  const credential = await storage.getTwoFactorCredential(user.id);
+  if (!credential || credential.enabledAt) return null;
+
+  const step = matchTotp(credential, normaliseTotpCode(code));
+  if (step === null) return null;
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.enableTwoFactor(user.id, step, hashes);
+  return codes;
+}
+
+/**
+ * Checks a code from the user's authenticator app, or one of their recovery codes, and uses it up
+ * @returns Whether the code was accepted
+ */
+export async function verifyTwoFactorCode(user: User, code: string): Promise<boolean> {
+  const credential = await storage.getTwoFactorCredential(user.id);
+  if (!credential?.enabledAt) return false;
+
+  const totp = normaliseTotpCode(code);
+  if (new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(totp)) {
+    const step = matchTotp(credential, totp);
+    // The conditional update stops two requests both getting in with the same code
+    return step !== null && await storage.recordTwoFactorStep(user.id, step);
+  }
+
+  return storage.consumeTwoFactorRecoveryCode(user.id, hashRecoveryCode(code));
+}
+
+export async function regenerateRecoveryCodes(user: User): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.replaceTwoFactorRecoveryCodes(user.id, hashes);
+  return codes;
+}
+
+/**
+ * The second step of logging in, once the password has been checked. Users with two-factor on need
+ * a code; admins who must use it but haven't enrolled yet are given a secret and have to confirm it
+ * before they get in.
+ * @param user The user whose password was just accepted
+ * @param code The code sent with the login, if any
+ */
+export async function checkSecondFactor(user: User, code?: string): Promise<SecondFactorResult> {
+  const credential = await storage.getTwoFactorCredential(user.id);
+
+  if (credential?.enabledAt) {
+    if (!code) {
+      return {
+        ok: false,
+        challenge: { code: 'TWO_FACTOR_REQUIRED', message: 'Enter the code from your authenticator app' }
+      };
+    }
+    if (await verifyTwoFactorCode(user, code)) {
+      return { ok: true };
+    }
+    return {
+      ok: false,
+      challenge: { code: 'TWO_FACTOR_REQUIRED', message: 'Invalid authentication code' }
+    };
+  }
+
+  if (!(await isTwoFactorRequired(user))) {
+    return { ok: true };
+  }
+
+  if (credential && code) {
+    const recoveryCodes = await confirmTwoFactorEnrolment(user, code);
+    if (recoveryCodes) {
+      return { ok: true, recoveryCodes };
+    }
+  }
+
+  // Keep offering the secret already handed out, in case it was scanned before the login was abandoned
+  const setup = credential ? await buildSetup(user, credential.secret) : await startTwoFactorEnrolment(user);
+  return {
+    ok: false,
+    challenge: {
+      code: 'TWO_FACTOR_SETUP_REQUIRED',
+      message: code ? 'Invalid authentication code' : 'Two-factor authentication must be set up before you can log in',
+      setup
+    }
+  };
+}
@@ -1,6 +1,7 @@
 import { 
   users, type User, type InsertUser,
   projects, type Project, type InsertProject,
+  projectMembers, type ProjectMember, type InsertProjectMember, type ProjectTeamMember,
   projectTimelines, type ProjectTimeline, type InsertProjectTimeline,
   materials, type Material, type InsertMaterial,
   orders, type Order, type InsertOrder,
@@ -15,8 +16,37 @@ import {
   projectTasks, type ProjectTask, type InsertProjectTask,
   taskComments, type TaskComment, type InsertTaskComment,
   siteMaterials, type SiteMaterial, type InsertSiteMaterial,
-  serviceRequestBids, type ServiceRequestBid, type InsertServiceRequestBid
+  serviceRequestBids, type ServiceRequestBid, type InsertServiceRequestBid,
+  supplierOrders, type SupplierOrder, type SupplierOrderWithSupplier, type SupplierOrderWithDetails,
+  orderStatusHistory, type OrderStatusHistoryEntry, type OrderTransitionResult,
+  paymentIntents, type PaymentIntent, type InsertPaymentIntent, paymentWebhookEvents,
+  escrowMilestones, type EscrowMilestone,
+  platformSettings, type PlatformSettings, type PlatformSettingsVersion,
+  maintenanceWindows, type MaintenanceWindow, type InsertMaintenanceWindow,
+  siteReports, type SiteReport, type InsertSiteReport, type SiteReportFilters, type SiteReportPage, type SiteReportWithDetails,
+  siteReportComments, type SiteReportComment, type InsertSiteReportComment,
+  conversations, type Conversation, type ConversationSummary, type ConversationMessagePage, type ConversationMessagesQuery,
+  conversationParticipants, type ConversationParticipant,
+  materialReviews, type MaterialReview, type InsertMaterialReview, type MaterialReviewStatus, type MaterialReviewWithDetails,
+  providerReviews, type ProviderReview, type InsertProviderReview, type ProviderReviewWithDetails,
+  adminRefreshTokens, type AdminRefreshToken, type InsertAdminRefreshToken,
+  twoFactorCredentials, type TwoFactorCredential, twoFactorRecoveryCodes,
+  passwordResetTokens, type PasswordResetToken,
+  type StoredSession,
+  type CatalogueItem,
+  type OrderItem, type CheckoutRequest, type CheckoutLineError
 } from "@shared/schema";
+import {
+  type OrderStatus,
+  canTransitionOrder,
+  getAllowedOrderTransitions,
+  getInventoryEffect,
+  normaliseOrderStatus,
+  rollUpOrderStatus,
+  shouldCascadeOrderStatus
+} from "./services/orders";
+import { type PaymentWebhookEvent as ParsedPaymentWebhookEvent, describeAmountMismatch, finalPaymentStatuses } from "./services/payments";
+import { canHoldEscrowMilestone, heldEscrowStatuses, planEscrowMilestones } from "./services/escrow";
 import { asc, inArray } from "drizzle-orm";
 import createMemoryStore from "memorystore";
 import session from "express-session";
@@ -25,6 +55,33 @@ import { promisify } from "util";
 
 const MemoryStore = createMemoryStore(session);
 
+// The user making an order status change
+export interface OrderStatusActor {
+  userId: number;
+  role: string;
+}
+
+// Fields a supplier (or admin) can change on a supplier's part of an order
+export interface SupplierOrderUpdate {
+  status?: OrderStatus;
+  carrier?: string | null;
+  trackingNumber?: string | null;
+  deliveryDate?: Date | null;
+  note?: string;
+}
+
+// The user approving an escrow milestone
+export interface EscrowApprover {
+  userId: number;
+  role: "client" | "admin";
+}
+
+// Outcome of an escrow operation; error is set when the milestone isn't in a state that allows it
+export interface EscrowMilestoneResult {
+  error?: string;
+  milestone?: EscrowMilestone;
+}
+
 // Define storage interface
 export interface IStorage {
   // User methods
@@ -60,6 +117,16 @@ export interface IStorage {
   updateProjectDocuments(projectId: number, attachments: any[]): Promise<Project | undefined>;
   getProjectsForBidding(): Promise<Project[]>; // Get all projects available for bidding
   
+  // Project Members methods
+  getProjectMembers(projectId: number): Promise<ProjectTeamMember[]>;
+  getProjectMember(projectId: number, userId: number): Promise<ProjectMember | undefined>;
+  // Returns undefined if the user is already on the team
+  addProjectMember(member: InsertProjectMember): Promise<ProjectMember | undefined>;
+  // Returns the removed membership, or undefined if the user wasn't on the team
+  removeProjectMember(projectId: number, userId: number): Promise<ProjectMember | undefined>;
+  // Marks a pending invitation accepted and adds the invitee to the team in one transaction
+  acceptTeamInvitation(inviteToken: string, userId: number, permissions: string[]): Promise<{ error?: string, invitation?: TeamInvitation, member?: ProjectMember }>;
+  
   // Project Bids methods
   createProjectBid(bid: InsertProjectBid): Promise<ProjectBid>;
   getProjectBid(id: number): Promise<ProjectBid | undefined>;
@@ -97,6 +164,7 @@ export interface IStorage {
   updateInventoryItem(id: number, item: Partial<Inventory>): Promise<Inventory>;
   deleteInventoryItemsByMaterial(materialId: number): Promise<void>;
   getAvailableMaterialsWithInventory(): Promise<{material: Material, inventory: Inventory}[]>;
+  upsertCatalogueItems(supplierId: number, items: CatalogueItem[]): Promise<void>; // all rows are written or none are
   
   // Order methods
   getAllOrders(): Promise<Order[]>;
@@ -104,6 +172,73 @@ export interface IStorage {
   getOrdersByClientId(clientId: number): Promise<Order[]>;
   createOrder(order: InsertOrder): Promise<Order>;
   updateOrder(id: number, order: Partial<Order>): Promise<Order>;
+  // Validates the cart against inventory, reserves stock and creates the order atomically
+  placeOrder(clientId: number, checkout: CheckoutRequest): Promise<{ order?: Order, errors?: CheckoutLineError[] }>;
+  
+  // Supplier Order methods
+  getSupplierOrder(id: number): Promise<SupplierOrder | undefined>;
+  getSupplierOrdersByOrderIds(orderIds: number[]): Promise<SupplierOrderWithSupplier[]>;
+  getSupplierOrdersBySupplier(supplierId: number): Promise<SupplierOrderWithDetails[]>;
+  // Updates a supplier's part of an order and rolls any status change up into the parent order
+  updateSupplierOrder(id: number, updates: SupplierOrderUpdate, actor: OrderStatusActor): Promise<OrderTransitionResult>;
+  // Moves a whole order through the status state machine, cascading to its supplier orders
+  transitionOrder(id: number, status: OrderStatus, actor: OrderStatusActor, note?: string): Promise<OrderTransitionResult>;
+  getOrderStatusHistory(orderIds: number[]): Promise<OrderStatusHistoryEntry[]>;
+  
+  // Payment methods
+  createPaymentIntent(intent: InsertPaymentIntent): Promise<PaymentIntent>;
+  getPaymentIntent(id: number): Promise<PaymentIntent | undefined>;
+  getPaymentIntentByReference(reference: string): Promise<PaymentIntent | undefined>;
+  getPaymentIntentByIdempotencyKey(payerId: number, idempotencyKey: string): Promise<PaymentIntent | undefined>;
+  getPaymentIntentsByPayer(payerId: number): Promise<PaymentIntent[]>;
+  getPaymentIntentsByOrder(orderId: number): Promise<PaymentIntent[]>;
+  getPaymentIntentsByServiceRequest(serviceRequestId: number): Promise<PaymentIntent[]>;
+  updatePaymentIntent(id: number, updates: Partial<PaymentIntent>): Promise<PaymentIntent>;
+  // Records a provider webhook event and applies it; duplicate deliveries are ignored
+  applyPaymentWebhookEvent(provider: string, event: ParsedPaymentWebhookEvent, payload: unknown): Promise<{ intent?: PaymentIntent, changed: boolean, amountMismatch?: string }>;
+  
+  // Escrow methods
+  getEscrowMilestone(id: number): Promise<EscrowMilestone | undefined>;
+  getEscrowMilestonesByServiceRequest(serviceRequestId: number): Promise<EscrowMilestone[]>;
+  // Optionally only those for work on one project
+  getEscrowMilestonesByServiceProvider(serviceProviderId: number, status?: string, projectId?: number): Promise<EscrowMilestone[]>;
+  getEscrowMilestonesByTimelineIds(timelineIds: number[]): Promise<EscrowMilestone[]>;
+  getEscrowMilestoneByPayoutReference(payoutReference: string): Promise<EscrowMilestone | undefined>;
+  updateEscrowMilestone(id: number, updates: Partial<EscrowMilestone>): Promise<EscrowMilestone>;
+  // Ties a payment to the milestones it funds; fails if any of them is funded or already being paid for
+  attachEscrowFunding(intentId: number, milestoneIds: number[]): Promise<{ error?: string }>;
+  // Adds a progress entry and links it to a funded milestone as evidence that its work is done; the
+  // entry isn't saved unless the milestone is the provider's and for work on the entry's project
+  submitEscrowMilestone(id: number, serviceProviderId: number, timeline: InsertProjectTimeline): Promise<EscrowMilestoneResult & { entry?: ProjectTimeline }>;
+  // Approves a submitted milestone and marks its funds as released to the service provider
+  releaseEscrowMilestone(id: number, approver: EscrowApprover, payoutReference: string): Promise<EscrowMilestoneResult>;
+  // Disputes or freezes a milestone, or lifts an existing hold
+  holdEscrowMilestone(id: number, action: "dispute" | "freeze" | "release_hold", adminId: number, reason?: string): Promise<EscrowMilestoneResult>;
+  // Starts another attempt at a failed payout under a new reference; undefined if the payout isn't
+  // failed any more, e.g. because a concurrent retry claimed it first
+  retryEscrowPayout(id: number, payoutReference: string): Promise<EscrowMilestone | undefined>;
+  // Records the outcome of a payout that's still in progress; undefined if it has already been settled
+  // or the reference belongs to an earlier attempt
+  settleEscrowPayout(id: number, payoutReference: string, payoutStatus: "paid" | "failed"): Promise<EscrowMilestone | undefined>;
+  
+  // Platform Settings methods
+  getLatestPlatformSettings(): Promise<PlatformSettingsVersion | undefined>;
+  // Saves settings as the version after expectedVersion; fails if someone else saved that version first
+  savePlatformSettings(settings: PlatformSettings, expectedVersion: number, updatedBy: number): Promise<{ error?: string, saved?: PlatformSettingsVersion }>;
+  
+  // Maintenance Window methods
+  getMaintenanceWindow(id: number): Promise<MaintenanceWindow | undefined>;
+  // Windows that haven't been cancelled and haven't ended yet, soonest first
+  getScheduledMaintenanceWindows(): Promise<MaintenanceWindow[]>;
+  createMaintenanceWindow(window: InsertMaintenanceWindow): Promise<MaintenanceWindow>;
+  cancelMaintenanceWindow(id: number): Promise<MaintenanceWindow>;
+  
+  // Site Report methods
+  // One page of a project's reports matching the filters, newest report date first
+  getSiteReports(projectId: number, filters: SiteReportFilters): Promise<SiteReportPage>;
+  getSiteReport(id: number): Promise<SiteReportWithDetails | undefined>;
+  createSiteReport(report: InsertSiteReport): Promise<SiteReport>;
+  addSiteReportComment(comment: InsertSiteReportComment): Promise<SiteReportComment>;
   
   // Message methods
   getMessage(id: number): Promise<Message | undefined>;
@@ -111,6 +246,82 @@ export interface IStorage {
   createMessage(message: InsertMessage): Promise<Message>;
   updateMessage(id: number, message: Partial<Message>): Promise<Message>;
   
+  // Conversation methods
+  getConversation(id: number): Promise<Conversation | undefined>;
+  getConversationParticipant(conversationId: number, userId: number): Promise<ConversationParticipant | undefined>;
+  getConversationParticipants(conversationId: number): Promise<ConversationParticipant[]>;
+  // The user's conversations, most recently active first
+  getConversationsForUser(userId: number): Promise<ConversationSummary[]>;
+  getOrCreateDirectConversation(userId: number, otherUserId: number): Promise<Conversation>;
+  // Creates the project's group chat if needed and makes its participants match the project team
+  syncProjectConversation(projectId: number): Promise<Conversation | undefined>;
+  getConversationMessages(conversationId: number, query: ConversationMessagesQuery): Promise<ConversationMessagePage>;
+  // Adds a message and moves the sender's read cursor past it
+  createConversationMessage(conversationId: number, senderId: number, content: string): Promise<Message>;
+  // Cursors only move forward; returns the participant as it is afterwards
+  markConversationRead(conversationId: number, userId: number, messageId: number): Promise<ConversationParticipant | undefined>;
+  
+  // Material Review methods
+  // A material's reviews, newest first; only published ones unless hidden ones are asked for
+  getMaterialReviews(materialId: number, includeHidden?: boolean): Promise<MaterialReviewWithDetails[]>;
+  // Reviews across every material for moderation, newest first, optionally in one status
+  getAllMaterialReviews(status?: MaterialReviewStatus): Promise<MaterialReviewWithDetails[]>;
+  getMaterialReview(id: number): Promise<MaterialReview | undefined>;
+  getMaterialReviewByClient(materialId: number, clientId: number): Promise<MaterialReview | undefined>;
+  // The client's latest delivered order containing the material, which is what lets them review it
+  getDeliveredOrderForMaterial(clientId: number, materialId: number): Promise<Order | undefined>;
+  // Adds the review and folds it into the material's and supplier's ratings
+  createMaterialReview(review: InsertMaterialReview): Promise<MaterialReview>;
+  replyToMaterialReview(id: number, reply: string): Promise<MaterialReview | undefined>;
+  // Hiding a review takes it out of the ratings, and publishing it again puts it back
+  moderateMaterialReview(id: number, status: MaterialReviewStatus, moderatorId: number, note?: string): Promise<MaterialReview | undefined>;
+  
+  // Provider Review methods
+  // Reviews of a service provider, newest first
+  getProviderReviews(serviceProviderId: number): Promise<ProviderReviewWithDetails[]>;
+  getProviderReviewsByClient(clientId: number): Promise<ProviderReview[]>;
+  createProviderReview(review: InsertProviderReview): Promise<ProviderReview>;
+  
+  // Admin Token methods
+  createAdminRefreshToken(token: InsertAdminRefreshToken): Promise<AdminRefreshToken>;
+  getAdminRefreshTokenByHash(tokenHash: string): Promise<AdminRefreshToken | undefined>;
+  // Marks the token used, unless it already was; false means someone else got there first
+  consumeAdminRefreshToken(id: number): Promise<boolean>;
+  // Whether the user's login the tokens belong to is still going, i.e. has an unrevoked, unexpired token
+  isAdminTokenFamilyActive(familyId: string, userId: number): Promise<boolean>;
+  revokeAdminTokenFamily(familyId: string): Promise<void>;
+  // Ends every direct admin login the user has
+  revokeAdminRefreshTokensForUser(userId: number): Promise<void>;
+  
+  // Two-Factor methods
+  getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  // Starts enrolment with a new secret, replacing any enrolment that wasn't finished
+  saveTwoFactorSecret(userId: number, secret: string): Promise<TwoFactorCredential>;
+  // Finishes enrolment and swaps in a new set of recovery codes
+  enableTwoFactor(userId: number, step: number, recoveryCodeHashes: string[]): Promise<void>;
+  // Records the time step of an accepted code; false if that step, or a later one, was already used
+  recordTwoFactorStep(userId: number, step: number): Promise<boolean>;
+  replaceTwoFactorRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  // Marks an unused recovery code used; false if there's no such code left
+  consumeTwoFactorRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countUnusedTwoFactorRecoveryCodes(userId: number): Promise<number>;
+  disableTwoFactor(userId: number): Promise<void>;
+  
+  // Login Throttling methods
+  // Counts a failed login, locking the account once it reaches the threshold; locked is only true for the attempt that locked it
+  recordFailedLogin(userId: number, lockoutThreshold: number): Promise<{ user: User, locked: boolean } | undefined>;
+  resetFailedLogins(userId: number): Promise<void>;
+  // Lifts a lockout and clears the failed attempts that led to it
+  unlockUser(userId: number): Promise<User | undefined>;
+  
+  // Session methods, over the session table connect-pg-simple keeps
+  // Unexpired sessions the user is signed in to
+  getUserSessions(userId: number): Promise<StoredSession[]>;
+  // Ends one of the user's sessions; false if it isn't theirs or has already gone
+  revokeUserSession(userId: number, sid: string): Promise<boolean>;
+  // Ends all of the user's sessions, apart from the one to keep if given; returns how many ended
+  revokeUserSessions(userId: number, keepSid?: string): Promise<number>;
+  
   // Service Request methods
   getAllServiceRequests(): Promise<ServiceRequest[]>;
   getServiceRequest(id: number): Promise<ServiceRequest | undefined>;
@@ -194,7 +405,7 @@ export interface IStorage {
   deleteServiceRequestBid(id: number): Promise<void>;
   // Method for admin to select bids to forward to client
   selectBidsForClient(serviceRequestId: number, bidIds: number[]): Promise<ServiceRequestBid[]>;
-  // Method for admin to assign a service provider to a request based on their bid
+  // Method for admin to assign a service provider to a request based on their bid; also sets up its escrow milestones
   assignServiceProviderToBid(serviceRequestId: number, bidId: number): Promise<ServiceRequest>;
   // Method to generate anonymous identifiers for bids
   generateAnonymousIdentifier(): string;
@@ -204,12 +415,16 @@ export interface IStorage {
   getServiceRequestsByProviderId(providerId: number): Promise<ServiceRequest[]>;
   
   // Session store
-  sessionStore: ReturnType<typeof createMemoryStore>;
+  sessionStore: session.Store;
   
   // Password reset
-  savePasswordResetToken(userId: number, token: string, expiresAt: Date): Promise<void>;
-  getPasswordResetToken(token: string): Promise<{ userId: number, expiresAt: Date } | undefined>;
-  deletePasswordResetToken(token: string): Promise<void>;
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  // Marks the token used, unless it already was or has expired; undefined means it can't be used
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  // How many reset links the user has been sent since the given time
+  countPasswordResetTokensSince(userId: number, since: Date): Promise<number>;
+  // Stops every reset link the user still has from working, e.g. once their password has changed
+  invalidatePasswordResetTokensForUser(userId: number): Promise<void>;
   updateUserPassword(userId: number, password: string): Promise<void>;
 }
 
@@ -230,9 +445,9 @@ export class MemStorage implements IStorage {
   private projectTasksMap: Map<number, ProjectTask>;
   private taskCommentsMap: Map<number, TaskComment>;
   private siteMaterialsMap: Map<number, SiteMaterial>;
-  private passwordResetTokensMap: Map<string, { userId: number, expiresAt: Date }>;
+  private passwordResetTokensMap: Map<string, PasswordResetToken>;
   private serviceRequestBidsMap: Map<number, ServiceRequestBid>; // For service request bids
-  sessionStore: ReturnType<typeof createMemoryStore>;
+  sessionStore: session.Store;
   
   private userIdCounter: number;
   private projectIdCounter: number;
@@ -395,7 +610,10 @@ export class MemStorage implements IStorage {
           address: user.address,
           bio: user.bio,
           verificationStatus: user.verificationStatus,
-          points: user.points
+          points: user.points,
+          failedLoginAttempts: 0,
+          lastFailedLoginAt: null,
+          lockedAt: null
         };
         
         this.usersMap.set(id, completeUser);
@@ -482,7 +700,10 @@ export class MemStorage implements IStorage {
     const createdAt = new Date();
     // Default points to 500 if not provided
     const points = insertUser.points !== undefined ? insertUser.points : 500;
-    const user: User = { ...insertUser, id, createdAt, points };
+    const user: User = {
+      ...insertUser, id, createdAt, points,
+      failedLoginAttempts: 0, lastFailedLoginAt: null, lockedAt: null
+    };
     this.usersMap.set(id, user);
     return user;
   }
@@ -860,7 +1081,7 @@ export class MemStorage implements IStorage {
   async createProject(insertProject: InsertProject): Promise<Project> {
     const id = this.projectIdCounter++;
     const createdAt = new Date();
-    const project: Project = { ...insertProject, id, createdAt, progress: 0 };
+    const project: Project = { ...insertProject, id, createdAt, progress: 0, completedAt: null };
     this.projectsMap.set(id, project);
     return project;
   }
@@ -1210,7 +1431,7 @@ export class MemStorage implements IStorage {
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
     const id = this.messageIdCounter++;
     const createdAt = new Date();
-    const message: Message = { ...insertMessage, id, read: false, createdAt };
+    const message: Message = { ...insertMessage, id, conversationId: null, read: false, createdAt };
     this.messagesMap.set(id, message);
     return message;
   }
@@ -1382,6 +1603,9 @@ export class MemStorage implements IStorage {
           bio: user.bio,
           verificationStatus: user.verificationStatus,
           points: user.points || 500, // Default to 500 points if not specified
+          failedLoginAttempts: 0,
+          lastFailedLoginAt: null,
+          lockedAt: null
         };
         
         // Add to storage
@@ -1447,7 +1671,9 @@ export class MemStorage implements IStorage {
       updatedAt,
       status: "pending",
       adminNotes: null,
-      assignedServiceProviderId: null
+      assignedServiceProviderId: null,
+      assignedAt: null,
+      completedAt: null
     };
     this.serviceRequestsMap.set(id, request);
     return request;
@@ -2207,19 +2433,43 @@ export class MemStorage implements IStorage {
   }
   
   // ===== Password Reset methods =====
-  async savePasswordResetToken(userId: number, token: string, expiresAt: Date): Promise<void> {
-    // Store the token with userId and expiration
-    this.passwordResetTokensMap.set(token, { userId, expiresAt });
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    const token: PasswordResetToken = {
+      id: this.passwordResetTokensMap.size + 1,
+      userId,
+      tokenHash,
+      expiresAt,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    this.passwordResetTokensMap.set(tokenHash, token);
     console.log(`Password reset token created for user ID: ${userId}, expires at: ${expiresAt}`);
+    return token;
+  }
+  
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const token = this.passwordResetTokensMap.get(tokenHash);
+    if (!token || token.usedAt || token.expiresAt <= new Date()) {
+      return undefined;
+    }
+    
+    const used = { ...token, usedAt: new Date() };
+    this.passwordResetTokensMap.set(tokenHash, used);
+    return used;
   }
   
-  async getPasswordResetToken(token: string): Promise<{ userId: number, expiresAt: Date } | undefined> {
-    return this.passwordResetTokensMap.get(token);
+  async countPasswordResetTokensSince(userId: number, since: Date): Promise<number> {
+    return Array.from(this.passwordResetTokensMap.values())
+      .filter(token => token.userId === userId && token.createdAt >= since)
+      .length;
   }
   
-  async deletePasswordResetToken(token: string): Promise<void> {
-    this.passwordResetTokensMap.delete(token);
-    console.log(`Password reset token deleted`);
+  async invalidatePasswordResetTokensForUser(userId: number): Promise<void> {
+    this.passwordResetTokensMap.forEach((token, tokenHash) => {
+      if (token.userId === userId && !token.usedAt) {
+        this.passwordResetTokensMap.set(tokenHash, { ...token, usedAt: new Date() });
+      }
+    });
   }
   
   async updateUserPassword(userId: number, password: string): Promise<void> {
@@ -2239,59 +2489,80 @@ export class MemStorage implements IStorage {
 import { db } from "./db"; 
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
-import { eq, gt, or, and, desc, count, sql } from "drizzle-orm";
+import { eq, gt, lt, or, and, desc, count, sql, ne, isNull, isNotNull, type SQL } from "drizzle-orm";
+import { publishRealtimeEvent, realtimeTopics } from "./services/realtime";
 
 const PostgresSessionStore = connectPg(session);
 
+/**
+ * The connect-pg-simple store, but revoked sessions stay revoked. Saving a session upserts its row,
+ * so a request already under way when a session is revoked would write it back as it finishes.
+ * Revoking leaves a marker in the row instead of deleting it, which saves don't overwrite, and the
+ * row goes when it expires as usual.
+ */
+class RevocableSessionStore extends PostgresSessionStore {
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+    super.get(sid, (err, sess) => callback(err, sess?.revoked ? null : sess));
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void): void {
+    // Expires with its cookie, or after a day as connect-pg-simple does for cookies without one
+    const expires = sess.cookie?.expires ? new Date(sess.cookie.expires).getTime() : Date.now() + 86400000;
+
+    db.execute(sql`
+      INSERT INTO "session" (sess, expire, sid) VALUES (${JSON.stringify(sess)}, to_timestamp(${Math.ceil(expires / 1000)}), ${sid})
+      ON CONFLICT (sid) DO UPDATE SET sess = EXCLUDED.sess, expire = EXCLUDED.expire
+      WHERE "session".sess->>'revoked' IS NULL
+    `).then(() => callback?.(), (err) => callback?.(err));
+  }
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export class DatabaseStorage implements IStorage {
-  sessionStore: ReturnType<typeof PostgresSessionStore>;
+  sessionStore: session.Store;
 
   constructor() {
-    this.sessionStore = new PostgresSessionStore({ 
+    this.sessionStore = new RevocableSessionStore({ 
       pool, 
       createTableIfMissing: true 
     });
   }
   
   // Password Reset methods for DatabaseStorage
-  async savePasswordResetToken(userId: number, token: string, expiresAt: Date): Promise<void> {
-    // Use a direct SQL query for password reset tokens
-    // In a production app, you should create a proper schema table for these
-    await db.execute(sql`
-      INSERT INTO password_reset_tokens (user_id, token, expires_at)
-      VALUES (${userId}, ${token}, ${expiresAt})
-      ON CONFLICT (token) DO UPDATE
-      SET user_id = ${userId}, expires_at = ${expiresAt}
-    `);
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    const [created] = await db.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt }).returning();
     console.log(`Password reset token created for user ID: ${userId}`);
+    return created;
   }
   
-  async getPasswordResetToken(token: string): Promise<{ userId: number, expiresAt: Date } | undefined> {
-    try {
-      const result = await db.execute(sql`
-        SELECT user_id, expires_at FROM password_reset_tokens
-        WHERE token = ${token}
-      `);
-      
-      if (result.length === 0) {
-        return undefined;
-      }
-      
-      return {
-        userId: result[0].user_id,
-        expiresAt: result[0].expires_at
-      };
-    } catch (error) {
-      console.error('Error getting password reset token:', error);
-      return undefined;
-    }
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    // One conditional update, so two requests with the same link can't both reset the password
+    const [consumed] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return consumed;
   }
   
-  async deletePasswordResetToken(token: string): Promise<void> {
-    await db.execute(sql`
-      DELETE FROM password_reset_tokens
-      WHERE token = ${token}
-    `);
+  async countPasswordResetTokensSince(userId: number, since: Date): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(passwordResetTokens)
+      .where(and(eq(passwordResetTokens.userId, userId), gt(passwordResetTokens.createdAt, since)));
+    return Number(result?.count ?? 0);
+  }
+  
+  async invalidatePasswordResetTokensForUser(userId: number): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
   }
   
   async updateUserPassword(userId: number, password: string): Promise<void> {
@@ -2615,45 +2886,41 @@ export class DatabaseStorage implements IStorage {
   
   // Project methods
   async getAllProjects(): Promise<Project[]> {
-    return await db.select().from(projects);
+    return this.withTeamMembers(await db.select().from(projects));
   }
 
   async getProject(id: number): Promise<Project | undefined> {
     const [project] = await db.select().from(projects).where(eq(projects.id, id));
-    return project || undefined;
+    if (!project) {
+      return undefined;
+    }
+    const [withTeam] = await this.withTeamMembers([project]);
+    return withTeam;
   }
 
   async getProjectsByClientId(clientId: number): Promise<Project[]> {
-    return await db.select().from(projects).where(eq(projects.clientId, clientId));
+    return this.withTeamMembers(await db.select().from(projects).where(eq(projects.clientId, clientId)));
   }
 
   async getProjectsByCompanyId(companyId: number): Promise<Project[]> {
-    return await db.select().from(projects).where(eq(projects.companyId, companyId));
+    return this.withTeamMembers(await db.select().from(projects).where(eq(projects.companyId, companyId)));
   }
   
   async getProjectsByServiceProviderId(providerId: number): Promise<Project[]> {
-    try {
-      // We need to query for projects that have this service provider in their teamMembers array
-      // This requires a JSON path query in PostgreSQL
-      const result = await db.execute(sql`
-        SELECT * FROM projects
-        WHERE EXISTS (
-          SELECT 1 FROM jsonb_array_elements(team_members) as team_member
-          WHERE team_member->>'userId' = ${providerId.toString()}
-        )
-      `);
-      
-      return result.rows as Project[];
-    } catch (error) {
-      console.error("Error in getProjectsByServiceProviderId:", error);
-      return [];
-    }
+    const rows = await db
+      .select({ project: projects })
+      .from(projectMembers)
+      .innerJoin(projects, eq(projectMembers.projectId, projects.id))
+      .where(eq(projectMembers.userId, providerId))
+      .orderBy(desc(projects.createdAt));
+    
+    return this.withTeamMembers(rows.map(row => row.project));
   }
   
   async isProjectTeamMember(projectId: number, userId: number): Promise<boolean> {
     try {
       // First check if the user is the client who owns the project or the company assigned to it
-      const project = await this.getProject(projectId);
+      const [project] = await db.select().from(projects).where(eq(projects.id, projectId));
       
       if (!project) {
         return false;
@@ -2669,25 +2936,134 @@ export class DatabaseStorage implements IStorage {
         return true;
       }
       
-      // Check if the user is in the team members array using JSON query
-      const result = await db.execute(sql`
-        SELECT EXISTS (
-          SELECT 1 FROM projects
-          WHERE id = ${projectId}
-          AND EXISTS (
-            SELECT 1 FROM jsonb_array_elements(team_members) as team_member
-            WHERE team_member->>'userId' = ${userId.toString()}
-          )
-        ) as is_member
-      `);
-      
-      return result.rows[0]?.is_member === true;
+      return !!(await this.getProjectMember(projectId, userId));
     } catch (error) {
       console.error("Error in isProjectTeamMember:", error);
       return false;
     }
   }
   
+  // Fills in each project's teamMembers from project_members, in place of the legacy JSON column
+  private async withTeamMembers(projectList: Project[]): Promise<Project[]> {
+    if (projectList.length === 0) {
+      return projectList;
+    }
+    
+    const members = await this.selectTeamMembers(projectList.map(project => project.id));
+    
+    return projectList.map(project => ({
+      ...project,
+      teamMembers: members
+        .filter(member => member.projectId === project.id)
+        .map(({ projectId, ...member }) => member)
+    }));
+  }
+  
+  private async selectTeamMembers(projectIds: number[]): Promise<(ProjectTeamMember & { projectId: number })[]> {
+    const rows = await db
+      .select({
+        projectId: projectMembers.projectId,
+        userId: projectMembers.userId,
+        username: users.username,
+        role: projectMembers.role,
+        permissions: projectMembers.permissions,
+        addedAt: projectMembers.addedAt,
+        addedBy: projectMembers.addedBy
+      })
+      .from(projectMembers)
+      .innerJoin(users, eq(projectMembers.userId, users.id))
+      .where(inArray(projectMembers.projectId, projectIds))
+      .orderBy(asc(projectMembers.addedAt));
+    
+    return rows.map(row => ({ ...row, permissions: (row.permissions as string[]) || [] }));
+  }
+  
+  // Project Members methods
+  async getProjectMembers(projectId: number): Promise<ProjectTeamMember[]> {
+    const members = await this.selectTeamMembers([projectId]);
+    return members.map(({ projectId, ...member }) => member);
+  }
+  
+  async getProjectMember(projectId: number, userId: number): Promise<ProjectMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
+    return member || undefined;
+  }
+  
+  async addProjectMember(member: InsertProjectMember): Promise<ProjectMember | undefined> {
+    const [added] = await db
+      .insert(projectMembers)
+      .values(member)
+      .onConflictDoNothing({ target: [projectMembers.projectId, projectMembers.userId] })
+      .returning();
+    if (added) {
+      await this.syncProjectConversation(member.projectId);
+    }
+    return added || undefined;
+  }
+  
+  async removeProjectMember(projectId: number, userId: number): Promise<ProjectMember | undefined> {
+    const [removed] = await db
+      .delete(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+      .returning();
+    if (removed) {
+      await this.syncProjectConversation(projectId);
+    }
+    return removed || undefined;
+  }
+  
+  async acceptTeamInvitation(
+    inviteToken: string,
+    userId: number,
+    permissions: string[]
+  ): Promise<{ error?: string, invitation?: TeamInvitation, member?: ProjectMember }> {
+    const result = await db.transaction(async (tx) => {
+      const [invitation] = await tx
+        .select()
+        .from(teamInvitations)
+        .where(eq(teamInvitations.inviteToken, inviteToken))
+        .for("update");
+      
+      if (!invitation) {
+        throw new Error(`Team invitation with token ${inviteToken} not found`);
+      }
+      
+      // Checked again under the lock in case the invitation was answered concurrently
+      if (invitation.inviteStatus !== "pending") {
+        return { error: `This invitation has already been ${invitation.inviteStatus}` };
+      }
+      
+      const [accepted] = await tx
+        .update(teamInvitations)
+        .set({ inviteStatus: "accepted", acceptedAt: new Date() })
+        .where(eq(teamInvitations.id, invitation.id))
+        .returning();
+      
+      // No member is returned if they were already on the team
+      const [member] = await tx
+        .insert(projectMembers)
+        .values({
+          projectId: invitation.projectId,
+          userId,
+          role: invitation.role,
+          permissions,
+          addedBy: invitation.invitedByUserId
+        })
+        .onConflictDoNothing({ target: [projectMembers.projectId, projectMembers.userId] })
+        .returning();
+      
+      return { invitation: accepted, member };
+    });
+    
+    if (result.member) {
+      await this.syncProjectConversation(result.member.projectId);
+    }
+    return result;
+  }
+  
   async getProjectsBySupplier(supplierId: number): Promise<Project[]> {
     try {
       // This query finds all projects that have orders from this supplier
@@ -2706,15 +3082,24 @@ export class DatabaseStorage implements IStorage {
 
   async createProject(insertProject: InsertProject): Promise<Project> {
     const [project] = await db.insert(projects).values(insertProject).returning();
+    // Every project starts with a group chat for its team
+    await this.syncProjectConversation(project.id);
     return project;
   }
 
   async updateProject(id: number, updates: Partial<Project>): Promise<Project> {
     const [project] = await db
       .update(projects)
-      .set(updates)
+      .set({
+        ...updates,
+        ...(updates.status === "completed" ? { completedAt: sql`coalesce(${projects.completedAt}, now())` } : {})
+      })
       .where(eq(projects.id, id))
       .returning();
+    // e.g. a company taking the project on after their bid is accepted
+    if (updates.clientId !== undefined || updates.companyId !== undefined) {
+      await this.syncProjectConversation(id);
+    }
     return project;
   }
   
@@ -2930,6 +3315,53 @@ export class DatabaseStorage implements IStorage {
     
     return result;
   }
+
+  async upsertCatalogueItems(supplierId: number, items: CatalogueItem[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const item of items) {
+        const { quantityAvailable } = item.inventory;
+        // Stock levels from the file decide whether the material shows as in stock
+        const stock = quantityAvailable === undefined ? {} : { inStock: quantityAvailable > 0 };
+        const status = item.inventory.status
+          ?? (quantityAvailable === undefined ? undefined : quantityAvailable > 0 ? "in_stock" : "out_of_stock");
+        const inventoryValues = { ...item.inventory, ...(status ? { status } : {}), lastUpdated: new Date() };
+
+        let materialId = item.existingId;
+        if (materialId) {
+          await tx
+            .update(materials)
+            .set({ ...item.material, ...stock, updatedAt: new Date() })
+            .where(and(eq(materials.id, materialId), eq(materials.supplierId, supplierId)));
+        } else {
+          const [created] = await tx
+            .insert(materials)
+            .values({ ...item.material, ...stock })
+            .returning({ id: materials.id });
+          materialId = created.id;
+        }
+
+        const [existingInventory] = await tx
+          .select({ id: inventory.id })
+          .from(inventory)
+          .where(and(eq(inventory.materialId, materialId), eq(inventory.supplierId, supplierId)));
+
+        if (existingInventory) {
+          await tx
+            .update(inventory)
+            .set(inventoryValues)
+            .where(eq(inventory.id, existingInventory.id));
+        } else {
+          await tx.insert(inventory).values({
+            quantityAvailable: 0,
+            status: "out_of_stock",
+            ...inventoryValues,
+            materialId,
+            supplierId
+          });
+        }
+      }
+    });
+  }
   
   // Order methods
   async getAllOrders(): Promise<Order[]> {
@@ -2961,78 +3393,1561 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return order;
   }
-  
-  // Message methods
-  async getMessage(id: number): Promise<Message | undefined> {
-    const [message] = await db.select().from(messages).where(eq(messages.id, id));
-    return message || undefined;
-  }
 
-  async getMessagesByUserId(userId: number): Promise<Message[]> {
-    return await db
-      .select()
-      .from(messages)
-      .where(
-        or(
-          eq(messages.senderId, userId),
-          eq(messages.receiverId, userId)
-        )
-      );
+  async placeOrder(clientId: number, checkout: CheckoutRequest): Promise<{ order?: Order, errors?: CheckoutLineError[] }> {
+    return db.transaction(async (tx) => {
+      const errors: CheckoutLineError[] = [];
+      const orderItems: OrderItem[] = [];
+      const reservations: { inventoryId: number, reservedQuantity: number }[] = [];
+      
+      // Lines for the same material are checked and reserved as one, so together they can't
+      // take more than is in stock
+      const quantities = new Map<number, number>();
+      for (const line of checkout.items) {
+        quantities.set(line.materialId, (quantities.get(line.materialId) || 0) + line.quantity);
+      }
+      const lines = Array.from(quantities, ([materialId, quantity]) => ({ materialId, quantity }));
+      
+      for (const line of lines) {
+        const [material] = await tx.select().from(materials).where(eq(materials.id, line.materialId));
+        if (!material) {
+          errors.push({ materialId: line.materialId, message: "Material no longer exists" });
+          continue;
+        }
+        
+        // Lock the supplier's inventory row so concurrent checkouts can't oversell it
+        const [stock] = await tx
+          .select()
+          .from(inventory)
+          .where(and(
+            eq(inventory.materialId, material.id),
+            eq(inventory.supplierId, material.supplierId)
+          ))
+          .for("update");
+        
+        if (!stock || stock.status === "discontinued") {
+          errors.push({ materialId: material.id, message: `${material.name} is not available` });
+          continue;
+        }
+        
+        const minOrderQuantity = stock.minOrderQuantity ?? 1;
+        if (line.quantity < minOrderQuantity) {
+          errors.push({
+            materialId: material.id,
+            message: `Minimum order quantity for ${material.name} is ${minOrderQuantity}`
+          });
+          continue;
+        }
+        
+        const reserved = stock.reservedQuantity ?? 0;
+        const available = stock.quantityAvailable - reserved;
+        if (line.quantity > available) {
+          errors.push({
+            materialId: material.id,
+            message: `Only ${Math.max(available, 0)} ${material.unit} of ${material.name} available`
+          });
+          continue;
+        }
+        
+        reservations.push({ inventoryId: stock.id, reservedQuantity: reserved + line.quantity });
+        orderItems.push({
+          materialId: material.id,
+          supplierId: material.supplierId,
+          name: material.name,
+          unit: material.unit,
+          quantity: line.quantity,
+          price: material.discountPrice ?? material.price
+        });
+      }
+      
+      // Nothing has been written yet, so returning here leaves inventory untouched
+      if (errors.length > 0) {
+        return { errors };
+      }
+      
+      for (const reservation of reservations) {
+        await tx
+          .update(inventory)
+          .set({ reservedQuantity: reservation.reservedQuantity, lastUpdated: new Date() })
+          .where(eq(inventory.id, reservation.inventoryId));
+      }
+      
+      const year = new Date().getFullYear();
+      const randomId = Math.floor(1000 + Math.random() * 9000);
+      
+      const [order] = await tx.insert(orders).values({
+        orderId: `ORD-${year}-${randomId}`,
+        clientId,
+        projectId: checkout.projectId ?? null,
+        status: "confirmed",
+        items: orderItems,
+        totalAmount: orderItems.reduce((total, item) => total + item.price * item.quantity, 0),
+        deliveryAddress: checkout.deliveryAddress,
+        deliveryDate: checkout.deliveryDate ?? null
+      }).returning();
+      
+      // Split the order into one fulfilment record per supplier
+      const itemsBySupplier = new Map<number, OrderItem[]>();
+      for (const item of orderItems) {
+        itemsBySupplier.set(item.supplierId, [...(itemsBySupplier.get(item.supplierId) || []), item]);
+      }
+      
+      for (const [supplierId, supplierItems] of Array.from(itemsBySupplier.entries())) {
+        await tx.insert(supplierOrders).values({
+          orderId: order.id,
+          supplierId,
+          items: supplierItems,
+          subtotal: supplierItems.reduce((total, item) => total + item.price * item.quantity, 0),
+          status: "confirmed"
+        });
+      }
+      
+      return { order };
+    });
   }
-
-  async createMessage(message: InsertMessage): Promise<Message> {
-    const [newMessage] = await db.insert(messages).values(message).returning();
-    return newMessage;
+  
+  // Supplier Order methods
+  async getSupplierOrder(id: number): Promise<SupplierOrder | undefined> {
+    const [supplierOrder] = await db.select().from(supplierOrders).where(eq(supplierOrders.id, id));
+    return supplierOrder || undefined;
   }
-
-  async updateMessage(id: number, updates: Partial<Message>): Promise<Message> {
-    const [message] = await db
-      .update(messages)
-      .set(updates)
-      .where(eq(messages.id, id))
-      .returning();
-    return message;
+  
+  async getSupplierOrdersByOrderIds(orderIds: number[]): Promise<SupplierOrderWithSupplier[]> {
+    if (orderIds.length === 0) {
+      return [];
+    }
+    
+    const rows = await db
+      .select({ supplierOrder: supplierOrders, supplierName: suppliers.name })
+      .from(supplierOrders)
+      .innerJoin(suppliers, eq(supplierOrders.supplierId, suppliers.id))
+      .where(inArray(supplierOrders.orderId, orderIds))
+      .orderBy(asc(supplierOrders.id));
+    
+    return rows.map(row => ({ ...row.supplierOrder, supplierName: row.supplierName }));
   }
   
-  // Service Request methods
-  async getAllServiceRequests(): Promise<ServiceRequest[]> {
-    return await db.select().from(serviceRequests);
+  async getSupplierOrdersBySupplier(supplierId: number): Promise<SupplierOrderWithDetails[]> {
+    const rows = await db
+      .select({
+        supplierOrder: supplierOrders,
+        orderNumber: orders.orderId,
+        deliveryAddress: orders.deliveryAddress
+      })
+      .from(supplierOrders)
+      .innerJoin(orders, eq(supplierOrders.orderId, orders.id))
+      .where(eq(supplierOrders.supplierId, supplierId))
+      .orderBy(desc(supplierOrders.createdAt));
+    
+    return rows.map(row => ({
+      ...row.supplierOrder,
+      orderNumber: row.orderNumber,
+      deliveryAddress: row.deliveryAddress,
+      allowedTransitions: getAllowedOrderTransitions(row.supplierOrder.status, "supplier")
+    }));
+  }
+  
+  async updateSupplierOrder(
+    id: number,
+    updates: SupplierOrderUpdate,
+    actor: OrderStatusActor
+  ): Promise<OrderTransitionResult> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(supplierOrders).where(eq(supplierOrders.id, id));
+      if (!existing) {
+        throw new Error(`Supplier order with id ${id} not found`);
+      }
+      
+      // Lock the parent order so concurrent supplier updates roll up consistently
+      const [parent] = await tx.select().from(orders).where(eq(orders.id, existing.orderId)).for("update");
+      
+      const { status, note, ...fields } = updates;
+      const fromStatus = normaliseOrderStatus(existing.status);
+      const statusChanged = status !== undefined && status !== fromStatus;
+      const changes: OrderStatusHistoryEntry[] = [];
+      
+      if (statusChanged) {
+        if (!canTransitionOrder(fromStatus, status, actor.role)) {
+          return { error: `Cannot move this order from ${fromStatus} to ${status}` };
+        }
+        
+        await this.applyOrderInventoryEffect(tx, existing, status);
+        
+        const [entry] = await tx.insert(orderStatusHistory).values({
+          orderId: existing.orderId,
+          supplierOrderId: id,
+          fromStatus,
+          toStatus: status,
+          changedBy: actor.userId,
+          changedByRole: actor.role,
+          note
+        }).returning();
+        changes.push(entry);
+      }
+      
+      const [supplierOrder] = await tx
+        .update(supplierOrders)
+        .set(statusChanged
+          ? { ...fields, status, updatedAt: new Date() }
+          : { ...fields, updatedAt: new Date() })
+        .where(eq(supplierOrders.id, id))
+        .returning();
+      
+      // Tracking details alone don't move the parent order
+      if (!statusChanged) {
+        return { order: parent, supplierOrder, changes };
+      }
+      
+      const siblings = await tx
+        .select({ status: supplierOrders.status, deliveryDate: supplierOrders.deliveryDate })
+        .from(supplierOrders)
+        .where(eq(supplierOrders.orderId, existing.orderId));
+      
+      const orderStatus = rollUpOrderStatus(siblings.map(sibling => sibling.status));
+      const parentStatus = normaliseOrderStatus(parent.status);
+      
+      if (orderStatus === parentStatus) {
+        return { order: parent, supplierOrder, changes };
+      }
+      
+      // Once everything has arrived the order's delivery date is the last supplier's
+      const deliveryDates = siblings
+        .map(sibling => sibling.deliveryDate)
+        .filter((date): date is Date => date !== null)
+        .map(date => date.getTime());
+      
+      const [order] = await tx
+        .update(orders)
+        .set(orderStatus === "delivered" && deliveryDates.length > 0
+          ? { status: orderStatus, deliveryDate: new Date(Math.max(...deliveryDates)) }
+          : { status: orderStatus })
+        .where(eq(orders.id, existing.orderId))
+        .returning();
+      
+      const [entry] = await tx.insert(orderStatusHistory).values({
+        orderId: order.id,
+        fromStatus: parentStatus,
+        toStatus: orderStatus,
+        changedBy: actor.userId,
+        changedByRole: actor.role
+      }).returning();
+      changes.push(entry);
+      
+      return { order, supplierOrder, changes };
+    });
   }
-
-  async getServiceRequest(id: number): Promise<ServiceRequest | undefined> {
-    const [request] = await db.select().from(serviceRequests).where(eq(serviceRequests.id, id));
-    return request || undefined;
+  
+  async transitionOrder(
+    id: number,
+    status: OrderStatus,
+    actor: OrderStatusActor,
+    note?: string
+  ): Promise<OrderTransitionResult> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!existing) {
+        throw new Error(`Order with id ${id} not found`);
+      }
+      
+      const fromStatus = normaliseOrderStatus(existing.status);
+      if (!canTransitionOrder(fromStatus, status, actor.role)) {
+        return { error: `Cannot move this order from ${fromStatus} to ${status}` };
+      }
+      
+      const children = await tx.select().from(supplierOrders).where(eq(supplierOrders.orderId, id)).for("update");
+      
+      // Cancelling the order cancels every supplier's part of it, so each part has to be one this
+      // user could cancel on its own; goods already sent can't be put back in stock
+      if (status === "cancelled") {
+        const blocking = children.find(child =>
+          normaliseOrderStatus(child.status) !== "cancelled" && !canTransitionOrder(child.status, status, actor.role)
+        );
+        if (blocking) {
+          return { error: `Part of this order is already ${normaliseOrderStatus(blocking.status)} and can't be cancelled` };
+        }
+      }
+      
+      const [order] = await tx
+        .update(orders)
+        .set(status === "delivered" && !existing.deliveryDate
+          ? { status, deliveryDate: new Date() }
+          : { status })
+        .where(eq(orders.id, id))
+        .returning();
+      
+      const changes: OrderStatusHistoryEntry[] = [];
+      const [entry] = await tx.insert(orderStatusHistory).values({
+        orderId: id,
+        fromStatus,
+        toStatus: status,
+        changedBy: actor.userId,
+        changedByRole: actor.role,
+        note
+      }).returning();
+      changes.push(entry);
+      
+      // Bring the supplier orders along so they stay consistent with the order
+      for (const child of children) {
+        if (!shouldCascadeOrderStatus(child.status, status)) {
+          continue;
+        }
+        
+        await this.applyOrderInventoryEffect(tx, child, status);
+        
+        await tx
+          .update(supplierOrders)
+          .set({ status, updatedAt: new Date() })
+          .where(eq(supplierOrders.id, child.id));
+        
+        const [childEntry] = await tx.insert(orderStatusHistory).values({
+          orderId: id,
+          supplierOrderId: child.id,
+          fromStatus: normaliseOrderStatus(child.status),
+          toStatus: status,
+          changedBy: actor.userId,
+          changedByRole: actor.role,
+          note
+        }).returning();
+        changes.push(childEntry);
+      }
+      
+      return { order, changes };
+    });
   }
-
-  async getServiceRequestsByClientId(clientId: number): Promise<ServiceRequest[]> {
-    return await db
-      .select()
-      .from(serviceRequests)
-      .where(eq(serviceRequests.clientId, clientId));
+  
+  // Releases or consumes the stock reserved for a supplier order at checkout
+  private async applyOrderInventoryEffect(tx: Transaction, supplierOrder: SupplierOrder, to: OrderStatus): Promise<void> {
+    const effect = getInventoryEffect(supplierOrder.status, to);
+    if (!effect) {
+      return;
+    }
+    
+    for (const item of supplierOrder.items as OrderItem[]) {
+      await tx
+        .update(inventory)
+        .set(effect === "consume"
+          ? {
+              quantityAvailable: sql`GREATEST(${inventory.quantityAvailable} - ${item.quantity}, 0)`,
+              reservedQuantity: sql`GREATEST(${inventory.reservedQuantity} - ${item.quantity}, 0)`,
+              lastUpdated: new Date()
+            }
+          : {
+              reservedQuantity: sql`GREATEST(${inventory.reservedQuantity} - ${item.quantity}, 0)`,
+              lastUpdated: new Date()
+            })
+        .where(and(
+          eq(inventory.materialId, item.materialId),
+          eq(inventory.supplierId, supplierOrder.supplierId)
+        ));
+    }
   }
-
-  async getServiceRequestsByProjectId(projectId: number): Promise<ServiceRequest[]> {
-    return await db
+  
+  async getOrderStatusHistory(orderIds: number[]): Promise<OrderStatusHistoryEntry[]> {
+    if (orderIds.length === 0) {
+      return [];
+    }
+    
+    return db
       .select()
-      .from(serviceRequests)
-      .where(eq(serviceRequests.projectId, projectId));
+      .from(orderStatusHistory)
+      .where(inArray(orderStatusHistory.orderId, orderIds))
+      .orderBy(asc(orderStatusHistory.createdAt), asc(orderStatusHistory.id));
   }
-
-  async createServiceRequest(request: InsertServiceRequest): Promise<ServiceRequest> {
-    const [newRequest] = await db.insert(serviceRequests).values(request).returning();
-    return newRequest;
+  
+  // Payment methods
+  async createPaymentIntent(intent: InsertPaymentIntent): Promise<PaymentIntent> {
+    const [paymentIntent] = await db.insert(paymentIntents).values(intent).returning();
+    return paymentIntent;
   }
-
-  async updateServiceRequest(id: number, updates: Partial<ServiceRequest>): Promise<ServiceRequest> {
-    const [request] = await db
-      .update(serviceRequests)
-      .set(updates)
-      .where(eq(serviceRequests.id, id))
-      .returning();
-    return request;
+  
+  async getPaymentIntent(id: number): Promise<PaymentIntent | undefined> {
+    const [paymentIntent] = await db.select().from(paymentIntents).where(eq(paymentIntents.id, id));
+    return paymentIntent || undefined;
   }
   
-  async getServiceRequestsByStatus(status: string): Promise<ServiceRequest[]> {
+  async getPaymentIntentByReference(reference: string): Promise<PaymentIntent | undefined> {
+    const [paymentIntent] = await db.select().from(paymentIntents).where(eq(paymentIntents.reference, reference));
+    return paymentIntent || undefined;
+  }
+  
+  async getPaymentIntentByIdempotencyKey(payerId: number, idempotencyKey: string): Promise<PaymentIntent | undefined> {
+    const [paymentIntent] = await db
+      .select()
+      .from(paymentIntents)
+      .where(and(eq(paymentIntents.payerId, payerId), eq(paymentIntents.idempotencyKey, idempotencyKey)));
+    return paymentIntent || undefined;
+  }
+  
+  async getPaymentIntentsByPayer(payerId: number): Promise<PaymentIntent[]> {
+    return db
+      .select()
+      .from(paymentIntents)
+      .where(eq(paymentIntents.payerId, payerId))
+      .orderBy(desc(paymentIntents.createdAt));
+  }
+  
+  async getPaymentIntentsByOrder(orderId: number): Promise<PaymentIntent[]> {
+    return db
+      .select()
+      .from(paymentIntents)
+      .where(eq(paymentIntents.orderId, orderId))
+      .orderBy(desc(paymentIntents.createdAt));
+  }
+  
+  async getPaymentIntentsByServiceRequest(serviceRequestId: number): Promise<PaymentIntent[]> {
+    return db
+      .select()
+      .from(paymentIntents)
+      .where(eq(paymentIntents.serviceRequestId, serviceRequestId))
+      .orderBy(desc(paymentIntents.createdAt));
+  }
+  
+  async updatePaymentIntent(id: number, updates: Partial<PaymentIntent>): Promise<PaymentIntent> {
+    return db.transaction(async (tx) => {
+      const [paymentIntent] = await tx
+        .update(paymentIntents)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(paymentIntents.id, id))
+        .returning();
+      
+      if (!paymentIntent) {
+        throw new Error(`Payment intent with id ${id} not found`);
+      }
+      
+      if (updates.status) {
+        await this.syncEscrowFunding(tx, paymentIntent);
+      }
+      
+      return paymentIntent;
+    });
+  }
+  
+  async applyPaymentWebhookEvent(
+    provider: string,
+    event: ParsedPaymentWebhookEvent,
+    payload: unknown
+  ): Promise<{ intent?: PaymentIntent, changed: boolean, amountMismatch?: string }> {
+    return db.transaction(async (tx) => {
+      const [intent] = await tx
+        .select()
+        .from(paymentIntents)
+        .where(eq(paymentIntents.reference, event.reference))
+        .for("update");
+      
+      // Providers retry webhooks, so each event is only ever applied once
+      const [recorded] = await tx
+        .insert(paymentWebhookEvents)
+        .values({ provider, eventId: event.eventId, paymentIntentId: intent?.id, payload })
+        .onConflictDoNothing()
+        .returning();
+      
+      if (!recorded || !intent || intent.provider !== provider) {
+        return { intent, changed: false };
+      }
+      
+      if ((finalPaymentStatuses as string[]).includes(intent.status) || intent.status === event.status) {
+        return { intent, changed: false };
+      }
+      
+      // A payment for less than was due, or in another currency, doesn't settle anything; it's left
+      // as it was with the reason noted for an admin to sort out
+      const amountMismatch = describeAmountMismatch(intent, event);
+      if (amountMismatch) {
+        const [flagged] = await tx
+          .update(paymentIntents)
+          .set({ failureReason: amountMismatch, updatedAt: new Date() })
+          .where(eq(paymentIntents.id, intent.id))
+          .returning();
+        return { intent: flagged, changed: false, amountMismatch };
+      }
+      
+      const [updated] = await tx
+        .update(paymentIntents)
+        .set({ status: event.status, failureReason: event.failureReason ?? null, updatedAt: new Date() })
+        .where(eq(paymentIntents.id, intent.id))
+        .returning();
+      
+      await this.syncEscrowFunding(tx, updated);
+      
+      return { intent: updated, changed: true };
+    });
+  }
+  
+  // Moves the milestones a payment is funding along with it, in the same transaction
+  private async syncEscrowFunding(tx: Transaction, intent: PaymentIntent) {
+    if (intent.status === "succeeded") {
+      await tx
+        .update(escrowMilestones)
+        .set({ status: "funded", updatedAt: new Date() })
+        .where(and(eq(escrowMilestones.fundingIntentId, intent.id), eq(escrowMilestones.status, "awaiting_funding")));
+      
+      // Milestones put on hold while the payment was in progress are funded once the hold is lifted
+      await tx
+        .update(escrowMilestones)
+        .set({ statusBeforeHold: "funded", updatedAt: new Date() })
+        .where(and(
+          eq(escrowMilestones.fundingIntentId, intent.id),
+          inArray(escrowMilestones.status, heldEscrowStatuses),
+          eq(escrowMilestones.statusBeforeHold, "awaiting_funding")
+        ));
+    } else if (intent.status === "failed" || intent.status === "cancelled") {
+      // Free the milestones up so the client can try paying again
+      await tx
+        .update(escrowMilestones)
+        .set({ fundingIntentId: null, updatedAt: new Date() })
+        .where(and(
+          eq(escrowMilestones.fundingIntentId, intent.id),
+          or(
+            eq(escrowMilestones.status, "awaiting_funding"),
+            eq(escrowMilestones.statusBeforeHold, "awaiting_funding")
+          )
+        ));
+    }
+  }
+  
+  // Escrow methods
+  async getEscrowMilestone(id: number): Promise<EscrowMilestone | undefined> {
+    const [milestone] = await db.select().from(escrowMilestones).where(eq(escrowMilestones.id, id));
+    return milestone || undefined;
+  }
+  
+  async getEscrowMilestonesByServiceRequest(serviceRequestId: number): Promise<EscrowMilestone[]> {
+    return db
+      .select()
+      .from(escrowMilestones)
+      .where(eq(escrowMilestones.serviceRequestId, serviceRequestId))
+      .orderBy(asc(escrowMilestones.sequence));
+  }
+  
+  async getEscrowMilestonesByServiceProvider(serviceProviderId: number, status?: string, projectId?: number): Promise<EscrowMilestone[]> {
+    return db
+      .select()
+      .from(escrowMilestones)
+      .where(and(
+        eq(escrowMilestones.serviceProviderId, serviceProviderId),
+        status ? eq(escrowMilestones.status, status) : undefined,
+        projectId ? inArray(
+          escrowMilestones.serviceRequestId,
+          db.select({ id: serviceRequests.id }).from(serviceRequests).where(eq(serviceRequests.projectId, projectId))
+        ) : undefined
+      ))
+      .orderBy(asc(escrowMilestones.serviceRequestId), asc(escrowMilestones.sequence));
+  }
+  
+  async getEscrowMilestonesByTimelineIds(timelineIds: number[]): Promise<EscrowMilestone[]> {
+    if (timelineIds.length === 0) {
+      return [];
+    }
+    
+    return db
+      .select()
+      .from(escrowMilestones)
+      .where(inArray(escrowMilestones.timelineId, timelineIds));
+  }
+  
+  async getEscrowMilestoneByPayoutReference(payoutReference: string): Promise<EscrowMilestone | undefined> {
+    const [milestone] = await db
+      .select()
+      .from(escrowMilestones)
+      .where(eq(escrowMilestones.payoutReference, payoutReference));
+    return milestone || undefined;
+  }
+  
+  async updateEscrowMilestone(id: number, updates: Partial<EscrowMilestone>): Promise<EscrowMilestone> {
+    const [milestone] = await db
+      .update(escrowMilestones)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(escrowMilestones.id, id))
+      .returning();
+    
+    if (!milestone) {
+      throw new Error(`Escrow milestone with id ${id} not found`);
+    }
+    
+    return milestone;
+  }
+  
+  async attachEscrowFunding(intentId: number, milestoneIds: number[]): Promise<{ error?: string }> {
+    return db.transaction(async (tx) => {
+      // Locked so two payments can't both claim the same milestone
+      const milestones = await tx
+        .select()
+        .from(escrowMilestones)
+        .where(inArray(escrowMilestones.id, milestoneIds))
+        .for("update");
+      
+      const available = milestones.filter(milestone =>
+        milestone.status === "awaiting_funding" && milestone.fundingIntentId === null
+      );
+      if (milestoneIds.length === 0 || available.length !== milestoneIds.length) {
+        return { error: "A payment for this milestone is already in progress or complete" };
+      }
+      
+      await tx
+        .update(escrowMilestones)
+        .set({ fundingIntentId: intentId, updatedAt: new Date() })
+        .where(inArray(escrowMilestones.id, milestoneIds));
+      
+      return {};
+    });
+  }
+  
+  async submitEscrowMilestone(id: number, serviceProviderId: number, timeline: InsertProjectTimeline): Promise<EscrowMilestoneResult & { entry?: ProjectTimeline }> {
+    return db.transaction(async (tx) => {
+      // Locked so the milestone can't change between the check and linking the entry to it
+      const [funded] = await tx
+        .select()
+        .from(escrowMilestones)
+        .where(and(eq(escrowMilestones.id, id), eq(escrowMilestones.status, "funded")))
+        .for("update");
+      
+      if (!funded) {
+        return { error: "Only funded milestones can be submitted for approval" };
+      }
+      if (funded.serviceProviderId !== serviceProviderId) {
+        return { error: "Only the assigned service provider can submit progress for this milestone" };
+      }
+      
+      const [serviceRequest] = await tx
+        .select({ projectId: serviceRequests.projectId })
+        .from(serviceRequests)
+        .where(eq(serviceRequests.id, funded.serviceRequestId));
+      if (!serviceRequest || serviceRequest.projectId !== timeline.projectId) {
+        return { error: "This escrow milestone isn't for work on this project" };
+      }
+      
+      const [entry] = await tx.insert(projectTimelines).values(timeline).returning();
+      const [milestone] = await tx
+        .update(escrowMilestones)
+        .set({ status: "submitted", timelineId: entry.id, updatedAt: new Date() })
+        .where(eq(escrowMilestones.id, id))
+        .returning();
+      
+      return { entry, milestone };
+    });
+  }
+  
+  async releaseEscrowMilestone(id: number, approver: EscrowApprover, payoutReference: string): Promise<EscrowMilestoneResult> {
+    const [milestone] = await db
+      .update(escrowMilestones)
+      .set({
+        status: "released",
+        approvedBy: approver.userId,
+        approvedByRole: approver.role,
+        approvedAt: new Date(),
+        payoutReference,
+        payoutStatus: "processing",
+        releasedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(and(eq(escrowMilestones.id, id), eq(escrowMilestones.status, "submitted")))
+      .returning();
+    
+    if (!milestone) {
+      return { error: "Only milestones with submitted progress can be approved" };
+    }
+    
+    return { milestone };
+  }
+  
+  async retryEscrowPayout(id: number, payoutReference: string): Promise<EscrowMilestone | undefined> {
+    const [milestone] = await db
+      .update(escrowMilestones)
+      .set({ payoutReference, payoutStatus: "processing", updatedAt: new Date() })
+      .where(and(
+        eq(escrowMilestones.id, id),
+        eq(escrowMilestones.status, "released"),
+        eq(escrowMilestones.payoutStatus, "failed")
+      ))
+      .returning();
+    return milestone || undefined;
+  }
+  
+  async settleEscrowPayout(id: number, payoutReference: string, payoutStatus: "paid" | "failed"): Promise<EscrowMilestone | undefined> {
+    const [milestone] = await db
+      .update(escrowMilestones)
+      .set({ payoutStatus, updatedAt: new Date() })
+      .where(and(
+        eq(escrowMilestones.id, id),
+        eq(escrowMilestones.payoutReference, payoutReference),
+        eq(escrowMilestones.payoutStatus, "processing")
+      ))
+      .returning();
+    return milestone || undefined;
+  }
+  
+  async holdEscrowMilestone(
+    id: number,
+    action: "dispute" | "freeze" | "release_hold",
+    adminId: number,
+    reason?: string
+  ): Promise<EscrowMilestoneResult> {
+    return db.transaction(async (tx) => {
+      const [milestone] = await tx
+        .select()
+        .from(escrowMilestones)
+        .where(eq(escrowMilestones.id, id))
+        .for("update");
+      
+      if (!milestone) {
+        throw new Error(`Escrow milestone with id ${id} not found`);
+      }
+      
+      if (action === "release_hold") {
+        if (!(heldEscrowStatuses as string[]).includes(milestone.status)) {
+          return { error: "This milestone is not on hold" };
+        }
+        
+        const [updated] = await tx
+          .update(escrowMilestones)
+          .set({
+            status: milestone.statusBeforeHold || "awaiting_funding",
+            statusBeforeHold: null,
+            heldBy: null,
+            holdReason: null,
+            updatedAt: new Date()
+          })
+          .where(eq(escrowMilestones.id, id))
+          .returning();
+        
+        return { milestone: updated };
+      }
+      
+      if (!canHoldEscrowMilestone(milestone.status)) {
+        return { error: `A ${milestone.status} milestone can't be put on hold` };
+      }
+      
+      const [updated] = await tx
+        .update(escrowMilestones)
+        .set({
+          status: action === "dispute" ? "disputed" : "frozen",
+          statusBeforeHold: milestone.status,
+          heldBy: adminId,
+          holdReason: reason || null,
+          updatedAt: new Date()
+        })
+        .where(eq(escrowMilestones.id, id))
+        .returning();
+      
+      return { milestone: updated };
+    });
+  }
+  
+  // Platform Settings methods
+  async getLatestPlatformSettings(): Promise<PlatformSettingsVersion | undefined> {
+    const [latest] = await db
+      .select()
+      .from(platformSettings)
+      .orderBy(desc(platformSettings.version))
+      .limit(1);
+    return latest || undefined;
+  }
+  
+  async savePlatformSettings(
+    settings: PlatformSettings,
+    expectedVersion: number,
+    updatedBy: number
+  ): Promise<{ error?: string, saved?: PlatformSettingsVersion }> {
+    // The unique version column makes concurrent saves of the same version race safely
+    const [saved] = await db
+      .insert(platformSettings)
+      .values({ version: expectedVersion + 1, settings, updatedBy })
+      .onConflictDoNothing({ target: platformSettings.version })
+      .returning();
+    
+    if (!saved) {
+      return { error: "Settings were changed by someone else. Reload them and try again." };
+    }
+    
+    return { saved };
+  }
+  
+  // Maintenance Window methods
+  async getMaintenanceWindow(id: number): Promise<MaintenanceWindow | undefined> {
+    const [window] = await db.select().from(maintenanceWindows).where(eq(maintenanceWindows.id, id));
+    return window || undefined;
+  }
+  
+  async getScheduledMaintenanceWindows(): Promise<MaintenanceWindow[]> {
+    return await db
+      .select()
+      .from(maintenanceWindows)
+      .where(
+        and(
+          isNull(maintenanceWindows.cancelledAt),
+          gt(maintenanceWindows.endsAt, new Date())
+        )
+      )
+      .orderBy(asc(maintenanceWindows.startsAt));
+  }
+  
+  async createMaintenanceWindow(window: InsertMaintenanceWindow): Promise<MaintenanceWindow> {
+    const [created] = await db.insert(maintenanceWindows).values(window).returning();
+    return created;
+  }
+  
+  async cancelMaintenanceWindow(id: number): Promise<MaintenanceWindow> {
+    const [cancelled] = await db
+      .update(maintenanceWindows)
+      .set({ cancelledAt: new Date() })
+      .where(eq(maintenanceWindows.id, id))
+      .returning();
+    
+    if (!cancelled) {
+      throw new Error(`Maintenance window with id ${id} not found`);
+    }
+    
+    return cancelled;
+  }
+  
+  // Site Report methods
+  async getSiteReports(projectId: number, filters: SiteReportFilters): Promise<SiteReportPage> {
+    const conditions = [eq(siteReports.projectId, projectId)];
+    if (filters.type) {
+      conditions.push(eq(siteReports.type, filters.type));
+    }
+    if (filters.authorId) {
+      conditions.push(eq(siteReports.authorId, filters.authorId));
+    }
+    if (filters.from) {
+      conditions.push(sql`${siteReports.reportDate}::date >= ${filters.from}::date`);
+    }
+    if (filters.to) {
+      conditions.push(sql`${siteReports.reportDate}::date <= ${filters.to}::date`);
+    }
+    if (filters.hasSafetyIncidents !== undefined) {
+      conditions.push(filters.hasSafetyIncidents ? isNotNull(siteReports.safetyIncidents) : isNull(siteReports.safetyIncidents));
+    }
+    const where = and(...conditions);
+    
+    const [{ total }] = await db.select({ total: count() }).from(siteReports).where(where);
+    const reports = await db
+      .select()
+      .from(siteReports)
+      .where(where)
+      .orderBy(desc(siteReports.reportDate), desc(siteReports.id))
+      .limit(filters.pageSize)
+      .offset((filters.page - 1) * filters.pageSize);
+    
+    return {
+      reports: await this.withReportDetails(reports),
+      total,
+      page: filters.page,
+      pageSize: filters.pageSize
+    };
+  }
+  
+  async getSiteReport(id: number): Promise<SiteReportWithDetails | undefined> {
+    const [report] = await db.select().from(siteReports).where(eq(siteReports.id, id));
+    if (!report) {
+      return undefined;
+    }
+    
+    const [detailed] = await this.withReportDetails([report]);
+    return detailed;
+  }
+  
+  async createSiteReport(report: InsertSiteReport): Promise<SiteReport> {
+    const [created] = await db.insert(siteReports).values(report).returning();
+    return created;
+  }
+  
+  async addSiteReportComment(comment: InsertSiteReportComment): Promise<SiteReportComment> {
+    const [created] = await db.insert(siteReportComments).values(comment).returning();
+    return created;
+  }
+  
+  // Attaches each report's author and comment thread
+  private async withReportDetails(reports: SiteReport[]): Promise<SiteReportWithDetails[]> {
+    if (reports.length === 0) {
+      return [];
+    }
+    
+    const authorColumns = {
+      id: users.id,
+      username: users.username,
+      fullName: users.fullName,
+      role: users.role
+    };
+    
+    const authors = await db
+      .select(authorColumns)
+      .from(users)
+      .where(inArray(users.id, Array.from(new Set(reports.map(report => report.authorId)))));
+    
+    const comments = await db
+      .select({ comment: siteReportComments, author: authorColumns })
+      .from(siteReportComments)
+      .innerJoin(users, eq(siteReportComments.userId, users.id))
+      .where(inArray(siteReportComments.reportId, reports.map(report => report.id)))
+      .orderBy(asc(siteReportComments.createdAt));
+    
+    return reports.map(report => ({
+      ...report,
+      author: authors.find(author => author.id === report.authorId) || null,
+      comments: comments
+        .filter(({ comment }) => comment.reportId === report.id)
+        .map(({ comment, author }) => ({ ...comment, author }))
+    }));
+  }
+  
+  // Message methods
+  async getMessage(id: number): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.id, id));
+    return message || undefined;
+  }
+
+  async getMessagesByUserId(userId: number): Promise<Message[]> {
+    return await db
+      .select()
+      .from(messages)
+      .where(
+        or(
+          eq(messages.senderId, userId),
+          eq(messages.receiverId, userId)
+        )
+      );
+  }
+
+  async createMessage(message: InsertMessage): Promise<Message> {
+    const [newMessage] = await db.insert(messages).values(message).returning();
+    if (newMessage.conversationId) {
+      await db
+        .update(conversations)
+        .set({ lastMessageAt: newMessage.createdAt })
+        .where(eq(conversations.id, newMessage.conversationId));
+    }
+    return newMessage;
+  }
+
+  async updateMessage(id: number, updates: Partial<Message>): Promise<Message> {
+    const [message] = await db
+      .update(messages)
+      .set(updates)
+      .where(eq(messages.id, id))
+      .returning();
+    return message;
+  }
+  
+  // Conversation methods
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation || undefined;
+  }
+  
+  async getConversationParticipant(conversationId: number, userId: number): Promise<ConversationParticipant | undefined> {
+    const [participant] = await db
+      .select()
+      .from(conversationParticipants)
+      .where(and(
+        eq(conversationParticipants.conversationId, conversationId),
+        eq(conversationParticipants.userId, userId)
+      ));
+    return participant || undefined;
+  }
+  
+  async getConversationParticipants(conversationId: number): Promise<ConversationParticipant[]> {
+    return db
+      .select()
+      .from(conversationParticipants)
+      .where(eq(conversationParticipants.conversationId, conversationId));
+  }
+  
+  async getConversationsForUser(userId: number): Promise<ConversationSummary[]> {
+    const memberships = await db
+      .select()
+      .from(conversationParticipants)
+      .where(eq(conversationParticipants.userId, userId));
+    
+    if (memberships.length === 0) {
+      return [];
+    }
+    
+    const conversationIds = memberships.map(membership => membership.conversationId);
+    
+    const [conversationRows, participantRows, lastMessages] = await Promise.all([
+      db
+        .select({ conversation: conversations, projectName: projects.name })
+        .from(conversations)
+        .leftJoin(projects, eq(conversations.projectId, projects.id))
+        .where(inArray(conversations.id, conversationIds))
+        .orderBy(desc(conversations.lastMessageAt)),
+      db
+        .select({
+          conversationId: conversationParticipants.conversationId,
+          userId: conversationParticipants.userId,
+          username: users.username,
+          fullName: users.fullName,
+          role: users.role,
+          lastReadMessageId: conversationParticipants.lastReadMessageId
+        })
+        .from(conversationParticipants)
+        .innerJoin(users, eq(conversationParticipants.userId, users.id))
+        .where(inArray(conversationParticipants.conversationId, conversationIds)),
+      db
+        .selectDistinctOn([messages.conversationId])
+        .from(messages)
+        .where(inArray(messages.conversationId, conversationIds))
+        .orderBy(messages.conversationId, desc(messages.id))
+    ]);
+    
+    // Messages from others past the user's read cursor, counted per conversation
+    const unreadRows = await db
+      .select({ conversationId: messages.conversationId, count: count() })
+      .from(messages)
+      .innerJoin(conversationParticipants, and(
+        eq(conversationParticipants.conversationId, messages.conversationId),
+        eq(conversationParticipants.userId, userId)
+      ))
+      .where(and(
+        inArray(messages.conversationId, conversationIds),
+        ne(messages.senderId, userId),
+        gt(messages.id, sql`COALESCE(${conversationParticipants.lastReadMessageId}, 0)`)
+      ))
+      .groupBy(messages.conversationId);
+    
+    return conversationRows.map(({ conversation, projectName }) => ({
+      ...conversation,
+      projectName: projectName || null,
+      participants: participantRows
+        .filter(participant => participant.conversationId === conversation.id)
+        .map(({ conversationId, ...participant }) => participant),
+      lastMessage: lastMessages.find(message => message.conversationId === conversation.id) || null,
+      unreadCount: unreadRows.find(row => row.conversationId === conversation.id)?.count || 0
+    }));
+  }
+  
+  async getOrCreateDirectConversation(userId: number, otherUserId: number): Promise<Conversation> {
+    const directKey = [userId, otherUserId].sort((a, b) => a - b).join(':');
+    
+    return db.transaction(async (tx) => {
+      // The unique key means two people starting the same conversation at once end up sharing it
+      await tx
+        .insert(conversations)
+        .values({ type: 'direct', directKey })
+        .onConflictDoNothing({ target: conversations.directKey });
+      
+      const [conversation] = await tx.select().from(conversations).where(eq(conversations.directKey, directKey));
+      
+      await tx
+        .insert(conversationParticipants)
+        .values([
+          { conversationId: conversation.id, userId },
+          { conversationId: conversation.id, userId: otherUserId }
+        ])
+        .onConflictDoNothing({ target: [conversationParticipants.conversationId, conversationParticipants.userId] });
+      
+      return conversation;
+    });
+  }
+  
+  async syncProjectConversation(projectId: number): Promise<Conversation | undefined> {
+    const project = await this.getProject(projectId);
+    if (!project) {
+      return undefined;
+    }
+    
+    const members = await this.getProjectMembers(projectId);
+    const teamIds = new Set([project.clientId, ...members.map(member => member.userId)]);
+    if (project.companyId) {
+      teamIds.add(project.companyId);
+    }
+    
+    return db.transaction(async (tx) => {
+      await tx
+        .insert(conversations)
+        .values({ type: 'project', projectId, title: project.name })
+        .onConflictDoNothing({ target: conversations.projectId });
+      
+      const [conversation] = await tx.select().from(conversations).where(eq(conversations.projectId, projectId));
+      
+      const participants = await tx
+        .select()
+        .from(conversationParticipants)
+        .where(eq(conversationParticipants.conversationId, conversation.id));
+      
+      // People who've left the team lose access to the chat; their messages stay
+      const removedIds = participants
+        .map(participant => participant.userId)
+        .filter(userId => !teamIds.has(userId));
+      if (removedIds.length > 0) {
+        await tx
+          .delete(conversationParticipants)
+          .where(and(
+            eq(conversationParticipants.conversationId, conversation.id),
+            inArray(conversationParticipants.userId, removedIds)
+          ));
+      }
+      
+      await tx
+        .insert(conversationParticipants)
+        .values(Array.from(teamIds).map(userId => ({ conversationId: conversation.id, userId })))
+        .onConflictDoNothing({ target: [conversationParticipants.conversationId, conversationParticipants.userId] });
+      
+      return conversation;
+    });
+  }
+  
+  async getConversationMessages(conversationId: number, query: ConversationMessagesQuery): Promise<ConversationMessagePage> {
+    // One extra row tells us whether there's an older page
+    const rows = await db
+      .select()
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        query.before ? lt(messages.id, query.before) : undefined
+      ))
+      .orderBy(desc(messages.id))
+      .limit(query.limit + 1);
+    
+    return {
+      messages: rows.slice(0, query.limit).reverse(),
+      hasMore: rows.length > query.limit
+    };
+  }
+  
+  async createConversationMessage(conversationId: number, senderId: number, content: string): Promise<Message> {
+    return db.transaction(async (tx) => {
+      const [conversation] = await tx.select().from(conversations).where(eq(conversations.id, conversationId));
+      
+      // Direct messages keep a receiver so older views of the messages table still make sense
+      let receiverId: number | null = null;
+      if (conversation.type === 'direct') {
+        const [other] = await tx
+          .select()
+          .from(conversationParticipants)
+          .where(and(
+            eq(conversationParticipants.conversationId, conversationId),
+            ne(conversationParticipants.userId, senderId)
+          ));
+        receiverId = other?.userId ?? null;
+      }
+      
+      const [message] = await tx
+        .insert(messages)
+        .values({ conversationId, senderId, receiverId, projectId: conversation.projectId, content })
+        .returning();
+      
+      await tx
+        .update(conversations)
+        .set({ lastMessageAt: message.createdAt })
+        .where(eq(conversations.id, conversationId));
+      
+      // Your own message is never unread
+      await tx
+        .update(conversationParticipants)
+        .set({ lastReadMessageId: message.id })
+        .where(and(
+          eq(conversationParticipants.conversationId, conversationId),
+          eq(conversationParticipants.userId, senderId)
+        ));
+      
+      return message;
+    });
+  }
+  
+  async markConversationRead(conversationId: number, userId: number, messageId: number): Promise<ConversationParticipant | undefined> {
+    const [participant] = await db
+      .update(conversationParticipants)
+      .set({ lastReadMessageId: sql`GREATEST(COALESCE(${conversationParticipants.lastReadMessageId}, 0), ${messageId})` })
+      .where(and(
+        eq(conversationParticipants.conversationId, conversationId),
+        eq(conversationParticipants.userId, userId)
+      ))
+      .returning();
+    return participant || undefined;
+  }
+  
+  // Material Review methods
+  private async withReviewDetails(where?: SQL): Promise<MaterialReviewWithDetails[]> {
+    const rows = await db
+      .select({
+        review: materialReviews,
+        clientName: sql<string>`coalesce(${users.fullName}, ${users.username})`,
+        materialName: materials.name,
+        supplierName: suppliers.name
+      })
+      .from(materialReviews)
+      .innerJoin(users, eq(users.id, materialReviews.clientId))
+      .innerJoin(materials, eq(materials.id, materialReviews.materialId))
+      .innerJoin(suppliers, eq(suppliers.id, materialReviews.supplierId))
+      .where(where)
+      .orderBy(desc(materialReviews.createdAt));
+    
+    return rows.map(({ review, ...details }) => ({ ...review, ...details }));
+  }
+  
+  async getMaterialReviews(materialId: number, includeHidden: boolean = false): Promise<MaterialReviewWithDetails[]> {
+    return this.withReviewDetails(and(
+      eq(materialReviews.materialId, materialId),
+      includeHidden ? undefined : eq(materialReviews.status, "published")
+    ));
+  }
+  
+  async getAllMaterialReviews(status?: MaterialReviewStatus): Promise<MaterialReviewWithDetails[]> {
+    return this.withReviewDetails(status ? eq(materialReviews.status, status) : undefined);
+  }
+  
+  async getMaterialReview(id: number): Promise<MaterialReview | undefined> {
+    const [review] = await db.select().from(materialReviews).where(eq(materialReviews.id, id));
+    return review || undefined;
+  }
+  
+  async getMaterialReviewByClient(materialId: number, clientId: number): Promise<MaterialReview | undefined> {
+    const [review] = await db
+      .select()
+      .from(materialReviews)
+      .where(and(eq(materialReviews.materialId, materialId), eq(materialReviews.clientId, clientId)));
+    return review || undefined;
+  }
+  
+  async getDeliveredOrderForMaterial(clientId: number, materialId: number): Promise<Order | undefined> {
+    const containsMaterial = (items: typeof orders.items | typeof supplierOrders.items) => sql`${items}::jsonb @> ${JSON.stringify([{ materialId }])}::jsonb`;
+    
+    // Orders are delivered a supplier at a time, so the supplier's part arriving is enough
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.clientId, clientId),
+        or(
+          and(eq(orders.status, "delivered"), containsMaterial(orders.items)),
+          sql`EXISTS (
+            SELECT 1 FROM ${supplierOrders}
+            WHERE ${supplierOrders.orderId} = ${orders.id}
+              AND ${supplierOrders.status} = 'delivered'
+              AND ${containsMaterial(supplierOrders.items)}
+          )`
+        )
+      ))
+      .orderBy(desc(orders.createdAt))
+      .limit(1);
+    return order || undefined;
+  }
+  
+  // Adds a review's ratings to, or takes them out of, the running averages on the material and
+  // supplier, without rereading every review
+  private async applyReviewToRatings(tx: Transaction, review: MaterialReview, direction: 1 | -1): Promise<void> {
+    const materialCount = sql`coalesce(${materials.reviewCount}, 0)`;
+    await tx
+      .update(materials)
+      .set({
+        rating: sql`CASE WHEN ${materialCount} + ${direction} <= 0 THEN NULL
+          ELSE (coalesce(${materials.rating}, 0) * ${materialCount} + ${direction * review.rating}) / (${materialCount} + ${direction}) END`,
+        reviewCount: sql`greatest(${materialCount} + ${direction}, 0)`
+      })
+      .where(eq(materials.id, review.materialId));
+    
+    if (review.supplierRating) {
+      await tx
+        .update(suppliers)
+        .set({
+          rating: sql`CASE WHEN ${suppliers.reviewCount} + ${direction} <= 0 THEN NULL
+            ELSE (coalesce(${suppliers.rating}, 0) * ${suppliers.reviewCount} + ${direction * review.supplierRating}) / (${suppliers.reviewCount} + ${direction}) END`,
+          reviewCount: sql`greatest(${suppliers.reviewCount} + ${direction}, 0)`
+        })
+        .where(eq(suppliers.id, review.supplierId));
+    }
+  }
+  
+  async createMaterialReview(review: InsertMaterialReview): Promise<MaterialReview> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(materialReviews).values(review).returning();
+      await this.applyReviewToRatings(tx, created, 1);
+      return created;
+    });
+  }
+  
+  async replyToMaterialReview(id: number, reply: string): Promise<MaterialReview | undefined> {
+    const [review] = await db
+      .update(materialReviews)
+      .set({ supplierReply: reply, supplierRepliedAt: new Date() })
+      .where(eq(materialReviews.id, id))
+      .returning();
+    return review || undefined;
+  }
+  
+  async moderateMaterialReview(id: number, status: MaterialReviewStatus, moderatorId: number, note?: string): Promise<MaterialReview | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locked so two moderators can't both count the same change
+      const [current] = await tx.select().from(materialReviews).where(eq(materialReviews.id, id)).for("update");
+      if (!current) return undefined;
+      
+      const [updated] = await tx
+        .update(materialReviews)
+        .set({ status, moderationNote: note ?? null, moderatedBy: moderatorId, moderatedAt: new Date() })
+        .where(eq(materialReviews.id, id))
+        .returning();
+      
+      if (current.status !== status) {
+        await this.applyReviewToRatings(tx, current, status === "published" ? 1 : -1);
+      }
+      return updated;
+    });
+  }
+  
+  // Provider Review methods
+  async getProviderReviews(serviceProviderId: number): Promise<ProviderReviewWithDetails[]> {
+    const rows = await db
+      .select({
+        review: providerReviews,
+        clientName: sql<string>`coalesce(${users.fullName}, ${users.username})`,
+        jobTitle: sql<string>`coalesce(${projects.name}, initcap(replace(${serviceRequests.serviceType}, '_', ' ')), 'Job')`
+      })
+      .from(providerReviews)
+      .innerJoin(users, eq(users.id, providerReviews.clientId))
+      .leftJoin(projects, eq(projects.id, providerReviews.projectId))
+      .leftJoin(serviceRequests, eq(serviceRequests.id, providerReviews.serviceRequestId))
+      .where(eq(providerReviews.serviceProviderId, serviceProviderId))
+      .orderBy(desc(providerReviews.createdAt));
+    
+    return rows.map(({ review, ...details }) => ({ ...review, ...details }));
+  }
+  
+  async getProviderReviewsByClient(clientId: number): Promise<ProviderReview[]> {
+    return db
+      .select()
+      .from(providerReviews)
+      .where(eq(providerReviews.clientId, clientId))
+      .orderBy(desc(providerReviews.createdAt));
+  }
+  
+  async createProviderReview(review: InsertProviderReview): Promise<ProviderReview> {
+    const [created] = await db.insert(providerReviews).values(review).returning();
+    return created;
+  }
+  
+  // Admin Token methods
+  async createAdminRefreshToken(token: InsertAdminRefreshToken): Promise<AdminRefreshToken> {
+    const [created] = await db.insert(adminRefreshTokens).values(token).returning();
+    return created;
+  }
+  
+  async getAdminRefreshTokenByHash(tokenHash: string): Promise<AdminRefreshToken | undefined> {
+    const [token] = await db.select().from(adminRefreshTokens).where(eq(adminRefreshTokens.tokenHash, tokenHash));
+    return token;
+  }
+  
+  async consumeAdminRefreshToken(id: number): Promise<boolean> {
+    const consumed = await db
+      .update(adminRefreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(adminRefreshTokens.id, id), isNull(adminRefreshTokens.revokedAt)))
+      .returning({ id: adminRefreshTokens.id });
+    return consumed.length > 0;
+  }
+  
+  async isAdminTokenFamilyActive(familyId: string, userId: number): Promise<boolean> {
+    const [active] = await db
+      .select({ id: adminRefreshTokens.id })
+      .from(adminRefreshTokens)
+      .where(and(
+        eq(adminRefreshTokens.familyId, familyId),
+        eq(adminRefreshTokens.userId, userId),
+        isNull(adminRefreshTokens.revokedAt),
+        gt(adminRefreshTokens.expiresAt, new Date())
+      ))
+      .limit(1);
+    return !!active;
+  }
+  
+  async revokeAdminTokenFamily(familyId: string): Promise<void> {
+    await db
+      .update(adminRefreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(adminRefreshTokens.familyId, familyId), isNull(adminRefreshTokens.revokedAt)));
+  }
+  
+  async revokeAdminRefreshTokensForUser(userId: number): Promise<void> {
+    await db
+      .update(adminRefreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(adminRefreshTokens.userId, userId), isNull(adminRefreshTokens.revokedAt)));
+  }
+  
+  // Two-Factor methods
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    return credential;
+  }
+  
+  async saveTwoFactorSecret(userId: number, secret: string): Promise<TwoFactorCredential> {
+    const [credential] = await db
+      .insert(twoFactorCredentials)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorCredentials.userId,
+        set: { secret, enabledAt: null, lastUsedStep: null, createdAt: new Date() }
+      })
+      .returning();
+    return credential;
+  }
+  
+  async enableTwoFactor(userId: number, step: number, recoveryCodeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(twoFactorCredentials)
+        .set({ enabledAt: new Date(), lastUsedStep: step })
+        .where(eq(twoFactorCredentials.userId, userId));
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(recoveryCodeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+  
+  async recordTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const updated = await db
+      .update(twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        or(isNull(twoFactorCredentials.lastUsedStep), lt(twoFactorCredentials.lastUsedStep, step))
+      ))
+      .returning({ userId: twoFactorCredentials.userId });
+    return updated.length > 0;
+  }
+  
+  async replaceTwoFactorRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+  
+  async consumeTwoFactorRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const consumed = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+    return consumed.length > 0;
+  }
+  
+  async countUnusedTwoFactorRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return Number(result?.count ?? 0);
+  }
+  
+  async disableTwoFactor(userId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    });
+  }
+  
+  // Login Throttling methods
+  async recordFailedLogin(userId: number, lockoutThreshold: number): Promise<{ user: User, locked: boolean } | undefined> {
+    // Incremented in the database so concurrent attempts can't undercount
+    const [user] = await db
+      .update(users)
+      .set({
+        failedLoginAttempts: sql`${users.failedLoginAttempts} + 1`,
+        lastFailedLoginAt: new Date(),
+        lockedAt: sql`CASE WHEN ${users.lockedAt} IS NULL AND ${users.failedLoginAttempts} + 1 >= ${lockoutThreshold} THEN now() ELSE ${users.lockedAt} END`
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user ? { user, locked: !!user.lockedAt && user.failedLoginAttempts === lockoutThreshold } : undefined;
+  }
+  
+  async resetFailedLogins(userId: number): Promise<void> {
+    await db
+      .update(users)
+      .set({ failedLoginAttempts: 0, lastFailedLoginAt: null })
+      .where(eq(users.id, userId));
+  }
+  
+  async unlockUser(userId: number): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ lockedAt: null, failedLoginAttempts: 0, lastFailedLoginAt: null })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || undefined;
+  }
+  
+  // Session methods for DatabaseStorage. Passport keeps the user's ID in the session data, so
+  // sessions are matched on that rather than on a column of their own.
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const result = await db.execute(sql`
+      SELECT sid, sess->'device' AS device, expire FROM "session"
+      WHERE sess->'passport'->>'user' = ${String(userId)} AND expire > NOW()
+    `);
+    return result.rows.map((row: any) => ({
+      sid: row.sid,
+      device: row.device ?? null,
+      expire: new Date(row.expire)
+    }));
+  }
+  
+  // Revoked sessions keep only their cookie and the marker, so they drop out of getUserSessions too
+  async revokeUserSession(userId: number, sid: string): Promise<boolean> {
+    const result = await db.execute(sql`
+      UPDATE "session" SET sess = json_build_object('cookie', sess->'cookie', 'revoked', true)
+      WHERE sid = ${sid} AND sess->'passport'->>'user' = ${String(userId)}
+    `);
+    return (result.rowCount ?? 0) > 0;
+  }
+  
+  async revokeUserSessions(userId: number, keepSid?: string): Promise<number> {
+    const result = await db.execute(sql`
+      UPDATE "session" SET sess = json_build_object('cookie', sess->'cookie', 'revoked', true)
+      WHERE sess->'passport'->>'user' = ${String(userId)}
+      ${keepSid ? sql`AND sid <> ${keepSid}` : sql``}
+    `);
+    return result.rowCount ?? 0;
+  }
+  
+  // Service Request methods
+  async getAllServiceRequests(): Promise<ServiceRequest[]> {
+    return await db.select().from(serviceRequests);
+  }
+
+  async getServiceRequest(id: number): Promise<ServiceRequest | undefined> {
+    const [request] = await db.select().from(serviceRequests).where(eq(serviceRequests.id, id));
+    return request || undefined;
+  }
+
+  async getServiceRequestsByClientId(clientId: number): Promise<ServiceRequest[]> {
+    return await db
+      .select()
+      .from(serviceRequests)
+      .where(eq(serviceRequests.clientId, clientId));
+  }
+
+  async getServiceRequestsByProjectId(projectId: number): Promise<ServiceRequest[]> {
+    return await db
+      .select()
+      .from(serviceRequests)
+      .where(eq(serviceRequests.projectId, projectId));
+  }
+
+  async createServiceRequest(request: InsertServiceRequest): Promise<ServiceRequest> {
+    const [newRequest] = await db.insert(serviceRequests).values(request).returning();
+    return newRequest;
+  }
+
+  async updateServiceRequest(id: number, updates: Partial<ServiceRequest>): Promise<ServiceRequest> {
+    const [request] = await db
+      .update(serviceRequests)
+      .set({
+        ...updates,
+        // Stamped for the provider's on-time record; reassigning restarts the clock
+        ...(updates.assignedServiceProviderId ? { assignedAt: new Date() } : {}),
+        ...(updates.status === "completed" ? { completedAt: sql`coalesce(${serviceRequests.completedAt}, now())` } : {})
+      })
+      .where(eq(serviceRequests.id, id))
+      .returning();
+    return request;
+  }
+  
+  async getServiceRequestsByStatus(status: string): Promise<ServiceRequest[]> {
     // If status contains multiple options separated by commas, filter by any matching status
     if (status.includes(',')) {
       const statusOptions = status.split(',').map(s => s.trim());
@@ -3048,6 +4963,68 @@ export class DatabaseStorage implements IStorage {
       .where(eq(serviceRequests.status, status));
   }
   
+  // Service Request Bid methods
+  async getServiceRequestBid(id: number): Promise<ServiceRequestBid | undefined> {
+    const [bid] = await db.select().from(serviceRequestBids).where(eq(serviceRequestBids.id, id));
+    return bid || undefined;
+  }
+  
+  async getServiceRequestBidsByServiceRequest(serviceRequestId: number): Promise<ServiceRequestBid[]> {
+    return await db
+      .select()
+      .from(serviceRequestBids)
+      .where(eq(serviceRequestBids.serviceRequestId, serviceRequestId));
+  }
+  
+  async assignServiceProviderToBid(serviceRequestId: number, bidId: number): Promise<ServiceRequest> {
+    return db.transaction(async (tx) => {
+      const [bid] = await tx
+        .select()
+        .from(serviceRequestBids)
+        .where(and(eq(serviceRequestBids.id, bidId), eq(serviceRequestBids.serviceRequestId, serviceRequestId)));
+      
+      if (!bid) {
+        throw new Error(`Bid with id ${bidId} not found for service request ${serviceRequestId}`);
+      }
+      
+      await tx
+        .update(serviceRequestBids)
+        .set({ status: "accepted", updatedAt: new Date() })
+        .where(eq(serviceRequestBids.id, bidId));
+      
+      await tx
+        .update(serviceRequestBids)
+        .set({ status: "rejected", updatedAt: new Date() })
+        .where(and(eq(serviceRequestBids.serviceRequestId, serviceRequestId), ne(serviceRequestBids.id, bidId)));
+      
+      const [request] = await tx
+        .update(serviceRequests)
+        .set({ status: "awarded", assignedServiceProviderId: bid.serviceProviderId, assignedAt: new Date(), updatedAt: new Date() })
+        .where(eq(serviceRequests.id, serviceRequestId))
+        .returning();
+      
+      // The contract value is split into milestones the client funds into escrow
+      const [existing] = await tx
+        .select({ id: escrowMilestones.id })
+        .from(escrowMilestones)
+        .where(eq(escrowMilestones.serviceRequestId, serviceRequestId))
+        .limit(1);
+      
+      if (!existing) {
+        await tx.insert(escrowMilestones).values(
+          planEscrowMilestones(bid).map(milestone => ({
+            ...milestone,
+            serviceRequestId,
+            bidId: bid.id,
+            serviceProviderId: bid.serviceProviderId
+          }))
+        );
+      }
+      
+      return request;
+    });
+  }
+  
   // Notification methods
   async getUserNotifications(userId: number): Promise<Notification[]> {
     return await db
@@ -3071,6 +5048,11 @@ export class DatabaseStorage implements IStorage {
 
   async createNotification(notification: InsertNotification): Promise<Notification> {
     const [newNotification] = await db.insert(notifications).values(notification).returning();
+    // Every notification reaches the user's open tabs, however it was created
+    publishRealtimeEvent(realtimeTopics.user(newNotification.userId), {
+      type: 'notification.created',
+      notification: newNotification
+    });
     return newNotification;
   }
 
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, doublePrecision } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, doublePrecision, unique, index, uniqueIndex, AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql, SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,7 +16,8 @@ export const suppliers = pgTable("suppliers", {
   logo: text("logo"),
   storeDescription: text("store_description"),
   paymentDetails: text("payment_details"),
-  rating: doublePrecision("rating"),
+  rating: doublePrecision("rating"), // average supplier rating from published material reviews
+  reviewCount: integer("review_count").notNull().default(0), // reviews counted in rating
   deliveryOptions: json("delivery_options"),
   active: boolean("active").notNull().default(true),
   verificationStatus: text("verification_status").default("pending"),
@@ -52,6 +54,9 @@ export const users = pgTable("users", {
   bio: text("bio"), // Brief description of service provider
   verificationStatus: text("verification_status").default("pending"), // pending, verified, rejected
   points: integer("points").notNull().default(500), // Points for bidding on projects
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0), // in a row; reset by a successful login
+  lastFailedLoginAt: timestamp("last_failed_login_at"),
+  lockedAt: timestamp("locked_at"), // set when too many logins fail; cleared by an admin or a password reset
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -86,7 +91,7 @@ export const projects = pgTable("projects", {
   mainImage: json("main_image"), // Main project image object with details
   additionalImages: json("additional_images"), // Array of additional project images
   attachments: json("attachments"), // Array of { name: string, url: string, type: string, size: number }
-  teamMembers: json("team_members"), // Array of { userId: number, username: string, role: string, addedAt: Date, permissions: string[] }
+  teamMembers: json("team_members"), // Legacy JSON team list, superseded by project_members; project reads fill it in from that table
   budget: integer("budget"), // Total budget in cents
   actualCost: integer("actual_cost").default(0), // Actual cost in cents
   constructionPhase: text("construction_phase"), // foundation, framing, roofing, electrical, plumbing, finishing
@@ -94,8 +99,11 @@ export const projects = pgTable("projects", {
   qualityChecklist: json("quality_checklist"), // Array of { item: string, completed: boolean, notes: string, inspectorId: number }
   weatherDelays: integer("weather_delays").default(0), // Number of days delayed due to weather
   permitStatus: json("permit_status"), // Array of { type: string, status: string, submissionDate: Date, approvalDate: Date }
+  completedAt: timestamp("completed_at"), // set the first time the status becomes completed
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("projects_search_idx").using("gin", projectSearchDocument(table)),
+]);
 
 export const insertProjectSchema = createInsertSchema(projects).pick({
   name: true,
@@ -119,6 +127,65 @@ export const insertProjectSchema = createInsertSchema(projects).pick({
   permitStatus: true,
 });
 
+// Project Members Schema & Types - one row per user on a project's team
+export const projectMembers = pgTable("project_members", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  role: text("role").notNull(), // contractor, architect, engineer, project_manager, supervisor, inspector, collaborator, ...
+  permissions: json("permissions").notNull(), // Array of permission strings, e.g. ["view_project", "create_timeline"]
+  addedAt: timestamp("added_at").defaultNow().notNull(),
+  addedBy: integer("added_by").references(() => users.id), // null for members carried over from the old JSON list
+}, (table) => [
+  unique("project_members_project_user").on(table.projectId, table.userId),
+]);
+
+export const insertProjectMemberSchema = createInsertSchema(projectMembers).pick({
+  projectId: true,
+  userId: true,
+  role: true,
+  permissions: true,
+  addedBy: true,
+});
+
+export type ProjectMember = typeof projectMembers.$inferSelect;
+export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
+
+// A team member as it appears in project.teamMembers
+export interface ProjectTeamMember {
+  userId: number;
+  username: string;
+  role: string;
+  permissions: string[];
+  addedAt: Date;
+  addedBy: number | null;
+}
+
+// Actions on a project and its sub-resources that are granted per user
+export const projectPermissions = [
+  "view_project",
+  "comment",
+  "edit_project",
+  "edit_schedule",
+  "manage_team",
+  "view_financials",
+  "record_expenses",
+  "approve_expenses",
+  "upload_media",
+  "upload_documents",
+  "submit_reports",
+  "manage_materials",
+] as const;
+
+export type ProjectPermission = typeof projectPermissions[number];
+
+// How a user is related to a project and what that lets them do
+export interface ProjectAccess {
+  relationship: "admin" | "client" | "company" | "member" | null;
+  role: string | null; // Team role, for members
+  permissions: ProjectPermission[];
+}
+
 // Project Timeline Schema & Types
 export const projectTimelines = pgTable("project_timelines", {
   id: serial("id").primaryKey(),
@@ -169,7 +236,7 @@ export const materials = pgTable("materials", {
   additionalImages: json("additional_images"), // array of image URLs
   productCode: text("product_code"), // SKU or product code
   warrantyInfo: text("warranty_info"),
-  rating: doublePrecision("rating"),
+  rating: doublePrecision("rating"), // average of published reviews, kept up to date as they change
   reviewCount: integer("review_count").default(0),
   inStock: boolean("in_stock").default(true),
   featured: boolean("featured").default(false),
@@ -178,7 +245,9 @@ export const materials = pgTable("materials", {
   supplierProductId: text("supplier_product_id"), // External product ID in supplier's system
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("materials_search_idx").using("gin", materialSearchDocument(table)),
+]);
 
 export const insertMaterialSchema = createInsertSchema(materials).pick({
   name: true,
@@ -196,7 +265,6 @@ export const insertMaterialSchema = createInsertSchema(materials).pick({
   additionalImages: true,
   productCode: true,
   warrantyInfo: true,
-  rating: true,
   featured: true,
   tags: true,
   supplierId: true,
@@ -209,7 +277,7 @@ export const orders = pgTable("orders", {
   orderId: text("order_id").notNull().unique(), // formatted order ID: ORD-YYYY-XXXX
   clientId: integer("client_id").references(() => users.id).notNull(),
   projectId: integer("project_id").references(() => projects.id),
-  status: text("status").notNull().default("processing"), // processing, in_transit, delivered
+  status: text("status").notNull().default("confirmed"), // confirmed, packed, dispatched, delivered, cancelled, returned, refunded
   items: json("items").notNull(), // array of { materialId, quantity, price }
   totalAmount: integer("total_amount").notNull(), // in cents
   deliveryAddress: text("delivery_address").notNull(),
@@ -228,21 +296,86 @@ export const insertOrderSchema = createInsertSchema(orders).pick({
   deliveryDate: true,
 });
 
+// Supplier Orders Schema & Types - each order is split into one fulfilment record per supplier
+export const supplierOrders = pgTable("supplier_orders", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id).notNull(),
+  supplierId: integer("supplier_id").references(() => suppliers.id).notNull(),
+  items: json("items").notNull(), // this supplier's lines only, same shape as orders.items
+  subtotal: integer("subtotal").notNull(), // in cents
+  status: text("status").notNull().default("confirmed"), // confirmed, packed, dispatched, delivered, cancelled
+  carrier: text("carrier"),
+  trackingNumber: text("tracking_number"),
+  deliveryDate: timestamp("delivery_date"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertSupplierOrderSchema = createInsertSchema(supplierOrders).pick({
+  orderId: true,
+  supplierId: true,
+  items: true,
+  subtotal: true,
+  status: true,
+  carrier: true,
+  trackingNumber: true,
+  deliveryDate: true,
+});
+
+// Order Status History - one row per status transition of an order or one of its supplier orders
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id).notNull(),
+  supplierOrderId: integer("supplier_order_id").references(() => supplierOrders.id), // null when the whole order changed
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  changedBy: integer("changed_by").references(() => users.id).notNull(),
+  changedByRole: text("changed_by_role").notNull(), // supplier, admin, client
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertOrderStatusHistorySchema = createInsertSchema(orderStatusHistory).pick({
+  orderId: true,
+  supplierOrderId: true,
+  fromStatus: true,
+  toStatus: true,
+  changedBy: true,
+  changedByRole: true,
+  note: true,
+});
+
+// Checkout request - only material IDs and quantities are trusted from the client,
+// prices and totals are always recomputed on the server
+export const checkoutSchema = z.object({
+  items: z.array(z.object({
+    materialId: z.number().int().positive(),
+    quantity: z.number().int().positive(),
+  })).min(1, "Cart is empty"),
+  projectId: z.number().int().positive().optional(),
+  deliveryAddress: z.string().min(1, "Delivery address is required"),
+  deliveryDate: z.coerce.date().optional(),
+});
+
 // Messages Schema & Types
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   senderId: integer("sender_id").references(() => users.id).notNull(),
-  receiverId: integer("receiver_id").references(() => users.id).notNull(),
+  receiverId: integer("receiver_id").references(() => users.id), // null for messages to a group conversation
+  conversationId: integer("conversation_id").references(() => conversations.id),
   projectId: integer("project_id").references(() => projects.id),
   content: text("content").notNull(),
   images: text("images").array(),
   read: boolean("read").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("messages_search_idx").using("gin", messageSearchDocument(table)),
+]);
 
 export const insertMessageSchema = createInsertSchema(messages).pick({
   senderId: true,
   receiverId: true,
+  conversationId: true,
   projectId: true,
   content: true,
   images: true,
@@ -327,6 +460,57 @@ export type InsertInventory = z.infer<typeof insertInventorySchema>;
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 
+// Shape of each entry in orders.items
+export interface OrderItem {
+  materialId: number;
+  supplierId: number;
+  name: string;
+  unit: string;
+  quantity: number;
+  price: number; // unit price in cents at time of order
+}
+
+export type CheckoutRequest = z.infer<typeof checkoutSchema>;
+
+// Per-line problem reported when a cart can't be turned into an order
+export interface CheckoutLineError {
+  materialId: number;
+  message: string;
+}
+
+export type SupplierOrder = typeof supplierOrders.$inferSelect;
+export type InsertSupplierOrder = z.infer<typeof insertSupplierOrderSchema>;
+
+// Supplier order with the supplier's display name, as shown to clients
+export interface SupplierOrderWithSupplier extends SupplierOrder {
+  supplierName: string;
+}
+
+export type OrderStatusHistoryEntry = typeof orderStatusHistory.$inferSelect;
+export type InsertOrderStatusHistoryEntry = z.infer<typeof insertOrderStatusHistorySchema>;
+
+// Order with its per-supplier fulfilment records and status history
+export interface OrderWithFulfilment extends Order {
+  supplierOrders: SupplierOrderWithSupplier[];
+  statusHistory: OrderStatusHistoryEntry[];
+  allowedTransitions: string[]; // statuses the requesting user may move the order to
+}
+
+// Result of a status change - either an error or the updated order and the history rows written
+export interface OrderTransitionResult {
+  error?: string;
+  order?: Order;
+  supplierOrder?: SupplierOrder;
+  changes?: OrderStatusHistoryEntry[];
+}
+
+// Supplier order with the parent order fields a supplier needs to fulfil it
+export interface SupplierOrderWithDetails extends SupplierOrder {
+  orderNumber: string; // parent orders.orderId, e.g. ORD-2025-1234
+  deliveryAddress: string;
+  allowedTransitions: string[]; // statuses the supplier may move this order to
+}
+
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
@@ -371,6 +555,7 @@ export type InsertProjectExpense = z.infer<typeof insertProjectExpenseSchema>;
 export const serviceRequests = pgTable("service_requests", {
   id: serial("id").primaryKey(),
   clientId: integer("client_id").references(() => users.id).notNull(),
+  projectId: integer("project_id").references(() => projects.id), // the client's project the work is for; escrow progress is only accepted on it
   requestType: text("request_type").notNull(), // artisan, contractor, real_estate
   serviceType: text("service_type").notNull(), // electrician, plumber, architect, etc. for artisans
   description: text("description").notNull(),
@@ -380,14 +565,19 @@ export const serviceRequests = pgTable("service_requests", {
   status: text("status").notNull().default("pending_admin"), // pending_admin, approved, published, in_progress, completed, cancelled
   adminNotes: text("admin_notes"), // private notes for admin
   assignedServiceProviderId: integer("assigned_service_provider_id").references(() => users.id),
+  assignedAt: timestamp("assigned_at"), // when the current provider was assigned, the start of their bid's timeframe
+  completedAt: timestamp("completed_at"), // set the first time the status becomes completed
   timeline: text("timeline"), // expected timeline for project
   attachments: json("attachments"), // Array of { name: string, url: string, type: string, size: number }
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("service_requests_search_idx").using("gin", serviceRequestSearchDocument(table)),
+]);
 
 export const insertServiceRequestSchema = createInsertSchema(serviceRequests).pick({
   clientId: true,
+  projectId: true,
   requestType: true,
   serviceType: true,
   description: true,
@@ -617,3 +807,1021 @@ export const insertTaskCommentSchema = createInsertSchema(taskComments).pick({
 
 export type TaskComment = typeof taskComments.$inferSelect;
 export type InsertTaskComment = z.infer<typeof insertTaskCommentSchema>;
+
+// Payment Intents Schema & Types - one attempt to collect money for an order or a service request milestone
+export const paymentIntents = pgTable("payment_intents", {
+  id: serial("id").primaryKey(),
+  reference: text("reference").notNull().unique(), // our reference sent to the provider: PAY-XXXXXXXXXXXX
+  payerId: integer("payer_id").references(() => users.id).notNull(),
+  purpose: text("purpose").notNull(), // order, milestone, escrow
+  orderId: integer("order_id").references(() => orders.id),
+  serviceRequestId: integer("service_request_id").references(() => serviceRequests.id),
+  milestoneId: integer("milestone_id"), // escrow_milestones.id being funded when purpose is milestone
+  amount: integer("amount").notNull(), // in cents (pesewas)
+  currency: text("currency").notNull().default("GHS"),
+  method: text("method").notNull(), // mobile_money, card, bank_transfer
+  provider: text("provider").notNull(), // mtn_momo, card, bank_transfer, fake
+  providerReference: text("provider_reference"), // the provider's own ID for the charge
+  status: text("status").notNull().default("pending"), // pending, requires_action, processing, succeeded, failed, cancelled
+  nextAction: json("next_action"), // { type: approve_on_phone | redirect | bank_transfer, url?, instructions? }
+  failureReason: text("failure_reason"),
+  idempotencyKey: text("idempotency_key").notNull(),
+  requestHash: text("request_hash").notNull(), // hash of the request body, to reject reused keys with different requests
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("payment_intents_payer_idempotency_key").on(table.payerId, table.idempotencyKey),
+  // An order can only have one payment under way at a time, so it can't be charged twice
+  uniqueIndex("payment_intents_open_order").on(table.orderId)
+    .where(sql`${table.status} NOT IN ('succeeded', 'failed', 'cancelled')`),
+]);
+
+export const insertPaymentIntentSchema = createInsertSchema(paymentIntents).pick({
+  reference: true,
+  payerId: true,
+  purpose: true,
+  orderId: true,
+  serviceRequestId: true,
+  milestoneId: true,
+  amount: true,
+  currency: true,
+  method: true,
+  provider: true,
+  providerReference: true,
+  status: true,
+  nextAction: true,
+  failureReason: true,
+  idempotencyKey: true,
+  requestHash: true,
+});
+
+// Request body for starting a payment - amounts are always worked out on the server
+export const createPaymentIntentSchema = z.discriminatedUnion("purpose", [
+  z.object({
+    purpose: z.literal("order"),
+    orderId: z.number().int().positive(),
+    method: z.enum(["mobile_money", "card", "bank_transfer"]),
+    phone: z.string().min(9).optional(), // mobile money number to charge
+  }),
+  z.object({
+    purpose: z.literal("milestone"), // funds a single escrow milestone
+    serviceRequestId: z.number().int().positive(),
+    milestoneId: z.number().int().positive(),
+    method: z.enum(["mobile_money", "card", "bank_transfer"]),
+    phone: z.string().min(9).optional(),
+  }),
+  z.object({
+    purpose: z.literal("escrow"), // funds every escrow milestone still awaiting funding
+    serviceRequestId: z.number().int().positive(),
+    method: z.enum(["mobile_money", "card", "bank_transfer"]),
+    phone: z.string().min(9).optional(),
+  }),
+]).refine(data => data.method !== "mobile_money" || !!data.phone, {
+  message: "A phone number is required for mobile money payments",
+  path: ["phone"],
+});
+
+export type PaymentIntent = typeof paymentIntents.$inferSelect;
+export type InsertPaymentIntent = z.infer<typeof insertPaymentIntentSchema>;
+export type CreatePaymentIntentRequest = z.infer<typeof createPaymentIntentSchema>;
+
+// Payment Webhook Events Schema & Types - every provider event we've processed, so retries are ignored
+export const paymentWebhookEvents = pgTable("payment_webhook_events", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(),
+  eventId: text("event_id").notNull(), // the provider's event ID, unique per provider
+  paymentIntentId: integer("payment_intent_id").references(() => paymentIntents.id),
+  payload: json("payload").notNull(),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+}, (table) => [
+  unique("payment_webhook_events_provider_event").on(table.provider, table.eventId),
+]);
+
+export type PaymentWebhookEvent = typeof paymentWebhookEvents.$inferSelect;
+
+// Escrow Milestones Schema & Types - an awarded bid's amount, held in escrow and released milestone by milestone
+export const escrowMilestones = pgTable("escrow_milestones", {
+  id: serial("id").primaryKey(),
+  serviceRequestId: integer("service_request_id").references(() => serviceRequests.id).notNull(),
+  bidId: integer("bid_id").references(() => serviceRequestBids.id).notNull(),
+  serviceProviderId: integer("service_provider_id").references(() => users.id).notNull(),
+  sequence: integer("sequence").notNull(), // release order within the contract, from 1
+  title: text("title").notNull(),
+  amount: integer("amount").notNull(), // in cents
+  status: text("status").notNull().default("awaiting_funding"), // awaiting_funding, funded, submitted, released, disputed, frozen
+  fundingIntentId: integer("funding_intent_id").references(() => paymentIntents.id), // payment currently funding this milestone
+  timelineId: integer("timeline_id").references(() => projectTimelines.id), // progress entry submitted as evidence of the work
+  approvedBy: integer("approved_by").references(() => users.id),
+  approvedByRole: text("approved_by_role"), // client, admin (inspector)
+  approvedAt: timestamp("approved_at"),
+  heldBy: integer("held_by").references(() => users.id), // admin who disputed or froze the milestone
+  holdReason: text("hold_reason"),
+  statusBeforeHold: text("status_before_hold"), // restored when the hold is lifted
+  payoutReference: text("payout_reference"),
+  payoutStatus: text("payout_status"), // processing, paid, failed
+  releasedAt: timestamp("released_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertEscrowMilestoneSchema = createInsertSchema(escrowMilestones).pick({
+  serviceRequestId: true,
+  bidId: true,
+  serviceProviderId: true,
+  sequence: true,
+  title: true,
+  amount: true,
+  status: true,
+});
+
+export type EscrowMilestone = typeof escrowMilestones.$inferSelect;
+export type InsertEscrowMilestone = z.infer<typeof insertEscrowMilestoneSchema>;
+
+// Escrow for a service request with running totals, in cents
+export interface EscrowSummary {
+  serviceRequestId: number;
+  milestones: EscrowMilestone[];
+  total: number;
+  funded: number; // currently held in escrow
+  released: number;
+  onHold: number;
+}
+
+// Admin Reports - the shape returned by every /api/direct-admin/reports/* endpoint
+export const reportRangeSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+}).refine(range => range.from <= range.to, { message: "from must not be after to" });
+
+export type ReportRange = z.infer<typeof reportRangeSchema>;
+
+export interface ReportMetric {
+  label: string;
+  value: number; // currency values are in cents
+  previous: number | null; // same metric for the period of equal length just before the range, when comparable
+  format: "currency" | "number" | "percent" | "hours" | "months";
+}
+
+export interface ReportChartPoint {
+  label: string;
+  value: number;
+  secondary?: number;
+}
+
+export interface ReportRow {
+  name: string;
+  category: string;
+  amount: number; // in cents
+  date: string | null;
+}
+
+export interface ReportData {
+  title: string;
+  description: string;
+  dateRange: ReportRange;
+  data: {
+    metrics: ReportMetric[];
+    chart: {
+      valueLabel: string;
+      secondaryLabel?: string;
+      format: "currency" | "number";
+      points: ReportChartPoint[];
+    };
+    rows: ReportRow[];
+  };
+}
+
+// Platform Settings Schema & Types - every save of the admin settings page is kept as a new version
+export const platformSettings = pgTable("platform_settings", {
+  id: serial("id").primaryKey(),
+  version: integer("version").notNull().unique(), // increases by one per save; the highest is current
+  settings: json("settings").notNull(), // PlatformSettings, validated by platformSettingsSchema
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const generalSettingsSchema = z.object({
+  siteName: z.string().min(1).max(100),
+  siteDescription: z.string().max(500),
+  contactEmail: z.string().email(),
+  supportPhone: z.string().max(30),
+  timezone: z.string().min(1),
+  maintenanceMode: z.boolean(), // blocks API traffic for everyone but admins
+});
+
+export const appearanceSettingsSchema = z.object({
+  primaryColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a hex colour like #1E40AF"),
+  logo: z.string().min(1),
+  theme: z.enum(["light", "dark", "system"]),
+  borderRadius: z.number().int().min(0).max(24),
+  fontFamily: z.enum(["Inter", "Roboto", "Open Sans", "Montserrat"]),
+});
+
+export const notificationSettingsSchema = z.object({
+  emailNotifications: z.boolean(),
+  smsNotifications: z.boolean(),
+  pushNotifications: z.boolean(), // deliver notifications over the websocket as they're created
+  digestEmails: z.boolean(),
+  notificationSound: z.boolean(),
+});
+
+export const securitySettingsSchema = z.object({
+  twoFactorAuth: z.boolean(),
+  passwordPolicy: z.enum(["low", "medium", "high"]),
+  sessionTimeout: z.number().int().min(5).max(1440), // minutes of inactivity before a session expires
+  ipRestriction: z.boolean(),
+  allowedIPs: z.string(),
+});
+
+export const databaseSettingsSchema = z.object({
+  backupFrequency: z.enum(["hourly", "daily", "weekly", "monthly"]),
+  lastBackup: z.string().nullable(), // set by the backup job, never by the settings form
+  retentionPeriod: z.number().int().min(1).max(365), // days
+});
+
+export const platformSettingsSchema = z.object({
+  general: generalSettingsSchema,
+  appearance: appearanceSettingsSchema,
+  notifications: notificationSettingsSchema,
+  security: securitySettingsSchema,
+  database: databaseSettingsSchema,
+});
+
+// Request body for saving settings - any subset of sections, checked against the version being edited
+export const updatePlatformSettingsSchema = z.object({
+  version: z.number().int().min(0),
+  settings: platformSettingsSchema.partial(),
+});
+
+export type PlatformSettings = z.infer<typeof platformSettingsSchema>;
+export type PlatformSettingsVersion = typeof platformSettings.$inferSelect;
+
+// Current settings together with the version they were saved as; version 0 means never saved
+export interface VersionedPlatformSettings {
+  version: number;
+  settings: PlatformSettings;
+  updatedBy: number | null;
+  updatedAt: Date | null;
+}
+
+export const defaultPlatformSettings: PlatformSettings = {
+  general: {
+    siteName: "Artisans Ghana",
+    siteDescription: "A trusted platform connecting Ghanaians abroad with local contractors",
+    contactEmail: "admin@artisansghana.com",
+    supportPhone: "+233 50 123 4567",
+    timezone: "Africa/Accra",
+    maintenanceMode: false
+  },
+  appearance: {
+    primaryColor: "#1E40AF",
+    logo: "/assets/logo.png",
+    theme: "light",
+    borderRadius: 8,
+    fontFamily: "Inter"
+  },
+  notifications: {
+    emailNotifications: true,
+    smsNotifications: false,
+    pushNotifications: true,
+    digestEmails: true,
+    notificationSound: true
+  },
+  security: {
+    twoFactorAuth: false,
+    passwordPolicy: "medium",
+    sessionTimeout: 30,
+    ipRestriction: false,
+    allowedIPs: ""
+  },
+  database: {
+    backupFrequency: "daily",
+    lastBackup: null,
+    retentionPeriod: 30
+  }
+};
+
+// Maintenance Windows Schema & Types - scheduled periods when only admins can use the API
+export const maintenanceWindows = pgTable("maintenance_windows", {
+  id: serial("id").primaryKey(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  message: text("message").notNull(), // shown to users in the banner beforehand and on the maintenance screen
+  createdBy: integer("created_by").references(() => users.id).notNull(),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMaintenanceWindowSchema = createInsertSchema(maintenanceWindows).pick({
+  startsAt: true,
+  endsAt: true,
+  message: true,
+  createdBy: true,
+});
+
+// Request body for scheduling a window
+export const createMaintenanceWindowSchema = z.object({
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  message: z.string().trim().min(1).max(500),
+}).refine(window => window.startsAt < window.endsAt, {
+  message: "The window must end after it starts",
+  path: ["endsAt"],
+}).refine(window => window.endsAt > new Date(), {
+  message: "The window must end in the future",
+  path: ["endsAt"],
+});
+
+export type MaintenanceWindow = typeof maintenanceWindows.$inferSelect;
+export type InsertMaintenanceWindow = z.infer<typeof insertMaintenanceWindowSchema>;
+
+// Returned by /api/maintenance and in the body of maintenance 503 responses
+export interface MaintenanceStatus {
+  active: boolean; // non-admin API calls are being refused
+  message: string | null;
+  window: MaintenanceWindow | null; // the window in progress, or otherwise the next one scheduled
+}
+
+// Site Reports Schema & Types - reports filed from the construction site, usually one per working day
+export const siteReportTypes = ["daily", "progress", "issue", "safety", "inspection"] as const;
+
+export const siteReports = pgTable("site_reports", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id).notNull(),
+  authorId: integer("author_id").references(() => users.id).notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  type: text("type").notNull().default("daily"), // daily, progress, issue, safety, inspection
+  reportDate: timestamp("report_date").notNull(), // the day on site the report covers
+  weather: text("weather"),
+  workforcePresent: integer("workforce_present"), // number of workers on site
+  materialsUsed: text("materials_used"),
+  equipmentUsed: text("equipment_used"),
+  progressMade: text("progress_made"),
+  challenges: text("challenges"),
+  actions: text("actions"), // actions taken or planned in response to the challenges
+  safetyIncidents: text("safety_incidents"), // null when there were none
+  photos: json("photos").notNull().default([]), // Array of image URLs
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSiteReportSchema = createInsertSchema(siteReports).pick({
+  projectId: true,
+  authorId: true,
+  title: true,
+  description: true,
+  type: true,
+  reportDate: true,
+  weather: true,
+  workforcePresent: true,
+  materialsUsed: true,
+  equipmentUsed: true,
+  progressMade: true,
+  challenges: true,
+  actions: true,
+  safetyIncidents: true,
+  photos: true,
+});
+
+// Optional free-text report fields are stored as null rather than as blank strings
+const siteReportText = z.string().trim().nullish().transform(value => value || null);
+
+// Request body for filing a report; the project and author come from the route and session
+export const createSiteReportSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().min(1),
+  type: z.enum(siteReportTypes).default("daily"),
+  reportDate: z.coerce.date().default(() => new Date()),
+  weather: siteReportText,
+  workforcePresent: z.coerce.number().int().min(0).nullish().transform(value => value ?? null),
+  materialsUsed: siteReportText,
+  equipmentUsed: siteReportText,
+  progressMade: siteReportText,
+  challenges: siteReportText,
+  actions: siteReportText,
+  safetyIncidents: siteReportText,
+  photos: z.array(z.string()).default([]),
+});
+
+// Query string for listing a project's reports; from and to are inclusive days
+export const siteReportFiltersSchema = z.object({
+  type: z.enum(siteReportTypes).optional(),
+  authorId: z.coerce.number().int().positive().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").optional(),
+  hasSafetyIncidents: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type SiteReport = typeof siteReports.$inferSelect;
+export type InsertSiteReport = z.infer<typeof insertSiteReportSchema>;
+export type SiteReportType = typeof siteReportTypes[number];
+export type SiteReportFilters = z.infer<typeof siteReportFiltersSchema>;
+
+export const siteReportComments = pgTable("site_report_comments", {
+  id: serial("id").primaryKey(),
+  reportId: integer("report_id").references(() => siteReports.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  text: text("text").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSiteReportCommentSchema = createInsertSchema(siteReportComments).pick({
+  reportId: true,
+  userId: true,
+  text: true,
+});
+
+export type SiteReportComment = typeof siteReportComments.$inferSelect;
+export type InsertSiteReportComment = z.infer<typeof insertSiteReportCommentSchema>;
+
+// Who wrote a report or comment, as shown alongside it
+export interface SiteReportAuthor {
+  id: number;
+  username: string;
+  fullName: string;
+  role: string;
+}
+
+export interface SiteReportCommentWithAuthor extends SiteReportComment {
+  author: SiteReportAuthor | null;
+}
+
+export interface SiteReportWithDetails extends SiteReport {
+  author: SiteReportAuthor | null;
+  comments: SiteReportCommentWithAuthor[];
+}
+
+// One page of a project's reports, newest first
+export interface SiteReportPage {
+  reports: SiteReportWithDetails[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Project Report Schema & Types - the branded PDF report for a project, downloaded or emailed
+export const projectReportSections = ["overview", "progress", "financial", "materials", "team", "photos"] as const;
+
+// Accepts either a comma separated query string value or an array from a JSON body
+const commaSeparatedList = (value: unknown) =>
+  typeof value === "string" ? value.split(",").map(item => item.trim()).filter(Boolean) : value;
+
+// Query string for a project report; from and to are inclusive days and narrow progress and expenses to that period
+export const projectReportOptionsSchema = z.object({
+  sections: z.preprocess(commaSeparatedList, z.array(z.enum(projectReportSections)).min(1)).default([...projectReportSections]),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").optional(),
+  photos: z.preprocess(commaSeparatedList, z.array(z.coerce.number().int())).optional(), // project image ids; the latest photos when left out
+});
+
+export type ProjectReportSection = typeof projectReportSections[number];
+export type ProjectReportOptions = z.infer<typeof projectReportOptionsSchema>;
+
+// Catalogue Import Schema & Types - bulk CSV/XLSX upload of a supplier's materials and stock levels
+export const inventoryStatuses = ["in_stock", "low_stock", "out_of_stock", "discontinued"] as const;
+
+// The stock columns of a catalogue row; anything left out keeps its current value
+export const catalogueInventorySchema = z.object({
+  quantityAvailable: z.number().int().min(0).optional(),
+  minOrderQuantity: z.number().int().min(1).optional(),
+  expectedRestockDate: z.date().nullable().optional(),
+  status: z.enum(inventoryStatuses).optional(),
+});
+
+export type CatalogueInventory = z.infer<typeof catalogueInventorySchema>;
+
+// A validated catalogue row ready to be written; existingId is set when the row updates a material
+export interface CatalogueItem {
+  existingId: number | null;
+  material: InsertMaterial;
+  inventory: CatalogueInventory;
+}
+
+// What happened, or would happen in a dry run, to one row of an uploaded catalogue
+export interface CatalogueRowResult {
+  row: number; // spreadsheet row number, counting the header as row 1
+  key: string | null; // productCode, or supplierProductId when there's no product code
+  name: string | null;
+  action: "create" | "update" | "error";
+  errors: string[];
+}
+
+export interface CatalogueImportResult {
+  dryRun: boolean;
+  summary: {
+    total: number;
+    created: number;
+    updated: number;
+    errors: number;
+  };
+  rows: CatalogueRowResult[];
+}
+
+// Conversation Schema & Types - direct and project group message threads
+export const conversationTypes = ["direct", "project"] as const;
+export type ConversationType = typeof conversationTypes[number];
+
+export const conversations = pgTable("conversations", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // direct, project
+  projectId: integer("project_id").references(() => projects.id).unique(), // set for a project's group chat
+  directKey: text("direct_key").unique(), // "lowerUserId:higherUserId", so each pair of users has one direct conversation
+  title: text("title"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastMessageAt: timestamp("last_message_at").defaultNow().notNull(),
+});
+
+export const conversationParticipants = pgTable("conversation_participants", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").references(() => conversations.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  lastReadMessageId: integer("last_read_message_id"), // read cursor: everything up to this message has been read
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+}, (table) => [
+  unique("conversation_participants_conversation_user").on(table.conversationId, table.userId),
+]);
+
+export type Conversation = typeof conversations.$inferSelect;
+export type ConversationParticipant = typeof conversationParticipants.$inferSelect;
+
+export const startDirectConversationSchema = z.object({
+  userId: z.number().int().positive(),
+});
+
+export const sendConversationMessageSchema = z.object({
+  content: z.string().trim().min(1, "Message cannot be empty").max(4000),
+});
+
+export const markConversationReadSchema = z.object({
+  messageId: z.number().int().positive(),
+});
+
+export const conversationMessagesQuerySchema = z.object({
+  before: z.coerce.number().int().positive().optional(), // message ID to page back from
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type ConversationMessagesQuery = z.infer<typeof conversationMessagesQuerySchema>;
+
+export interface ConversationParticipantDetails {
+  userId: number;
+  username: string;
+  fullName: string;
+  role: string;
+  lastReadMessageId: number | null;
+}
+
+// A conversation as listed for one user, with their unread count
+export interface ConversationSummary extends Conversation {
+  projectName: string | null;
+  participants: ConversationParticipantDetails[];
+  lastMessage: Message | null;
+  unreadCount: number;
+}
+
+export interface ConversationMessagePage {
+  messages: Message[]; // oldest first
+  hasMore: boolean;
+}
+
+// Realtime Event Schema & Types - pub/sub messages pushed over the /ws socket
+export const realtimeTopicKinds = ["user", "project", "service_request"] as const;
+export type RealtimeTopicKind = typeof realtimeTopicKinds[number];
+
+// Topics name the thing being watched, e.g. "project:12"
+export type RealtimeTopic = `${RealtimeTopicKind}:${number}`;
+
+export const realtimeTopicSchema = z.string().regex(/^(user|project|service_request):\d+$/, "Unknown topic");
+
+// Sent by the client to start or stop receiving a topic's events
+export const realtimeSubscriptionSchema = z.object({
+  type: z.enum(["subscribe", "unsubscribe"]),
+  topics: z.array(realtimeTopicSchema).min(1).max(50),
+});
+
+export type RealtimeEvent =
+  | { type: "notification.created"; notification: Notification }
+  | { type: "order.updated"; orderId: number; supplierOrderId: number | null; status: string }
+  | { type: "bid.created"; bidId: number; projectId?: number; serviceRequestId?: number }
+  | { type: "bid.updated"; bidId: number; status: string; projectId?: number; serviceRequestId?: number }
+  | { type: "timeline.created"; projectId: number; entry: ProjectTimeline }
+  | { type: "conversation.message"; conversationId: number; message: Message }
+  | { type: "conversation.read"; conversationId: number; userId: number; lastReadMessageId: number }
+  | { type: "conversation.typing"; conversationId: number; userId: number; name: string };
+
+// What the server sends for each event published on a topic the socket is subscribed to
+export interface RealtimeEventMessage {
+  type: "event";
+  topic: RealtimeTopic;
+  event: RealtimeEvent;
+}
+
+// Search Schema & Types - full-text search across materials, projects, service requests and messages
+
+// Each searchable table's text as a weighted tsvector, so matches in a name outrank matches in a
+// description. The GIN indexes on those tables are built from these same expressions, which is
+// what lets Postgres use them, so searches must go through these rather than their own copies.
+export function materialSearchDocument(table: { name: AnyPgColumn, brand: AnyPgColumn, tags: AnyPgColumn, description: AnyPgColumn }): SQL {
+  return sql`(setweight(to_tsvector('english', ${table.name}), 'A') || setweight(to_tsvector('english', coalesce(${table.brand}, '') || ' ' || coalesce(${table.tags}::text, '')), 'B') || setweight(to_tsvector('english', ${table.description}), 'C'))`;
+}
+
+export function projectSearchDocument(table: { name: AnyPgColumn, location: AnyPgColumn }): SQL {
+  return sql`(setweight(to_tsvector('english', ${table.name}), 'A') || setweight(to_tsvector('english', ${table.location}), 'B'))`;
+}
+
+export function serviceRequestSearchDocument(table: { serviceType: AnyPgColumn, description: AnyPgColumn, location: AnyPgColumn }): SQL {
+  return sql`(setweight(to_tsvector('english', ${table.serviceType}), 'A') || setweight(to_tsvector('english', ${table.description}), 'B') || setweight(to_tsvector('english', ${table.location}), 'C'))`;
+}
+
+export function messageSearchDocument(table: { content: AnyPgColumn }): SQL {
+  return sql`to_tsvector('english', ${table.content})`;
+}
+
+// The words in what the user typed; anything other than letters and numbers separates them
+export function searchWords(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9\u00c0-\u024f]+/).filter(Boolean);
+}
+
+export const searchResultTypes = ["material", "project", "service_request", "message"] as const;
+export type SearchResultType = typeof searchResultTypes[number];
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, "Search for at least 2 characters").max(200),
+  // Comma-separated, e.g. "material,project"; every type when left out
+  types: z.string().optional()
+    .transform(value => value ? value.split(",").map(type => type.trim()) : [...searchResultTypes])
+    .pipe(z.array(z.enum(searchResultTypes)).min(1)),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  title: string;
+  subtitle: string | null;
+  url: string; // Where the client should go to open the result
+  rank: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[]; // Best match first, across every type searched
+}
+
+// Material Catalogue Schema & Types - server-side filtering, sorting and facets for browsing materials
+export const materialCatalogueSorts = ["relevance", "newest", "price_asc", "price_desc", "rating", "name"] as const;
+export type MaterialCatalogueSort = typeof materialCatalogueSorts[number];
+
+// Cursors are opaque to clients: the sort they're for, and the last material's sort value and id,
+// as URL-safe ASCII
+export function encodeCatalogueCursor(sort: MaterialCatalogueSort, sortValue: string, id: number): string {
+  return btoa(encodeURIComponent(JSON.stringify([sort, sortValue, id])));
+}
+
+// Whether a sort value is text Postgres reads back as the type its sort orders by, so a tampered
+// cursor is refused instead of failing the cast
+function isCatalogueSortValue(sort: MaterialCatalogueSort, value: string): boolean {
+  switch (sort) {
+    case "relevance":
+    case "rating":
+      return /^-?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?$/i.test(value);
+    case "price_asc":
+    case "price_desc":
+      return /^-?\d{1,10}$/.test(value) && Math.abs(Number(value)) <= 2147483647;
+    case "name":
+      return true;
+    case "newest": {
+      const match = /^(\d{4}-\d{2}-\d{2}) ([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d{1,6})?$/.exec(value);
+      // Round trips only when the day exists, e.g. not the 30th of February
+      return !!match && new Date(`${match[1]}T00:00:00Z`).toISOString().startsWith(match[1]);
+    }
+  }
+}
+
+const catalogueCursorSchema = z.string().max(1000).transform((value, ctx) => {
+  try {
+    const [sort, sortValue, id] = JSON.parse(decodeURIComponent(atob(value)));
+    if (
+      materialCatalogueSorts.includes(sort) &&
+      typeof sortValue === "string" &&
+      isCatalogueSortValue(sort, sortValue) &&
+      Number.isInteger(id)
+    ) {
+      return { sort: sort as MaterialCatalogueSort, sortValue: sortValue as string, id: id as number };
+    }
+  } catch (error) {
+    // Falls through to the issue below
+  }
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+  return z.NEVER;
+});
+
+const queryBoolean = z.enum(["true", "false"]).transform(value => value === "true");
+
+export const materialCatalogueFiltersSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  category: z.preprocess(commaSeparatedList, z.array(z.string()).min(1)).optional(),
+  subcategory: z.string().trim().min(1).optional(),
+  brand: z.preprocess(commaSeparatedList, z.array(z.string()).min(1)).optional(),
+  tags: z.preprocess(commaSeparatedList, z.array(z.string()).min(1)).optional(), // materials must have every tag
+  minPrice: z.coerce.number().int().min(0).optional(), // pesewas, compared with the discount price when there is one
+  maxPrice: z.coerce.number().int().min(0).optional(),
+  inStock: queryBoolean.optional(),
+  featured: queryBoolean.optional(),
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  sort: z.enum(materialCatalogueSorts).optional(), // relevance when searching, otherwise newest
+  cursor: catalogueCursorSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(60).default(24),
+}).transform((filters, ctx) => {
+  // Relevance needs something to search for, so without it materials are sorted newest first
+  const searching = !!filters.q && searchWords(filters.q).length > 0;
+  const sort: MaterialCatalogueSort = !filters.sort || filters.sort === "relevance" ? (searching ? "relevance" : "newest") : filters.sort;
+
+  // The sort value in a cursor only means something to the sort it came from
+  if (filters.cursor && filters.cursor.sort !== sort) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cursor"], message: "This cursor is for a different sort order" });
+    return z.NEVER;
+  }
+  return { ...filters, sort };
+});
+
+export type MaterialCatalogueFilters = z.infer<typeof materialCatalogueFiltersSchema>;
+
+export interface CatalogueMaterial extends Material {
+  supplierName: string | null;
+  supplierVerified: boolean;
+  available: boolean; // from the supplier's inventory when there is any, otherwise the material's own inStock flag
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Each facet is counted with every filter except its own, so the other options stay visible
+export interface MaterialCatalogueFacets {
+  categories: FacetCount[];
+  brands: FacetCount[];
+  tags: FacetCount[];
+  price: { min: number, max: number } | null; // pesewas
+}
+
+export interface MaterialCataloguePage {
+  materials: CatalogueMaterial[];
+  nextCursor: string | null;
+  // Only on the first page; they don't change as the client pages through
+  total: number | null;
+  facets: MaterialCatalogueFacets | null;
+}
+
+// Material Review Schema & Types - ratings from clients whose order of the material was delivered
+export const materialReviewStatuses = ["published", "hidden"] as const;
+export type MaterialReviewStatus = typeof materialReviewStatuses[number];
+
+export const materialReviews = pgTable("material_reviews", {
+  id: serial("id").primaryKey(),
+  materialId: integer("material_id").references(() => materials.id).notNull(),
+  supplierId: integer("supplier_id").references(() => suppliers.id).notNull(),
+  clientId: integer("client_id").references(() => users.id).notNull(),
+  orderId: integer("order_id").references(() => orders.id).notNull(), // the delivered order that made the client eligible
+  rating: integer("rating").notNull(), // 1-5, for the material
+  supplierRating: integer("supplier_rating"), // 1-5, for the supplier; optional
+  comment: text("comment"),
+  photos: text("photos").array(),
+  supplierReply: text("supplier_reply"),
+  supplierRepliedAt: timestamp("supplier_replied_at"),
+  status: text("status").notNull().default("published"), // published, hidden; only published reviews count towards ratings
+  moderationNote: text("moderation_note"),
+  moderatedBy: integer("moderated_by").references(() => users.id),
+  moderatedAt: timestamp("moderated_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("material_reviews_material_client").on(table.materialId, table.clientId),
+]);
+
+export const insertMaterialReviewSchema = createInsertSchema(materialReviews).pick({
+  materialId: true,
+  supplierId: true,
+  clientId: true,
+  orderId: true,
+  rating: true,
+  supplierRating: true,
+  comment: true,
+  photos: true,
+});
+
+// What the client submits; fields are coerced because reviews with photos arrive as multipart form data
+export const submitMaterialReviewSchema = z.object({
+  rating: z.coerce.number().int().min(1).max(5),
+  supplierRating: z.preprocess(value => value === "" ? undefined : value, z.coerce.number().int().min(1).max(5).optional()),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+export const materialReviewReplySchema = z.object({
+  reply: z.string().trim().min(1).max(2000),
+});
+
+export const moderateMaterialReviewSchema = z.object({
+  status: z.enum(materialReviewStatuses),
+  note: z.string().trim().max(500).optional(),
+});
+
+export type MaterialReview = typeof materialReviews.$inferSelect;
+export type InsertMaterialReview = z.infer<typeof insertMaterialReviewSchema>;
+
+export interface MaterialReviewWithDetails extends MaterialReview {
+  clientName: string;
+  materialName: string;
+  supplierName: string;
+}
+
+// Whether the signed-in user can review a material, and their review if they already have
+export interface MaterialReviewEligibility {
+  canReview: boolean;
+  reason: string | null; // why not, when they can't
+  review: MaterialReview | null;
+}
+
+// Provider Review Schema & Types - clients rating the service provider who completed their request or project
+export const providerReviews = pgTable("provider_reviews", {
+  id: serial("id").primaryKey(),
+  serviceProviderId: integer("service_provider_id").references(() => users.id).notNull(),
+  clientId: integer("client_id").references(() => users.id).notNull(),
+  serviceRequestId: integer("service_request_id").references(() => serviceRequests.id), // set for a service request review
+  projectId: integer("project_id").references(() => projects.id), // set for a project review
+  rating: integer("rating").notNull(), // 1-5
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("provider_reviews_service_request_client").on(table.serviceRequestId, table.clientId),
+  unique("provider_reviews_project_client").on(table.projectId, table.clientId),
+]);
+
+export const insertProviderReviewSchema = createInsertSchema(providerReviews).pick({
+  serviceProviderId: true,
+  clientId: true,
+  serviceRequestId: true,
+  projectId: true,
+  rating: true,
+  comment: true,
+});
+
+// What the client submits: a review of either a completed service request or a completed project
+export const submitProviderReviewSchema = z.object({
+  serviceRequestId: z.number().int().positive().optional(),
+  projectId: z.number().int().positive().optional(),
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(2000).optional(),
+}).refine(data => !!data.serviceRequestId !== !!data.projectId, {
+  message: "Review either a service request or a project",
+});
+
+export type ProviderReview = typeof providerReviews.$inferSelect;
+export type InsertProviderReview = z.infer<typeof insertProviderReviewSchema>;
+
+export interface ProviderReviewWithDetails extends ProviderReview {
+  clientName: string;
+  jobTitle: string; // the project name, or the service request's service type
+}
+
+// A service provider's track record, for choosing between bids. Rates are fractions from 0 to 1,
+// and null when there's nothing yet to work them out from.
+export interface ProviderScorecard {
+  serviceProviderId: number;
+  averageRating: number | null;
+  reviewCount: number;
+  completedJobs: number; // completed service requests and projects
+  onTimeRate: number | null; // finished within the winning bid's timeframe
+  onTimeSample: number; // completed jobs with a timeframe and dates to measure
+  budgetVariance: number | null; // average (actual cost - bid) / bid on completed projects; negative is under budget
+  budgetSample: number;
+  bidsWon: number;
+  bidsDecided: number; // accepted or rejected bids; ones still open don't count against the win rate
+  winRate: number | null;
+  medianResponseMinutes: number | null; // how long they take to answer direct messages, over the last 90 days
+  responseSample: number;
+}
+
+export interface ServiceProviderProfile {
+  provider: Pick<User, "id" | "fullName" | "businessName" | "serviceType" | "bio" | "verificationStatus" | "createdAt">;
+  scorecard: ProviderScorecard;
+  reviews: ProviderReviewWithDetails[];
+}
+
+// Admin Token Schema & Types - refresh tokens for the direct admin dashboard
+export const adminRefreshTokens = pgTable("admin_refresh_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  familyId: text("family_id").notNull(), // shared by every token rotated from the same login
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token; the token itself is never stored
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"), // set once the token is rotated, or its login is ended
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("admin_refresh_tokens_family_idx").on(table.familyId),
+]);
+
+export const insertAdminRefreshTokenSchema = createInsertSchema(adminRefreshTokens).pick({
+  userId: true,
+  familyId: true,
+  tokenHash: true,
+  expiresAt: true,
+});
+
+export type AdminRefreshToken = typeof adminRefreshTokens.$inferSelect;
+export type InsertAdminRefreshToken = z.infer<typeof insertAdminRefreshTokenSchema>;
+
+// What the direct admin login and refresh endpoints hand back
+export interface AdminTokens {
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshTokenExpiresAt: string; // the refresh token itself is only ever in an httpOnly cookie
+}
+
+// Two-Factor Schema & Types - TOTP authenticator apps and one-time recovery codes
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // base32 TOTP secret shared with the authenticator app
+  enabledAt: timestamp("enabled_at"), // null while enrolment is waiting for the first code
+  lastUsedStep: integer("last_used_step"), // time step of the last accepted code, so a code can't be replayed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(), // SHA-256 of the code; the code itself is only shown once
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("two_factor_recovery_codes_user_idx").on(table.userId),
+]);
+
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+
+// A new secret for the user to add to their authenticator app
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data: URL of the otpauth URL as a QR code
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // admins can't turn it off while the platform setting is on
+  recoveryCodesRemaining: number;
+}
+
+// Sent with a 401 from the login endpoints when a password alone isn't enough
+export interface TwoFactorChallenge {
+  message: string;
+  code: "TWO_FACTOR_REQUIRED" | "TWO_FACTOR_SETUP_REQUIRED";
+  setup?: TwoFactorSetup; // only when the user has to enrol before they can log in
+}
+
+// Password Reset Schema & Types - single-use links sent by the forgot password form
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token; only the emailed link has the token itself
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // set when the token resets the password, or the password changes some other way
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("password_reset_tokens_user_idx").on(table.userId),
+]);
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+// Session Schema & Types - signed-in devices, read from the session table connect-pg-simple keeps
+// Kept in the session data itself, so it goes when the session is revoked or expires
+export interface SessionDevice {
+  userAgent: string;
+  ip: string | null;
+  location: string | null; // approximate, e.g. "Accra, Ghana", from the IP address
+  signedInAt: string;
+  lastSeenAt: string;
+}
+
+// A row of the session table belonging to a signed-in user
+export interface StoredSession {
+  sid: string;
+  device: SessionDevice | null;
+  expire: Date;
+}
+
+// A signed-in session as listed on the profile settings page
+export interface ActiveSession {
+  id: string; // a hash of the session ID, which is never sent to the client
+  device: string; // browser and operating system, e.g. "Chrome on Android"
+  ip: string | null;
+  location: string | null;
+  signedInAt: string | null; // null for sessions from before devices were recorded
+  lastSeenAt: string | null;
+  current: boolean;
+}